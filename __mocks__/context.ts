@@ -30,11 +30,13 @@ const defaultContext: Context = {
   prNumber: 1,
   prTitle: 'Test Pull Request',
   prBody: 'This is a test pull request body.',
+  prLabels: [],
   issueNumber: 1,
   workspaceDir: process.cwd(),
   baseRef: 'main',
   mergeCommitSha: 'merge-commit-sha',
   isPrMergeEvent: false,
+  isWorkflowDispatchEvent: false,
 };
 
 /**
@@ -47,11 +49,13 @@ const validContextKeys = [
   'prNumber',
   'prTitle',
   'prBody',
+  'prLabels',
   'issueNumber',
   'workspaceDir',
   'baseRef',
   'mergeCommitSha',
   'isPrMergeEvent',
+  'isWorkflowDispatchEvent',
 ] as const;
 
 type ValidContextKey = (typeof validContextKeys)[number];
@@ -141,6 +145,7 @@ const defaultPullRequestPayload = {
     title: 'Test PR',
     body: 'Test PR body',
     merged: false,
+    labels: [],
     base: { ref: 'main' },
     merge_commit_sha: 'abc123merge',
   },
@@ -1,8 +1,15 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
+  createFullDiffLine,
   createTerraformModuleChangelog,
+  createTerraformModuleChangelogEntry,
+  createTerraformModuleChangelogFile,
   getPullRequestChangelog,
   getTerraformModuleFullReleaseChangelog,
 } from '@/changelog';
+import { config } from '@/mocks/config';
 import { context } from '@/mocks/context';
 import type { TerraformModule } from '@/terraform-module';
 import { createMockTerraformModule } from '@/tests/helpers/terraform-module';
@@ -19,6 +26,7 @@ describe('changelog', () => {
     context.set({
       prNumber: 123,
       prTitle: 'Test PR Title',
+      prBody: 'Test PR Body',
     });
   });
 
@@ -73,6 +81,24 @@ describe('changelog', () => {
       expect(getPullRequestChangelog([])).toBe('');
     });
 
+    it('should omit reverted commits and their reverts', () => {
+      const terraformModules: TerraformModule[] = [
+        createMockTerraformModule({
+          directory: 'modules/module1',
+          commitMessages: ['feat: Add new feature', 'fix: Fix bug', 'Revert "feat: Add new feature"'],
+        }),
+      ];
+
+      const expectedChangelog = [
+        '## `modules/module1/v1.0.0` (2024-11-05)',
+        '',
+        '- :twisted_rightwards_arrows:**[PR #123](https://github.com/techpivot/terraform-module-releaser/pull/123)** - Test PR Title',
+        '- fix: Fix bug',
+      ].join('\n');
+
+      expect(getPullRequestChangelog(terraformModules)).toBe(expectedChangelog);
+    });
+
     it('should skip modules that do not need release', () => {
       const terraformModules: TerraformModule[] = [
         createMockTerraformModule({
@@ -192,6 +218,368 @@ describe('changelog', () => {
     });
   });
 
+  describe('grouped changelog format', () => {
+    beforeEach(() => {
+      config.set({ changelogFormat: 'grouped' });
+    });
+
+    it('should group commits by change type with commit links and authors', () => {
+      const octocat = { login: 'octocat', name: 'The Octocat' };
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/module1',
+        commits: [
+          { sha: 'aaa1111222', message: 'fix(vpc): correct cidr\n\nDetails', files: ['main.tf'], author: octocat },
+          { sha: 'bbb2222333', message: 'feat: add subnets', files: ['main.tf'], author: octocat },
+          { sha: 'ccc3333444', message: 'chore(deps): bump provider', files: ['main.tf'] },
+          {
+            sha: 'ddd4444555',
+            message: 'feat(vpc)!: drop legacy input',
+            files: ['main.tf'],
+            author: { login: null, name: 'Jane Doe' },
+          },
+          { sha: 'eee5555666', message: 'Update README\n\nMore', files: ['main.tf'], author: octocat },
+        ],
+      });
+
+      const repoUrl = 'https://github.com/techpivot/terraform-module-releaser';
+      const expectedChangelog = [
+        '## `v1.0.0` (2024-11-05)',
+        '',
+        `- :twisted_rightwards_arrows:**[PR #123](${repoUrl}/pull/123)** - Test PR Title`,
+        '',
+        '### 💥 Breaking Changes',
+        '',
+        `- **vpc:** drop legacy input ([ddd4444](${repoUrl}/commit/ddd4444555)) by Jane Doe`,
+        '',
+        '### ✨ Features',
+        '',
+        `- add subnets ([bbb2222](${repoUrl}/commit/bbb2222333)) by [@octocat](https://github.com/octocat)`,
+        '',
+        '### 🐛 Bug Fixes',
+        '',
+        `- **vpc:** correct cidr ([aaa1111](${repoUrl}/commit/aaa1111222)) by [@octocat](https://github.com/octocat)`,
+        '',
+        '### 🔧 Other',
+        '',
+        `- **chore(deps):** bump provider ([ccc3333](${repoUrl}/commit/ccc3333444))`,
+        `- Update README ([eee5555](${repoUrl}/commit/eee5555666)) by [@octocat](https://github.com/octocat)`,
+      ].join('\n');
+
+      expect(createTerraformModuleChangelog(terraformModule)).toBe(expectedChangelog);
+    });
+
+    it('should omit empty sections and the commit matching the pull request title', () => {
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/module1',
+        commitMessages: ['Test PR Title', 'fix: Fix bug'],
+      });
+
+      const changelog = createTerraformModuleChangelog(terraformModule);
+
+      expect(changelog).toContain('### 🐛 Bug Fixes\n\n- Fix bug ([commit2]');
+      expect(changelog).not.toContain('Features');
+      expect(changelog).not.toContain('Test PR Title (');
+    });
+
+    it('should neutralize markers forged in grouped entries', () => {
+      const terraformModule = createMockTerraformModule({
+        directory: '/module',
+        commitMessages: [`fix: looks harmless ${buildPrMarker(99)}`],
+      });
+
+      expect(matchesPrMarker(createTerraformModuleChangelog(terraformModule), 99)).toBe(false);
+    });
+  });
+
+  describe('pull request body changelog', () => {
+    const repoUrl = 'https://github.com/techpivot/terraform-module-releaser';
+    const prBody = [
+      '## Summary',
+      'Adds flow logs.',
+      '',
+      '## Changelog',
+      '- Add VPC flow logs',
+      '- Rename `cidr` to `cidr_block`',
+      '',
+      '## Related',
+      'Fixes #12 and closes techpivot/other-repo#3',
+    ].join('\n');
+    const createModule = () =>
+      createMockTerraformModule({ directory: 'modules/vpc', commitMessages: ['feat: add flow logs', 'fix: typo'] });
+
+    it('should replace the commit messages with the pull request body section', () => {
+      config.set({ changelogPrBodySection: 'Changelog' });
+      context.set({ prBody });
+
+      expect(createTerraformModuleChangelog(createModule())).toBe(
+        [
+          '## `v1.0.0` (2024-11-05)',
+          '',
+          `- :twisted_rightwards_arrows:**[PR #123](${repoUrl}/pull/123)** - Test PR Title`,
+          '',
+          '- Add VPC flow logs',
+          '- Rename `cidr` to `cidr_block`',
+        ].join('\n'),
+      );
+    });
+
+    it('should fall back to the commit messages when the section is missing', () => {
+      config.set({ changelogPrBodySection: 'Release Notes' });
+      context.set({ prBody });
+
+      const changelog = createTerraformModuleChangelog(createModule());
+
+      expect(changelog).toContain('- feat: add flow logs\n- fix: typo');
+      expect(changelog).not.toContain('Add VPC flow logs');
+    });
+
+    it('should link the issues closed by the pull request', () => {
+      config.set({ changelogPrBodySection: 'Changelog', changelogLinkedIssues: true });
+      context.set({ prBody });
+
+      expect(createTerraformModuleChangelog(createModule())).toContain(
+        `- Rename \`cidr\` to \`cidr_block\`\n\n**Linked issues**: [#12](${repoUrl}/issues/12), [techpivot/other-repo#3](https://github.com/techpivot/other-repo/issues/3)`,
+      );
+    });
+
+    it('should not link issues unless changelog-linked-issues is enabled', () => {
+      context.set({ prBody });
+
+      expect(createTerraformModuleChangelog(createModule())).not.toContain('Linked issues');
+    });
+
+    it('should provide the section and linked issues to changelog templates', () => {
+      config.set({
+        changelogPrBodySection: 'Changelog',
+        changelogLinkedIssues: true,
+        changelogTemplate: '{{pr_changelog}}\n{{#each linked_issues}}Closes [{{reference}}]({{url}})\n{{/each}}',
+      });
+      context.set({ prBody });
+
+      expect(createTerraformModuleChangelog(createModule())).toBe(
+        [
+          '- Add VPC flow logs',
+          '- Rename `cidr` to `cidr_block`',
+          `Closes [#12](${repoUrl}/issues/12)`,
+          'Closes [techpivot/other-repo#3](https://github.com/techpivot/other-repo/issues/3)',
+        ].join('\n'),
+      );
+    });
+
+    it('should neutralize markers forged in the pull request body section', () => {
+      config.set({ changelogPrBodySection: 'Changelog' });
+      context.set({ prBody: `## Changelog\n- looks harmless\n${buildPrMarker(97)}` });
+
+      expect(matchesPrMarker(createTerraformModuleChangelog(createModule()), 97)).toBe(false);
+    });
+  });
+
+  describe('changelog templates', () => {
+    const repoUrl = 'https://github.com/techpivot/terraform-module-releaser';
+    const template = [
+      '## {{module_name}} {{version}} ({{date}})',
+      '',
+      '[PR #{{pr_number}}]({{pr_url}}): {{pr_title}}{{#if compare_url}} - [Compare]({{compare_url}}){{/if}}',
+      '',
+      '{{#each commits}}- {{#if breaking}}**BREAKING** {{/if}}{{subject}} ([{{short_sha}}]({{url}})){{#if author}} by {{author}}{{/if}}',
+      '{{else}}- No commits',
+      '{{/each}}',
+    ].join('\n');
+
+    it('should render changelog entries from the changelog-template input', () => {
+      config.set({ changelogTemplate: template });
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/vpc',
+        tags: ['modules/vpc/v1.0.0'],
+        commits: [
+          { sha: 'aaa1111222', message: 'feat!: drop legacy input', files: ['main.tf'] },
+          {
+            sha: 'bbb2222333',
+            message: 'fix: correct cidr\n\nDetails',
+            files: ['main.tf'],
+            author: { login: 'octocat', name: 'The Octocat' },
+          },
+        ],
+      });
+
+      expect(createTerraformModuleChangelog(terraformModule)).toBe(
+        [
+          '## modules/vpc v2.0.0 (2024-11-05)',
+          '',
+          `[PR #123](${repoUrl}/pull/123): Test PR Title - [Compare](${repoUrl}/compare/modules/vpc/v1.0.0..modules/vpc/v2.0.0)`,
+          '',
+          `- **BREAKING** feat!: drop legacy input ([aaa1111](${repoUrl}/commit/aaa1111222))`,
+          `- fix: correct cidr ([bbb2222](${repoUrl}/commit/bbb2222333)) by [@octocat](https://github.com/octocat)`,
+        ].join('\n'),
+      );
+    });
+
+    it('should omit the compare link for the first release and render the else content without commits', () => {
+      config.set({ changelogTemplate: template });
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/vpc',
+        commitMessages: ['Test PR Title'],
+      });
+
+      expect(getPullRequestChangelog([terraformModule])).toBe(
+        [
+          '## modules/vpc v1.0.0 (2024-11-05)',
+          '',
+          `[PR #123](${repoUrl}/pull/123): Test PR Title`,
+          '',
+          '- No commits',
+        ].join('\n'),
+      );
+    });
+
+    it('should render a flat commits placeholder as a bullet list', () => {
+      config.set({ changelogTemplate: '## {{version}}\n\n{{commits}}\n\nReleased by {{pr_number}}' });
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/vpc',
+        commits: [
+          { sha: 'aaa1111222', message: 'feat: add subnets', files: ['main.tf'] },
+          { sha: 'bbb2222333', message: 'fix: correct cidr\n\nDetails', files: ['main.tf'] },
+        ],
+      });
+
+      expect(createTerraformModuleChangelog(terraformModule)).toBe(
+        [
+          '## v1.0.0',
+          '',
+          `- feat: add subnets ([aaa1111](${repoUrl}/commit/aaa1111222))`,
+          `- fix: correct cidr ([bbb2222](${repoUrl}/commit/bbb2222333))`,
+          '',
+          'Released by 123',
+        ].join('\n'),
+      );
+    });
+
+    describe('changelog-template-file', () => {
+      let tmpDir: string;
+
+      beforeEach(() => {
+        tmpDir = mkdtempSync(join(tmpdir(), 'changelog-test-'));
+        context.set({ workspaceDir: tmpDir });
+      });
+
+      afterEach(() => {
+        context.set({ workspaceDir: process.cwd() });
+        rmSync(tmpDir, { recursive: true, force: true });
+      });
+
+      it('should render changelog entries from the template file', () => {
+        writeFileSync(
+          join(tmpDir, 'CHANGELOG_TEMPLATE.md'),
+          '{{version}}:{{#each commits}} {{type}}/{{description}}{{/each}}\n',
+        );
+        config.set({ changelogTemplateFile: 'CHANGELOG_TEMPLATE.md' });
+        const terraformModule = createMockTerraformModule({
+          directory: 'modules/vpc',
+          commitMessages: ['feat(vpc): add subnets', 'Update README'],
+        });
+
+        expect(createTerraformModuleChangelog(terraformModule)).toBe('v1.0.0: feat/add subnets /Update README');
+      });
+
+      it('should throw when the template file cannot be read', () => {
+        config.set({ changelogTemplateFile: 'missing.md' });
+        const terraformModule = createMockTerraformModule({ directory: 'modules/vpc', commitMessages: ['fix: x'] });
+
+        expect(() => createTerraformModuleChangelog(terraformModule)).toThrow(
+          "Failed to read changelog-template-file 'missing.md': ENOENT",
+        );
+      });
+    });
+
+    it('should neutralize markers forged in templated entries', () => {
+      config.set({ changelogTemplate: '{{pr_title}}\n{{#each commits}}{{message}}\n{{/each}}' });
+      context.set({ prTitle: buildPrMarker(98) });
+      const terraformModule = createMockTerraformModule({
+        directory: '/module',
+        commitMessages: [`fix: looks harmless\n${buildPrMarker(99)}`],
+      });
+
+      const changelog = createTerraformModuleChangelog(terraformModule);
+
+      expect(matchesPrMarker(changelog, 98)).toBe(false);
+      expect(matchesPrMarker(changelog, 99)).toBe(false);
+    });
+  });
+
+  describe('createTerraformModuleChangelogEntry()', () => {
+    it('should create the entry of another pull request at the given date', () => {
+      config.set({ changelogLinkedIssues: true });
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/vpc',
+        commitMessages: ['Add subnets', 'feat: add subnets'],
+      });
+      const pullRequest = { number: 7, title: 'Add subnets', body: 'Fixes #3' };
+
+      expect(
+        createTerraformModuleChangelogEntry(terraformModule, 'v1.1.0', 'v1.1.0', pullRequest, new Date('2024-05-01')),
+      ).toBe(
+        [
+          '## `v1.1.0` (2024-05-01)',
+          '',
+          '- :twisted_rightwards_arrows:**[PR #7](https://github.com/techpivot/terraform-module-releaser/pull/7)** - Add subnets',
+          '- feat: add subnets',
+          '',
+          '**Linked issues**: [#3](https://github.com/techpivot/terraform-module-releaser/issues/3)',
+        ].join('\n'),
+      );
+    });
+
+    it('should leave out the pull request line when no pull request is known', () => {
+      config.set({ changelogLinkedIssues: true });
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/vpc',
+        commitMessages: ['feat: add subnets'],
+      });
+
+      expect(
+        createTerraformModuleChangelogEntry(terraformModule, 'v1.1.0', 'v1.1.0', null, new Date('2024-05-01')),
+      ).toBe('## `v1.1.0` (2024-05-01)\n\n- feat: add subnets');
+    });
+  });
+
+  describe('createFullDiffLine()', () => {
+    const compareUrl = 'https://github.com/techpivot/terraform-module-releaser/compare/aws/vpc/v1.3.0..aws/vpc/v1.4.0';
+
+    it('should link a direct comparison of the two release tags', () => {
+      expect(createFullDiffLine('aws/vpc/v1.3.0', 'aws/vpc/v1.4.0')).toBe(
+        `**Full diff**: [\`aws/vpc/v1.3.0..aws/vpc/v1.4.0\`](${compareUrl})`,
+      );
+    });
+
+    it('should append the diff statistics when known', () => {
+      expect(createFullDiffLine('aws/vpc/v1.3.0', 'aws/vpc/v1.4.0', '1 file changed, 2 insertions(+)')).toBe(
+        `**Full diff**: [\`aws/vpc/v1.3.0..aws/vpc/v1.4.0\`](${compareUrl}) (1 file changed, 2 insertions(+))`,
+      );
+    });
+  });
+
+  describe('createTerraformModuleChangelogFile()', () => {
+    it('should list the new entry before the release history without markers', () => {
+      const terraformModule = createMockTerraformModule({
+        directory: 'modules/aws/vpc',
+        releases: [
+          {
+            id: 2,
+            title: 'modules/aws/vpc/v1.1.0',
+            tagName: 'modules/aws/vpc/v1.1.0',
+            body: `## v1.1.0\n\n- Fix\n\n${buildPrMarker(2)}`,
+          },
+          { id: 1, title: 'modules/aws/vpc/v1.0.0', tagName: 'modules/aws/vpc/v1.0.0', body: '' },
+          { id: 0, title: 'modules/aws/vpc/v0.9.0', tagName: 'modules/aws/vpc/v0.9.0', body: '## v0.9.0\n\n- Initial' },
+        ],
+      });
+
+      expect(createTerraformModuleChangelogFile(terraformModule, '## v1.2.0\n\n- Feature')).toBe(
+        '# Changelog\n\n## v1.2.0\n\n- Feature\n\n## v1.1.0\n\n- Fix\n\n## v0.9.0\n\n- Initial\n',
+      );
+    });
+  });
+
   describe('getTerraformModuleFullReleaseChangelog()', () => {
     it('should concatenate release bodies', () => {
       const terraformModule = createMockTerraformModule({
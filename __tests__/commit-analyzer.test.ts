@@ -2,14 +2,20 @@ import {
   MAX_COMMIT_MESSAGE_PARSE_LENGTH,
   REVERT_PATTERN,
   computeReleaseType,
+  describeCommitLintViolations,
   detectConventionalCommitReleaseType,
   detectKeywordReleaseType,
+  findRevertedCommits,
   higherPriorityReleaseType,
+  isNoReleaseCommit,
+  lintCommitMessages,
   parseConventionalCommit,
+  parseReleaseDirectives,
 } from '@/commit-analyzer';
 import { config } from '@/mocks/config';
+import { createMockTerraformModule } from '@/tests/helpers/terraform-module';
 import { RELEASE_TYPE } from '@/utils/constants';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 describe('commit-analyzer', () => {
   ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -25,6 +31,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'add new endpoint',
+          releaseAs: [],
         });
       });
 
@@ -35,6 +42,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'resolve null pointer',
+          releaseAs: [],
         });
       });
 
@@ -45,6 +53,7 @@ describe('commit-analyzer', () => {
           scope: 'api',
           breaking: false,
           description: 'add user endpoint',
+          releaseAs: [],
         });
       });
 
@@ -55,6 +64,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: true,
           description: 'drop Node 16 support',
+          releaseAs: [],
         });
       });
 
@@ -65,6 +75,7 @@ describe('commit-analyzer', () => {
           scope: 'auth',
           breaking: true,
           description: 'remove legacy OAuth flow',
+          releaseAs: [],
         });
       });
 
@@ -75,6 +86,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'update dependencies',
+          releaseAs: [],
         });
       });
 
@@ -85,6 +97,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'update README',
+          releaseAs: [],
         });
       });
 
@@ -95,6 +108,7 @@ describe('commit-analyzer', () => {
           scope: 'parser',
           breaking: false,
           description: 'simplify logic',
+          releaseAs: [],
         });
       });
 
@@ -105,6 +119,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'optimize query execution',
+          releaseAs: [],
         });
       });
 
@@ -115,6 +130,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'add unit tests for parser',
+          releaseAs: [],
         });
       });
 
@@ -125,6 +141,7 @@ describe('commit-analyzer', () => {
           scope: 'deps',
           breaking: false,
           description: 'bump typescript to 5.9',
+          releaseAs: [],
         });
       });
 
@@ -135,6 +152,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'add GitHub Actions workflow',
+          releaseAs: [],
         });
       });
 
@@ -145,6 +163,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'fix formatting',
+          releaseAs: [],
         });
       });
 
@@ -155,6 +174,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'undo last change',
+          releaseAs: [],
         });
       });
 
@@ -165,6 +185,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'uppercase type',
+          releaseAs: [],
         });
       });
 
@@ -175,6 +196,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'mixed case',
+          releaseAs: [],
         });
       });
 
@@ -195,6 +217,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'empty scope',
+          releaseAs: [],
         });
       });
 
@@ -205,6 +228,7 @@ describe('commit-analyzer', () => {
           scope: 'my-scope_v2',
           breaking: false,
           description: 'complex scope',
+          releaseAs: [],
         });
       });
 
@@ -215,6 +239,7 @@ describe('commit-analyzer', () => {
           scope: '@scope/pkg',
           breaking: false,
           description: 'add feature',
+          releaseAs: [],
         });
       });
 
@@ -225,6 +250,7 @@ describe('commit-analyzer', () => {
           scope: 'a.b.c',
           breaking: false,
           description: 'fix issue',
+          releaseAs: [],
         });
       });
     });
@@ -237,6 +263,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: true,
           description: 'new feature',
+          releaseAs: [],
         });
       });
 
@@ -247,6 +274,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: true,
           description: 'patch',
+          releaseAs: [],
         });
       });
 
@@ -257,6 +285,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: true,
           description: 'double breaking',
+          releaseAs: [],
         });
       });
 
@@ -281,6 +310,7 @@ describe('commit-analyzer', () => {
           scope: 'api',
           breaking: true,
           description: 'add endpoint',
+          releaseAs: [],
         });
       });
 
@@ -324,33 +354,57 @@ describe('commit-analyzer', () => {
       });
     });
 
+    describe('Release-As footers', () => {
+      it('should collect version pins from the footers', () => {
+        const result = parseConventionalCommit('feat: coordinated release\n\nRelease-As: kms=3.0.0');
+        expect(result?.releaseAs).toEqual([{ module: 'kms', version: '3.0.0' }]);
+      });
+
+      it('should not report skip directives as version pins', () => {
+        const result = parseConventionalCommit('chore: tidy\n\nRelease-As: none\nRelease-As: kms=none');
+        expect(result?.releaseAs).toEqual([]);
+      });
+
+      it('should find footers beyond the parse cap', () => {
+        const filler = 'x'.repeat(MAX_COMMIT_MESSAGE_PARSE_LENGTH);
+        const result = parseConventionalCommit(`feat: add endpoint\n\n${filler}\n\nRelease-As: 2.0.0`);
+        expect(result?.releaseAs).toEqual([{ module: null, version: '2.0.0' }]);
+      });
+    });
+
     describe('pathological and oversized messages', () => {
       it('should parse a long line without issue references quickly (issue-references regex disabled)', () => {
         // With the library-default issuePrefixes, the reference-parts regex took ~10 seconds on
         // this input; a regression re-enabling it shows up here as a test timeout.
         const result = parseConventionalCommit(`fix: y\n\n${' '.repeat(2_000)}y`);
-        expect(result).toEqual({ type: 'fix', scope: null, breaking: false, description: 'y' });
+        expect(result).toEqual({ type: 'fix', scope: null, breaking: false, description: 'y', releaseAs: [] });
       });
 
       it('should parse a message far beyond the parse cap quickly', () => {
         const result = parseConventionalCommit(`feat: x\n\n${' '.repeat(100_000)}y`);
-        expect(result).toEqual({ type: 'feat', scope: null, breaking: false, description: 'x' });
+        expect(result).toEqual({ type: 'feat', scope: null, breaking: false, description: 'x', releaseAs: [] });
       });
 
       it('should preserve a breaking-change footer that sits beyond the parse cap', () => {
         const filler = 'x'.repeat(MAX_COMMIT_MESSAGE_PARSE_LENGTH);
         const result = parseConventionalCommit(`feat(api): add endpoint\n\n${filler}\n\nBREAKING CHANGE: drop v1`);
-        expect(result).toEqual({ type: 'feat', scope: 'api', breaking: true, description: 'add endpoint' });
+        expect(result).toEqual({
+          type: 'feat',
+          scope: 'api',
+          breaking: true,
+          description: 'add endpoint',
+          releaseAs: [],
+        });
       });
 
       it('should preserve the header breaking indicator for oversized messages', () => {
         const result = parseConventionalCommit(`fix!: patch\n\n${'x'.repeat(MAX_COMMIT_MESSAGE_PARSE_LENGTH)}`);
-        expect(result).toEqual({ type: 'fix', scope: null, breaking: true, description: 'patch' });
+        expect(result).toEqual({ type: 'fix', scope: null, breaking: true, description: 'patch', releaseAs: [] });
       });
 
       it('should still parse messages containing issue references normally', () => {
         const result = parseConventionalCommit('fix: y\n\nFixes #123');
-        expect(result).toEqual({ type: 'fix', scope: null, breaking: false, description: 'y' });
+        expect(result).toEqual({ type: 'fix', scope: null, breaking: false, description: 'y', releaseAs: [] });
       });
     });
 
@@ -362,6 +416,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'first line',
+          releaseAs: [],
         });
       });
 
@@ -372,6 +427,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'handle edge case: null values in arrays',
+          releaseAs: [],
         });
       });
 
@@ -382,6 +438,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'better logging',
+          releaseAs: [],
         });
       });
 
@@ -392,6 +449,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: 'new version',
+          releaseAs: [],
         });
       });
 
@@ -402,6 +460,7 @@ describe('commit-analyzer', () => {
           scope: null,
           breaking: false,
           description: '',
+          releaseAs: [],
         });
       });
     });
@@ -531,6 +590,34 @@ describe('commit-analyzer', () => {
         expect(detectConventionalCommitReleaseType('Fix: mixed case')).toBe(RELEASE_TYPE.PATCH);
       });
     });
+
+    describe('configured commit types', () => {
+      const commitTypes = ['docs=none', 'perf=MINOR', 'feat(experimental)=patch', 'docs(api) = minor'];
+
+      it('should apply the level configured for the type', () => {
+        expect(detectConventionalCommitReleaseType('docs: fix typo', commitTypes)).toBe('none');
+        expect(detectConventionalCommitReleaseType('perf: faster lookups', commitTypes)).toBe(RELEASE_TYPE.MINOR);
+        expect(detectConventionalCommitReleaseType('Perf: faster lookups', commitTypes)).toBe(RELEASE_TYPE.MINOR);
+      });
+
+      it('should prefer entries for the type and scope over entries for the type', () => {
+        expect(detectConventionalCommitReleaseType('docs(API): describe outputs', commitTypes)).toBe(
+          RELEASE_TYPE.MINOR,
+        );
+        expect(detectConventionalCommitReleaseType('docs(readme): fix typo', commitTypes)).toBe('none');
+        expect(detectConventionalCommitReleaseType('feat(experimental): try it', commitTypes)).toBe(RELEASE_TYPE.PATCH);
+        expect(detectConventionalCommitReleaseType('feat(kms): add alias', commitTypes)).toBe(RELEASE_TYPE.MINOR);
+      });
+
+      it('should keep the default mapping for unmapped types', () => {
+        expect(detectConventionalCommitReleaseType('ci: cache providers', commitTypes)).toBe(RELEASE_TYPE.PATCH);
+        expect(detectConventionalCommitReleaseType('update readme', commitTypes)).toBeNull();
+      });
+
+      it('should always return major for breaking changes', () => {
+        expect(detectConventionalCommitReleaseType('docs!: drop the examples', commitTypes)).toBe(RELEASE_TYPE.MAJOR);
+      });
+    });
   });
 
   ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -675,6 +762,72 @@ describe('commit-analyzer', () => {
     });
   });
 
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // parseReleaseDirectives()
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  describe('parseReleaseDirectives()', () => {
+    it('should return no directives for ordinary messages', () => {
+      expect(parseReleaseDirectives('feat: add feature\n\nRefs: #123')).toEqual({
+        skipAll: false,
+        skipModules: [],
+        releaseAs: [],
+      });
+    });
+
+    it.each([
+      'chore: bump lockfile [skip release]',
+      'chore: bump lockfile [SKIP RELEASE]',
+      'chore: bump lockfile\n\nRelease-As: none',
+      'chore: bump lockfile\n\n  release-as:  NONE  ',
+    ])('should skip all modules for %j', (message) => {
+      expect(parseReleaseDirectives(message)).toEqual({ skipAll: true, skipModules: [], releaseAs: [] });
+    });
+
+    it('should collect module-scoped skip footers', () => {
+      const message = 'fix: shared tweak\n\nRelease-As: kms=none\nRelease-As: modules/vpc = none';
+
+      expect(parseReleaseDirectives(message)).toEqual({
+        skipAll: false,
+        skipModules: ['kms', 'modules/vpc'],
+        releaseAs: [],
+      });
+    });
+
+    it('should ignore Release-As text that does not start a line', () => {
+      expect(parseReleaseDirectives('docs: explain Release-As: none usage')).toEqual({
+        skipAll: false,
+        skipModules: [],
+        releaseAs: [],
+      });
+    });
+
+    it('should collect version pins', () => {
+      const message = 'feat: coordinated release\n\nRelease-As: 2.0.0\nRelease-As: kms = v3.0.0\nRelease-As: vpc=none';
+
+      expect(parseReleaseDirectives(message)).toEqual({
+        skipAll: false,
+        skipModules: ['vpc'],
+        releaseAs: [
+          { module: null, version: '2.0.0' },
+          { module: 'kms', version: 'v3.0.0' },
+        ],
+      });
+    });
+
+    it('should ignore Release-As footers without a module or version', () => {
+      expect(parseReleaseDirectives('Release-As:\nRelease-As: =3.0.0\nRelease-As: kms=')).toEqual({
+        skipAll: false,
+        skipModules: [],
+        releaseAs: [],
+      });
+    });
+
+    it('should return no directives for empty input', () => {
+      expect(parseReleaseDirectives('')).toEqual({ skipAll: false, skipModules: [], releaseAs: [] });
+    });
+  });
+
   ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
   // computeReleaseType()
   ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -744,6 +897,19 @@ describe('commit-analyzer', () => {
         expect(computeReleaseType(['tweak: adjust spacing'])).toBe(RELEASE_TYPE.PATCH);
         expect(computeReleaseType(['feat: not matched'])).toBeNull();
       });
+
+      it('should prefer an explicit semver config over the global config', () => {
+        const semverConfig = {
+          semverMode: 'conventional-commits' as const,
+          majorKeywords: [],
+          minorKeywords: [],
+          patchKeywords: [],
+          conventionalCommitTypes: [],
+        };
+
+        expect(computeReleaseType(['update configuration'])).toBeNull();
+        expect(computeReleaseType(['feat!: drop support'], semverConfig)).toBe(RELEASE_TYPE.MAJOR);
+      });
     });
 
     describe('conventional-commits mode', () => {
@@ -839,5 +1005,198 @@ describe('commit-analyzer', () => {
         expect(computeReleaseType(['', '   ', ''])).toBeNull();
       });
     });
+
+    describe('skip directives', () => {
+      it('should ignore messages that skip the release', () => {
+        config.set({ semverMode: 'conventional-commits' });
+        const messages = ['feat!: drop variable [skip release]', 'fix: typo'];
+
+        expect(computeReleaseType(messages)).toBe(RELEASE_TYPE.PATCH);
+      });
+
+      it('should return null when every message skips the release', () => {
+        const messages = ['feat: new feature\n\nRelease-As: none', 'chore: tidy [skip release]'];
+
+        expect(computeReleaseType(messages)).toBeNull();
+      });
+    });
+
+    describe('configured commit types', () => {
+      it('should ignore messages of a type mapped to none', () => {
+        config.set({ semverMode: 'conventional-commits', conventionalCommitTypes: ['docs=none', 'ci=none'] });
+
+        expect(computeReleaseType(['docs: fix typo', 'fix: typo'])).toBe(RELEASE_TYPE.PATCH);
+        expect(computeReleaseType(['docs: fix typo', 'ci: cache providers'])).toBeNull();
+      });
+    });
+
+    it('should not pair reverts, which callers leave out by commit hash', () => {
+      config.set({ semverMode: 'keywords' });
+      const messages = ['fix: typo', 'feat: new input', 'Revert "feat: new input"\n\nThis reverts commit abc1234.'];
+
+      expect(computeReleaseType(messages)).toBe(RELEASE_TYPE.MINOR);
+    });
+  });
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // isNoReleaseCommit()
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  describe('isNoReleaseCommit()', () => {
+    beforeEach(() => {
+      config.set({ semverMode: 'conventional-commits', conventionalCommitTypes: ['docs=none'] });
+    });
+
+    it('should return true for commits of a type mapped to none', () => {
+      expect(isNoReleaseCommit('docs: fix typo')).toBe(true);
+      expect(isNoReleaseCommit('fix: typo')).toBe(false);
+      expect(isNoReleaseCommit('docs!: drop the examples')).toBe(false);
+      expect(isNoReleaseCommit('update readme')).toBe(false);
+    });
+
+    it('should return false in keywords mode', () => {
+      config.set({ semverMode: 'keywords' });
+
+      expect(isNoReleaseCommit('docs: fix typo')).toBe(false);
+    });
+  });
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // findRevertedCommits()
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  describe('findRevertedCommits()', () => {
+    const commit = (sha: string, message: string) => ({ sha, message, files: ['main.tf'] });
+
+    it('should pair a revert with its target by commit hash', () => {
+      const target = commit('abc1234def', 'feat!: drop the legacy API');
+      const revert = commit('987fed6cba', 'Revert "feat!: remove legacy API"\n\nThis reverts commit abc1234.');
+
+      expect(findRevertedCommits([commit('111aaaa', 'fix: typo'), target, revert])).toEqual([{ target, revert }]);
+    });
+
+    it('should pair a revert with its target by header when the hash does not match', () => {
+      const target = commit('abc1234def', 'feat!: drop the legacy API\n\nDetails');
+      const revert = commit('987fed6cba', 'Revert "feat!: drop the legacy API"\n\nThis reverts commit fff9999.');
+
+      expect(findRevertedCommits([target, revert])).toEqual([{ target, revert }]);
+    });
+
+    it('should not pair reverts of commits that are not among the commits', () => {
+      const revert = commit('987fed6cba', 'Revert "feat: old feature"\n\nThis reverts commit fff9999.');
+
+      expect(findRevertedCommits([commit('abc1234def', 'fix: typo'), revert])).toEqual([]);
+    });
+
+    it('should pair the most recent matching commit once', () => {
+      const first = commit('aaa1111111', 'feat: add input');
+      const second = commit('bbb2222222', 'feat: add input');
+      const revert = commit('ccc3333333', 'Revert "feat: add input"\n\nThis reverts commit .');
+
+      expect(findRevertedCommits([first, second, revert])).toEqual([{ target: second, revert }]);
+    });
+
+    it('should reinstate a commit when its revert is reverted', () => {
+      const target = commit('aaa1111111', 'feat: add input');
+      const revert = commit('bbb2222222', 'Revert "feat: add input"\n\nThis reverts commit aaa1111111.');
+      const reapply = commit('ccc3333333', 'Revert "Revert "feat: add input""\n\nThis reverts commit bbb2222222.');
+
+      expect(findRevertedCommits([target, revert, reapply])).toEqual([{ target: revert, revert: reapply }]);
+    });
+
+    it('should reinstate a commit when it is reapplied', () => {
+      const target = commit('aaa1111111', 'feat: add input');
+      const revert = commit('bbb2222222', 'revert: feat: add input');
+      const reapply = commit('ccc3333333', 'Reapply "feat: add input"\n\nThis reverts commit bbb2222222.');
+
+      expect(findRevertedCommits([target, revert, reapply])).toEqual([{ target: revert, revert: reapply }]);
+    });
+  });
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // lintCommitMessages()
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  describe('lintCommitMessages()', () => {
+    const commits = [
+      { sha: 'abc1234def', message: 'feat: add subnets', files: ['main.tf'] },
+      { sha: 'bcd2345efa', message: 'wip', files: ['main.tf'] },
+      { sha: 'cde3456fab', message: "Merge branch 'main' into feature", files: ['main.tf'] },
+      { sha: 'def4567abc', message: 'Revert "feat: add subnets"\n\nThis reverts commit abc1234def.', files: [] },
+      { sha: 'efa5678bcd', message: 'Update variables.tf', files: ['variables.tf'] },
+    ];
+
+    const createModule = (directory: string, moduleCommits = commits) =>
+      createMockTerraformModule({ directory, commits: moduleCommits });
+
+    beforeEach(() => {
+      config.set({ semverMode: 'conventional-commits', semverSource: 'commits', commitLint: 'warn' });
+    });
+
+    it('should return null when the lint is disabled or in keywords mode', () => {
+      const modules = [createModule('/workspace/modules/vpc')];
+
+      config.set({ commitLint: 'off' });
+      expect(lintCommitMessages(commits, 'wip', modules)).toBeNull();
+
+      config.set({ commitLint: 'error', semverMode: 'keywords' });
+      expect(lintCommitMessages(commits, 'wip', modules)).toBeNull();
+    });
+
+    it('should find the commits and pull request title that are not conventional commits', () => {
+      expect(lintCommitMessages(commits, 'Add subnets', [createModule('/workspace/modules/vpc')])).toEqual({
+        invalidCommits: [commits[1], commits[4]],
+        invalidTitle: true,
+      });
+      expect(
+        lintCommitMessages(commits.slice(0, 1), 'feat(vpc): add subnets', [
+          createModule('/workspace/modules/vpc', commits.slice(0, 1)),
+        ]),
+      ).toEqual({ invalidCommits: [], invalidTitle: false });
+    });
+
+    it('should only lint the pull request title when the release type is computed from it', () => {
+      config.set({ semverSource: 'pr-title' });
+
+      expect(lintCommitMessages(commits, 'feat: add subnets', [createModule('/workspace/modules/vpc')])).toEqual({
+        invalidCommits: [],
+        invalidTitle: false,
+      });
+    });
+
+    it('should only lint the changed modules that are in conventional-commits mode', () => {
+      const vpcModule = createModule('/workspace/modules/vpc', commits.slice(0, 2));
+      const kmsModule = createModule('/workspace/modules/kms', commits.slice(4));
+      const unchangedModule = createModule('/workspace/modules/s3', []);
+      // As set by a .terraform-module-releaser.yml of the module
+      vi.spyOn(kmsModule, 'config', 'get').mockReturnValue({ ...kmsModule.config, semverMode: 'keywords' });
+
+      expect(lintCommitMessages(commits, 'Add subnets', [vpcModule, kmsModule, unchangedModule])).toEqual({
+        invalidCommits: [commits[1]],
+        invalidTitle: true,
+      });
+      expect(lintCommitMessages(commits, 'Add subnets', [kmsModule, unchangedModule])).toBeNull();
+    });
+  });
+
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // describeCommitLintViolations()
+  ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  describe('describeCommitLintViolations()', () => {
+    const commit = { sha: 'abc1234def', message: 'wip', files: ['main.tf'] };
+
+    it('should name the offending commits and the pull request title', () => {
+      expect(describeCommitLintViolations({ invalidCommits: [commit], invalidTitle: true })).toBe(
+        'Commit lint found 2 messages that are not a conventional commit (<type>[(scope)][!]: <description>): commit abc1234def, the pull request title',
+      );
+      expect(describeCommitLintViolations({ invalidCommits: [commit], invalidTitle: false })).toBe(
+        'Commit lint found 1 message that is not a conventional commit (<type>[(scope)][!]: <description>): commit abc1234def',
+      );
+    });
+
+    it('should return null when every message is a conventional commit', () => {
+      expect(describeCommitLintViolations({ invalidCommits: [], invalidTitle: false })).toBeNull();
+    });
   });
 });
@@ -54,6 +54,9 @@ describe('config', () => {
         if (stringInputs.includes(input)) {
           expect(config[configKey]).toEqual('');
         }
+        if (booleanInputs.includes(input)) {
+          expect(config[configKey]).toBe(false);
+        }
 
         expect(getInput).toHaveBeenCalled();
       });
@@ -112,6 +115,13 @@ describe('config', () => {
     });
 
     it('should handle array input parsing and deduplication', () => {
+      const parsedArrayInputs = arrayInputs.filter(
+        (input) =>
+          input !== 'pre-release-channel-branches' &&
+          input !== 'version-groups' &&
+          input !== 'conventional-commit-types' &&
+          input !== 'scope-aliases',
+      );
       const arrayTestCases = [
         { input: 'item1,item2,item3', expected: ['item1', 'item2', 'item3'] },
         { input: ' item4 , item5 , item6 ', expected: ['item4', 'item5', 'item6'] },
@@ -124,8 +134,10 @@ describe('config', () => {
         clearConfigForTesting();
         vi.unstubAllEnvs();
 
-        // Create test inputs for all array inputs
-        const arrayInputValuesTest = arrayInputs.reduce((acc: Record<string, string>, key) => {
+        // Create test inputs for all array inputs (pre-release-channel-branches, version-groups,
+        // conventional-commit-types and scope-aliases entries must be 'key=value' pairs, so their parsing
+        // is covered by dedicated tests)
+        const arrayInputValuesTest = parsedArrayInputs.reduce((acc: Record<string, string>, key) => {
           acc[key] = testCase.input;
           return acc;
         }, {});
@@ -134,7 +146,7 @@ describe('config', () => {
 
         // Check array parsing for each array input
         const config = getConfig();
-        for (const arrayInput of arrayInputs) {
+        for (const arrayInput of parsedArrayInputs) {
           const configKey = getConfigKey(arrayInput);
           expect(config[configKey]).toEqual(testCase.expected);
         }
@@ -227,6 +239,14 @@ describe('config', () => {
       expect(() => getConfig()).toThrow(
         new TypeError("Default first tag must be in format v#.#.# or #.#.# (e.g., v1.0.0 or 1.0.0). Got: 'v1.0'"),
       );
+
+      clearConfigForTesting();
+      setupTestInputs({ 'default-first-tag': 'v1.0.0-rc.1' });
+      expect(() => getConfig()).toThrow(
+        new TypeError(
+          "Default first tag must be in format v#.#.# or #.#.# (e.g., v1.0.0 or 1.0.0). Got: 'v1.0.0-rc.1'",
+        ),
+      );
     });
 
     it('should throw error for invalid module-ref-mode', () => {
@@ -315,6 +335,176 @@ describe('config', () => {
       config = getConfig();
       expect(config.semverMode).toBe('conventional-commits');
     });
+
+    it('should throw error for invalid semver-source', () => {
+      setupTestInputs({ 'semver-source': 'pr-body' });
+      expect(() => getConfig()).toThrow(
+        new TypeError("Invalid semver-source 'pr-body'. Must be one of: commits, pr-title, pr-title-and-body"),
+      );
+    });
+
+    it('should throw error for invalid commit-lint', () => {
+      setupTestInputs({ 'commit-lint': 'strict' });
+      expect(() => getConfig()).toThrow(
+        new TypeError("Invalid commit-lint 'strict'. Must be one of: off, warn, error"),
+      );
+    });
+
+    it('should throw error for invalid changelog-format', () => {
+      setupTestInputs({ 'changelog-format': 'sections' });
+      expect(() => getConfig()).toThrow(
+        new TypeError("Invalid changelog-format 'sections'. Must be one of: flat, grouped"),
+      );
+    });
+
+    it('should throw error for invalid tag-signing', () => {
+      setupTestInputs({ 'tag-signing': 'x509' });
+      expect(() => getConfig()).toThrow(
+        new TypeError("Invalid tag-signing 'x509'. Must be one of: none, annotated, gpg, ssh"),
+      );
+    });
+
+    it('should throw error when a signing tag-signing mode has no tag-signing-key', () => {
+      setupTestInputs({ 'tag-signing': 'ssh' });
+      expect(() => getConfig()).toThrow(new TypeError("tag-signing-key is required when tag-signing is 'ssh'"));
+    });
+
+    it('should throw error when both changelog-template and changelog-template-file are set', () => {
+      setupTestInputs({ 'changelog-template': '{{version}}', 'changelog-template-file': 'CHANGELOG_TEMPLATE.md' });
+      expect(() => getConfig()).toThrow(
+        new TypeError('Only one of changelog-template and changelog-template-file can be set'),
+      );
+    });
+
+    it('should allow valid semver-source values', () => {
+      for (const semverSource of ['commits', 'pr-title', 'pr-title-and-body']) {
+        clearConfigForTesting();
+        vi.unstubAllEnvs();
+        setupTestInputs({ 'semver-source': semverSource });
+        expect(getConfig().semverSource).toBe(semverSource);
+      }
+    });
+
+    it('should throw error for invalid pre-release-channel', () => {
+      setupTestInputs({ 'pre-release-channel': '1rc' });
+      expect(() => getConfig()).toThrow(
+        new TypeError(
+          "Invalid pre-release-channel '1rc'. Must start with a letter and contain only letters, digits and hyphens",
+        ),
+      );
+
+      clearConfigForTesting();
+      vi.unstubAllEnvs();
+      setupTestInputs({ 'pre-release-channel': 'rc.1' });
+      expect(() => getConfig()).toThrow(
+        new TypeError(
+          "Invalid pre-release-channel 'rc.1'. Must start with a letter and contain only letters, digits and hyphens",
+        ),
+      );
+    });
+
+    it('should allow valid pre-release-channel values', () => {
+      setupTestInputs({ 'pre-release-channel': 'rc' });
+      const config = getConfig();
+      expect(config.preReleaseChannel).toBe('rc');
+    });
+
+    it('should throw error for invalid pre-release-channel-branches entries', () => {
+      for (const entry of ['next', 'next=', '=rc', 'next=rc=beta', 'next=1rc']) {
+        clearConfigForTesting();
+        vi.unstubAllEnvs();
+        setupTestInputs({ 'pre-release-channel-branches': entry });
+        expect(() => getConfig()).toThrow(
+          new TypeError(
+            `Invalid pre-release-channel-branches entry '${entry}'. Expected format 'branch-pattern=channel' (e.g., 'next=rc')`,
+          ),
+        );
+      }
+    });
+
+    it('should allow valid pre-release-channel-branches entries', () => {
+      setupTestInputs({ 'pre-release-channel-branches': 'next=rc, beta/** = beta' });
+      const config = getConfig();
+      expect(config.preReleaseChannelBranches).toEqual(['next=rc', 'beta/** = beta']);
+    });
+
+    it('should throw error for invalid version-groups entries', () => {
+      for (const entry of ['vpc', 'vpc=', '=networking', 'vpc=networking=storage']) {
+        clearConfigForTesting();
+        vi.unstubAllEnvs();
+        setupTestInputs({ 'version-groups': entry });
+        expect(() => getConfig()).toThrow(
+          new TypeError(
+            `Invalid version-groups entry '${entry}'. Expected format 'module=group' (e.g., 'vpc-endpoint=networking')`,
+          ),
+        );
+      }
+    });
+
+    it('should throw error for modules in more than one version group', () => {
+      setupTestInputs({ 'version-groups': 'vpc=networking,vpc=storage' });
+      expect(() => getConfig()).toThrow(
+        new TypeError(
+          "Invalid version-groups entry 'vpc=storage'. Module 'vpc' already belongs to version group 'networking'",
+        ),
+      );
+    });
+
+    it('should allow valid version-groups entries', () => {
+      setupTestInputs({ 'version-groups': 'vpc-endpoint=networking, s3-bucket-object = networking' });
+      const config = getConfig();
+      expect(config.versionGroups).toEqual(['vpc-endpoint=networking', 's3-bucket-object = networking']);
+    });
+
+    it('should throw error for invalid conventional-commit-types entries', () => {
+      for (const entry of ['docs', 'docs=', '=none', 'docs=skip', 'docs(=none', 'docs=none=patch']) {
+        clearConfigForTesting();
+        vi.unstubAllEnvs();
+        setupTestInputs({ 'conventional-commit-types': entry });
+        expect(() => getConfig()).toThrow(
+          new TypeError(
+            `Invalid conventional-commit-types entry '${entry}'. Expected format 'type=level' or 'type(scope)=level' where level is one of: patch, minor, major, none`,
+          ),
+        );
+      }
+    });
+
+    it('should throw error for conventional commit types mapped more than once', () => {
+      setupTestInputs({ 'conventional-commit-types': 'feat(kms)=patch,docs=none,FEAT(KMS)=major' });
+      expect(() => getConfig()).toThrow(
+        new TypeError(
+          "Invalid conventional-commit-types entry 'FEAT(KMS)=major'. Type 'feat(kms)' is already mapped to 'patch'",
+        ),
+      );
+    });
+
+    it('should allow valid conventional-commit-types entries', () => {
+      setupTestInputs({ 'conventional-commit-types': 'docs=none, ci = NONE,perf=minor,feat(experimental)=patch' });
+      const config = getConfig();
+      expect(config.conventionalCommitTypes).toEqual([
+        'docs=none',
+        'ci = NONE',
+        'perf=minor',
+        'feat(experimental)=patch',
+      ]);
+    });
+
+    it('should throw error for invalid scope-aliases entries', () => {
+      for (const entry of ['net', 'net=', '=vpc', 'net=vpc=vpc-endpoint']) {
+        clearConfigForTesting();
+        vi.unstubAllEnvs();
+        setupTestInputs({ 'scope-aliases': entry });
+        expect(() => getConfig()).toThrow(
+          new TypeError(`Invalid scope-aliases entry '${entry}'. Expected format 'scope=module' (e.g., 'net=vpc')`),
+        );
+      }
+    });
+
+    it('should allow valid scope-aliases entries', () => {
+      setupTestInputs({ 'scope-aliases': 'net=vpc, net = vpc-endpoint' });
+      const config = getConfig();
+      expect(config.scopeAliases).toEqual(['net=vpc', 'net = vpc-endpoint']);
+    });
   });
 
   describe('initialization', () => {
@@ -350,6 +540,31 @@ describe('config', () => {
       expect(config.moduleRefMode).toBe('tag');
       expect(config.preRelease).toBe(false);
       expect(config.hideNoChangesPrComment).toBe(false);
+      expect(config.preReleaseChannel).toBe('');
+      expect(config.preReleaseChannelBranches).toEqual([]);
+      expect(config.versionGroups).toEqual([]);
+      expect(config.detectBreakingInterfaceChanges).toBe(false);
+      expect(config.zeroMajorMode).toBe(false);
+      expect(config.conventionalCommitTypes).toEqual([]);
+      expect(config.scopeRouting).toBe(false);
+      expect(config.scopeAliases).toEqual([]);
+      expect(config.semverSource).toBe('commits');
+      expect(config.commitLint).toBe('off');
+      expect(config.changelogFormat).toBe('flat');
+      expect(config.changelogTemplate).toBe('');
+      expect(config.changelogTemplateFile).toBe('');
+      expect(config.changelogPrBodySection).toBe('');
+      expect(config.changelogLinkedIssues).toBe(false);
+      expect(config.moduleChangelog).toBe(false);
+      expect(config.releaseRebuildDryRun).toBe(false);
+      expect(config.tagSigning).toBe('none');
+      expect(config.tagSigningKey).toBe('');
+      expect(config.releaseAssets).toBe(false);
+      expect(config.releaseProvenance).toBe(false);
+      expect(config.tagMigration).toBe(false);
+      expect(config.tagMigrationDryRun).toBe(false);
+      expect(config.tagMigrationDeleteOldTags).toBe(false);
+      expect(config.releaseBackfill).toBe(false);
 
       expect(startGroup).toHaveBeenCalledWith('Initializing Config');
       expect(startGroup).toHaveBeenCalledTimes(1);
@@ -371,6 +586,29 @@ describe('config', () => {
         ['Module Ref Mode: tag'],
         ['Pre-release: false'],
         ['Hide No Changes PR Comment: false'],
+        ['Pre-release Channel: '],
+        ['Pre-release Channel Branches: '],
+        ['Version Groups: '],
+        ['Detect Breaking Interface Changes: false'],
+        ['Zero Major Mode: false'],
+        ['Conventional Commit Types: '],
+        ['Scope Routing: false'],
+        ['Scope Aliases: '],
+        ['Semver Source: commits'],
+        ['Commit Lint: off'],
+        ['Changelog Format: flat'],
+        ['Changelog Template File: '],
+        ['Changelog PR Body Section: '],
+        ['Changelog Linked Issues: false'],
+        ['Module Changelog: false'],
+        ['Release Rebuild Dry Run: false'],
+        ['Tag Signing: none'],
+        ['Release Assets: false'],
+        ['Release Provenance: false'],
+        ['Tag Migration: false'],
+        ['Tag Migration Dry Run: false'],
+        ['Tag Migration Delete Old Tags: false'],
+        ['Release Backfill: false'],
       ]);
     });
   });
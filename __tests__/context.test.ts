@@ -56,9 +56,11 @@ describe('context', () => {
   });
 
   describe('event validation', () => {
-    it('should throw error when event is not pull_request', () => {
+    it('should throw error when event is neither pull_request nor workflow_dispatch', () => {
       vi.stubEnv('GITHUB_EVENT_NAME', 'push');
-      expect(() => getContext()).toThrow('This workflow is not running in the context of a pull request');
+      expect(() => getContext()).toThrow(
+        "This workflow was triggered by an unsupported 'push' event. Ensure this workflow is triggered by a pull_request event, or by a workflow_dispatch event",
+      );
     });
 
     it('should throw error when event path does not exist', () => {
@@ -147,6 +149,33 @@ describe('context', () => {
       expect(getContext().baseRef).toBe('release/1.x');
     });
 
+    it('should expose the pull request label names', () => {
+      mockReadFileSync.mockImplementation(() => {
+        return JSON.stringify(
+          createPullRequestMock({
+            pull_request: {
+              labels: [{ name: 'pre-release:rc' }, { name: 'documentation' }],
+            },
+          }),
+        );
+      });
+
+      expect(getContext().prLabels).toEqual(['pre-release:rc', 'documentation']);
+      expect(info).toHaveBeenCalledWith('Pull Request Labels: pre-release:rc, documentation');
+    });
+
+    it('should default to no labels when the payload has none', () => {
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          action: 'opened',
+          pull_request: { number: 1, title: 'T', body: 'B', merged: false, base: { ref: 'main' } },
+          repository: { full_name: 'techpivot/terraform-module-releaser' },
+        }),
+      );
+
+      expect(getContext().prLabels).toEqual([]);
+    });
+
     it('should throw when the payload has no base ref', () => {
       mockReadFileSync.mockReturnValue(
         JSON.stringify({
@@ -171,6 +200,35 @@ describe('context', () => {
         );
       });
       expect(getContext().isPrMergeEvent).toBe(true);
+      expect(getContext().isWorkflowDispatchEvent).toBe(false);
+    });
+
+    it('should initialize a workflow dispatch event without pull request details', () => {
+      vi.stubEnv('GITHUB_EVENT_NAME', 'workflow_dispatch');
+      mockReadFileSync.mockReturnValue(JSON.stringify({ ref: 'refs/heads/main', inputs: null }));
+
+      expect(getContext()).toMatchObject({
+        repoUrl: 'https://github.com/techpivot/terraform-module-releaser',
+        prNumber: 0,
+        prTitle: '',
+        prBody: '',
+        prLabels: [],
+        issueNumber: 0,
+        baseRef: 'main',
+        mergeCommitSha: null,
+        isPrMergeEvent: false,
+        isWorkflowDispatchEvent: true,
+      });
+      expect(info).toHaveBeenCalledWith('Is Workflow Dispatch Event: true');
+      const messages = vi.mocked(info).mock.calls.map(([message]) => message);
+      expect(messages.filter((message) => /^(Pull Request|Issue Number|Merge Commit SHA)/.test(message))).toEqual([]);
+    });
+
+    it('should throw when the workflow dispatch payload has no ref', () => {
+      vi.stubEnv('GITHUB_EVENT_NAME', 'workflow_dispatch');
+      mockReadFileSync.mockReturnValue('{"inputs": null}');
+
+      expect(() => getContext()).toThrow('Event payload did not match expected workflow_dispatch event payload');
     });
 
     it('should initialize with trimmed pull request title', () => {
@@ -248,7 +306,7 @@ describe('context', () => {
       const getterRepo = getContext().repo;
       expect(proxyRepo).toEqual(getterRepo);
       expect(startGroup).toHaveBeenCalledWith('Initializing Context');
-      expect(info).toHaveBeenCalledTimes(13);
+      expect(info).toHaveBeenCalledTimes(15);
 
       // Reset mock call counts/history via mockClear()
       vi.mocked(info).mockClear();
@@ -15,15 +15,18 @@ type DeepPartial<T> = T extends object
 
 // Names of the supported endpoints across different namespaces (e.g., git, issues, pulls, repos).
 type EndpointNames = {
-  git: 'createTag' | 'deleteRef' | 'getCommit';
+  git: 'createRef' | 'createTag' | 'deleteRef' | 'getCommit' | 'getTag';
   issues: 'createComment' | 'deleteComment' | 'listComments' | 'updateComment';
   pulls: 'listCommits' | 'listFiles';
   repos:
     | 'getCommit'
+    | 'listCommits'
     | 'listTags'
     | 'listReleases'
     | 'createRelease'
     | 'deleteRelease'
+    | 'updateRelease'
+    | 'uploadReleaseAsset'
     | 'compareCommitsWithBasehead'
     | 'getContent';
   users: 'getByUsername';
@@ -83,6 +86,12 @@ export function resetMockStore() {
   mockStore = {
     data: {
       git: {
+        createRef: {
+          data: {},
+          status: 201,
+          url: 'https://api.github.com/repos/techpivot/terraform-module-releaser/git/refs',
+          headers: {},
+        },
         createTag: {
           data: {},
           status: 201,
@@ -102,6 +111,13 @@ export function resetMockStore() {
           url: 'https://api.github.com/repos/techpivot/terraform-module-releaser/git/commits',
           headers: {},
         },
+        getTag: {
+          // Peels an annotated tag object to the commit it points at when git.getCommit rejects its SHA.
+          data: { object: { sha: 'mock-commit-sha', type: 'commit' } },
+          status: 200,
+          url: 'https://api.github.com/repos/techpivot/terraform-module-releaser/git/tags',
+          headers: {},
+        },
       },
       issues: {
         createComment: {
@@ -164,6 +180,12 @@ export function resetMockStore() {
           url: 'https://api.github.com/repos/techpivot/terraform-module-releaser/compare',
           headers: {},
         },
+        listCommits: {
+          data: [],
+          status: 200,
+          url: 'https://api.github.com/repos/techpivot/terraform-module-releaser/commits',
+          headers: {},
+        },
         getContent: {
           // Default: the path exists on the base ref (module was not deleted).
           data: {},
@@ -201,6 +223,18 @@ export function resetMockStore() {
           url: 'https://api.github.com/repos/techpivot/terraform-module-releaser/releases',
           headers: {},
         },
+        updateRelease: {
+          data: {},
+          status: 200,
+          url: 'https://api.github.com/repos/techpivot/terraform-module-releaser/releases',
+          headers: {},
+        },
+        uploadReleaseAsset: {
+          data: {},
+          status: 201,
+          url: 'https://uploads.github.com/repos/techpivot/terraform-module-releaser/releases/assets',
+          headers: {},
+        },
       },
       users: {
         getByUsername: {
@@ -336,8 +370,10 @@ export function createDefaultOctokitMock(): OctokitRestApi {
     rest: {
       git: {
         deleteRef: vi.fn().mockImplementation((params) => getMockResponse('git.deleteRef', params)),
+        createRef: vi.fn().mockImplementation((params) => getMockResponse('git.createRef', params)),
         createTag: vi.fn().mockImplementation((params) => getMockResponse('git.createTag', params)),
         getCommit: vi.fn().mockImplementation((params) => getMockResponse('git.getCommit', params)),
+        getTag: vi.fn().mockImplementation((params) => getMockResponse('git.getTag', params)),
       },
       issues: {
         createComment: vi.fn().mockImplementation((params) => getMockResponse('issues.createComment', params)),
@@ -351,10 +387,13 @@ export function createDefaultOctokitMock(): OctokitRestApi {
       },
       repos: {
         getCommit: vi.fn().mockImplementation((params) => getMockResponse('repos.getCommit', params)),
+        listCommits: vi.fn().mockImplementation((params) => getMockResponse('repos.listCommits', params)),
         listTags: createPaginatedMockImplementation('repos.listTags', '/tags'),
         listReleases: createPaginatedMockImplementation('repos.listReleases', '/releases'),
         createRelease: vi.fn().mockImplementation((params) => getMockResponse('repos.createRelease', params)),
         deleteRelease: vi.fn().mockImplementation((params) => getMockResponse('repos.deleteRelease', params)),
+        updateRelease: vi.fn().mockImplementation((params) => getMockResponse('repos.updateRelease', params)),
+        uploadReleaseAsset: vi.fn().mockImplementation((params) => getMockResponse('repos.uploadReleaseAsset', params)),
         compareCommitsWithBasehead: vi
           .fn()
           .mockImplementation((params) => getMockResponse('repos.compareCommitsWithBasehead', params)),
@@ -365,6 +404,8 @@ export function createDefaultOctokitMock(): OctokitRestApi {
       },
     },
     graphql: vi.fn().mockResolvedValue({ minimizeComment: { minimizedComment: { isMinimized: true } } }),
+    // Only release asset uploads go through the generic request method
+    request: vi.fn().mockImplementation((params) => getMockResponse('repos.uploadReleaseAsset', params)),
     paginate: {
       iterator: <T>(
         fn: (options: EndpointOptions) => Promise<OctokitResponse<{ data: T[] }>>,
@@ -1,5 +1,5 @@
 import { TerraformModule } from '@/terraform-module';
-import type { CommitDetails, GitHubRelease, GitHubTag, ReleaseAction, ReleaseOutcome } from '@/types';
+import type { CommitDetails, GitHubRelease, GitHubTag, ReleaseAction, ReleaseAsset, ReleaseOutcome } from '@/types';
 
 /**
  * Helper function to create a GitHubTag from a tag name.
@@ -77,12 +77,12 @@ export function createMockTerraformModule(options: {
  * pass the module.
  *
  * @param module - The Terraform module the outcome describes
- * @param overrides - Optional overrides for the action, tag, or release
+ * @param overrides - Optional overrides for the action, tag, release, or uploaded assets
  * @returns A ReleaseOutcome suitable for passing to addPostReleaseComment or main's output handling
  */
 export function createMockReleaseOutcome(
   module: TerraformModule,
-  overrides: { action?: ReleaseAction; releaseTag?: string; release?: GitHubRelease } = {},
+  overrides: { action?: ReleaseAction; releaseTag?: string; release?: GitHubRelease; assets?: ReleaseAsset[] } = {},
 ): ReleaseOutcome {
   const fallbackTag = overrides.releaseTag ?? module.releases[0]?.tagName ?? (module.getLatestTag() as string);
   const release: GitHubRelease = overrides.release ??
@@ -98,5 +98,6 @@ export function createMockReleaseOutcome(
     action: overrides.action ?? 'created',
     releaseTag: overrides.releaseTag ?? release.tagName,
     release,
+    ...(overrides.assets && { assets: overrides.assets }),
   };
 }
@@ -33,7 +33,8 @@ vi.mock('node:fs', async (importOriginal) => {
     mkdtempSync: vi.fn(() => '/tmp/fake-module'),
     cpSync: vi.fn(),
     readdirSync: vi.fn(() => []),
-    existsSync: vi.fn(() => true),
+    // Every path exists except per-module config files, which would otherwise be read from the real disk
+    existsSync: vi.fn((path: string) => !path.endsWith('.terraform-module-releaser.yml')),
     copyFileSync: vi.fn(),
     mkdirSync: vi.fn(),
     statSync: vi.fn(() => ({ isDirectory: () => false })),
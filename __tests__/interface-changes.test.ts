@@ -0,0 +1,231 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { detectBreakingInterfaceChanges, diffModuleInterfaces, parseModuleInterface } from '@/interface-changes';
+import { config } from '@/mocks/config';
+import { context } from '@/mocks/context';
+import { stubOctokitImplementation } from '@/tests/helpers/octokit';
+import { createMockTerraformModule } from '@/tests/helpers/terraform-module';
+import { info, warning } from '@actions/core';
+import { RequestError } from '@octokit/request-error';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const VARIABLES_TF = [
+  'variable "name" {',
+  '  type = string',
+  '}',
+  '',
+  'variable "tags" {',
+  '  type    = map(string)',
+  '  default = {}',
+  '}',
+].join('\n');
+
+const OUTPUTS_TF = 'output "id" {\n  value = aws_kms_key.this.id\n}\n';
+
+describe('interface-changes', () => {
+  describe('parseModuleInterface()', () => {
+    it('should collect variables and outputs across files', () => {
+      const moduleInterface = parseModuleInterface([VARIABLES_TF, OUTPUTS_TF]);
+
+      expect(moduleInterface.variables).toEqual(
+        new Map([
+          ['name', { type: 'string', required: true }],
+          ['tags', { type: 'map(string)', required: false }],
+        ]),
+      );
+      expect(moduleInterface.outputs).toEqual(new Set(['id']));
+    });
+
+    it('should normalize type constraints and treat untyped variables as unconstrained', () => {
+      const moduleInterface = parseModuleInterface([
+        'variable "config" {\n  type = object({\n    name = string # the name\n  })\n}\nvariable "any" {}\n',
+      ]);
+
+      expect(moduleInterface.variables.get('config')).toEqual({ type: 'object({name=string})', required: true });
+      expect(moduleInterface.variables.get('any')).toEqual({ type: null, required: true });
+    });
+  });
+
+  describe('diffModuleInterfaces()', () => {
+    const previous = parseModuleInterface([VARIABLES_TF, OUTPUTS_TF]);
+
+    it('should return no changes for a compatible interface', () => {
+      const current = parseModuleInterface([
+        VARIABLES_TF,
+        OUTPUTS_TF,
+        'variable "optional" {\n  default = null\n}\noutput "arn" {\n  value = "x"\n}\n',
+      ]);
+
+      expect(diffModuleInterfaces(previous, current)).toEqual([]);
+    });
+
+    it('should detect removed variables and outputs', () => {
+      const current = parseModuleInterface(['variable "name" {\n  type = string\n}\n']);
+
+      expect(diffModuleInterfaces(previous, current)).toEqual([
+        { kind: 'variable-removed', name: 'tags', description: 'Variable `tags` was removed' },
+        { kind: 'output-removed', name: 'id', description: 'Output `id` was removed' },
+      ]);
+    });
+
+    it('should detect new required variables and variables that lost their default', () => {
+      const current = parseModuleInterface([
+        'variable "name" {\n  type = string\n}\nvariable "tags" {\n  type = map(string)\n}\nvariable "region" {}\n',
+        OUTPUTS_TF,
+      ]);
+
+      expect(diffModuleInterfaces(previous, current)).toEqual([
+        { kind: 'variable-required', name: 'tags', description: 'Variable `tags` no longer has a default' },
+        {
+          kind: 'variable-required',
+          name: 'region',
+          description: 'Required variable `region` was added without a default',
+        },
+      ]);
+    });
+
+    it('should detect changed variable types but not loosened ones', () => {
+      const current = parseModuleInterface([
+        'variable "name" {\n  type = number\n}\nvariable "tags" {\n  type    = any\n  default = {}\n}\n',
+        OUTPUTS_TF,
+      ]);
+
+      expect(diffModuleInterfaces(previous, current)).toEqual([
+        {
+          kind: 'variable-type-changed',
+          name: 'name',
+          description: 'Variable `name` type changed from `string` to `number`',
+        },
+      ]);
+    });
+  });
+
+  describe('detectBreakingInterfaceChanges()', () => {
+    let tmpDir: string;
+    let moduleDir: string;
+
+    const encode = (content: string) => Buffer.from(content).toString('base64');
+
+    beforeEach(() => {
+      tmpDir = mkdtempSync(join(tmpdir(), 'interface-changes-test-'));
+      moduleDir = join(tmpDir, 'modules', 'kms');
+      mkdirSync(moduleDir, { recursive: true });
+      writeFileSync(join(moduleDir, 'variables.tf'), 'variable "name" {\n  type = string\n}\n');
+
+      config.set({ detectBreakingInterfaceChanges: true });
+      context.set({ workspaceDir: tmpDir });
+      context.useMockOctokit();
+    });
+
+    afterEach(() => {
+      rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    const createChangedModule = () =>
+      createMockTerraformModule({
+        directory: moduleDir,
+        tags: ['modules/kms/v1.0.0'],
+        commitMessages: ['fix: tidy variables'],
+      });
+
+    it('should skip detection when disabled', async () => {
+      config.set({ detectBreakingInterfaceChanges: false });
+
+      await detectBreakingInterfaceChanges([createChangedModule()]);
+
+      expect(info).toHaveBeenCalledWith('Breaking interface change detection is disabled. Skipping.');
+      expect(context.octokit.rest.repos.getContent).not.toHaveBeenCalled();
+    });
+
+    const notFound = () =>
+      new RequestError('Not Found', 404, {
+        request: { method: 'GET', url: '', headers: {} },
+        response: { status: 404, url: '', headers: {}, data: {} },
+      });
+
+    it('should record breaking changes against the files at the latest tag commit', async () => {
+      const module = createChangedModule();
+      stubOctokitImplementation('repos.getContent', ({ path }) => {
+        if (path === 'modules/kms') {
+          throw notFound();
+        }
+        if (path === '') {
+          return {
+            data: [
+              { type: 'file' as const, name: 'variables.tf', path: 'variables.tf' },
+              { type: 'file' as const, name: 'README.md', path: 'README.md' },
+            ],
+          };
+        }
+        return { data: { type: 'file' as const, content: encode(VARIABLES_TF) } };
+      });
+
+      await detectBreakingInterfaceChanges([module]);
+
+      expect(context.octokit.rest.repos.getContent).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'variables.tf', ref: module.getLatestTagCommitSHA() }),
+      );
+      expect(module.breakingInterfaceChanges).toEqual([
+        { kind: 'variable-removed', name: 'tags', description: 'Variable `tags` was removed' },
+      ]);
+      expect(module.getReleaseType()).toBe('major');
+      expect(info).toHaveBeenCalledWith('✗ Module "modules/kms" has 1 breaking interface change(s):');
+    });
+
+    it('should read the module directory for tags of whole-repository commits', async () => {
+      const module = createChangedModule();
+      stubOctokitImplementation('repos.getContent', ({ path }) => {
+        if (path === '') {
+          return { data: [{ type: 'file' as const, name: 'main.tf', path: 'main.tf' }] };
+        }
+        if (path === 'modules/kms') {
+          return { data: [{ type: 'file' as const, name: 'variables.tf', path: 'modules/kms/variables.tf' }] };
+        }
+        return { data: { type: 'file' as const, content: encode('variable "name" {\n  type = string\n}\n') } };
+      });
+
+      await detectBreakingInterfaceChanges([module]);
+
+      expect(context.octokit.rest.repos.getContent).not.toHaveBeenCalledWith(expect.objectContaining({ path: '' }));
+      expect(module.breakingInterfaceChanges).toEqual([]);
+      expect(info).toHaveBeenCalledWith('✓ Module "modules/kms" has no breaking interface changes');
+    });
+
+    it('should skip modules without tags or direct changes', async () => {
+      const initialModule = createMockTerraformModule({ directory: moduleDir, commitMessages: ['feat: initial'] });
+      const unchangedModule = createMockTerraformModule({ directory: moduleDir, tags: ['modules/kms/v1.0.0'] });
+
+      await detectBreakingInterfaceChanges([initialModule, unchangedModule]);
+
+      expect(context.octokit.rest.repos.getContent).not.toHaveBeenCalled();
+    });
+
+    it('should skip modules whose tagged files cannot be found', async () => {
+      const module = createChangedModule();
+      stubOctokitImplementation('repos.getContent', () => ({ data: [] }));
+
+      await detectBreakingInterfaceChanges([module]);
+
+      expect(module.breakingInterfaceChanges).toEqual([]);
+      expect(info).toHaveBeenCalledWith(
+        "No Terraform files found for module 'modules/kms' at 'modules/kms/v1.0.0'. Skipping.",
+      );
+    });
+
+    it('should warn and keep the commit-based release type when the API fails', async () => {
+      const module = createChangedModule();
+      vi.mocked(context.octokit.rest.repos.getContent).mockRejectedValueOnce(
+        new RequestError('Server Error', 500, {
+          request: { method: 'GET', url: '', headers: {} },
+          response: { status: 500, url: '', headers: {}, data: {} },
+        }),
+      );
+
+      await detectBreakingInterfaceChanges([module]);
+
+      expect(warning).toHaveBeenCalledWith(expect.stringContaining("Unable to read module 'modules/kms'"));
+      expect(module.getReleaseType()).toBe('patch');
+    });
+  });
+});
@@ -1,9 +1,17 @@
+import { detectBreakingInterfaceChanges } from '@/interface-changes';
 import { run } from '@/main';
 import { config } from '@/mocks/config';
 import { context } from '@/mocks/context';
 import { parseTerraformModules } from '@/parser';
 import { addPostReleaseComment, addReleasePlanComment, getPullRequestCommits } from '@/pull-request';
-import { createTaggedReleases, deleteReleases, getAllReleases } from '@/releases';
+import {
+  backfillReleases,
+  createTaggedReleases,
+  deleteReleases,
+  getAllReleases,
+  rebuildReleaseBodies,
+} from '@/releases';
+import { migrateTags } from '@/tag-migration';
 import { deleteTags, getAllTags } from '@/tags';
 import { installTerraformDocs } from '@/terraform-docs';
 import { TerraformModule } from '@/terraform-module';
@@ -19,9 +27,11 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 // Mock most dependencies that are tested elsewhere
 // Note: NOT mocking @/terraform-module to allow real instances for testing
+vi.mock('@/interface-changes');
 vi.mock('@/parser');
 vi.mock('@/pull-request');
 vi.mock('@/releases');
+vi.mock('@/tag-migration');
 vi.mock('@/tags');
 vi.mock('@/terraform-docs');
 vi.mock('@/wiki');
@@ -59,11 +69,19 @@ describe('main', () => {
     commitMessages: ['feat: add new feature'], // Add a commit to make it need a release
   });
 
+  const mockTerraformModuleSkippingRelease = createMockTerraformModule({
+    directory: '/workspace/modules/skipped-module',
+    tags: ['modules/skipped-module/v1.0.0'],
+    commitMessages: ['feat: add new feature [skip release]'], // Changed, but opted out of the release
+  });
+
   beforeEach(() => {
     vi.clearAllMocks();
 
     // Reset context and config before each test
     context.isPrMergeEvent = false;
+    context.isWorkflowDispatchEvent = false;
+    context.prBody = '';
     config.disableWiki = false;
     config.deleteLegacyTags = true;
 
@@ -94,6 +112,17 @@ describe('main', () => {
     expect(setOutput).toHaveBeenCalled();
   });
 
+  it('should detect breaking interface changes before setting outputs', async () => {
+    vi.mocked(parseTerraformModules).mockReturnValue([mockTerraformModule]);
+
+    await run();
+
+    expect(detectBreakingInterfaceChanges).toHaveBeenCalledWith([mockTerraformModule]);
+    expect(vi.mocked(detectBreakingInterfaceChanges).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(setOutput).mock.invocationCallOrder[0],
+    );
+  });
+
   it('should handle errors', async () => {
     vi.mocked(getPullRequestCommits).mockRejectedValue(new Error('Test error'));
 
@@ -201,6 +230,25 @@ describe('main', () => {
       });
     });
 
+    it('should report intentionally skipped modules in the changed modules map only', async () => {
+      vi.mocked(parseTerraformModules).mockReturnValue([mockTerraformModule, mockTerraformModuleSkippingRelease]);
+      vi.mocked(TerraformModule.getModulesNeedingRelease).mockReturnValue([]);
+
+      await run();
+
+      expect(setOutput).toHaveBeenCalledWith('changed-module-names', []);
+      expect(setOutput).toHaveBeenCalledWith('changed-module-paths', []);
+      expect(setOutput).toHaveBeenCalledWith('changed-modules-map', {
+        'modules/skipped-module': {
+          path: '/workspace/modules/skipped-module',
+          latestTag: 'modules/skipped-module/v1.0.0',
+          releaseTag: null,
+          releaseType: null,
+          action: 'intentionally-skipped',
+        },
+      });
+    });
+
     it('should call setOutput exactly 6 times for all outputs', async () => {
       vi.mocked(parseTerraformModules).mockReturnValue([mockTerraformModule]);
       vi.mocked(TerraformModule.getModulesNeedingRelease).mockReturnValue([]);
@@ -240,9 +288,13 @@ describe('main', () => {
       await run();
 
       // Should call addReleasePlanComment for non-merge events
-      expect(addReleasePlanComment).toHaveBeenCalledWith([mockTerraformModule], [], [], {
-        status: WIKI_STATUS.SUCCESS,
-      });
+      expect(addReleasePlanComment).toHaveBeenCalledWith(
+        [mockTerraformModule],
+        [],
+        [],
+        { status: WIKI_STATUS.SUCCESS },
+        null,
+      );
 
       // Should NOT call merge-specific functions
       expect(createTaggedReleases).not.toHaveBeenCalled();
@@ -268,14 +320,103 @@ describe('main', () => {
       await run();
 
       // Should call addReleasePlanComment with the error status
-      expect(addReleasePlanComment).toHaveBeenCalledWith([mockTerraformModule], [], [], {
-        status: WIKI_STATUS.FAILURE_CHECKOUT,
-        errorMessage: 'Wiki checkout failed',
-      });
+      expect(addReleasePlanComment).toHaveBeenCalledWith(
+        [mockTerraformModule],
+        [],
+        [],
+        { status: WIKI_STATUS.FAILURE_CHECKOUT, errorMessage: 'Wiki checkout failed' },
+        null,
+      );
 
       // Should call setFailed with the error message after the error is thrown from handlePullRequestEvent
       expect(setFailed).toHaveBeenCalledWith('Wiki checkout failed');
     });
+
+    describe('commit lint', () => {
+      const commits = [{ sha: 'abc1234def', message: 'wip', files: ['modules/test-module/main.tf'] }];
+      const changedModule = createMockTerraformModule({ directory: '/workspace/modules/test-module', commits });
+      const violations =
+        'Commit lint found 1 message that is not a conventional commit (<type>[(scope)][!]: <description>): commit abc1234def';
+
+      beforeEach(() => {
+        config.set({ semverMode: 'conventional-commits', semverSource: 'commits' });
+        context.set({ prTitle: 'feat: add subnets' });
+        vi.mocked(getPullRequestCommits).mockResolvedValue(commits);
+        vi.mocked(parseTerraformModules).mockReturnValue([changedModule]);
+      });
+
+      it('should pass the commit lint result to the release plan comment and warn about violations', async () => {
+        config.set({ commitLint: 'warn' });
+
+        await run();
+
+        expect(addReleasePlanComment).toHaveBeenCalledWith([changedModule], [], [], expect.any(Object), {
+          invalidCommits: commits,
+          invalidTitle: false,
+        });
+        expect(warning).toHaveBeenCalledWith(violations);
+        expect(setFailed).not.toHaveBeenCalled();
+      });
+
+      it('should fail the run after commenting when the commit lint is an error', async () => {
+        config.set({ commitLint: 'error' });
+
+        await run();
+
+        expect(addReleasePlanComment).toHaveBeenCalled();
+        expect(setFailed).toHaveBeenCalledWith(violations);
+      });
+    });
+  });
+
+  describe('workflow dispatch event handling', () => {
+    it('should only rebuild the release bodies', async () => {
+      context.isWorkflowDispatchEvent = true;
+      const allReleases: GitHubRelease[] = [
+        { id: 1, title: 'modules/test-module/v1.0.0', body: 'Release notes', tagName: 'modules/test-module/v1.0.0' },
+      ];
+      vi.mocked(getAllReleases).mockResolvedValue(allReleases);
+
+      await run();
+
+      expect(parseTerraformModules).toHaveBeenCalledWith([], [], allReleases);
+      expect(rebuildReleaseBodies).toHaveBeenCalledWith([mockTerraformModule]);
+      expect(migrateTags).not.toHaveBeenCalled();
+      expect(getPullRequestCommits).not.toHaveBeenCalled();
+      expect(createTaggedReleases).not.toHaveBeenCalled();
+      expect(addReleasePlanComment).not.toHaveBeenCalled();
+      expect(setOutput).not.toHaveBeenCalled();
+      expect(setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should only migrate the tags with tag-migration enabled', async () => {
+      context.isWorkflowDispatchEvent = true;
+      config.set({ tagMigration: true });
+      const allTags = [{ name: 'modules-test-module-v1.0.0', commitSHA: 'abc123' }];
+      vi.mocked(getAllTags).mockResolvedValue(allTags);
+
+      await run();
+
+      expect(migrateTags).toHaveBeenCalledWith([mockTerraformModule], allTags);
+      expect(rebuildReleaseBodies).not.toHaveBeenCalled();
+      expect(createTaggedReleases).not.toHaveBeenCalled();
+      expect(setOutput).not.toHaveBeenCalled();
+      expect(setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should only backfill the missing releases with release-backfill enabled', async () => {
+      context.isWorkflowDispatchEvent = true;
+      config.set({ releaseBackfill: true });
+
+      await run();
+
+      expect(backfillReleases).toHaveBeenCalledWith([mockTerraformModule]);
+      expect(rebuildReleaseBodies).not.toHaveBeenCalled();
+      expect(migrateTags).not.toHaveBeenCalled();
+      expect(createTaggedReleases).not.toHaveBeenCalled();
+      expect(setOutput).not.toHaveBeenCalled();
+      expect(setFailed).not.toHaveBeenCalled();
+    });
   });
 
   describe('merge event handling', () => {
@@ -564,6 +705,7 @@ describe('main', () => {
         releaseTag: 'modules/test-module/v1.0.0',
         action: 'skipped',
       });
+      expect(lastChangedModulesMap()['modules/test-module']).not.toHaveProperty('assets');
     });
 
     it('reports the healed tag and action "recovered"', async () => {
@@ -582,6 +724,31 @@ describe('main', () => {
       });
     });
 
+    it('reports the uploaded release assets of a created release', async () => {
+      const assets = [
+        {
+          name: 'modules-test-module-v1.1.0.zip',
+          url: 'https://github.com/techpivot/terraform-module-releaser/releases/download/modules/test-module/v1.1.0/modules-test-module-v1.1.0.zip',
+          sha256: 'a'.repeat(64),
+        },
+      ];
+      vi.mocked(createTaggedReleases).mockResolvedValue([
+        createMockReleaseOutcome(mockTerraformModule, {
+          action: 'created',
+          releaseTag: 'modules/test-module/v1.1.0',
+          assets,
+        }),
+      ]);
+
+      await run();
+
+      expect(lastChangedModulesMap()['modules/test-module']).toMatchObject({
+        releaseTag: 'modules/test-module/v1.1.0',
+        action: 'created',
+        assets,
+      });
+    });
+
     it('reports a null releaseTag and action "none" when nothing was released for the module', async () => {
       // e.g. the legacy gate skipped this pull request entirely.
       vi.mocked(createTaggedReleases).mockResolvedValue([]);
@@ -594,6 +761,18 @@ describe('main', () => {
       });
     });
 
+    it('keeps action "intentionally-skipped" for modules excluded by a skip directive', async () => {
+      vi.mocked(parseTerraformModules).mockReturnValue([mockTerraformModule, mockTerraformModuleSkippingRelease]);
+      vi.mocked(createTaggedReleases).mockResolvedValue([]);
+
+      await run();
+
+      expect(lastChangedModulesMap()['modules/skipped-module']).toMatchObject({
+        releaseTag: null,
+        action: 'intentionally-skipped',
+      });
+    });
+
     it('leaves the non-merge path outputs untouched (no action field)', async () => {
       context.isPrMergeEvent = false;
 
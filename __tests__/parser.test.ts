@@ -591,6 +591,22 @@ describe('parseTerraformModules', () => {
       }
     });
 
+    it('should apply module-change-exclude-patterns from a module config file to that module only', () => {
+      writeFileSync(
+        join(tmpDir, 'modules/vpc/.terraform-module-releaser.yml'),
+        'module-change-exclude-patterns: "*.md"',
+      );
+
+      const commits: CommitDetails[] = [
+        { sha: 'commit1', message: 'docs: update readme', files: ['modules/vpc/README.md'] },
+        { sha: 'commit2', message: 'docs: update readme', files: ['modules/security-group/README.md'] },
+      ];
+      const result = parseTerraformModules(commits, [], []);
+
+      expect(result.find((m) => m.name === 'modules/vpc')?.commits).toHaveLength(0);
+      expect(result.find((m) => m.name === 'modules/security-group')?.commits).toHaveLength(1);
+    });
+
     it('should handle commits with files not belonging to any module', () => {
       const commits: CommitDetails[] = [
         {
@@ -676,6 +692,226 @@ describe('parseTerraformModules', () => {
       expect(vpcModule?.commits[0]).toEqual(commits[0]);
       expect(ignoredModule).toBeUndefined();
     });
+
+    describe('scope routing', () => {
+      const commits: CommitDetails[] = [
+        {
+          sha: 'commit1',
+          message: 'fix(vpc): tighten cidr validation',
+          files: ['modules/vpc/main.tf', 'modules/security-group/main.tf'],
+        },
+        {
+          sha: 'commit2',
+          message: 'chore: bump provider constraints',
+          files: ['modules/vpc/main.tf', 'modules/security-group/main.tf'],
+        },
+      ];
+
+      it('should attribute commits by changed files when disabled', () => {
+        const result = parseTerraformModules(commits, [], []);
+
+        for (const module of result) {
+          expect(module.commits.map(({ sha }) => sha)).toEqual(['commit1', 'commit2']);
+        }
+      });
+
+      it('should only attribute scoped commits to the modules their scope matches', () => {
+        config.set({ scopeRouting: true });
+
+        const result = parseTerraformModules(commits, [], []);
+
+        expect(result.find((m) => m.name === 'modules/vpc')?.commits.map(({ sha }) => sha)).toEqual([
+          'commit1',
+          'commit2',
+        ]);
+        expect(result.find((m) => m.name === 'modules/security-group')?.commits.map(({ sha }) => sha)).toEqual([
+          'commit2',
+        ]);
+        expect(vi.mocked(info)).toHaveBeenCalledWith(
+          '✗ Skipping module "modules/security-group" for commit commit1 ➜  Commit scope routes it to other modules',
+        );
+      });
+
+      it('should resolve scopes through scope aliases', () => {
+        config.set({ scopeRouting: true, scopeAliases: ['net=security-group', 'net=modules/vpc'] });
+        const aliasCommits: CommitDetails[] = [
+          { sha: 'commit1', message: 'feat(net): add flow logs', files: ['modules/vpc/main.tf'] },
+          {
+            sha: 'commit2',
+            message: 'fix(net,kms): adjust egress',
+            files: ['modules/vpc/main.tf', 'modules/security-group/main.tf'],
+          },
+        ];
+
+        const result = parseTerraformModules(aliasCommits, [], []);
+
+        expect(result.find((m) => m.name === 'modules/vpc')?.commits).toHaveLength(2);
+        expect(result.find((m) => m.name === 'modules/security-group')?.commits).toHaveLength(1);
+      });
+
+      it('should fall back to changed files when the scope matches none of the changed modules', () => {
+        config.set({ scopeRouting: true });
+        const fallbackCommits: CommitDetails[] = [
+          { sha: 'commit1', message: 'fix(vcp): typo in scope', files: ['modules/vpc/main.tf'] },
+          { sha: 'commit2', message: 'fix(vpc): wrong module', files: ['modules/security-group/main.tf'] },
+        ];
+
+        const result = parseTerraformModules(fallbackCommits, [], []);
+
+        expect(result.find((m) => m.name === 'modules/vpc')?.commits.map(({ sha }) => sha)).toEqual(['commit1']);
+        expect(result.find((m) => m.name === 'modules/security-group')?.commits.map(({ sha }) => sha)).toEqual([
+          'commit2',
+        ]);
+      });
+    });
+  });
+
+  describe('phase 4: version groups', () => {
+    const tags = [
+      { name: 'modules/vpc/v1.0.0', commitSHA: 'sha-vpc' },
+      { name: 'modules/vpc-endpoint/v1.2.0', commitSHA: 'sha-vpc-endpoint' },
+      { name: 'modules/s3/v1.0.0', commitSHA: 'sha-s3' },
+    ];
+
+    beforeEach(() => {
+      for (const name of ['vpc', 'vpc-endpoint', 's3']) {
+        const moduleDir = join(tmpDir, 'modules', name);
+        mkdirSync(moduleDir, { recursive: true });
+        writeFileSync(join(moduleDir, 'main.tf'), `resource "null_resource" "${name}" {}`);
+      }
+    });
+
+    it('should link the members of each version group', () => {
+      config.set({ versionGroups: ['modules/vpc=networking', 'vpc-endpoint=networking'] });
+      const commits: CommitDetails[] = [{ sha: 'commit1', message: 'feat: vpc', files: ['modules/vpc/main.tf'] }];
+
+      const result = parseTerraformModules(commits, tags);
+      const endpoint = result.find((m) => m.name === 'modules/vpc-endpoint');
+
+      expect(endpoint?.versionGroup?.members.map((m) => m.name)).toEqual(['modules/vpc', 'modules/vpc-endpoint']);
+      expect(endpoint?.getReleaseReasons()).toEqual(['version-group']);
+      expect(endpoint?.getReleaseTagVersion()).toBe('v1.3.0');
+      expect(result.find((m) => m.name === 'modules/s3')?.versionGroup).toBeNull();
+      expect(vi.mocked(info)).toHaveBeenCalledWith(
+        '✓ Version group "networking" releases in lockstep: modules/vpc, modules/vpc-endpoint',
+      );
+    });
+
+    it('should skip entries that do not match a discovered module', () => {
+      config.set({ versionGroups: ['vpc=networking', 'transit-gateway=networking'] });
+
+      const result = parseTerraformModules([], tags);
+
+      expect(result.find((m) => m.name === 'modules/vpc')?.versionGroup?.members).toHaveLength(1);
+      expect(vi.mocked(info)).toHaveBeenCalledWith(
+        '✗ Skipping version group entry "transit-gateway=networking" ➜  No matching Terraform module',
+      );
+    });
+
+    it('should throw when a module is matched by entries of different version groups', () => {
+      config.set({ versionGroups: ['vpc=networking', 'modules/vpc=core'] });
+
+      expect(() => parseTerraformModules([], tags)).toThrow(
+        'Module "modules/vpc" cannot belong to both version group "networking" and "core"',
+      );
+    });
+  });
+
+  describe('phase 5: local dependency resolution', () => {
+    const tagsFor = (...names: string[]) => names.map((name) => ({ name: `${name}/v1.0.0`, commitSHA: `sha-${name}` }));
+
+    beforeEach(() => {
+      const modules = [
+        { path: 'modules/animal', content: 'resource "null_resource" "animal" {}' },
+        { path: 'modules/zoo', content: 'module "animal" {\n  source = "../animal"\n}\n' },
+        { path: 'modules/city', content: 'module "zoo" {\n  source = "../zoo"\n}\n' },
+        {
+          path: 'modules/remote',
+          content: 'module "label" {\n  source = "cloudposse/label/null"\n  version = "0.25.0"\n}\n',
+        },
+      ];
+      for (const module of modules) {
+        const moduleDir = join(tmpDir, module.path);
+        mkdirSync(moduleDir, { recursive: true });
+        writeFileSync(join(moduleDir, 'main.tf'), module.content);
+      }
+    });
+
+    it('should build the dependency graph from local module sources', () => {
+      const result = parseTerraformModules(
+        [],
+        tagsFor('modules/animal', 'modules/zoo', 'modules/city', 'modules/remote'),
+      );
+      const zoo = result.find((m) => m.name === 'modules/zoo');
+      const city = result.find((m) => m.name === 'modules/city');
+      const remote = result.find((m) => m.name === 'modules/remote');
+
+      expect(zoo?.dependencies.map((m) => m.name)).toEqual(['modules/animal']);
+      expect(city?.dependencies.map((m) => m.name)).toEqual(['modules/zoo']);
+      expect(remote?.dependencies).toHaveLength(0);
+      expect(result.every((m) => !m.needsRelease())).toBe(true);
+    });
+
+    it('should cascade releases transitively to dependent modules', () => {
+      const commits: CommitDetails[] = [
+        { sha: 'commit1', message: 'feat: new animal', files: ['modules/animal/main.tf'] },
+      ];
+      const result = parseTerraformModules(
+        commits,
+        tagsFor('modules/animal', 'modules/zoo', 'modules/city', 'modules/remote'),
+      );
+      const zoo = result.find((m) => m.name === 'modules/zoo');
+      const city = result.find((m) => m.name === 'modules/city');
+      const remote = result.find((m) => m.name === 'modules/remote');
+
+      expect(zoo?.getReleaseReasons()).toEqual(['local-dependency-update']);
+      expect(zoo?.getReleaseType()).toBe('patch');
+      expect(zoo?.dependencyTriggers.map((m) => m.name)).toEqual(['modules/animal']);
+      expect(city?.getReleaseReasons()).toEqual(['local-dependency-update']);
+      expect(city?.dependencyTriggers.map((m) => m.name)).toEqual(['modules/zoo']);
+      expect(remote?.needsRelease()).toBe(false);
+      expect(vi.mocked(info)).toHaveBeenCalledWith(
+        '✓ Module "modules/zoo" will be released due to local dependency "modules/animal"',
+      );
+    });
+
+    it('should not cascade releases to modules the changed module depends on', () => {
+      const commits: CommitDetails[] = [{ sha: 'commit1', message: 'fix: zoo', files: ['modules/zoo/main.tf'] }];
+      const result = parseTerraformModules(
+        commits,
+        tagsFor('modules/animal', 'modules/zoo', 'modules/city', 'modules/remote'),
+      );
+
+      expect(result.find((m) => m.name === 'modules/animal')?.needsRelease()).toBe(false);
+      expect(result.find((m) => m.name === 'modules/zoo')?.getReleaseReasons()).toEqual(['direct-changes']);
+      expect(result.find((m) => m.name === 'modules/city')?.getReleaseReasons()).toEqual(['local-dependency-update']);
+    });
+
+    it('should terminate when modules depend on each other', () => {
+      writeFileSync(join(tmpDir, 'modules/animal/main.tf'), 'module "zoo" {\n  source = "../zoo"\n}\n');
+      const commits: CommitDetails[] = [{ sha: 'commit1', message: 'fix: zoo', files: ['modules/zoo/main.tf'] }];
+      const result = parseTerraformModules(
+        commits,
+        tagsFor('modules/animal', 'modules/zoo', 'modules/city', 'modules/remote'),
+      );
+
+      expect(result.find((m) => m.name === 'modules/animal')?.getReleaseReasons()).toEqual(['local-dependency-update']);
+      expect(result.find((m) => m.name === 'modules/zoo')?.getReleaseReasons()).toEqual([
+        'direct-changes',
+        'local-dependency-update',
+      ]);
+    });
+
+    it('should skip local sources that do not resolve to a discovered module', () => {
+      config.set({ modulePathIgnore: ['modules/animal'] });
+
+      const result = parseTerraformModules([], tagsFor('modules/zoo', 'modules/city', 'modules/remote'));
+
+      expect(result.find((m) => m.name === 'modules/zoo')?.dependencies).toHaveLength(0);
+      expect(vi.mocked(info)).toHaveBeenCalledWith(
+        `✗ Skipping local source "${join(tmpDir, 'modules/animal')}" in "modules/zoo" ➜  Not a discovered module`,
+      );
+    });
   });
 
   describe('edge cases', () => {
@@ -114,6 +114,7 @@ describe('pull-request', () => {
         {
           message: 'feat: add screenshots for documentation',
           sha: '7f614091a80fb05a10659f4a5b8df9fee4fdea58',
+          author: expect.objectContaining({ name: expect.any(String) }),
           files: [
             '.github/linters/.markdown-lint.yml',
             'README.md',
@@ -130,6 +131,7 @@ describe('pull-request', () => {
         {
           message: 'docs: ensure GitHub wiki is enabled and initialized before action execution',
           sha: '8c2c39eb20e8fab10fd2fd1263d0e39cf371eebf',
+          author: expect.objectContaining({ name: expect.any(String) }),
           files: ['.github/workflows/ci.yml', 'README.md'],
         },
       ]);
@@ -207,6 +209,25 @@ describe('pull-request', () => {
       ]);
     });
 
+    it('should include the commit author when GitHub returns one', async () => {
+      stubOctokitReturnData('pulls.listFiles', { status: 200, data: [{ filename: 'file1.tf' }] });
+      stubOctokitReturnData('pulls.listCommits', {
+        status: 200,
+        data: [
+          { sha: 'sha1', author: { login: 'octocat' }, commit: { message: 'First', author: { name: 'The Octocat' } } },
+          { sha: 'sha2', author: null, commit: { message: 'Second', author: { name: 'Jane Doe' } } },
+        ],
+      });
+      stubOctokitReturnData('repos.getCommit', { status: 200, data: { files: [{ filename: 'file1.tf' }] } });
+
+      const commits = await getPullRequestCommits();
+
+      expect(commits.map(({ author }) => author)).toEqual([
+        { login: 'octocat', name: 'The Octocat' },
+        { login: null, name: 'Jane Doe' },
+      ]);
+    });
+
     it('should output text for singular', async () => {
       stubOctokitReturnData('pulls.listFiles', {
         status: 200,
@@ -354,6 +375,7 @@ describe('pull-request', () => {
 
     beforeEach(() => {
       context.useMockOctokit();
+      context.set({ prLabels: [], prBody: '' });
       vi.clearAllMocks();
     });
 
@@ -429,6 +451,184 @@ describe('pull-request', () => {
       expect(endGroup).toHaveBeenCalled();
     });
 
+    it('should label releases triggered by a local dependency', async () => {
+      const dependency = createMockTerraformModule({ directory: '/animal', tags: ['animal/v1.0.0'] });
+      const dependent = createMockTerraformModule({ directory: '/zoo', tags: ['zoo/v2.3.0'] });
+      dependent.addDependencyTrigger(dependency);
+
+      await addReleasePlanComment([dependent], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      expect(context.octokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.stringContaining(
+            '| <nobr><code>zoo</code></nobr> | patch | v2.3.0 | **v2.3.1** | 🔗 Local Dependency Updated |',
+          ),
+        }),
+      );
+    });
+
+    it('should list breaking interface changes and force a major release', async () => {
+      const module = createMockTerraformModule({
+        directory: '/kms',
+        tags: ['kms/v1.4.2'],
+        commits: [{ sha: 'abc123', message: 'fix: tidy variables', files: ['variables.tf'] }],
+      });
+      module.setBreakingInterfaceChanges([
+        { kind: 'variable-removed', name: 'alias', description: 'Variable `alias` was removed' },
+        { kind: 'output-removed', name: 'key_id', description: 'Output `key_id` was removed' },
+      ]);
+
+      await addReleasePlanComment([module], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain(
+        '| <nobr><code>kms</code></nobr> | major | v1.4.2 | **v2.0.0** | 📝 Changed Files<br>💥 Breaking Interface Change |',
+      );
+      expect(body).toContain('# 💥 Breaking Interface Changes');
+      expect(body).toContain('**`kms`**\n- Variable `alias` was removed\n- Output `key_id` was removed');
+    });
+
+    it('should show release label overrides as a release reason', async () => {
+      context.set({ prLabels: ['release:minor:kms'] });
+      const module = createMockTerraformModule({
+        directory: '/kms',
+        tags: ['kms/v1.4.2'],
+        commits: [{ sha: 'abc123', message: 'fix: tidy variables', files: ['variables.tf'] }],
+      });
+
+      await addReleasePlanComment([module], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain(
+        '| <nobr><code>kms</code></nobr> | minor | v1.4.2 | **v1.5.0** | 📝 Changed Files<br>🏷️ Release Label |',
+      );
+    });
+
+    it('should show Release-As version pins as a release reason', async () => {
+      context.set({ prBody: 'Release-As: kms=3.0.0' });
+      const module = createMockTerraformModule({
+        directory: '/kms',
+        tags: ['kms/v1.4.2'],
+        commits: [{ sha: 'abc123', message: 'fix: tidy variables', files: ['variables.tf'] }],
+      });
+
+      await addReleasePlanComment([module], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain(
+        '| <nobr><code>kms</code></nobr> | major | v1.4.2 | **v3.0.0** | 📝 Changed Files<br>📌 Release-As |',
+      );
+    });
+
+    it('should show version group releases as a release reason', async () => {
+      const kms = createMockTerraformModule({
+        directory: '/kms',
+        tags: ['kms/v1.4.2'],
+        commits: [{ sha: 'abc123', message: 'fix: tidy variables', files: ['variables.tf'] }],
+      });
+      const vpc = createMockTerraformModule({ directory: '/vpc', tags: ['vpc/v1.2.0'] });
+      const versionGroup = { name: 'core', members: [kms, vpc] };
+      kms.setVersionGroup(versionGroup);
+      vpc.setVersionGroup(versionGroup);
+
+      await addReleasePlanComment([kms, vpc], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain('| <nobr><code>vpc</code></nobr> | patch | v1.2.0 | **v1.4.3** | 👥 Version Group |');
+    });
+
+    it('should list modules skipped by a skip directive', async () => {
+      context.set({ prBody: 'Release-As: vpc=none' });
+      const kms = createMockTerraformModule({
+        directory: '/kms',
+        tags: ['kms/v1.4.2'],
+        commits: [{ sha: 'abc123', message: 'fix: tidy variables', files: ['variables.tf'] }],
+      });
+      const vpc = createMockTerraformModule({
+        directory: '/vpc',
+        tags: ['vpc/v2.0.0'],
+        commits: [{ sha: 'def456', message: 'feat: add subnets', files: ['main.tf'] }],
+      });
+
+      await addReleasePlanComment([kms, vpc], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain('| <nobr><code>kms</code></nobr> | patch | v1.4.2 | **v1.4.3** | 📝 Changed Files |');
+      expect(body).not.toContain('<code>vpc</code>');
+      expect(body).toContain('# ⏭️ Skipped Modules');
+      expect(body).toContain('- `vpc`');
+    });
+
+    it('should list the messages that fail the commit lint', async () => {
+      config.set({ commitLint: 'error' });
+      context.set({ prTitle: 'Add subnets' });
+      const commitLint = {
+        invalidCommits: [{ sha: 'abc1234def', message: 'wip\n\nmore details', files: ['main.tf'] }],
+        invalidTitle: true,
+      };
+
+      await addReleasePlanComment(terraformModules, [], [], { status: WIKI_STATUS.SUCCESS }, commitLint);
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain('# ❌ Commit Lint');
+      expect(body).toContain('- abc1234 wip\n- Pull request title: Add subnets');
+    });
+
+    it('should not add a commit lint section when every message passes', async () => {
+      await addReleasePlanComment(
+        terraformModules,
+        [],
+        [],
+        { status: WIKI_STATUS.SUCCESS },
+        { invalidCommits: [], invalidTitle: false },
+      );
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).not.toContain('Commit Lint');
+    });
+
+    it('should warn about commit scopes that match no module', async () => {
+      config.set({ scopeRouting: true });
+      const kms = createMockTerraformModule({
+        directory: '/kms',
+        tags: ['kms/v1.4.2'],
+        commits: [
+          { sha: 'abc123', message: 'fix(kms): rotate keys', files: ['main.tf'] },
+          { sha: 'def456', message: 'fix(ksm): tidy variables', files: ['variables.tf'] },
+        ],
+      });
+
+      await addReleasePlanComment([kms], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain('# ⚠️ Unmatched Commit Scopes');
+      expect(body).toContain('- `ksm`');
+      expect(body).not.toContain('- `kms`');
+    });
+
+    it('should list commits cancelled out by a revert', async () => {
+      const kms = createMockTerraformModule({
+        directory: '/kms',
+        tags: ['kms/v1.4.2'],
+        commits: [
+          { sha: 'abc1234567', message: 'feat!: drop alias\n\nDetails', files: ['variables.tf'] },
+          {
+            sha: 'def4567890',
+            message: 'Revert "feat!: drop alias"\n\nThis reverts commit abc1234567.',
+            files: ['variables.tf'],
+          },
+        ],
+      });
+
+      await addReleasePlanComment([kms], [], [], { status: WIKI_STATUS.SUCCESS });
+
+      const { body } = vi.mocked(context.octokit.rest.issues.createComment).mock.calls[0][0] as { body: string };
+      expect(body).toContain('No terraform modules updated in this pull request.');
+      expect(body).toContain('# ↩️ Reverted Commits');
+      expect(body).toContain('**`kms`**\n- abc1234 feat!: drop alias (reverted by def4567)');
+      expect(body).not.toContain('# ⏭️ Skipped Modules');
+    });
+
     it('should handle empty module updates', async () => {
       stubOctokitReturnData('issues.createComment', {
         data: { id: 1, html_url: 'https://github.com/org/repo/pull/1#issuecomment-1' },
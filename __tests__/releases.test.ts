@@ -1,13 +1,22 @@
 import { execFileSync } from 'node:child_process';
+import { cpSync, existsSync, mkdtempSync, readdirSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { config } from '@/mocks/config';
 import { context } from '@/mocks/context';
-import { createTaggedReleases, deleteReleases, getAllReleases } from '@/releases';
+import {
+  backfillReleases,
+  createTaggedReleases,
+  deleteReleases,
+  getAllReleases,
+  rebuildReleaseBodies,
+} from '@/releases';
 import { TerraformModule } from '@/terraform-module';
 import { stubOctokitImplementation, stubOctokitReturnData } from '@/tests/helpers/octokit';
-import { createMockTerraformModule } from '@/tests/helpers/terraform-module';
+import { createMockTag, createMockTerraformModule } from '@/tests/helpers/terraform-module';
 import type { GitHubRelease } from '@/types';
+import { createTarGzArchive, createZipArchive, sha256 } from '@/utils/archive';
+import { computeTreeDigest } from '@/utils/provenance';
 import { LEGACY_PR_RELEASE_COMMENT_MARKER, PR_RELEASE_COMMENT_MARKER } from '@/utils/constants';
 import { buildPrMarker, matchesPrMarker } from '@/utils/markers';
 import { debug, endGroup, info, startGroup, warning } from '@actions/core';
@@ -28,8 +37,23 @@ vi.mock('node:fs', () => ({
     return join(tmpdir(), (Math.random() + 1).toString(36).substring(7));
   }),
   cpSync: vi.fn(),
+  mkdirSync: vi.fn(),
+  rmSync: vi.fn(),
+  symlinkSync: vi.fn(),
+  writeFileSync: vi.fn(),
   readdirSync: vi.fn().mockImplementation(() => []),
 }));
+// The archives read the module files, which the node:fs mock above does not provide
+vi.mock('@/utils/archive', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/archive')>()),
+  createTarGzArchive: vi.fn(() => Buffer.from('tar.gz archive')),
+  createZipArchive: vi.fn(() => Buffer.from('zip archive')),
+}));
+// The backfill pauses between releases, which the tests do not need to wait for
+vi.mock('@/utils/github', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/github')>()),
+  sleep: vi.fn(),
+}));
 
 const execFileSyncMock = vi.mocked(execFileSync);
 
@@ -146,6 +170,16 @@ describe('releases', () => {
       ]);
     });
 
+    it('should leave out draft releases', async () => {
+      stubOctokitReturnData('repos.listReleases', {
+        data: [{ ...mockListReleasesResponse.data[0], draft: true }, mockListReleasesResponse.data[1]],
+      });
+
+      const releases = await getAllReleases();
+
+      expect(releases).toEqual([mockGetAllReleasesResponse[1]]);
+    });
+
     it('should output singular "release" when only one', async () => {
       const mockReleaseDataSingle = {
         ...mockListReleasesResponse,
@@ -410,6 +444,145 @@ describe('releases', () => {
       );
     });
 
+    it('should flag releases on a pre-release channel as pre-releases', async () => {
+      config.set({ preReleaseChannel: 'rc' });
+
+      const mockRelease = {
+        data: {
+          id: 123456,
+          name: 'path/to/test-module/v1.1.0-rc.1',
+          body: 'Mock changelog content',
+          tag_name: 'path/to/test-module/v1.1.0-rc.1',
+          target_commitish: 'abc123def456',
+          draft: false,
+          prerelease: true,
+        },
+      };
+      stubOctokitReturnData('repos.createRelease', mockRelease);
+
+      await createTaggedReleases([mockTerraformModule]);
+
+      expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tag_name: 'path/to/test-module/v1.1.0-rc.1',
+          prerelease: true,
+        }),
+      );
+    });
+
+    it('should link the previous release with the module diff statistics', async () => {
+      const previousTagCommitSHA = mockTerraformModule.getLatestTagCommitSHA() as string;
+      execFileSyncMock.mockImplementation((_file, args) => {
+        if (Array.isArray(args) && args.includes('rev-parse')) {
+          return Buffer.from('abc123def456');
+        }
+        if (Array.isArray(args) && args.includes('--shortstat')) {
+          return Buffer.from(' 2 files changed, 10 insertions(+), 3 deletions(-)\n');
+        }
+
+        return Buffer.from('');
+      });
+      stubOctokitReturnData('repos.createRelease', {
+        data: { id: 1, name: 'path/to/test-module/v1.1.0', tag_name: 'path/to/test-module/v1.1.0', body: null },
+      });
+
+      await createTaggedReleases([mockTerraformModule]);
+
+      expect(execFileSyncMock).toHaveBeenCalledWith(
+        expect.any(String),
+        ['fetch', '--depth=1', 'origin', previousTagCommitSHA],
+        expect.anything(),
+      );
+      expect(execFileSyncMock).toHaveBeenCalledWith(
+        expect.any(String),
+        ['diff', '--shortstat', previousTagCommitSHA, 'HEAD'],
+        expect.anything(),
+      );
+      const { body } = vi.mocked(context.octokit.rest.repos.createRelease).mock.calls[0][0] as { body: string };
+      expect(body).toContain(
+        '\n\n**Full diff**: [`path/to/test-module/v1.0.0..path/to/test-module/v1.1.0`](https://github.com/techpivot/terraform-module-releaser/compare/path/to/test-module/v1.0.0..path/to/test-module/v1.1.0) (2 files changed, 10 insertions(+), 3 deletions(-))\n\n',
+      );
+    });
+
+    it('should link the previous release without diff statistics when they cannot be computed', async () => {
+      const previousTagCommitSHA = mockTerraformModule.getLatestTagCommitSHA() as string;
+      execFileSyncMock.mockImplementation((_file, args) => {
+        if (Array.isArray(args) && args.includes('rev-parse')) {
+          return Buffer.from('abc123def456');
+        }
+        if (Array.isArray(args) && args.includes('fetch')) {
+          throw new Error('fetch failed');
+        }
+
+        return Buffer.from('');
+      });
+      stubOctokitReturnData('repos.createRelease', {
+        data: { id: 1, name: 'path/to/test-module/v1.1.0', tag_name: 'path/to/test-module/v1.1.0', body: null },
+      });
+
+      const releasedModules = await createTaggedReleases([mockTerraformModule]);
+
+      expect(releasedModules[0]).toMatchObject({ action: 'created' });
+      expect(warning).toHaveBeenCalledWith(
+        `Unable to compute the diff statistics against ${previousTagCommitSHA}: fetch failed`,
+      );
+      const { body } = vi.mocked(context.octokit.rest.repos.createRelease).mock.calls[0][0] as { body: string };
+      expect(body).toMatch(
+        /\*\*Full diff\*\*: \[`path\/to\/test-module\/v1\.0\.0\.\.path\/to\/test-module\/v1\.1\.0`\]\([^)]+\)\n/,
+      );
+    });
+
+    it('should omit the full diff link from the first release of a module', async () => {
+      const firstModule = createMockTerraformModule({
+        directory: '/workspace/path/to/new-module',
+        commits: [{ sha: 'abc123', message: 'feat: initial', files: ['/workspace/path/to/new-module/main.tf'] }],
+      });
+      stubOctokitReturnData('repos.createRelease', {
+        data: { id: 1, name: 'path/to/new-module/v1.0.0', tag_name: 'path/to/new-module/v1.0.0', body: null },
+      });
+
+      await createTaggedReleases([firstModule]);
+
+      const { body } = vi.mocked(context.octokit.rest.repos.createRelease).mock.calls[0][0] as { body: string };
+      expect(body).not.toContain('Full diff');
+      expect(execFileSyncMock).not.toHaveBeenCalledWith(
+        expect.any(String),
+        expect.arrayContaining(['fetch']),
+        expect.anything(),
+      );
+    });
+
+    it('should commit the module changelog into the tag when module-changelog is enabled', async () => {
+      config.set({ moduleChangelog: true });
+      stubOctokitReturnData('repos.createRelease', {
+        data: { id: 1, name: 'path/to/test-module/v1.1.0', tag_name: 'path/to/test-module/v1.1.0', body: null },
+      });
+
+      await createTaggedReleases([mockTerraformModule]);
+
+      expect(writeFileSync).toHaveBeenCalledOnce();
+      const [path, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(path).toMatch(/CHANGELOG\.md$/);
+      expect(content).toMatch(/^# Changelog\n\n## `v1\.1\.0` \(\d{4}-\d{2}-\d{2}\)\n/);
+      expect(content).toContain('- feat: Add new feature\n\n# v1.0.0 (YYYY-MM-DD)\n\n- Changelog Item 1\n');
+      // The file is written before the tag commit is created
+      expect(vi.mocked(writeFileSync).mock.invocationCallOrder[0]).toBeLessThan(
+        execFileSyncMock.mock.invocationCallOrder[
+          execFileSyncMock.mock.calls.findIndex(([, args]) => args?.[0] === 'add')
+        ],
+      );
+    });
+
+    it('should not write a module changelog by default', async () => {
+      stubOctokitReturnData('repos.createRelease', {
+        data: { id: 1, name: 'path/to/test-module/v1.1.0', tag_name: 'path/to/test-module/v1.1.0', body: null },
+      });
+
+      await createTaggedReleases([mockTerraformModule]);
+
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+
     it('should handle null/undefined name and body from GitHub API response', async () => {
       execFileSyncMock.mockImplementation((_file, args) => {
         if (Array.isArray(args) && args.includes('rev-parse')) {
@@ -581,6 +754,332 @@ describe('releases', () => {
       await expect(createTaggedReleases([mockTerraformModule])).rejects.toThrow(/contents: write/);
       expect(endGroup).toHaveBeenCalled();
     });
+
+    describe('release assets', () => {
+      const uploadUrl =
+        'https://github.example.com/api/uploads/repos/techpivot/terraform-module-releaser/releases/123456/assets{?name,label}';
+      // The body of each uploaded asset, by name
+      let uploadedAssetData: Map<string, string>;
+
+      beforeEach(() => {
+        stubOctokitReturnData('repos.createRelease', {
+          data: {
+            id: 123456,
+            name: 'path/to/test-module/v1.1.0',
+            body: 'Mock changelog content',
+            tag_name: 'path/to/test-module/v1.1.0',
+            upload_url: uploadUrl,
+          },
+        });
+        uploadedAssetData = new Map();
+        stubOctokitImplementation('repos.uploadReleaseAsset', ({ name, data }) => {
+          uploadedAssetData.set(String(name), String(data));
+          return { data: { browser_download_url: `https://github.example.com/download/${name}` } };
+        });
+      });
+
+      it('should not build or upload release assets by default', async () => {
+        const [outcome] = await createTaggedReleases([mockTerraformModule]);
+
+        expect(createTarGzArchive).not.toHaveBeenCalled();
+        expect(createZipArchive).not.toHaveBeenCalled();
+        expect(context.octokit.request).not.toHaveBeenCalled();
+        expect(outcome).not.toHaveProperty('assets');
+      });
+
+      it('should attach archives of the tag files and their checksums to the release', async () => {
+        config.set({ releaseAssets: true });
+        const tarGzSha256 = sha256(Buffer.from('tar.gz archive'));
+        const zipSha256 = sha256(Buffer.from('zip archive'));
+        const checksums = Buffer.from(
+          `${tarGzSha256}  path-to-test-module-v1.1.0.tar.gz\n${zipSha256}  path-to-test-module-v1.1.0.zip\n`,
+        );
+
+        const [outcome] = await createTaggedReleases([mockTerraformModule]);
+
+        // Archived from the temp directory of the release commit, before its .git directory is copied in
+        const tmpDir = vi.mocked(createTarGzArchive).mock.calls[0][0];
+        expect(createZipArchive).toHaveBeenCalledWith(tmpDir);
+        expect(vi.mocked(createTarGzArchive).mock.invocationCallOrder[0]).toBeLessThan(
+          vi.mocked(cpSync).mock.invocationCallOrder[0],
+        );
+        expect(vi.mocked(context.octokit.request).mock.calls.map(([params]) => params)).toEqual(
+          ['path-to-test-module-v1.1.0.tar.gz', 'path-to-test-module-v1.1.0.zip', 'SHA256SUMS'].map((name) =>
+            expect.objectContaining({ method: 'POST', url: uploadUrl, name }),
+          ),
+        );
+        expect(context.octokit.request).toHaveBeenLastCalledWith(expect.objectContaining({ data: checksums }));
+        // Created as a draft, and only published once every asset is uploaded
+        expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledWith(expect.objectContaining({ draft: true }));
+        expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledWith({
+          owner: 'techpivot',
+          repo: 'terraform-module-releaser',
+          release_id: 123456,
+          draft: false,
+        });
+        expect(vi.mocked(context.octokit.rest.repos.updateRelease).mock.invocationCallOrder[0]).toBeGreaterThan(
+          vi.mocked(context.octokit.request).mock.invocationCallOrder[2],
+        );
+        expect(outcome.assets).toEqual([
+          {
+            name: 'path-to-test-module-v1.1.0.tar.gz',
+            url: 'https://github.example.com/download/path-to-test-module-v1.1.0.tar.gz',
+            sha256: tarGzSha256,
+          },
+          {
+            name: 'path-to-test-module-v1.1.0.zip',
+            url: 'https://github.example.com/download/path-to-test-module-v1.1.0.zip',
+            sha256: zipSha256,
+          },
+          {
+            name: 'SHA256SUMS',
+            url: 'https://github.example.com/download/SHA256SUMS',
+            sha256: sha256(checksums),
+          },
+        ]);
+      });
+
+      it('should fail when a release asset cannot be uploaded', async () => {
+        config.set({ releaseAssets: true });
+        vi.mocked(context.octokit.request).mockRejectedValueOnce(
+          new RequestError('Validation Failed', 422, {
+            request: { method: 'POST', url: '', headers: {} },
+            response: { status: 422, url: '', headers: {}, data: {} },
+          }),
+        );
+
+        await expect(createTaggedReleases([mockTerraformModule])).rejects.toThrow(
+          "Failed to upload release asset path-to-test-module-v1.1.0.tar.gz to release 'path/to/test-module/v1.1.0': [Status = 422] Validation Failed",
+        );
+        // The draft is deleted rather than published, so that a re-run recovers the release with its assets
+        expect(context.octokit.rest.repos.updateRelease).not.toHaveBeenCalled();
+        expect(context.octokit.rest.repos.deleteRelease).toHaveBeenCalledWith({
+          owner: 'techpivot',
+          repo: 'terraform-module-releaser',
+          release_id: 123456,
+        });
+      });
+
+      it('should report upload failures that are not API errors without a status', async () => {
+        config.set({ releaseAssets: true });
+        vi.mocked(context.octokit.request).mockRejectedValueOnce(new Error('socket hang up'));
+
+        await expect(createTaggedReleases([mockTerraformModule])).rejects.toThrow(
+          "Failed to upload release asset path-to-test-module-v1.1.0.tar.gz to release 'path/to/test-module/v1.1.0': socket hang up",
+        );
+      });
+
+      it('should still report the upload failure when the draft cannot be deleted', async () => {
+        config.set({ releaseAssets: true });
+        vi.mocked(context.octokit.request).mockRejectedValueOnce(
+          new RequestError('Validation Failed', 422, { request: { method: 'POST', url: '', headers: {} } }),
+        );
+        vi.mocked(context.octokit.rest.repos.deleteRelease).mockRejectedValueOnce(new Error('Server Error'));
+
+        await expect(createTaggedReleases([mockTerraformModule])).rejects.toThrow('[Status = 422] Validation Failed');
+        expect(warning).toHaveBeenCalledWith(
+          "Unable to delete the draft release 'path/to/test-module/v1.1.0': Server Error",
+        );
+      });
+
+      it('should recreate the assets from the tag when recovering the release of an orphan tag', async () => {
+        config.set({ releaseAssets: true });
+        stubOctokitReturnData('git.getCommit', {
+          data: { message: `path/to/test-module/v1.1.0\n\nTest Pull Request\n\nbody\n\n${buildPrMarker(1)}` },
+        });
+        execFileSyncMock.mockImplementation((_file, args) => {
+          const [command] = args as string[];
+          if (command === 'ls-tree') {
+            return Buffer.from(
+              [
+                '100755 blob 1111111111111111111111111111111111111111\tscripts/run.sh',
+                '120000 blob 2222222222222222222222222222222222222222\tlink.tf',
+                '',
+              ].join('\0'),
+            );
+          }
+          return Buffer.from(command === 'cat-file' ? 'content' : '');
+        });
+        const module = createMockTerraformModule({
+          directory: '/workspace/path/to/test-module',
+          commits: [{ sha: 'abc123', message: 'feat: add feature', files: ['/workspace/path/to/test-module/main.tf'] }],
+          tags: ['path/to/test-module/v1.1.0', 'path/to/test-module/v1.0.0'],
+          releases: [
+            { id: 1, title: 'path/to/test-module/v1.0.0', tagName: 'path/to/test-module/v1.0.0', body: 'initial' },
+          ],
+        });
+
+        const [outcome] = await createTaggedReleases([module]);
+
+        expect(outcome).toMatchObject({ action: 'recovered', releaseTag: 'path/to/test-module/v1.1.0' });
+        expect(execFileSyncMock).toHaveBeenCalledWith(
+          expect.any(String),
+          [
+            'fetch',
+            '--depth=1',
+            '--force',
+            'origin',
+            'refs/tags/path/to/test-module/v1.1.0:refs/tags/path/to/test-module/v1.1.0',
+          ],
+          expect.anything(),
+        );
+        expect(writeFileSync).toHaveBeenCalledWith(expect.stringMatching(/scripts\/run\.sh$/), Buffer.from('content'), {
+          mode: 0o755,
+        });
+        expect(symlinkSync).toHaveBeenCalledWith('content', expect.stringMatching(/link\.tf$/));
+        expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledWith(
+          expect.objectContaining({ tag_name: 'path/to/test-module/v1.1.0', draft: true }),
+        );
+        expect(outcome.assets?.map(({ name }) => name)).toEqual([
+          'path-to-test-module-v1.1.0.tar.gz',
+          'path-to-test-module-v1.1.0.zip',
+          'SHA256SUMS',
+        ]);
+        expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledWith(
+          expect.objectContaining({ release_id: 123456, draft: false }),
+        );
+        const tempDirs = vi.mocked(mkdtempSync).mock.results.map(({ value }) => value as string);
+        expect(tempDirs).toHaveLength(2);
+        for (const tempDir of tempDirs) {
+          expect(rmSync).toHaveBeenCalledWith(tempDir, { recursive: true, force: true });
+        }
+      });
+
+      it('should remove the clone of the repository when fetching the tag of an orphan tag fails', async () => {
+        config.set({ releaseAssets: true });
+        stubOctokitReturnData('git.getCommit', {
+          data: { message: `path/to/test-module/v1.1.0\n\nTest Pull Request\n\nbody\n\n${buildPrMarker(1)}` },
+        });
+        execFileSyncMock.mockImplementation((_file, args) => {
+          if ((args as string[])[0] === 'fetch') {
+            throw new Error('fatal: could not read from remote repository');
+          }
+          return Buffer.from('');
+        });
+        const module = createMockTerraformModule({
+          directory: '/workspace/path/to/test-module',
+          commits: [{ sha: 'abc123', message: 'feat: add feature', files: ['/workspace/path/to/test-module/main.tf'] }],
+          tags: ['path/to/test-module/v1.1.0', 'path/to/test-module/v1.0.0'],
+          releases: [
+            { id: 1, title: 'path/to/test-module/v1.0.0', tagName: 'path/to/test-module/v1.0.0', body: 'initial' },
+          ],
+        });
+
+        await expect(createTaggedReleases([module])).rejects.toThrow('fatal: could not read from remote repository');
+
+        const [gitDir] = vi.mocked(mkdtempSync).mock.results.map(({ value }) => value as string);
+        expect(rmSync).toHaveBeenCalledWith(gitDir, { recursive: true, force: true });
+        expect(context.octokit.rest.repos.createRelease).not.toHaveBeenCalled();
+      });
+
+      it('should attach a provenance statement of the tag commit and the other assets', async () => {
+        config.set({ releaseAssets: true, releaseProvenance: true });
+        context.set({ mergeCommitSha: 'merge123' });
+        execFileSyncMock.mockImplementation((_file, args) => {
+          const [command] = args as string[];
+          if (command === 'rev-parse') {
+            return Buffer.from('abc123def456');
+          }
+          if (command === 'ls-tree') {
+            return Buffer.from('100644 blob 1111111111111111111111111111111111111111\tmain.tf\0');
+          }
+          return Buffer.from(command === 'cat-file' ? 'resource {}' : '');
+        });
+
+        const [outcome] = await createTaggedReleases([mockTerraformModule]);
+
+        expect(execFileSyncMock).toHaveBeenCalledWith(
+          expect.any(String),
+          ['ls-tree', '-r', '-z', 'abc123def456'],
+          expect.anything(),
+        );
+        expect(context.octokit.request).toHaveBeenLastCalledWith(
+          expect.objectContaining({ name: 'provenance.intoto.json' }),
+        );
+        const statement = JSON.parse(uploadedAssetData.get('provenance.intoto.json') ?? '');
+        expect(statement.subject.map(({ name }: { name: string }) => name)).toEqual([
+          'path/to/test-module/v1.1.0',
+          'path-to-test-module-v1.1.0.tar.gz',
+          'path-to-test-module-v1.1.0.zip',
+          'SHA256SUMS',
+        ]);
+        expect(statement.subject[0].digest).toEqual({
+          sha256: computeTreeDigest([{ path: 'main.tf', mode: '100644', data: Buffer.from('resource {}') }]),
+          gitCommit: 'abc123def456',
+        });
+        expect(statement.predicate.buildDefinition.resolvedDependencies).toEqual([
+          { uri: 'git+https://github.com/techpivot/terraform-module-releaser', digest: { gitCommit: 'merge123' } },
+        ]);
+        expect(outcome.assets?.map(({ name }) => name)).toContain('provenance.intoto.json');
+      });
+
+      it('should attach the provenance statement on a re-run after its upload failed', async () => {
+        config.set({ releaseProvenance: true });
+        const releaseTag = 'path/to/test-module/v1.1.0';
+        execFileSyncMock.mockImplementation((_file, args) => {
+          const [command] = args as string[];
+          if (command === 'rev-parse') {
+            return Buffer.from('abc123def456');
+          }
+          if (command === 'ls-tree') {
+            return Buffer.from('100644 blob 1111111111111111111111111111111111111111\tmain.tf\0');
+          }
+          return Buffer.from(command === 'cat-file' ? 'resource {}' : '');
+        });
+        vi.mocked(context.octokit.request).mockRejectedValueOnce(
+          new RequestError('Server Error', 502, { request: { method: 'POST', url: '', headers: {} } }),
+        );
+
+        await expect(createTaggedReleases([mockTerraformModule])).rejects.toThrow(
+          `Failed to upload release asset provenance.intoto.json to release '${releaseTag}': [Status = 502] Server Error`,
+        );
+        expect(context.octokit.rest.repos.deleteRelease).toHaveBeenCalledWith(
+          expect.objectContaining({ release_id: 123456 }),
+        );
+
+        // The re-run finds the pushed tag without a release, tied to this pull request by its release commit
+        stubOctokitReturnData('git.getCommit', {
+          data: { message: `${releaseTag}\n\nTest Pull Request\n\nbody\n\n${buildPrMarker(1)}` },
+        });
+        vi.mocked(context.octokit.request).mockClear();
+        const rerunModule = createMockTerraformModule({
+          directory: '/workspace/path/to/test-module',
+          commits: [
+            { sha: 'abc123', message: 'feat: Add new feature', files: ['/workspace/path/to/test-module/main.tf'] },
+          ],
+          tags: [releaseTag, 'path/to/test-module/v1.0.0'],
+          releases: [
+            { id: 1, title: 'path/to/test-module/v1.0.0', tagName: 'path/to/test-module/v1.0.0', body: 'initial' },
+          ],
+        });
+
+        const [outcome] = await createTaggedReleases([rerunModule]);
+
+        expect(outcome).toMatchObject({ action: 'recovered', releaseTag });
+        expect(outcome.assets?.map(({ name }) => name)).toEqual(['provenance.intoto.json']);
+        expect(JSON.parse(uploadedAssetData.get('provenance.intoto.json') ?? '').subject).toEqual([
+          {
+            name: releaseTag,
+            digest: {
+              sha256: computeTreeDigest([{ path: 'main.tf', mode: '100644', data: Buffer.from('resource {}') }]),
+              gitCommit: 'abc123def456',
+            },
+          },
+        ]);
+        expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledWith(
+          expect.objectContaining({ release_id: 123456, draft: false }),
+        );
+      });
+
+      it('should attach a provenance statement without the archives', async () => {
+        config.set({ releaseProvenance: true });
+
+        const [outcome] = await createTaggedReleases([mockTerraformModule]);
+
+        expect(createTarGzArchive).not.toHaveBeenCalled();
+        expect(outcome.assets?.map(({ name }) => name)).toEqual(['provenance.intoto.json']);
+      });
+    });
   });
 
   describe('createTaggedReleases() - self-healing / idempotency', () => {
@@ -771,6 +1270,9 @@ describe('releases', () => {
       expect(newRelease.tagName).toBe('path/to/test-module/v1.1.0');
       expect(newRelease.body).toContain('v1.1.0');
       expect(newRelease.body).toContain('feat: add feature');
+      expect(newRelease.body).toContain(
+        '**Full diff**: [`path/to/test-module/v1.0.0..path/to/test-module/v1.1.0`](https://github.com/techpivot/terraform-module-releaser/compare/path/to/test-module/v1.0.0..path/to/test-module/v1.1.0)\n',
+      );
     });
 
     it('step 2 provenance: does NOT adopt an orphan tag carrying another pull request’s marker; bumps instead', async () => {
@@ -867,21 +1369,82 @@ describe('releases', () => {
           { id: 1, title: 'path/to/test-module/v1.0.0', tagName: 'path/to/test-module/v1.0.0', body: 'older' },
         ],
       });
-      // An annotated tag object, a deleted commit, or a transient failure.
+      // A deleted commit: neither a commit nor an annotated tag object.
+      const notFoundError = new RequestError('Not Found', 404, {
+        request: { method: 'GET', url: '', headers: {} },
+        response: { status: 404, url: '', headers: {}, data: {} },
+      });
+      vi.mocked(context.octokit.rest.git.getCommit).mockRejectedValueOnce(notFoundError);
+      vi.mocked(context.octokit.rest.git.getTag).mockRejectedValueOnce(notFoundError);
+      stubOctokitReturnData('repos.createRelease', {
+        data: { id: 903, name: 'path/to/test-module/v1.2.0', tag_name: 'path/to/test-module/v1.2.0', body: 'notes' },
+      });
+
+      const result = await createTaggedReleases([module]);
+
+      expect(result[0]).toMatchObject({ action: 'created', releaseTag: 'path/to/test-module/v1.2.0' });
+      expect(warning).toHaveBeenCalledWith(expect.stringContaining('to verify ownership'));
+    });
+
+    it('step 2 provenance: peels an annotated tag object to its release commit', async () => {
+      const module = createMockTerraformModule({
+        directory,
+        commits: [{ sha: 'abc123', message: 'feat: add feature', files: [`${directory}/main.tf`] }],
+        tags: ['path/to/test-module/v1.1.0', 'path/to/test-module/v1.0.0'],
+        releases: [
+          { id: 1, title: 'path/to/test-module/v1.0.0', tagName: 'path/to/test-module/v1.0.0', body: 'older' },
+        ],
+      });
+      const tagObjectSHA = module.getLatestTagCommitSHA();
+      stubOctokitImplementation('git.getCommit', ({ commit_sha }) => {
+        if (commit_sha === tagObjectSHA) {
+          throw new RequestError('Unprocessable Entity', 422, {
+            request: { method: 'GET', url: '', headers: {} },
+            response: { status: 422, url: '', headers: {}, data: {} },
+          });
+        }
+        return { data: { message: ourReleaseCommitMessage('path/to/test-module/v1.1.0') } };
+      });
+      stubOctokitReturnData('git.getTag', { data: { object: { sha: 'peeled-commit-sha', type: 'commit' } } });
+      stubOctokitReturnData('repos.createRelease', {
+        data: { id: 905, name: 'path/to/test-module/v1.1.0', tag_name: 'path/to/test-module/v1.1.0', body: 'notes' },
+      });
+
+      const result = await createTaggedReleases([module]);
+
+      expect(result[0]).toMatchObject({ action: 'recovered', releaseTag: 'path/to/test-module/v1.1.0' });
+      expect(context.octokit.rest.git.getTag).toHaveBeenCalledWith(expect.objectContaining({ tag_sha: tagObjectSHA }));
+      expect(context.octokit.rest.git.getCommit).toHaveBeenLastCalledWith(
+        expect.objectContaining({ commit_sha: 'peeled-commit-sha' }),
+      );
+      expect(execFileSyncMock).not.toHaveBeenCalled();
+    });
+
+    it('step 2 provenance: does not peel a tag object pointing at something other than a commit', async () => {
+      const module = createMockTerraformModule({
+        directory,
+        commits: [{ sha: 'abc123', message: 'feat: add feature', files: [`${directory}/main.tf`] }],
+        tags: ['path/to/test-module/v1.1.0', 'path/to/test-module/v1.0.0'],
+        releases: [
+          { id: 1, title: 'path/to/test-module/v1.0.0', tagName: 'path/to/test-module/v1.0.0', body: 'older' },
+        ],
+      });
       vi.mocked(context.octokit.rest.git.getCommit).mockRejectedValueOnce(
         new RequestError('Not Found', 404, {
           request: { method: 'GET', url: '', headers: {} },
           response: { status: 404, url: '', headers: {}, data: {} },
         }),
       );
+      stubOctokitReturnData('git.getTag', { data: { object: { sha: 'tree-sha', type: 'tree' } } });
       stubOctokitReturnData('repos.createRelease', {
-        data: { id: 903, name: 'path/to/test-module/v1.2.0', tag_name: 'path/to/test-module/v1.2.0', body: 'notes' },
+        data: { id: 906, name: 'path/to/test-module/v1.2.0', tag_name: 'path/to/test-module/v1.2.0', body: 'notes' },
       });
 
       const result = await createTaggedReleases([module]);
 
       expect(result[0]).toMatchObject({ action: 'created', releaseTag: 'path/to/test-module/v1.2.0' });
-      expect(warning).toHaveBeenCalledWith(expect.stringContaining('to verify ownership'));
+      expect(context.octokit.rest.git.getCommit).toHaveBeenCalledTimes(1);
+      expect(warning).toHaveBeenCalledWith(expect.stringContaining('Not Found'));
     });
 
     it('step 2 provenance: treats a non-Error rejection as not ours and bumps', async () => {
@@ -1382,6 +1945,435 @@ describe('releases', () => {
       expect(result[0]).toMatchObject({ action: 'created', releaseTag: 'path/to/test-module/v1.6.0' });
       expect(warning).toHaveBeenCalledWith(expect.stringContaining('not produced by this pull request'));
     });
+
+    describe('version groups', () => {
+      const linkVersionGroup = (members: TerraformModule[]) => {
+        const versionGroup = { name: 'networking', members };
+        for (const member of members) {
+          member.setVersionGroup(versionGroup);
+        }
+      };
+
+      it('releases every member of a version group on the same version', async () => {
+        const changedModule = createMockTerraformModule({
+          directory: '/workspace/path/to/module-a',
+          commits: [{ sha: 'aaa', message: 'feat: a', files: ['/workspace/path/to/module-a/main.tf'] }],
+          tags: ['path/to/module-a/v1.1.0'],
+          releases: [{ id: 10, title: 'path/to/module-a/v1.1.0', tagName: 'path/to/module-a/v1.1.0', body: 'older' }],
+        });
+        const unchangedModule = createMockTerraformModule({
+          directory: '/workspace/path/to/module-b',
+          tags: ['path/to/module-b/v1.3.0'],
+          releases: [{ id: 11, title: 'path/to/module-b/v1.3.0', tagName: 'path/to/module-b/v1.3.0', body: 'older' }],
+        });
+        linkVersionGroup([changedModule, unchangedModule]);
+        stubOctokitImplementation('repos.createRelease', ({ tag_name }) => ({
+          data: { id: 999, name: tag_name, tag_name, body: 'changelog' },
+        }));
+
+        const result = await createTaggedReleases([changedModule, unchangedModule]);
+
+        expect(info).toHaveBeenCalledWith('Processing version group: networking');
+        expect(result.map((outcome) => outcome.releaseTag)).toStrictEqual([
+          'path/to/module-a/v1.4.0',
+          'path/to/module-b/v1.4.0',
+        ]);
+        expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledTimes(2);
+        expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledWith(
+          expect.objectContaining({ tag_name: 'path/to/module-a/v1.4.0' }),
+        );
+        expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledWith(
+          expect.objectContaining({ tag_name: 'path/to/module-b/v1.4.0' }),
+        );
+      });
+
+      it('reuses the version of an already-released member in a partial retry', async () => {
+        const releasedModule = createMockTerraformModule({
+          directory: '/workspace/path/to/module-a',
+          commits: [{ sha: 'aaa', message: 'feat: a', files: ['/workspace/path/to/module-a/main.tf'] }],
+          tags: ['path/to/module-a/v1.2.0', 'path/to/module-a/v1.1.0'],
+          releases: [
+            {
+              id: 10,
+              title: 'path/to/module-a/v1.2.0',
+              tagName: 'path/to/module-a/v1.2.0',
+              body: `## v1.2.0\n\nchangelog\n\n${releaseMarker}`,
+            },
+          ],
+        });
+        const missingModule = createMockTerraformModule({
+          directory: '/workspace/path/to/module-b',
+          tags: ['path/to/module-b/v1.1.0'],
+          releases: [{ id: 11, title: 'path/to/module-b/v1.1.0', tagName: 'path/to/module-b/v1.1.0', body: 'older' }],
+        });
+        linkVersionGroup([releasedModule, missingModule]);
+        stubOctokitReturnData('repos.createRelease', {
+          data: { id: 999, name: 'path/to/module-b/v1.2.0', tag_name: 'path/to/module-b/v1.2.0', body: 'changelog' },
+        });
+
+        const result = await createTaggedReleases([releasedModule, missingModule]);
+
+        expect(result.map((outcome) => outcome.action)).toStrictEqual(['skipped', 'created']);
+        expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledTimes(1);
+        expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledWith(
+          expect.objectContaining({ tag_name: 'path/to/module-b/v1.2.0' }),
+        );
+      });
+    });
+  });
+
+  describe('rebuildReleaseBodies()', () => {
+    const directory = '/workspace/path/to/test-module';
+    const releaseMarker = buildPrMarker(7);
+    const fullDiffLine =
+      '**Full diff**: [`path/to/test-module/v1.0.0..path/to/test-module/v1.1.0`](https://github.com/techpivot/terraform-module-releaser/compare/path/to/test-module/v1.0.0..path/to/test-module/v1.1.0) (1 file changed, 2 insertions(+))';
+    const rebuiltBody = [
+      '## `v1.1.0` (2024-05-01)',
+      '',
+      '- :twisted_rightwards_arrows:**[PR #7](https://github.com/techpivot/terraform-module-releaser/pull/7)** - Add subnets',
+      '- feat: add subnets',
+      '',
+      fullDiffLine,
+      '',
+      releaseMarker,
+    ].join('\n');
+
+    const createModule = (body: string) =>
+      createMockTerraformModule({
+        directory,
+        tags: ['path/to/test-module/v1.1.0', 'path/to/test-module/v1.0.0'],
+        releases: [
+          { id: 2, title: 'path/to/test-module/v1.1.0', tagName: 'path/to/test-module/v1.1.0', body },
+          { id: 1, title: 'path/to/test-module/v1.0.0', tagName: 'path/to/test-module/v1.0.0', body: 'hand-made' },
+        ],
+      });
+
+    beforeEach(() => {
+      context.set({ workspaceDir: '/workspace' });
+      context.useMockOctokit();
+
+      // The module directory is the only Terraform directory, so the pull request commit is attributed to it
+      vi.mocked(existsSync).mockImplementation((path) => path === directory);
+      vi.mocked(readdirSync).mockImplementation(((path: string) => (path === directory ? ['main.tf'] : [])) as never);
+
+      stubOctokitImplementation('git.getCommit', ({ commit_sha }) => ({
+        data: {
+          message:
+            commit_sha === createMockTag('path/to/test-module/v1.1.0').commitSHA
+              ? `path/to/test-module/v1.1.0\n\nAdd subnets\n\nAdds the subnets.\n\n${releaseMarker}`
+              : 'chore: hand-made release',
+          committer: { date: '2024-05-01T10:00:00Z' },
+        },
+      }));
+      stubOctokitReturnData('pulls.listCommits', {
+        data: [{ sha: 'c1', commit: { message: 'feat: add subnets' } }],
+      } as never);
+      stubOctokitReturnData('pulls.listFiles', { data: [{ filename: 'path/to/test-module/main.tf' }] } as never);
+      stubOctokitReturnData('repos.getCommit', {
+        data: { files: [{ filename: 'path/to/test-module/main.tf' }] },
+      } as never);
+    });
+
+    afterEach(() => {
+      vi.mocked(existsSync).mockReset();
+      vi.mocked(readdirSync).mockImplementation(() => []);
+    });
+
+    it('should rebuild a release body from its tag commit and pull request, keeping its full diff and marker', async () => {
+      const module = createModule(`## v1.1.0 (2024-05-01)\n\n- Add subnets\n\n${fullDiffLine}\n\n${releaseMarker}`);
+
+      await rebuildReleaseBodies([module]);
+
+      expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledTimes(1);
+      expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledWith({
+        owner: 'techpivot',
+        repo: 'terraform-module-releaser',
+        release_id: 2,
+        body: rebuiltBody,
+      });
+      expect(context.octokit.rest.pulls.listCommits).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 7 }));
+      expect(info).toHaveBeenCalledWith(expect.stringContaining("Release 'path/to/test-module/v1.1.0' body changes:"));
+      expect(info).toHaveBeenCalledWith(expect.stringContaining('\n-- Add subnets\n'));
+      expect(info).toHaveBeenCalledWith(
+        "Skipping release 'path/to/test-module/v1.0.0': it is not tied to a pull request by a release marker and a release commit.",
+      );
+      expect(info).toHaveBeenCalledWith('Updated 1 release body (0 up to date).');
+    });
+
+    it('should add a full diff link without statistics when the release body has none', async () => {
+      const module = createModule(`## v1.1.0 (2024-05-01)\n\n- Add subnets\n\n${releaseMarker}`);
+
+      await rebuildReleaseBodies([module]);
+
+      expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ body: rebuiltBody.replace(' (1 file changed, 2 insertions(+))', '') }),
+      );
+    });
+
+    it('should leave release bodies that are up to date unchanged', async () => {
+      await rebuildReleaseBodies([createModule(rebuiltBody.replaceAll('\n', '\r\n'))]);
+
+      expect(context.octokit.rest.repos.updateRelease).not.toHaveBeenCalled();
+      expect(info).toHaveBeenCalledWith("Release 'path/to/test-module/v1.1.0' is up to date.");
+      expect(info).toHaveBeenCalledWith('Updated 0 release bodies (1 up to date).');
+    });
+
+    it('should only report the changes in a dry run', async () => {
+      config.set({ releaseRebuildDryRun: true });
+
+      await rebuildReleaseBodies([createModule(`## v1.1.0 (2024-05-01)\n\n${releaseMarker}`)]);
+
+      expect(context.octokit.rest.repos.updateRelease).not.toHaveBeenCalled();
+      expect(info).toHaveBeenCalledWith(expect.stringContaining("Release 'path/to/test-module/v1.1.0' body changes:"));
+      expect(info).toHaveBeenCalledWith('Dry run: 1 release body would change (0 up to date). No release was updated.');
+    });
+
+    it('should skip the releases of a pull request whose commits cannot be read', async () => {
+      stubOctokitImplementation('pulls.listFiles', () => {
+        throw new Error('Not Found');
+      });
+
+      await rebuildReleaseBodies([createModule(`## v1.1.0 (2024-05-01)\n\n${releaseMarker}`)]);
+
+      expect(context.octokit.rest.repos.updateRelease).not.toHaveBeenCalled();
+      expect(warning).toHaveBeenCalledWith(
+        'Skipping the releases of pull request #7: could not read its commits: Error getting changed files in PR: Not Found',
+      );
+    });
+
+    it('should skip releases whose tag commit cannot be resolved', async () => {
+      vi.mocked(context.octokit.rest.git.getCommit).mockRejectedValue(new Error('boom'));
+
+      await rebuildReleaseBodies([createModule(`## v1.1.0 (2024-05-01)\n\n${releaseMarker}`)]);
+
+      expect(context.octokit.rest.pulls.listCommits).not.toHaveBeenCalled();
+      expect(warning).toHaveBeenCalledWith(
+        `Skipping release 'path/to/test-module/v1.1.0': could not resolve its tag commit ${createMockTag('path/to/test-module/v1.1.0').commitSHA}: boom`,
+      );
+    });
+
+    it('should throw a permission error when a release cannot be updated', async () => {
+      const consoleTimeEndSpy = vi.spyOn(console, 'timeEnd');
+      vi.mocked(context.octokit.rest.repos.updateRelease).mockRejectedValueOnce(
+        new RequestError('Permission Error', 403, {
+          request: { method: 'PATCH', url, headers: {} },
+          response: { status: 403, url, headers: {}, data: {} },
+        }),
+      );
+
+      await expect(rebuildReleaseBodies([createModule(`## v1.1.0\n\n${releaseMarker}`)])).rejects.toThrow(
+        'Failed to update release: path/to/test-module/v1.1.0 - Permission Error. Ensure that the GitHub Actions workflow has the correct permissions to update releases.',
+      );
+      expect(endGroup).toHaveBeenCalled();
+      expect(consoleTimeEndSpy).toHaveBeenCalledWith('Elapsed time rebuilding release bodies');
+    });
+  });
+
+  describe('backfillReleases()', () => {
+    const directory = '/workspace/path/to/test-module';
+    const firstTag = createMockTag('path/to/test-module/v1.0.0', 'tag100');
+    const secondTag = createMockTag('path/to/test-module/v1.1.0', 'tag110');
+    const releaseMarker = buildPrMarker(7);
+    const commitMessages: Record<string, string> = {
+      tag100: 'chore: tag by hand',
+      tag110: `path/to/test-module/v1.1.0\n\nAdd subnets\n\nAdds the subnets.\n\n${releaseMarker}`,
+    };
+
+    const createModule = (releases: GitHubRelease[] = []) => {
+      const module = createMockTerraformModule({ directory, releases });
+      module.setTags([firstTag, secondTag]);
+      return module;
+    };
+
+    beforeEach(() => {
+      context.set({ workspaceDir: '/workspace' });
+      context.useMockOctokit();
+
+      vi.mocked(existsSync).mockImplementation((path) => path === directory);
+      vi.mocked(readdirSync).mockImplementation(((path: string) => (path === directory ? ['main.tf'] : [])) as never);
+
+      stubOctokitImplementation('git.getCommit', ({ commit_sha }) => ({
+        data: {
+          sha: commit_sha,
+          message: commitMessages[String(commit_sha)],
+          committer: { date: '2024-05-01T10:00:00Z' },
+        },
+      }));
+      stubOctokitReturnData('repos.listCommits', {
+        data: [
+          { sha: 'c2', commit: { message: 'feat: add outputs', author: { name: 'Jane' } }, author: null },
+          { sha: 'c1', commit: { message: 'feat: add module', author: { name: 'Jane' } }, author: null },
+        ],
+      } as never);
+      stubOctokitReturnData('repos.compareCommitsWithBasehead', {
+        data: {
+          commits: [
+            { sha: 'c3', commit: { message: 'feat: add subnets', author: { name: 'Jane' } }, author: null },
+            { sha: 'tag110', commit: { message: commitMessages.tag110, author: { name: 'bot' } }, author: null },
+          ],
+        },
+      } as never);
+      stubOctokitImplementation('repos.getCommit', ({ ref }) => ({
+        data: {
+          files: [{ filename: ref === 'c2' ? 'README.md' : 'path/to/test-module/main.tf' }, { filename: 'other.tf' }],
+        },
+      }));
+      stubOctokitImplementation('repos.createRelease', ({ tag_name, body }) => ({
+        data: { id: String(tag_name).endsWith('v1.0.0') ? 100 : 110, name: tag_name, tag_name, body },
+      }));
+    });
+
+    afterEach(() => {
+      vi.mocked(existsSync).mockReset();
+      vi.mocked(readdirSync).mockImplementation(() => []);
+    });
+
+    it('should create the missing releases oldest first from the commits since the previous tag', async () => {
+      const module = createModule();
+
+      await backfillReleases([module]);
+
+      expect(context.octokit.rest.repos.listCommits).toHaveBeenCalledWith(
+        expect.objectContaining({ sha: 'tag100', path: 'path/to/test-module', page: 1 }),
+      );
+      expect(context.octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'tag100...tag110', page: 1 }),
+      );
+      expect(vi.mocked(context.octokit.rest.repos.createRelease).mock.calls).toEqual([
+        [
+          {
+            owner: 'techpivot',
+            repo: 'terraform-module-releaser',
+            tag_name: 'path/to/test-module/v1.0.0',
+            name: 'path/to/test-module/v1.0.0',
+            body: '## `v1.0.0` (2024-05-01)\n\n- feat: add module',
+            draft: false,
+            prerelease: false,
+            make_latest: 'false',
+          },
+        ],
+        [
+          expect.objectContaining({
+            tag_name: 'path/to/test-module/v1.1.0',
+            body: [
+              '## `v1.1.0` (2024-05-01)',
+              '',
+              '- :twisted_rightwards_arrows:**[PR #7](https://github.com/techpivot/terraform-module-releaser/pull/7)** - Add subnets',
+              '- feat: add subnets',
+              '',
+              '**Full diff**: [`path/to/test-module/v1.0.0..path/to/test-module/v1.1.0`](https://github.com/techpivot/terraform-module-releaser/compare/path/to/test-module/v1.0.0..path/to/test-module/v1.1.0)',
+              '',
+              releaseMarker,
+            ].join('\n'),
+          }),
+        ],
+      ]);
+      expect(module.releases.map(({ id }) => id)).toEqual([110, 100]);
+      expect(module.commits).toEqual([]);
+      expect(info).toHaveBeenCalledWith('Backfilled 2 releases (0 tags skipped).');
+    });
+
+    it('should mark the releases as pre-releases when pre-release is enabled', async () => {
+      config.set({ preRelease: true });
+
+      await backfillReleases([createModule()]);
+
+      expect(
+        vi.mocked(context.octokit.rest.repos.createRelease).mock.calls.map(([params]) => params?.prerelease),
+      ).toEqual([true, true]);
+    });
+
+    it('should read a comparison of more than 250 commits page by page', async () => {
+      const rangeCommits = Array.from({ length: 260 }, (_, index) => ({
+        sha: `c${index + 1}`,
+        commit: { message: `fix: change ${index + 1}`, author: { name: 'Jane' } },
+        author: null,
+      }));
+      stubOctokitImplementation('repos.compareCommitsWithBasehead', ({ page }) => ({
+        data: { commits: rangeCommits.slice((Number(page) - 1) * 100, Number(page) * 100) },
+      }));
+
+      await backfillReleases([createModule()]);
+
+      expect(context.octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledTimes(3);
+      expect(context.octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenLastCalledWith(
+        expect.objectContaining({ basehead: 'tag100...tag110', per_page: 100, page: 3 }),
+      );
+      const body = vi.mocked(context.octokit.rest.repos.createRelease).mock.calls[1][0]?.body;
+      expect(body).toContain('- fix: change 1\n');
+      expect(body).toContain('- fix: change 260');
+    });
+
+    it('should skip tags that already have a release', async () => {
+      await backfillReleases([
+        createModule([
+          { id: 110, title: 'path/to/test-module/v1.1.0', tagName: 'path/to/test-module/v1.1.0', body: 'notes' },
+        ]),
+      ]);
+
+      expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledTimes(1);
+      expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ tag_name: 'path/to/test-module/v1.0.0' }),
+      );
+      expect(info).toHaveBeenCalledWith('Backfilled 1 release (0 tags skipped).');
+    });
+
+    it('should skip a tag whose release was created since the releases were read', async () => {
+      vi.mocked(context.octokit.rest.repos.createRelease).mockRejectedValueOnce(
+        new RequestError('Validation Failed', 422, {
+          request: { method: 'POST', url, headers: {} },
+          response: { status: 422, url, headers: {}, data: { errors: [{ code: 'already_exists' }] } },
+        }),
+      );
+
+      await backfillReleases([createModule()]);
+
+      expect(info).toHaveBeenCalledWith('Skipping tag path/to/test-module/v1.0.0: it already has a release.');
+      expect(info).toHaveBeenCalledWith('Backfilled 1 release (1 tag skipped).');
+    });
+
+    it('should skip a tag whose commits cannot be read', async () => {
+      stubOctokitImplementation('repos.listCommits', () => {
+        throw new Error('Not Found');
+      });
+
+      await backfillReleases([createModule()]);
+
+      expect(warning).toHaveBeenCalledWith(
+        'Skipping tag path/to/test-module/v1.0.0: could not read its commits: Not Found',
+      );
+      expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry a request that hits a rate limit once the limit resets', async () => {
+      vi.mocked(context.octokit.rest.repos.getCommit).mockRejectedValueOnce(
+        new RequestError('API rate limit exceeded', 403, {
+          request: { method: 'GET', url, headers: {} },
+          response: { status: 403, url, headers: { 'retry-after': '0' }, data: {} },
+        }),
+      );
+
+      await backfillReleases([createModule()]);
+
+      expect(warning).toHaveBeenCalledWith('GitHub API rate limit reached. Retrying in 0 seconds (retry 1 of 3).');
+      expect(context.octokit.rest.repos.createRelease).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw a permission error when a release cannot be created', async () => {
+      const consoleTimeEndSpy = vi.spyOn(console, 'timeEnd');
+      vi.mocked(context.octokit.rest.repos.createRelease).mockRejectedValueOnce(
+        new RequestError('Resource not accessible by integration', 403, {
+          request: { method: 'POST', url, headers: {} },
+          response: { status: 403, url, headers: {}, data: {} },
+        }),
+      );
+
+      await expect(backfillReleases([createModule()])).rejects.toThrow(
+        'Failed to create release: path/to/test-module/v1.0.0 - Resource not accessible by integration. Ensure that the GitHub Actions workflow has the correct permissions to create releases.',
+      );
+      expect(endGroup).toHaveBeenCalled();
+      expect(consoleTimeEndSpy).toHaveBeenCalledWith('Elapsed time backfilling releases');
+    });
   });
 
   describe('deleteReleases()', () => {
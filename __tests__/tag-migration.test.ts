@@ -0,0 +1,236 @@
+import { config } from '@/mocks/config';
+import { context } from '@/mocks/context';
+import { backfillReleases } from '@/releases';
+import { getTagMigrations, migrateTags } from '@/tag-migration';
+import type { TerraformModule } from '@/terraform-module';
+import { stubOctokitImplementation } from '@/tests/helpers/octokit';
+import { createMockTag, createMockTerraformModule } from '@/tests/helpers/terraform-module';
+import type { GitHubTag } from '@/types';
+import { info, warning } from '@actions/core';
+import { RequestError } from '@octokit/request-error';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('tag-migration', () => {
+  let kms: TerraformModule;
+  let allTags: GitHubTag[];
+
+  beforeEach(() => {
+    context.set({ workspaceDir: '/workspace' });
+    context.useMockOctokit();
+    config.set({ tagDirectorySeparator: '/', useVersionPrefix: true });
+
+    allTags = [
+      createMockTag('modules-kms-1.0.0', 'sha100'),
+      createMockTag('modules-kms-v1.1.0', 'sha110'),
+      createMockTag('modules/kms/v1.2.0', 'sha120'),
+    ];
+    kms = createMockTerraformModule({
+      directory: '/workspace/modules/kms',
+      releases: [
+        { id: 100, title: 'modules-kms-1.0.0', body: 'Release notes', tagName: 'modules-kms-1.0.0' },
+        { id: 110, title: 'KMS 1.1.0', body: 'Release notes', tagName: 'modules-kms-v1.1.0' },
+      ],
+    });
+    kms.setTags(allTags);
+  });
+
+  describe('getTagMigrations()', () => {
+    it('should map the old tags of a module to the configured tag scheme', () => {
+      expect(getTagMigrations([kms], allTags)).toEqual([
+        {
+          moduleName: 'modules/kms',
+          oldTag: 'modules-kms-1.0.0',
+          newTag: 'modules/kms/v1.0.0',
+          commitSHA: 'sha100',
+          status: 'create',
+          releaseId: 100,
+          renameRelease: true,
+        },
+        {
+          moduleName: 'modules/kms',
+          oldTag: 'modules-kms-v1.1.0',
+          newTag: 'modules/kms/v1.1.0',
+          commitSHA: 'sha110',
+          status: 'create',
+          releaseId: 110,
+          renameRelease: false,
+        },
+      ]);
+    });
+
+    it('should drop the version prefix when use-version-prefix is disabled', () => {
+      config.set({ useVersionPrefix: false });
+
+      expect(getTagMigrations([kms], allTags).map(({ newTag }) => newTag)).toEqual([
+        'modules/kms/1.0.0',
+        'modules/kms/1.1.0',
+        'modules/kms/1.2.0',
+      ]);
+    });
+
+    it('should recognize new tags that already exist at the same or another commit', () => {
+      allTags.push(createMockTag('modules/kms/v1.0.0', 'sha100'), createMockTag('modules/kms/v1.1.0', 'other'));
+      kms.setTags(allTags);
+
+      expect(getTagMigrations([kms], allTags).map(({ oldTag, status }) => ({ oldTag, status }))).toEqual([
+        { oldTag: 'modules-kms-1.0.0', status: 'exists' },
+        { oldTag: 'modules-kms-v1.1.0', status: 'conflict' },
+      ]);
+    });
+
+    it('should only create a new tag once for old tags of the same version', () => {
+      allTags.push(createMockTag('modules_kms_v1.0.0', 'sha100'), createMockTag('modules.kms.v1.0.0', 'other'));
+      kms.setTags(allTags);
+
+      expect(
+        getTagMigrations([kms], allTags)
+          .filter(({ newTag }) => newTag === 'modules/kms/v1.0.0')
+          .map(({ oldTag, status }) => ({ oldTag, status })),
+      ).toEqual([
+        { oldTag: 'modules-kms-1.0.0', status: 'create' },
+        { oldTag: 'modules.kms.v1.0.0', status: 'conflict' },
+        { oldTag: 'modules_kms_v1.0.0', status: 'exists' },
+      ]);
+    });
+  });
+
+  describe('migrateTags()', () => {
+    it('should only report the migration in a dry run', async () => {
+      config.set({ tagMigrationDryRun: true, tagMigrationDeleteOldTags: true });
+
+      await migrateTags([kms], allTags);
+
+      expect(info).toHaveBeenCalledWith(
+        'modules-kms-1.0.0 -> modules/kms/v1.0.0 (sha100, release re-pointed, old tag deleted)',
+      );
+      expect(info).toHaveBeenCalledWith('Dry run: 2 tags would be migrated. No tag or release was changed.');
+      expect(context.octokit.rest.git.createRef).not.toHaveBeenCalled();
+      expect(context.octokit.rest.repos.updateRelease).not.toHaveBeenCalled();
+      expect(context.octokit.rest.git.deleteRef).not.toHaveBeenCalled();
+    });
+
+    it('should create the new tags at the same commits and re-point the releases', async () => {
+      await migrateTags([kms], allTags);
+
+      expect(context.octokit.rest.git.createRef).toHaveBeenCalledWith({
+        owner: 'techpivot',
+        repo: 'terraform-module-releaser',
+        ref: 'refs/tags/modules/kms/v1.0.0',
+        sha: 'sha100',
+      });
+      expect(context.octokit.rest.git.createRef).toHaveBeenCalledTimes(2);
+      expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledWith({
+        owner: 'techpivot',
+        repo: 'terraform-module-releaser',
+        release_id: 100,
+        tag_name: 'modules/kms/v1.0.0',
+        name: 'modules/kms/v1.0.0',
+      });
+      // A release with a custom title keeps it
+      expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledWith({
+        owner: 'techpivot',
+        repo: 'terraform-module-releaser',
+        release_id: 110,
+        tag_name: 'modules/kms/v1.1.0',
+      });
+      expect(context.octokit.rest.git.deleteRef).not.toHaveBeenCalled();
+      expect(info).toHaveBeenCalledWith('Migrated 2 tags.');
+    });
+
+    it('should not backfill releases for the old tags it keeps', async () => {
+      await migrateTags([kms], allTags);
+
+      // The next run reads the new tags next to the old ones, and the releases re-pointed to the new tags
+      const migratedTags = [
+        ...allTags,
+        ...vi
+          .mocked(context.octokit.rest.git.createRef)
+          .mock.calls.map(([params]) => createMockTag(String(params?.ref).replace('refs/tags/', ''), params?.sha)),
+      ];
+      const migratedReleases = kms.releases.map((release) => {
+        const update = vi
+          .mocked(context.octokit.rest.repos.updateRelease)
+          .mock.calls.find(([params]) => params?.release_id === release.id)?.[0];
+        return update === undefined ? release : { ...release, tagName: String(update.tag_name) };
+      });
+      const migrated = createMockTerraformModule({
+        directory: '/workspace/modules/kms',
+        releases: [
+          ...migratedReleases,
+          { id: 120, title: 'modules/kms/v1.2.0', body: 'Release notes', tagName: 'modules/kms/v1.2.0' },
+        ],
+      });
+      migrated.setTags(migratedTags);
+
+      await backfillReleases([migrated]);
+
+      expect(migrated.tags.map(({ name }) => name)).toEqual([
+        'modules/kms/v1.2.0',
+        'modules/kms/v1.1.0',
+        'modules/kms/v1.0.0',
+      ]);
+      expect(context.octokit.rest.repos.createRelease).not.toHaveBeenCalled();
+      expect(info).toHaveBeenCalledWith('Backfilled 0 releases (0 tags skipped).');
+    });
+
+    it('should re-point the releases of old tags already migrated by an interrupted run', async () => {
+      allTags.push(createMockTag('modules/kms/v1.0.0', 'sha100'), createMockTag('modules/kms/v1.1.0', 'sha110'));
+      kms.setTags(allTags);
+
+      await migrateTags([kms], allTags);
+
+      expect(kms.tags.map(({ name }) => name)).not.toContain('modules-kms-1.0.0');
+      expect(context.octokit.rest.git.createRef).not.toHaveBeenCalled();
+      expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledTimes(2);
+    });
+
+    it('should delete the old tags when enabled, skipping conflicts', async () => {
+      config.set({ tagMigrationDeleteOldTags: true });
+      allTags.push(createMockTag('modules/kms/v1.1.0', 'other'));
+      kms.setTags(allTags);
+
+      await migrateTags([kms], allTags);
+
+      expect(warning).toHaveBeenCalledWith(
+        'Skipping tag modules-kms-v1.1.0: modules/kms/v1.1.0 already exists at another commit than sha110.',
+      );
+      expect(context.octokit.rest.repos.updateRelease).toHaveBeenCalledTimes(1);
+      expect(context.octokit.rest.git.deleteRef).toHaveBeenCalledTimes(1);
+      expect(context.octokit.rest.git.deleteRef).toHaveBeenCalledWith(
+        expect.objectContaining({ ref: 'tags/modules-kms-1.0.0' }),
+      );
+    });
+
+    it('should not change anything when every tag uses the configured scheme', async () => {
+      config.set({ tagDirectorySeparator: '-', useVersionPrefix: false });
+      const module = createMockTerraformModule({ directory: '/workspace/modules/kms', tags: ['modules-kms-1.0.0'] });
+
+      await migrateTags([module], [createMockTag('modules-kms-1.0.0')]);
+
+      expect(info).toHaveBeenCalledWith('No tags to migrate: every module tag uses the configured tag scheme.');
+      expect(context.octokit.rest.git.createRef).not.toHaveBeenCalled();
+    });
+
+    it('should point at the workflow permissions when a tag cannot be created', async () => {
+      stubOctokitImplementation('git.createRef', () => {
+        throw new RequestError('Resource not accessible by integration', 403, {
+          request: { method: 'POST', url: '', headers: {} },
+        });
+      });
+
+      await expect(migrateTags([kms], allTags)).rejects.toThrow(
+        'Failed to create tag modules/kms/v1.0.0: Resource not accessible by integration. Ensure that the GitHub Actions workflow has the correct permissions',
+      );
+    });
+
+    it('should report other failures with their status', async () => {
+      stubOctokitImplementation('repos.updateRelease', () => {
+        throw new RequestError('Validation Failed', 422, { request: { method: 'PATCH', url: '', headers: {} } });
+      });
+
+      await expect(migrateTags([kms], allTags)).rejects.toThrow(
+        "Failed to re-point release 'modules-kms-1.0.0' to tag modules/kms/v1.0.0: [Status = 422] Validation Failed",
+      );
+    });
+  });
+});
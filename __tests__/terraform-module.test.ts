@@ -4,9 +4,9 @@ import { join } from 'node:path';
 import { config } from '@/mocks/config';
 import { context } from '@/mocks/context';
 import { TerraformModule } from '@/terraform-module';
-import { createMockTerraformModule, createMockTags } from '@/tests/helpers/terraform-module';
+import { createMockTag, createMockTags, createMockTerraformModule } from '@/tests/helpers/terraform-module';
 import type { CommitDetails, GitHubRelease } from '@/types';
-import { RELEASE_REASON, RELEASE_TYPE } from '@/utils/constants';
+import { INTERFACE_CHANGE, RELEASE_REASON, RELEASE_TYPE } from '@/utils/constants';
 import { endGroup, info, startGroup } from '@actions/core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -25,6 +25,8 @@ describe('TerraformModule', () => {
 
     context.set({
       workspaceDir: tmpDir,
+      prLabels: [],
+      prBody: '',
     });
 
     config.set({
@@ -195,6 +197,122 @@ describe('TerraformModule', () => {
     });
   });
 
+  describe('dependency management', () => {
+    let module: TerraformModule;
+    let dependency: TerraformModule;
+
+    beforeEach(() => {
+      const dependencyDir = join(tmpDir, 'tf-modules', 'dependency');
+      mkdirSync(dependencyDir, { recursive: true });
+      module = new TerraformModule(moduleDir);
+      dependency = new TerraformModule(dependencyDir);
+    });
+
+    it('should start with no dependencies or dependency triggers', () => {
+      expect(module.dependencies).toHaveLength(0);
+      expect(module.dependencyTriggers).toHaveLength(0);
+    });
+
+    it('should add dependencies without duplicates or self-references', () => {
+      module.addDependency(dependency);
+      module.addDependency(dependency);
+      module.addDependency(module);
+
+      expect(module.dependencies).toEqual([dependency]);
+    });
+
+    it('should add dependency triggers without duplicates or self-references', () => {
+      module.addDependencyTrigger(dependency);
+      module.addDependencyTrigger(dependency);
+      module.addDependencyTrigger(module);
+
+      expect(module.dependencyTriggers).toEqual([dependency]);
+    });
+
+    it('should clear dependency triggers along with commits', () => {
+      module.addDependency(dependency);
+      module.addDependencyTrigger(dependency);
+      module.addCommit({ sha: 'abc123', message: 'feat: add feature', files: ['main.tf'] });
+
+      module.clearCommits();
+
+      expect(module.dependencyTriggers).toHaveLength(0);
+      expect(module.dependencies).toEqual([dependency]);
+    });
+  });
+
+  describe('module config', () => {
+    it('should use the global config when the module has no config file', () => {
+      const module = new TerraformModule(moduleDir);
+
+      expect(module.configOverrides).toEqual({});
+      expect(module.config.defaultFirstTag).toBe('v0.1.0');
+    });
+
+    it('should apply overrides from the module config file', () => {
+      writeFileSync(
+        join(moduleDir, '.terraform-module-releaser.yml'),
+        [
+          'semver-mode: keywords',
+          'minor-keywords: [tweak]',
+          'default-semver-level: minor',
+          'default-first-tag: v1.0.0',
+        ].join('\n'),
+      );
+      config.set({ semverMode: 'conventional-commits' });
+
+      const initialModule = new TerraformModule(moduleDir);
+      expect(initialModule.getReleaseTagVersion()).toBe('v1.0.0');
+      expect(initialModule.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+
+      const module = createMockTerraformModule({
+        directory: moduleDir,
+        tags: ['tf-modules/test-module/v1.0.0'],
+        commitMessages: ['tweak: adjust defaults'],
+      });
+      expect(module.config.semverMode).toBe('keywords');
+      expect(module.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+      expect(module.toString()).toContain(
+        'Config Overrides: semverMode, minorKeywords, defaultSemverLevel, defaultFirstTag',
+      );
+    });
+
+    it('should fail when the module config file is invalid', () => {
+      writeFileSync(join(moduleDir, '.terraform-module-releaser.yml'), 'default-semver-level: huge');
+
+      expect(() => new TerraformModule(moduleDir)).toThrow(
+        "Invalid default-semver-level 'huge'. Must be one of: patch, minor, major",
+      );
+    });
+  });
+
+  describe('interface changes', () => {
+    const removedVariable = {
+      kind: INTERFACE_CHANGE.VARIABLE_REMOVED,
+      name: 'name',
+      description: 'Variable `name` was removed',
+    };
+
+    it('should set breaking interface changes', () => {
+      const module = new TerraformModule(moduleDir);
+      expect(module.breakingInterfaceChanges).toHaveLength(0);
+
+      module.setBreakingInterfaceChanges([removedVariable]);
+
+      expect(module.breakingInterfaceChanges).toEqual([removedVariable]);
+    });
+
+    it('should clear breaking interface changes along with commits', () => {
+      const module = new TerraformModule(moduleDir);
+      module.addCommit({ sha: 'abc123', message: 'fix: remove variable', files: ['variables.tf'] });
+      module.setBreakingInterfaceChanges([removedVariable]);
+
+      module.clearCommits();
+
+      expect(module.breakingInterfaceChanges).toHaveLength(0);
+    });
+  });
+
   describe('tag management', () => {
     let module: TerraformModule;
 
@@ -222,6 +340,39 @@ describe('TerraformModule', () => {
       ]);
     });
 
+    it('should sort pre-release tags by semantic version precedence', () => {
+      const tags = [
+        'tf-modules/test-module/v1.0.0-rc.1',
+        'tf-modules/test-module/v1.0.0',
+        'tf-modules/test-module/v1.0.0-rc.10',
+        'tf-modules/test-module/v1.0.0-alpha',
+        'tf-modules/test-module/v1.0.0-rc.2',
+        'tf-modules/test-module/v1.0.0-alpha.1',
+        'tf-modules/test-module/v1.0.0-beta',
+        'tf-modules/test-module/v0.9.0',
+      ];
+
+      module.setTags(createMockTags(tags));
+
+      expect(module.tags.map((t) => t.name)).toEqual([
+        'tf-modules/test-module/v1.0.0',
+        'tf-modules/test-module/v1.0.0-rc.10',
+        'tf-modules/test-module/v1.0.0-rc.2',
+        'tf-modules/test-module/v1.0.0-rc.1',
+        'tf-modules/test-module/v1.0.0-beta',
+        'tf-modules/test-module/v1.0.0-alpha.1',
+        'tf-modules/test-module/v1.0.0-alpha',
+        'tf-modules/test-module/v0.9.0',
+      ]);
+      expect(module.getLatestTagVersion()).toBe('v1.0.0');
+    });
+
+    it('should rank numeric pre-release identifiers below alphanumeric ones', () => {
+      module.setTags(createMockTags(['tf-modules/test-module/v1.0.0-1', 'tf-modules/test-module/v1.0.0-a']));
+
+      expect(module.getLatestTag()).toBe('tf-modules/test-module/v1.0.0-a');
+    });
+
     it('should get latest tag correctly', () => {
       const tags = ['tf-modules/test-module/v1.0.0', 'tf-modules/test-module/v2.0.0', 'tf-modules/test-module/v1.5.0'];
 
@@ -246,6 +397,39 @@ describe('TerraformModule', () => {
       expect(module.getLatestTagVersion()).toBeNull();
     });
 
+    it('should get the previous tag of a version', () => {
+      const tags = [
+        'tf-modules/test-module/v1.0.0',
+        'tf-modules/test-module/v2.0.0-rc.1',
+        'tf-modules/test-module/v1.1.0',
+        'tf-modules/test-module/v2.0.0',
+      ];
+
+      module.setTags(createMockTags(tags));
+
+      expect(module.getPreviousTag('v2.1.0')).toBe('tf-modules/test-module/v2.0.0');
+      expect(module.getPreviousTag('v2.0.0')).toBe('tf-modules/test-module/v2.0.0-rc.1');
+      expect(module.getPreviousTag('1.1.0')).toBe('tf-modules/test-module/v1.0.0');
+      expect(module.getPreviousTag('v1.0.0')).toBeNull();
+    });
+
+    it('should leave out old tags superseded by a tag in the configured scheme at the same commit', () => {
+      module.setTags([
+        createMockTag('tf-modules-test-module-v1.0.0', 'sha100'),
+        createMockTag('tf-modules/test-module/v1.0.0', 'sha100'),
+        createMockTag('tf-modules-test-module-v1.1.0', 'sha110'),
+        createMockTag('tf-modules-test-module-v1.2.0', 'sha120'),
+        createMockTag('tf-modules/test-module/v1.2.0', 'other'),
+      ]);
+
+      expect(module.tags.map(({ name }) => name)).toEqual([
+        'tf-modules-test-module-v1.2.0',
+        'tf-modules/test-module/v1.2.0',
+        'tf-modules-test-module-v1.1.0',
+        'tf-modules/test-module/v1.0.0',
+      ]);
+    });
+
     it('should handle tags with different separators in getLatestTagVersion', () => {
       // Test with different separators to ensure regex works correctly
       module.setTags(createMockTags(['tf-modules/test-module/v1.0.0']));
@@ -379,6 +563,7 @@ describe('TerraformModule', () => {
         // Test with valid full tags that match the module name
         expect(extractVersionFn('tf-modules/test-module/subdir/v1.2.3')).toBe('1.2.3');
         expect(extractVersionFn('tf-modules/test-module/subdir/1.2.3')).toBe('1.2.3');
+        expect(extractVersionFn('tf-modules/test-module/subdir/v1.2.3-rc.1')).toBe('1.2.3-rc.1');
       });
     });
 
@@ -641,6 +826,13 @@ describe('TerraformModule', () => {
 
         expect(module.needsRelease()).toBe(false);
       });
+
+      it('should return true when a local dependency triggers a release', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.0.0']));
+        module.addDependencyTrigger(createMockTerraformModule({ directory: join(tmpDir, 'tf-modules', 'dependency') }));
+
+        expect(module.needsRelease()).toBe(true);
+      });
     });
 
     describe('getReleaseType()', () => {
@@ -648,6 +840,23 @@ describe('TerraformModule', () => {
         expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
       });
 
+      it('should return patch when only a local dependency changed', () => {
+        config.set({ defaultSemverLevel: 'minor' });
+        module.setTags(createMockTags(['tf-modules/test-module/v1.0.0']));
+        module.addDependencyTrigger(createMockTerraformModule({ directory: join(tmpDir, 'tf-modules', 'dependency') }));
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+        expect(module.getReleaseTagVersion()).toBe('v1.0.1');
+      });
+
+      it('should prefer the commit-derived release type over a dependency update', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.0.0']));
+        module.addDependencyTrigger(createMockTerraformModule({ directory: join(tmpDir, 'tf-modules', 'dependency') }));
+        module.addCommit({ sha: 'abc123', message: 'feat: add feature', files: ['main.tf'] });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+      });
+
       it('should return major when commit contains major keywords', () => {
         module.setTags(createMockTags(['tf-modules/test-module/v1.0.0'])); // Not initial
         module.addCommit({
@@ -659,6 +868,17 @@ describe('TerraformModule', () => {
         expect(module.getReleaseType()).toBe(RELEASE_TYPE.MAJOR);
       });
 
+      it('should return major when breaking interface changes were detected', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.0.0'])); // Not initial
+        module.addCommit({ sha: 'abc123', message: 'fix: tidy variables', files: ['variables.tf'] });
+        module.setBreakingInterfaceChanges([
+          { kind: INTERFACE_CHANGE.VARIABLE_REMOVED, name: 'name', description: 'Variable `name` was removed' },
+        ]);
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MAJOR);
+        expect(module.getReleaseTagVersion()).toBe('v2.0.0');
+      });
+
       it('should return null when no release is needed', () => {
         module.setTags(createMockTags(['tf-modules/test-module/v1.0.0'])); // Not initial
         // No commits, no dependency triggers
@@ -803,6 +1023,456 @@ describe('TerraformModule', () => {
         expect(reasons).toContain(RELEASE_REASON.DIRECT_CHANGES);
         expect(reasons).toHaveLength(2);
       });
+
+      it('should return local dependency update reason when a dependency triggers a release', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.0.0'])); // Not initial
+        module.addDependencyTrigger(createMockTerraformModule({ directory: join(tmpDir, 'tf-modules', 'dependency') }));
+
+        expect(module.getReleaseReasons()).toEqual([RELEASE_REASON.LOCAL_DEPENDENCY_UPDATE]);
+      });
+
+      it('should return breaking interface change reason alongside direct changes', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.0.0'])); // Not initial
+        module.addCommit({ sha: 'abc123', message: 'fix: tidy variables', files: ['variables.tf'] });
+        module.setBreakingInterfaceChanges([
+          { kind: INTERFACE_CHANGE.OUTPUT_REMOVED, name: 'id', description: 'Output `id` was removed' },
+        ]);
+
+        expect(module.getReleaseReasons()).toEqual([
+          RELEASE_REASON.DIRECT_CHANGES,
+          RELEASE_REASON.BREAKING_INTERFACE_CHANGE,
+        ]);
+      });
+    });
+
+    describe('release labels', () => {
+      beforeEach(() => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.3'])); // Not initial
+        module.addCommit({ sha: 'abc123', message: 'feat: new feature', files: ['main.tf'] });
+      });
+
+      it('should override the computed release type in either direction', () => {
+        context.set({ prLabels: ['release:major'] });
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MAJOR);
+        expect(module.getReleaseTagVersion()).toBe('v2.0.0');
+
+        context.set({ prLabels: ['release:patch'] });
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+        expect(module.getReleaseReasons()).toEqual([RELEASE_REASON.DIRECT_CHANGES, RELEASE_REASON.RELEASE_LABEL]);
+      });
+
+      it('should not release modules skipped by a label', () => {
+        context.set({ prLabels: ['release:skip:test-module'] });
+
+        expect(module.needsRelease()).toBe(false);
+        expect(module.getReleaseType()).toBeNull();
+        expect(module.getReleaseReasons()).toEqual([]);
+      });
+
+      it('should not force a release of unchanged modules', () => {
+        context.set({ prLabels: ['release:major'] });
+        module.clearCommits();
+
+        expect(module.needsRelease()).toBe(false);
+        expect(module.getReleaseType()).toBeNull();
+      });
+    });
+
+    describe('configured commit types', () => {
+      beforeEach(() => {
+        config.set({ semverMode: 'conventional-commits', conventionalCommitTypes: ['docs=none', 'ci=none'] });
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.3'])); // Not initial
+      });
+
+      it('should not release a module changed only by commits of types mapped to none', () => {
+        module.addCommit({ sha: 'abc123', message: 'docs: fix typo', files: ['README.md'] });
+        module.addCommit({ sha: 'def456', message: 'ci: cache providers', files: ['main.tf'] });
+
+        expect(module.needsRelease()).toBe(false);
+        expect(module.getReleaseType()).toBeNull();
+        expect(module.isReleaseSkipped()).toBe(false);
+      });
+
+      it('should release a module with other commits as well', () => {
+        module.addCommit({ sha: 'abc123', message: 'docs: fix typo', files: ['README.md'] });
+        module.addCommit({ sha: 'def456', message: 'fix: bug fix', files: ['main.tf'] });
+
+        expect(module.needsRelease()).toBe(true);
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+      });
+    });
+
+    describe('semver source', () => {
+      beforeEach(() => {
+        config.set({ semverMode: 'conventional-commits' });
+        context.set({ prTitle: 'feat: add lifecycle rules', prBody: 'BREAKING CHANGE: bucket is now required' });
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.3'])); // Not initial
+        module.addCommit({ sha: 'abc123', message: 'fix: wip', files: ['main.tf'] });
+      });
+
+      it('should analyze the commit messages by default', () => {
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+      });
+
+      it('should only analyze the pull request title with pr-title', () => {
+        config.set({ semverSource: 'pr-title' });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+      });
+
+      it('should analyze the pull request title and body with pr-title-and-body', () => {
+        config.set({ semverSource: 'pr-title-and-body' });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MAJOR);
+      });
+
+      it('should still determine from the commits whether the module changed', () => {
+        config.set({ semverSource: 'pr-title' });
+        module.clearCommits();
+
+        expect(module.needsRelease()).toBe(false);
+        expect(module.getReleaseType()).toBeNull();
+      });
+    });
+
+    describe('reverts', () => {
+      beforeEach(() => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.3'])); // Not initial
+      });
+
+      it('should ignore reverted commits and their reverts', () => {
+        module.addCommit({ sha: 'aaa1111111', message: 'fix: bug fix', files: ['main.tf'] });
+        module.addCommit({ sha: 'bbb2222222', message: 'feat!: drop variable', files: ['main.tf'] });
+        module.addCommit({
+          sha: 'ccc3333333',
+          message: 'Revert "feat!: drop variable"\n\nThis reverts commit bbb2222222.',
+          files: ['main.tf'],
+        });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+        expect(module.getUnrevertedCommitMessages()).toEqual(['fix: bug fix']);
+        expect(module.getRevertedCommits()).toEqual([{ target: module.commits[1], revert: module.commits[2] }]);
+      });
+
+      it('should ignore reverted commits and their reverts in keywords mode', () => {
+        config.set({ semverMode: 'keywords' });
+        module.addCommit({ sha: 'aaa1111111', message: 'fix: typo', files: ['main.tf'] });
+        module.addCommit({ sha: 'bbb2222222', message: 'feat: new input', files: ['main.tf'] });
+        module.addCommit({
+          sha: 'ccc3333333',
+          message: 'Revert "feat: new input"\n\nThis reverts commit bbb2222222.',
+          files: ['main.tf'],
+        });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+      });
+
+      it('should not release a module whose commits are all reverted', () => {
+        module.addCommit({ sha: 'aaa1111111', message: 'feat: new input', files: ['main.tf'] });
+        module.addCommit({ sha: 'bbb2222222', message: 'revert: feat: new input', files: ['main.tf'] });
+
+        expect(module.needsRelease()).toBe(false);
+        expect(module.isReleaseSkipped()).toBe(false);
+      });
+    });
+
+    describe('skip directives', () => {
+      beforeEach(() => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.3'])); // Not initial
+      });
+
+      it('should ignore commits that skip the release', () => {
+        module.addCommit({ sha: 'abc123', message: 'feat: new feature [skip release]', files: ['main.tf'] });
+        module.addCommit({ sha: 'def456', message: 'fix: bug fix', files: ['main.tf'] });
+
+        expect(module.needsRelease()).toBe(true);
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+        expect(module.isReleaseSkipped()).toBe(false);
+      });
+
+      it('should skip the module when all of its commits skip the release', () => {
+        module.addCommit({
+          sha: 'abc123',
+          message: 'feat: new feature\n\nRelease-As: test-module=none',
+          files: ['main.tf'],
+        });
+
+        expect(module.needsRelease()).toBe(false);
+        expect(module.getReleaseType()).toBeNull();
+        expect(module.isReleaseSkipped()).toBe(true);
+      });
+
+      it('should only apply module-scoped commit directives to the matching module', () => {
+        module.addCommit({ sha: 'abc123', message: 'feat: new feature\n\nRelease-As: vpc=none', files: ['main.tf'] });
+
+        expect(module.needsRelease()).toBe(true);
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+      });
+
+      it('should skip the module when the pull request body skips the release', () => {
+        module.addCommit({ sha: 'abc123', message: 'feat: new feature', files: ['main.tf'] });
+        context.set({ prBody: 'Refactor only.\n\nRelease-As: tf-modules/test-module=none' });
+
+        expect(module.needsRelease()).toBe(false);
+        expect(module.getReleaseType()).toBeNull();
+        expect(module.getReleaseReasons()).toEqual([]);
+        expect(module.isReleaseSkipped()).toBe(true);
+        expect(TerraformModule.getModulesSkippingRelease([module])).toEqual([module]);
+      });
+
+      it('should not report unchanged modules as skipped', () => {
+        context.set({ prBody: '[skip release]' });
+
+        expect(module.isReleaseSkipped()).toBe(false);
+        expect(TerraformModule.getModulesSkippingRelease([module])).toEqual([]);
+      });
+
+      it('should report modules skipped by a label as skipped', () => {
+        module.addCommit({ sha: 'abc123', message: 'feat: new feature', files: ['main.tf'] });
+        context.set({ prLabels: ['release:skip'] });
+
+        expect(module.isReleaseSkipped()).toBe(true);
+      });
+    });
+
+    describe('Release-As version pins', () => {
+      beforeEach(() => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.3'])); // Not initial
+        module.addCommit({ sha: 'abc123', message: 'fix: bug fix', files: ['main.tf'] });
+      });
+
+      it('should release the version pinned in a commit footer', () => {
+        module.addCommit({
+          sha: 'def456',
+          message: 'feat: coordinated release\n\nRelease-As: test-module=3.0.0',
+          files: ['main.tf'],
+        });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MAJOR);
+        expect(module.getReleaseTagVersion()).toBe('v3.0.0');
+        expect(module.getReleaseReasons()).toEqual([RELEASE_REASON.DIRECT_CHANGES, RELEASE_REASON.RELEASE_AS]);
+      });
+
+      it('should release the version pinned in a non-conventional commit footer in keywords mode', () => {
+        config.set({ semverMode: 'keywords' });
+        module.addCommit({
+          sha: 'def456',
+          message: 'Coordinated release\n\nRelease-As: test-module=3.0.0',
+          files: ['main.tf'],
+        });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MAJOR);
+        expect(module.getReleaseTagVersion()).toBe('v3.0.0');
+      });
+
+      it('should prefer the pull request body over commits and scoped pins over unscoped ones', () => {
+        module.addCommit({ sha: 'def456', message: 'fix: tweak\n\nRelease-As: 4.0.0', files: ['main.tf'] });
+        context.set({ prBody: 'Release-As: 1.5.0\nRelease-As: tf-modules/test-module=1.2.4' });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+        expect(module.getReleaseTagVersion()).toBe('v1.2.4');
+      });
+
+      it('should take precedence over release labels', () => {
+        context.set({ prLabels: ['release:major'], prBody: 'Release-As: 1.3.0' });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+        expect(module.getReleaseTagVersion()).toBe('v1.3.0');
+        expect(module.getReleaseReasons()).toEqual([RELEASE_REASON.DIRECT_CHANGES, RELEASE_REASON.RELEASE_AS]);
+      });
+
+      it('should ignore pins for other modules', () => {
+        context.set({ prBody: 'Release-As: vpc=3.0.0' });
+
+        expect(module.getReleaseTagVersion()).toBe('v1.2.4');
+      });
+
+      it('should not force a release of unchanged modules', () => {
+        module.clearCommits();
+        context.set({ prBody: 'Release-As: 3.0.0' });
+
+        expect(module.getReleaseType()).toBeNull();
+        expect(module.getReleaseTagVersion()).toBeNull();
+      });
+
+      it('should not apply unscoped pull request pins to modules released for a local dependency', () => {
+        const dependent = createMockTerraformModule({
+          directory: join(tmpDir, 'tf-modules', 'dependent'),
+          tags: ['tf-modules/dependent/v2.5.0'],
+        });
+        dependent.addDependencyTrigger(module);
+        context.set({ prBody: 'Release-As: 2.0.0' });
+
+        expect(module.getReleaseTagVersion()).toBe('v2.0.0');
+        expect(dependent.getReleaseType()).toBe(RELEASE_TYPE.PATCH);
+        expect(dependent.getReleaseTagVersion()).toBe('v2.5.1');
+        expect(dependent.getReleaseReasons()).toEqual([RELEASE_REASON.LOCAL_DEPENDENCY_UPDATE]);
+      });
+
+      it('should apply scoped pull request pins to modules released for a local dependency', () => {
+        const dependent = createMockTerraformModule({
+          directory: join(tmpDir, 'tf-modules', 'dependent'),
+          tags: ['tf-modules/dependent/v2.5.0'],
+        });
+        dependent.addDependencyTrigger(module);
+        context.set({ prBody: 'Release-As: 2.0.0\nRelease-As: dependent=3.0.0' });
+
+        expect(dependent.getReleaseTagVersion()).toBe('v3.0.0');
+      });
+
+      it('should honor the version prefix setting', () => {
+        config.set({ useVersionPrefix: false });
+        context.set({ prBody: 'Release-As: v2.0.0' });
+
+        expect(module.getReleaseTagVersion()).toBe('2.0.0');
+      });
+
+      it('should add the pre-release channel suffix to the pinned version', () => {
+        context.set({ prLabels: ['pre-release:rc'], prBody: 'Release-As: 3.0.0' });
+        expect(module.getReleaseTagVersion()).toBe('v3.0.0-rc.1');
+
+        module.setTags(createMockTags(['tf-modules/test-module/v3.0.0-rc.1']));
+        expect(module.getReleaseTagVersion()).toBe('v3.0.0-rc.2');
+      });
+
+      it('should throw when the pinned version is not greater than the latest version', () => {
+        context.set({ prBody: 'Release-As: 1.2.3' });
+
+        expect(() => module.getReleaseTagVersion()).toThrow(
+          "Invalid Release-As version '1.2.3' for module 'tf-modules/test-module'. It must be greater than the latest version 'v1.2.3'.",
+        );
+      });
+
+      it('should throw when the pinned version is not a valid version', () => {
+        context.set({ prBody: 'Release-As: 3.0' });
+
+        expect(() => module.getReleaseType()).toThrow(
+          "Invalid Release-As version '3.0' for module 'tf-modules/test-module'. Expected #.#.# or v#.#.# format.",
+        );
+      });
+    });
+
+    describe('version groups', () => {
+      let vpcModule: TerraformModule;
+      let endpointModule: TerraformModule;
+
+      beforeEach(() => {
+        vpcModule = new TerraformModule(join(tmpDir, 'modules', 'vpc'));
+        vpcModule.setTags(createMockTags(['modules/vpc/v1.1.0']));
+        endpointModule = new TerraformModule(join(tmpDir, 'modules', 'vpc-endpoint'));
+        endpointModule.setTags(createMockTags(['modules/vpc-endpoint/v1.3.0']));
+
+        const versionGroup = { name: 'networking', members: [vpcModule, endpointModule] };
+        vpcModule.setVersionGroup(versionGroup);
+        endpointModule.setVersionGroup(versionGroup);
+      });
+
+      it('should not apply unscoped pull request pins to unchanged members', () => {
+        vpcModule.addCommit({ sha: 'abc123', message: 'fix: tweak', files: ['main.tf'] });
+        context.set({ prBody: 'Release-As: 1.2.0' });
+
+        expect(endpointModule.getReleaseReasons()).toEqual([RELEASE_REASON.VERSION_GROUP]);
+        expect(endpointModule.getReleaseTagVersion()).toBe('v1.4.0');
+        expect(vpcModule.getReleaseTagVersion()).toBe('v1.4.0');
+      });
+
+      it('should expose the version group of the module', () => {
+        expect(vpcModule.versionGroup?.name).toBe('networking');
+        expect(module.versionGroup).toBeNull();
+      });
+
+      it('should not release a group in which no member changed', () => {
+        expect(vpcModule.needsRelease()).toBe(false);
+        expect(endpointModule.needsRelease()).toBe(false);
+      });
+
+      it('should release unchanged members along with a changed member', () => {
+        vpcModule.addCommit({ sha: 'abc123', message: 'feat: add flow logs', files: ['main.tf'] });
+
+        expect(endpointModule.needsRelease()).toBe(true);
+        expect(endpointModule.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+        expect(endpointModule.getReleaseReasons()).toEqual([RELEASE_REASON.VERSION_GROUP]);
+        expect(vpcModule.getReleaseReasons()).toEqual([RELEASE_REASON.DIRECT_CHANGES]);
+        expect(TerraformModule.getModulesNeedingRelease([endpointModule, vpcModule])).toEqual([
+          endpointModule,
+          vpcModule,
+        ]);
+      });
+
+      it('should release all members with the highest release type and version of the group', () => {
+        vpcModule.addCommit({ sha: 'abc123', message: 'fix: typo', files: ['main.tf'] });
+        endpointModule.addCommit({ sha: 'def456', message: 'feat: add policy', files: ['main.tf'] });
+
+        expect(vpcModule.getReleaseType()).toBe(RELEASE_TYPE.MINOR);
+        expect(vpcModule.getReleaseTagVersion()).toBe('v1.4.0');
+        expect(endpointModule.getReleaseTagVersion()).toBe('v1.4.0');
+        expect(vpcModule.getReleaseTag()).toBe('modules/vpc/v1.4.0');
+      });
+
+      it('should not release members skipped by the pull request', () => {
+        vpcModule.addCommit({ sha: 'abc123', message: 'feat: add flow logs', files: ['main.tf'] });
+        context.set({ prLabels: ['release:skip:vpc-endpoint'] });
+
+        expect(endpointModule.needsRelease()).toBe(false);
+        expect(endpointModule.getReleaseTagVersion()).toBeNull();
+        // The skipped member does not raise the version of the others
+        expect(vpcModule.getReleaseTagVersion()).toBe('v1.2.0');
+      });
+    });
+
+    describe('zero major mode', () => {
+      beforeEach(() => {
+        config.set({ zeroMajorMode: true });
+        module.setTags(createMockTags(['tf-modules/test-module/v0.3.1']));
+      });
+
+      it('should bump the minor version for breaking changes of a 0.y.z module', () => {
+        module.addCommit({ sha: 'abc123', message: 'BREAKING CHANGE: drop input', files: ['main.tf'] });
+
+        expect(module.getReleaseType()).toBe(RELEASE_TYPE.MAJOR);
+        expect(module.getReleaseTagVersion()).toBe('v0.4.0');
+      });
+
+      it('should bump the patch version for features and fixes of a 0.y.z module', () => {
+        module.addCommit({ sha: 'abc123', message: 'feat: new input', files: ['main.tf'] });
+        expect(module.getReleaseTagVersion()).toBe('v0.3.2');
+
+        module.clearCommits();
+        module.addCommit({ sha: 'def456', message: 'fix: typo', files: ['main.tf'] });
+        expect(module.getReleaseTagVersion()).toBe('v0.3.2');
+      });
+
+      it('should continue the pending pre-release of a 0.y.z module', () => {
+        context.set({ prLabels: ['pre-release:rc'] });
+        module.setTags(createMockTags(['tf-modules/test-module/v0.4.0-rc.1']));
+        module.addCommit({ sha: 'abc123', message: 'BREAKING CHANGE: drop input', files: ['main.tf'] });
+
+        expect(module.getReleaseTagVersion()).toBe('v0.4.0-rc.2');
+      });
+
+      it('should graduate to 1.0.0 with a release:major label or a Release-As footer', () => {
+        module.addCommit({ sha: 'abc123', message: 'feat: stable interface', files: ['main.tf'] });
+
+        context.set({ prLabels: ['release:major'] });
+        expect(module.getReleaseTagVersion()).toBe('v1.0.0');
+
+        context.set({ prLabels: [], prBody: 'Release-As: 1.0.0' });
+        expect(module.getReleaseTagVersion()).toBe('v1.0.0');
+      });
+
+      it('should not change the versioning of modules at 1.0.0 or later', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.3.1']));
+        module.addCommit({ sha: 'abc123', message: 'BREAKING CHANGE: drop input', files: ['main.tf'] });
+
+        expect(module.getReleaseTagVersion()).toBe('v2.0.0');
+      });
+
+      it('should not change the versioning of 0.y.z modules when disabled', () => {
+        config.set({ zeroMajorMode: false });
+        module.addCommit({ sha: 'abc123', message: 'BREAKING CHANGE: drop input', files: ['main.tf'] });
+
+        expect(module.getReleaseTagVersion()).toBe('v1.0.0');
+      });
     });
 
     describe('getReleaseTagVersion()', () => {
@@ -887,6 +1557,87 @@ describe('TerraformModule', () => {
 
         expect(module.getReleaseTagVersion()).toBe('1.2.4'); // No 'v' prefix
       });
+
+      describe('with a pre-release channel', () => {
+        beforeEach(() => {
+          config.set({ preReleaseChannel: 'rc' });
+        });
+
+        it('should suffix the default first tag for an initial release', () => {
+          expect(module.getReleaseTagVersion()).toBe('v0.1.0-rc.1');
+        });
+
+        it.each([
+          { level: 'major', message: 'BREAKING CHANGE: major update', expected: 'v2.0.0-rc.1' },
+          { level: 'minor', message: 'feat: new feature', expected: 'v1.3.0-rc.1' },
+          { level: 'patch', message: 'fix: bug fix', expected: 'v1.2.4-rc.1' },
+        ])('should start a new $level pre-release from a final version', ({ message, expected }) => {
+          module.setTags(createMockTags(['tf-modules/test-module/v1.2.3']));
+          module.addCommit({ sha: 'abc123', message, files: ['main.tf'] });
+
+          expect(module.getReleaseTagVersion()).toBe(expected);
+        });
+
+        it.each([
+          { level: 'major', message: 'BREAKING CHANGE: more breaking changes' },
+          { level: 'minor', message: 'feat: new feature' },
+          { level: 'patch', message: 'fix: bug fix' },
+        ])('should increment the counter of a pending major pre-release for a $level change', ({ message }) => {
+          module.setTags(createMockTags(['tf-modules/test-module/v1.2.3', 'tf-modules/test-module/v2.0.0-rc.1']));
+          module.addCommit({ sha: 'abc123', message, files: ['main.tf'] });
+
+          expect(module.getReleaseTagVersion()).toBe('v2.0.0-rc.2');
+        });
+
+        it('should start a new version cycle when the change exceeds the pending pre-release', () => {
+          module.setTags(createMockTags(['tf-modules/test-module/v1.2.4-rc.3']));
+          module.addCommit({ sha: 'abc123', message: 'feat: new feature', files: ['main.tf'] });
+
+          expect(module.getReleaseTagVersion()).toBe('v1.3.0-rc.1');
+        });
+
+        it('should restart the counter when switching channels', () => {
+          config.set({ preReleaseChannel: 'beta' });
+          module.setTags(createMockTags(['tf-modules/test-module/v2.0.0-alpha.4']));
+          module.addCommit({ sha: 'abc123', message: 'fix: bug fix', files: ['main.tf'] });
+
+          expect(module.getReleaseTagVersion()).toBe('v2.0.0-beta.1');
+        });
+
+        it('should reject switching a pending pre-release to a lower channel', () => {
+          context.set({ prLabels: ['pre-release:beta'] });
+          module.setTags(
+            createMockTags(['tf-modules/test-module/v2.0.0-beta.1', 'tf-modules/test-module/v2.0.0-rc.2']),
+          );
+          module.addCommit({ sha: 'abc123', message: 'fix: bug fix', files: ['main.tf'] });
+
+          expect(() => module.getReleaseTagVersion()).toThrow(
+            "Invalid pre-release channel 'beta' for module 'tf-modules/test-module'. Version 'v2.0.0-beta.1' must be greater than the latest version 'v2.0.0-rc.2'.",
+          );
+        });
+
+        it('should use the channel selected by a pull request label', () => {
+          context.set({ prLabels: ['pre-release:beta'] });
+          module.setTags(createMockTags(['tf-modules/test-module/v1.2.3']));
+          module.addCommit({ sha: 'abc123', message: 'fix: bug fix', files: ['main.tf'] });
+
+          expect(module.getReleaseTagVersion()).toBe('v1.2.4-beta.1');
+        });
+      });
+
+      it('should promote a pending pre-release when no channel is active', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.3', 'tf-modules/test-module/v2.0.0-rc.2']));
+        module.addCommit({ sha: 'abc123', message: 'fix: bug fix', files: ['main.tf'] });
+
+        expect(module.getReleaseTagVersion()).toBe('v2.0.0');
+      });
+
+      it('should bump past a pending pre-release when the change exceeds it', () => {
+        module.setTags(createMockTags(['tf-modules/test-module/v1.2.4-rc.1']));
+        module.addCommit({ sha: 'abc123', message: 'BREAKING CHANGE: major update', files: ['main.tf'] });
+
+        expect(module.getReleaseTagVersion()).toBe('v2.0.0');
+      });
     });
 
     describe('getReleaseTag()', () => {
@@ -980,6 +1731,19 @@ describe('TerraformModule', () => {
       expect(output).not.toContain('This is a detailed description');
       expect(output).not.toContain('with multiple lines');
     });
+
+    it('should include local dependencies and dependency triggers', () => {
+      const dependency = createMockTerraformModule({ directory: join(tmpDir, 'tf-modules', 'dependency') });
+      module.setTags(createMockTags(['tf-modules/test-module/v1.0.0']));
+      module.addDependency(dependency);
+      module.addDependencyTrigger(dependency);
+
+      const output = module.toString();
+
+      expect(output).toContain('Local Dependencies: tf-modules/dependency');
+      expect(output).toContain('Release Reasons: local-dependency-update');
+      expect(output).toContain('Dependency Triggers: tf-modules/dependency');
+    });
   });
 
   describe('static utilities', () => {
@@ -1275,6 +2039,16 @@ describe('TerraformModule', () => {
       });
     });
 
+    describe('isPreReleaseVersion()', () => {
+      it.each(['v2.0.0-rc.1', '2.0.0-beta', 'v1.0.0-alpha.1.x'])('should return true for %s', (version) => {
+        expect(TerraformModule.isPreReleaseVersion(version)).toBe(true);
+      });
+
+      it.each(['v2.0.0', '2.0.0', 'invalid'])('should return false for %s', (version) => {
+        expect(TerraformModule.isPreReleaseVersion(version)).toBe(false);
+      });
+    });
+
     describe('getTagsForModule()', () => {
       it('should filter tags for specific module', () => {
         const allTags = ['module-a/v1.0.0', 'module-a/v1.1.0', 'module-b/v1.0.0', 'module-c/v2.0.0'];
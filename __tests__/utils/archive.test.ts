@@ -0,0 +1,159 @@
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync, inflateRawSync } from 'node:zlib';
+import { createChecksumFile, createTarGzArchive, createZipArchive, sha256 } from '@/utils/archive';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+/** Reads the path, mode, modification time and contents of the entries of a tar archive. */
+function readTar(archive: Buffer) {
+  const tar = gunzipSync(archive);
+  const entries: Array<{ path: string; mode: number; mtime: number; content: string }> = [];
+  let paxPath: string | null = null;
+
+  for (let offset = 0; tar[offset] !== 0; ) {
+    const field = (start: number, length: number) =>
+      tar
+        .subarray(offset + start, offset + start + length)
+        .toString('utf8')
+        .replace(/\0.*$/s, '');
+    const size = Number.parseInt(field(124, 12), 8);
+    const data = tar.subarray(offset + 512, offset + 512 + size).toString('utf8');
+
+    if (field(156, 1) === 'x') {
+      paxPath = /path=(.*)\n/.exec(data)?.[1] ?? null;
+    } else {
+      const prefix = field(345, 155);
+      entries.push({
+        path: paxPath ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100)),
+        mode: Number.parseInt(field(100, 8), 8),
+        mtime: Number.parseInt(field(136, 12), 8),
+        content: data,
+      });
+      paxPath = null;
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return entries;
+}
+
+/** Reads the path, mode and contents of the entries of a zip archive from its central directory. */
+function readZip(archive: Buffer) {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const entries: Array<{ path: string; mode: number; content: string }> = [];
+  let offset = archive.readUInt32LE(end + 16);
+  for (let index = 0; index < archive.readUInt16LE(end + 10); index++) {
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const dataOffset = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+
+    entries.push({
+      path: archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8'),
+      mode: archive.readUInt32LE(offset + 38) >>> 16,
+      content: inflateRawSync(archive.subarray(dataOffset, dataOffset + compressedSize)).toString('utf8'),
+    });
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe('utils/archive', () => {
+  let directory: string;
+
+  /** Writes the module files of the tests, in the given order. */
+  const writeModule = (target: string, files: string[]) => {
+    for (const file of files) {
+      mkdirSync(join(target, file, '..'), { recursive: true });
+      writeFileSync(join(target, file), `content of ${file}`);
+    }
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'archive-test-'));
+    writeModule(directory, ['variables.tf', 'main.tf', 'scripts/run.sh', 'outputs.tf']);
+    chmodSync(join(directory, 'scripts/run.sh'), 0o775);
+    mkdirSync(join(directory, 'empty'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('createTarGzArchive()', () => {
+    it('should archive the files sorted by path with normalized modes and a fixed modification time', () => {
+      expect(readTar(createTarGzArchive(directory))).toEqual([
+        { path: 'main.tf', mode: 0o644, mtime: 315532800, content: 'content of main.tf' },
+        { path: 'outputs.tf', mode: 0o644, mtime: 315532800, content: 'content of outputs.tf' },
+        { path: 'scripts/run.sh', mode: 0o755, mtime: 315532800, content: 'content of scripts/run.sh' },
+        { path: 'variables.tf', mode: 0o644, mtime: 315532800, content: 'content of variables.tf' },
+      ]);
+    });
+
+    it('should store paths longer than the ustar name field', () => {
+      const splitPath = `${'a'.repeat(80)}/${'b'.repeat(80)}.tf`;
+      const paxPath = `${'c'.repeat(120)}.tf`;
+      writeModule(directory, [splitPath, paxPath]);
+
+      const paths = readTar(createTarGzArchive(directory)).map(({ path }) => path);
+
+      expect(paths).toContain(splitPath);
+      expect(paths).toContain(paxPath);
+    });
+
+    it('should not depend on file modification times or creation order', () => {
+      const otherDirectory = mkdtempSync(join(tmpdir(), 'archive-test-'));
+      try {
+        writeModule(otherDirectory, ['scripts/run.sh', 'outputs.tf', 'main.tf', 'variables.tf']);
+        chmodSync(join(otherDirectory, 'scripts/run.sh'), 0o700);
+        utimesSync(join(otherDirectory, 'main.tf'), new Date('2020-01-01'), new Date('2020-01-01'));
+
+        expect(createTarGzArchive(otherDirectory)).toEqual(createTarGzArchive(directory));
+      } finally {
+        rmSync(otherDirectory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createZipArchive()', () => {
+    it('should archive the files sorted by path with their Unix modes', () => {
+      expect(readZip(createZipArchive(directory))).toEqual([
+        { path: 'main.tf', mode: 0o100644, content: 'content of main.tf' },
+        { path: 'outputs.tf', mode: 0o100644, content: 'content of outputs.tf' },
+        { path: 'scripts/run.sh', mode: 0o100755, content: 'content of scripts/run.sh' },
+        { path: 'variables.tf', mode: 0o100644, content: 'content of variables.tf' },
+      ]);
+    });
+
+    it('should not depend on file modification times', () => {
+      const archive = createZipArchive(directory);
+      utimesSync(join(directory, 'main.tf'), new Date('2020-01-01'), new Date('2020-01-01'));
+
+      expect(createZipArchive(directory)).toEqual(archive);
+    });
+  });
+
+  describe('createChecksumFile()', () => {
+    it('should list the SHA-256 checksums of the files sorted by name', () => {
+      const zip = Buffer.from('zip');
+      const tarGz = Buffer.from('tar.gz');
+
+      expect(
+        createChecksumFile([
+          { name: 'vpc-v1.0.0.zip', data: zip },
+          { name: 'vpc-v1.0.0.tar.gz', data: tarGz },
+        ]),
+      ).toBe(`${sha256(tarGz)}  vpc-v1.0.0.tar.gz\n${sha256(zip)}  vpc-v1.0.0.zip\n`);
+    });
+  });
+
+  describe('sha256()', () => {
+    it('should return the hex-encoded SHA-256 digest', () => {
+      expect(sha256(Buffer.from('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+  });
+});
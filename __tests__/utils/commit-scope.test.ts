@@ -0,0 +1,62 @@
+import { join } from 'node:path';
+import { config } from '@/mocks/config';
+import { context } from '@/mocks/context';
+import { createMockTerraformModule } from '@/tests/helpers/terraform-module';
+import { findUnmatchedCommitScopes, getCommitScopes, resolveScopeModules } from '@/utils/commit-scope';
+import { describe, expect, it } from 'vitest';
+
+describe('utils/commit-scope', () => {
+  const createModule = (name: string, messages: string[] = []) =>
+    createMockTerraformModule({
+      directory: join(context.workspaceDir, name),
+      commits: messages.map((message, index) => ({ sha: `${name}-${index}`, message, files: ['main.tf'] })),
+    });
+
+  describe('getCommitScopes()', () => {
+    it('should return the scopes of a conventional commit', () => {
+      expect(getCommitScopes('feat(vpc): add subnets')).toEqual(['vpc']);
+      expect(getCommitScopes('fix(vpc, kms)!: rotate keys')).toEqual(['vpc', 'kms']);
+    });
+
+    it('should return an empty array for unscoped or non-conventional commits', () => {
+      expect(getCommitScopes('feat: add subnets')).toEqual([]);
+      expect(getCommitScopes('Update README')).toEqual([]);
+    });
+  });
+
+  describe('resolveScopeModules()', () => {
+    const vpc = createModule('modules/vpc');
+    const endpoint = createModule('modules/vpc-endpoint');
+    const kms = createModule('modules/kms');
+
+    it('should match scopes against the module name or directory name', () => {
+      expect(resolveScopeModules('vpc', [vpc, endpoint, kms])).toEqual([vpc]);
+      expect(resolveScopeModules('modules/kms', [vpc, endpoint, kms])).toEqual([kms]);
+      expect(resolveScopeModules('s3', [vpc, endpoint, kms])).toEqual([]);
+    });
+
+    it('should resolve aliased scopes to the modules of their entries', () => {
+      config.set({ scopeAliases: ['net=vpc', 'net = vpc-endpoint', 'vpc=kms'] });
+
+      expect(resolveScopeModules('net', [vpc, endpoint, kms])).toEqual([vpc, endpoint]);
+      expect(resolveScopeModules('vpc', [vpc, endpoint, kms])).toEqual([kms]);
+    });
+  });
+
+  describe('findUnmatchedCommitScopes()', () => {
+    const modules = [
+      createModule('modules/vpc', ['feat(vpc): add subnets', 'fix(vcp): typo', 'chore: tidy']),
+      createModule('modules/kms', ['fix(kms,vcp): rotate keys', 'docs(net): usage', 'fix(s3): wrong scope']),
+    ];
+
+    it('should return an empty array when scope routing is disabled', () => {
+      expect(findUnmatchedCommitScopes(modules)).toEqual([]);
+    });
+
+    it('should return the sorted, unique scopes that match no module', () => {
+      config.set({ scopeRouting: true, scopeAliases: ['net=vpc'] });
+
+      expect(findUnmatchedCommitScopes(modules)).toEqual(['s3', 'vcp']);
+    });
+  });
+});
@@ -2,6 +2,8 @@ import {
   VALID_TAG_DIRECTORY_SEPARATORS,
   VERSION_TAG_REGEX,
   MODULE_TAG_REGEX,
+  PRE_RELEASE_CHANNEL_REGEX,
+  PRE_RELEASE_LABEL_PREFIX,
   BRANDING_COMMENT,
   BRANDING_WIKI,
   GITHUB_ACTIONS_BOT_NAME,
@@ -22,11 +24,46 @@ describe('utils/constants', () => {
   });
 
   it('should have the correct version tag regex', () => {
-    expect(VERSION_TAG_REGEX).toStrictEqual(/^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/);
+    expect(VERSION_TAG_REGEX).toStrictEqual(
+      /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?$/,
+    );
+  });
+
+  it('should match versions with and without pre-release identifiers', () => {
+    expect(VERSION_TAG_REGEX.exec('v1.2.3')?.slice(1)).toEqual(['1', '2', '3', undefined]);
+    expect(VERSION_TAG_REGEX.exec('2.0.0-rc.1')?.slice(1)).toEqual(['2', '0', '0', 'rc.1']);
+    expect(VERSION_TAG_REGEX.exec('v1.0.0-alpha.beta-2.0')?.[4]).toBe('alpha.beta-2.0');
+    expect(VERSION_TAG_REGEX.test('v1.0.0-rc.01')).toBe(false);
+    expect(VERSION_TAG_REGEX.test('v1.0.0-')).toBe(false);
+    expect(VERSION_TAG_REGEX.test('v1.0.0-rc..1')).toBe(false);
   });
 
   it('should have the correct module tag regex', () => {
-    expect(MODULE_TAG_REGEX).toStrictEqual(/^(.+)([-_/.])(v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*))$/);
+    expect(MODULE_TAG_REGEX).toStrictEqual(
+      /^(.+)([-_/.])(v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?)$/,
+    );
+  });
+
+  it('should match module tags with pre-release identifiers', () => {
+    expect(MODULE_TAG_REGEX.exec('kms/v2.0.0-rc.1')?.slice(1)).toEqual([
+      'kms',
+      '/',
+      'v2.0.0-rc.1',
+      '2',
+      '0',
+      '0',
+      'rc.1',
+    ]);
+    expect(MODULE_TAG_REGEX.exec('aws-vpc-v1.0.0-beta.2')?.slice(1, 4)).toEqual(['aws-vpc', '-', 'v1.0.0-beta.2']);
+    expect(MODULE_TAG_REGEX.exec('module-v1.0.0')?.[7]).toBeUndefined();
+  });
+
+  it('should have the correct pre-release channel regex and label prefix', () => {
+    expect(PRE_RELEASE_CHANNEL_REGEX.test('rc')).toBe(true);
+    expect(PRE_RELEASE_CHANNEL_REGEX.test('beta-2')).toBe(true);
+    expect(PRE_RELEASE_CHANNEL_REGEX.test('1rc')).toBe(false);
+    expect(PRE_RELEASE_CHANNEL_REGEX.test('rc.1')).toBe(false);
+    expect(PRE_RELEASE_LABEL_PREFIX).toBe('pre-release:');
   });
 
   it('should have the correct GitHub Actions bot name', () => {
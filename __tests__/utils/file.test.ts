@@ -3,6 +3,7 @@ import { tmpdir } from 'node:os';
 import { dirname, join, relative } from 'node:path';
 import {
   copyModuleContents,
+  findModuleReleaserConfig,
   findModuleTerraformDocsConfig,
   findTerraformModuleDirectories,
   getRelativeTerraformModulePathFromFilePath,
@@ -1097,4 +1098,27 @@ describe('utils/file', () => {
       expect(findModuleTerraformDocsConfig(moduleDir, workspaceDir)).toBeNull();
     });
   });
+
+  describe('findModuleReleaserConfig()', () => {
+    it('should return null when no config exists', () => {
+      expect(findModuleReleaserConfig(tmpDir)).toBeNull();
+    });
+
+    it('should prefer the module root over the .config/ subdirectory', () => {
+      mkdirSync(join(tmpDir, '.config'));
+      writeFileSync(join(tmpDir, '.config', '.terraform-module-releaser.yml'), 'pre-release: true');
+      expect(findModuleReleaserConfig(tmpDir)).toBe(join(tmpDir, '.config', '.terraform-module-releaser.yml'));
+
+      writeFileSync(join(tmpDir, '.terraform-module-releaser.yml'), 'pre-release: false');
+      expect(findModuleReleaserConfig(tmpDir)).toBe(join(tmpDir, '.terraform-module-releaser.yml'));
+    });
+
+    it('should not search parent directories', () => {
+      const moduleDir = join(tmpDir, 'modules', 'vpc');
+      mkdirSync(moduleDir, { recursive: true });
+      writeFileSync(join(tmpDir, 'modules', '.terraform-module-releaser.yml'), 'pre-release: true');
+
+      expect(findModuleReleaserConfig(moduleDir)).toBeNull();
+    });
+  });
 });
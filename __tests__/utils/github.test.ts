@@ -6,7 +6,9 @@ import { join } from 'node:path';
 import { config } from '@/mocks/config';
 import { context } from '@/mocks/context';
 import type { ExecSyncError } from '@/types';
-import { configureGitAuthentication, getGitHubActionsBotEmail } from '@/utils/github';
+import { configureGitAuthentication, getGitHubActionsBotEmail, withRateLimitRetry } from '@/utils/github';
+import { warning } from '@actions/core';
+import { RequestError } from '@octokit/request-error';
 import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 import which from 'which';
 
@@ -171,4 +173,80 @@ describe('utils/github', () => {
       expect(decoded).toBe('x-access-token:test-token-12345');
     });
   });
+
+  describe('withRateLimitRetry', () => {
+    const url = 'https://api.github.com/repos/techpivot/terraform-module-releaser/commits';
+    const createRequestError = (status: number, headers: Record<string, string>, message = 'API rate limit exceeded') =>
+      new RequestError(message, status, {
+        request: { method: 'GET', url, headers: {} },
+        response: { status, url, headers, data: {} },
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should wait for the primary rate limit to reset and retry', async () => {
+      vi.setSystemTime(new Date('2024-05-01T10:00:00Z'));
+      const resetAt = String(Date.parse('2024-05-01T10:00:29Z') / 1000);
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(createRequestError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': resetAt }))
+        .mockResolvedValueOnce('data');
+
+      const result = withRateLimitRetry(request);
+      await vi.advanceTimersByTimeAsync(30 * 1000);
+
+      await expect(result).resolves.toBe('data');
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(warning).toHaveBeenCalledWith('GitHub API rate limit reached. Retrying in 30 seconds (retry 1 of 3).');
+    });
+
+    it('should wait as long as a secondary rate limit asks', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(createRequestError(429, { 'retry-after': '5' }))
+        .mockRejectedValueOnce(createRequestError(403, {}, 'You have exceeded a secondary rate limit'))
+        .mockResolvedValueOnce('data');
+
+      const result = withRateLimitRetry(request);
+      await vi.advanceTimersByTimeAsync(65 * 1000);
+
+      await expect(result).resolves.toBe('data');
+      expect(warning).toHaveBeenCalledWith('GitHub API rate limit reached. Retrying in 5 seconds (retry 1 of 3).');
+      expect(warning).toHaveBeenCalledWith('GitHub API rate limit reached. Retrying in 60 seconds (retry 2 of 3).');
+    });
+
+    it('should rethrow other failures without retrying', async () => {
+      const error = createRequestError(403, {}, 'Resource not accessible by integration');
+      const request = vi.fn().mockRejectedValue(error);
+
+      await expect(withRateLimitRetry(request)).rejects.toBe(error);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the last retry', async () => {
+      const error = createRequestError(429, { 'retry-after': '1' });
+      const request = vi.fn().mockRejectedValue(error);
+
+      const result = withRateLimitRetry(request);
+      const assertion = expect(result).rejects.toBe(error);
+      await vi.advanceTimersByTimeAsync(3 * 1000);
+
+      await assertion;
+      expect(request).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not wait for a rate limit that resets too late', async () => {
+      const error = createRequestError(429, { 'retry-after': String(2 * 60 * 60) });
+      const request = vi.fn().mockRejectedValue(error);
+
+      await expect(withRateLimitRetry(request)).rejects.toBe(error);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,187 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  findLocalModuleSources,
+  maskHcl,
+  parseHclAttributes,
+  parseHclBlocks,
+  normalizeHclExpression,
+  parseHclStringLiteral,
+  readTerraformFiles,
+} from '@/utils/hcl';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+describe('utils/hcl', () => {
+  describe('maskHcl', () => {
+    it('should preserve length and line layout', () => {
+      const content = 'a = "x{y}" # c {\n/* { */ b = 1\n';
+      const masked = maskHcl(content);
+
+      expect(masked).toHaveLength(content.length);
+      expect(masked.split('\n')).toHaveLength(content.split('\n').length);
+    });
+
+    it('should mask comments, string contents and interpolations', () => {
+      const masked = maskHcl(`a = "x{\${var.y["k"]}}" // {\nb = 2 # }\n`);
+
+      expect(masked).not.toMatch(/[{}]/);
+      expect(masked).toContain('a = "');
+      expect(masked).toContain('b = 2');
+    });
+
+    it('should mask heredoc bodies', () => {
+      const masked = maskHcl('policy = <<EOF\n{ "a": "b" }\nEOF\nc = 1\n');
+
+      expect(masked).not.toMatch(/[{}]/);
+      expect(masked).toContain('c = 1');
+    });
+
+    it('should handle escaped quotes inside strings', () => {
+      const masked = maskHcl('a = "say \\"{\\""\nb = {}\n');
+
+      expect(masked.match(/[{}]/g)).toEqual(['{', '}']);
+    });
+  });
+
+  describe('parseHclBlocks', () => {
+    it('should parse top-level blocks with labels', () => {
+      const blocks = parseHclBlocks(
+        [
+          'terraform {',
+          '  required_version = ">= 1.0"',
+          '}',
+          '',
+          'variable "name" {',
+          '  type = string',
+          '  validation {',
+          '    condition     = length(var.name) > 0',
+          '    error_message = "Name must not be empty }"',
+          '  }',
+          '}',
+          '',
+          'resource aws_s3_bucket "this" {}',
+        ].join('\n'),
+      );
+
+      expect(blocks.map((block) => [block.type, block.labels])).toEqual([
+        ['terraform', []],
+        ['variable', ['name']],
+        ['resource', ['aws_s3_bucket', 'this']],
+      ]);
+      expect(blocks[1].body).toContain('validation {');
+    });
+
+    it('should ignore blocks that are commented out', () => {
+      const blocks = parseHclBlocks('# module "a" {\n#   source = "../a"\n# }\n/* module "b" {} */\n');
+
+      expect(blocks).toEqual([]);
+    });
+
+    it('should return an empty array for empty content', () => {
+      expect(parseHclBlocks('')).toEqual([]);
+    });
+  });
+
+  describe('parseHclAttributes', () => {
+    it('should parse top-level attributes and skip nested blocks', () => {
+      const attributes = parseHclAttributes(
+        [
+          '',
+          '  type    = map(object({',
+          '    name = string',
+          '  }))',
+          '  default = {} # trailing comment',
+          '  validation {',
+          '    condition = var.x == 1',
+          '  }',
+          '',
+        ].join('\n'),
+      );
+
+      expect(Array.from(attributes.keys())).toEqual(['type', 'default']);
+      expect(attributes.get('type')).toBe('map(object({\n    name = string\n  }))');
+      expect(attributes.get('default')).toBe('{}');
+    });
+  });
+
+  describe('parseHclStringLiteral', () => {
+    it('should return the value of plain string literals', () => {
+      expect(parseHclStringLiteral('"../animal"')).toBe('../animal');
+      expect(parseHclStringLiteral(' "a \\"quoted\\" value" ')).toBe('a "quoted" value');
+      expect(parseHclStringLiteral('"$5 or 100%"')).toBe('$5 or 100%');
+    });
+
+    it('should return null for non-literal expressions', () => {
+      expect(parseHclStringLiteral('var.source')).toBeNull();
+      expect(parseHclStringLiteral(`"\${path.module}/../animal"`)).toBeNull();
+      expect(parseHclStringLiteral('"a" + "b"')).toBeNull();
+    });
+  });
+
+  describe('normalizeHclExpression', () => {
+    it('should drop whitespace and comments outside of strings', () => {
+      expect(normalizeHclExpression('object({\n  name = string # the name\n  /* id */ id = optional(number)\n})')).toBe(
+        'object({name=stringid=optional(number)})',
+      );
+    });
+
+    it('should preserve string literals verbatim', () => {
+      expect(normalizeHclExpression('optional(string, "a # b // c")')).toBe('optional(string,"a # b // c")');
+      expect(normalizeHclExpression('"say \\"hi\\" "')).toBe('"say \\"hi\\" "');
+    });
+  });
+
+  describe('findLocalModuleSources', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = mkdtempSync(join(tmpdir(), 'hcl-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should resolve relative module sources and ignore remote sources', () => {
+      const moduleDir = join(tmpDir, 'modules', 'zoo');
+      mkdirSync(join(moduleDir, 'nested'), { recursive: true });
+      writeFileSync(
+        join(moduleDir, 'main.tf'),
+        [
+          'module "animal" {',
+          '  source = "../animal"',
+          '}',
+          'module "local" {',
+          '  source = "./nested"',
+          '}',
+          'module "registry" {',
+          '  source  = "cloudposse/label/null"',
+          '  version = "0.25.0"',
+          '}',
+          'module "git" {',
+          '  source = "git::https://example.com/modules.git//vpc?ref=v1.0.0"',
+          '}',
+        ].join('\n'),
+      );
+      writeFileSync(join(moduleDir, 'other.tf'), 'module "again" {\n  source = "../animal/"\n}\n');
+      writeFileSync(join(moduleDir, 'README.md'), 'module "ignored" {\n  source = "../ignored"\n}\n');
+
+      expect(findLocalModuleSources(moduleDir)).toEqual([join(tmpDir, 'modules', 'animal'), join(moduleDir, 'nested')]);
+    });
+
+    it('should read only the .tf files of the directory in name order', () => {
+      writeFileSync(join(tmpDir, 'variables.tf'), 'b');
+      writeFileSync(join(tmpDir, 'main.tf'), 'a');
+      writeFileSync(join(tmpDir, 'README.md'), 'c');
+
+      expect(readTerraformFiles(tmpDir)).toEqual(['a', 'b']);
+    });
+
+    it('should return an empty array when the module has no module calls', () => {
+      writeFileSync(join(tmpDir, 'main.tf'), 'resource "null_resource" "this" {}\n');
+
+      expect(findLocalModuleSources(tmpDir)).toEqual([]);
+    });
+  });
+});
@@ -2,10 +2,12 @@ import { context } from '@/mocks/context';
 import { RELEASE_BODY_PR_MARKER_PREFIX } from '@/utils/constants';
 import {
   buildPrMarker,
+  findPrMarker,
   hasAnyPrMarker,
   hasStandaloneMarkerLine,
   matchesPrMarker,
   neutralizePrMarkers,
+  stripPrMarkers,
 } from '@/utils/markers';
 import { describe, expect, it } from 'vitest';
 
@@ -143,6 +145,35 @@ describe('utils/markers', () => {
     });
   });
 
+  describe('findPrMarker()', () => {
+    it('returns the marker as written and the pull request it names', () => {
+      const futureMarker = `<!-- techpivot/terraform-module-releaser:release-pr:9:${SLUG}#12 -->`;
+
+      expect(findPrMarker(`notes\r\n  ${buildPrMarker(5)}  `)).toEqual({ marker: buildPrMarker(5), prNumber: 5 });
+      expect(findPrMarker(`notes\n\n${futureMarker}`)).toEqual({ marker: futureMarker, prNumber: 12 });
+    });
+
+    it('returns null for markers of another repository, ambiguous markers and text without markers', () => {
+      expect(findPrMarker('<!-- techpivot/terraform-module-releaser:release-pr:1:someone/fork#5 -->')).toBeNull();
+      expect(findPrMarker(`${buildPrMarker(5)}\n${buildPrMarker(6)}`)).toBeNull();
+      expect(findPrMarker(`prose ${buildPrMarker(5)} more prose`)).toBeNull();
+      expect(findPrMarker('plain release notes')).toBeNull();
+      expect(findPrMarker(undefined)).toBeNull();
+    });
+  });
+
+  describe('stripPrMarkers()', () => {
+    it('removes standalone marker lines', () => {
+      expect(stripPrMarkers(`notes\n\n${buildPrMarker(7)}`)).toBe('notes\n');
+      expect(stripPrMarkers(`${buildPrMarker(7)}\r\nnotes`)).toBe('\r\nnotes');
+    });
+
+    it('keeps markers embedded in prose', () => {
+      const text = `see ${buildPrMarker(7)} here`;
+      expect(stripPrMarkers(text)).toBe(text);
+    });
+  });
+
   describe('neutralizePrMarkers()', () => {
     it('neutralizes a forged marker so it can no longer be matched', () => {
       const forged = buildPrMarker(99);
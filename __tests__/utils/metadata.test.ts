@@ -1,5 +1,6 @@
-import { ACTION_INPUTS, createConfigFromInputs } from '@/utils/metadata';
-import type { ActionInputMetadata } from '@/types';
+import { getConfig } from '@/mocks/config';
+import { ACTION_INPUTS, createConfigFromInputs, validateConfig } from '@/utils/metadata';
+import type { ActionInputMetadata, Config } from '@/types';
 import { getInput } from '@actions/core';
 import { describe, expect, it, vi } from 'vitest';
 
@@ -29,6 +30,31 @@ describe('utils/metadata', () => {
         'module-ref-mode',
         'pre-release',
         'hide-no-changes-pr-comment',
+        'pre-release-channel',
+        'pre-release-channel-branches',
+        'version-groups',
+        'detect-breaking-interface-changes',
+        'zero-major-mode',
+        'conventional-commit-types',
+        'scope-routing',
+        'scope-aliases',
+        'semver-source',
+        'commit-lint',
+        'changelog-format',
+        'changelog-template',
+        'changelog-template-file',
+        'changelog-pr-body-section',
+        'changelog-linked-issues',
+        'module-changelog',
+        'release-rebuild-dry-run',
+        'tag-signing',
+        'tag-signing-key',
+        'release-assets',
+        'release-provenance',
+        'tag-migration',
+        'tag-migration-dry-run',
+        'tag-migration-delete-old-tags',
+        'release-backfill',
       ];
 
       expect(Object.keys(ACTION_INPUTS)).toEqual(expect.arrayContaining(expectedInputs));
@@ -44,6 +70,10 @@ describe('utils/metadata', () => {
         'github_token',
         'tag-directory-separator',
         'module-ref-mode',
+        'semver-source',
+        'commit-lint',
+        'changelog-format',
+        'tag-signing',
       ];
 
       for (const inputName of stringInputs) {
@@ -65,6 +95,17 @@ describe('utils/metadata', () => {
         'use-version-prefix',
         'pre-release',
         'hide-no-changes-pr-comment',
+        'zero-major-mode',
+        'scope-routing',
+        'changelog-linked-issues',
+        'module-changelog',
+        'release-rebuild-dry-run',
+        'release-assets',
+        'release-provenance',
+        'tag-migration',
+        'tag-migration-dry-run',
+        'tag-migration-delete-old-tags',
+        'release-backfill',
       ];
 
       for (const inputName of booleanInputs) {
@@ -103,11 +144,42 @@ describe('utils/metadata', () => {
       }
     });
 
+    it('should have correct metadata structure for optional string inputs', () => {
+      const optionalStringInputs = [
+        'pre-release-channel',
+        'changelog-template',
+        'changelog-template-file',
+        'changelog-pr-body-section',
+        'tag-signing-key',
+      ];
+
+      for (const inputName of optionalStringInputs) {
+        const metadata = ACTION_INPUTS[inputName];
+        expect(metadata).toEqual({
+          configKey: expect.any(String),
+          required: false,
+          type: 'string',
+        });
+      }
+    });
+
+    it('should have correct metadata structure for optional boolean inputs', () => {
+      expect(ACTION_INPUTS['detect-breaking-interface-changes']).toEqual({
+        configKey: 'detectBreakingInterfaceChanges',
+        required: false,
+        type: 'boolean',
+      });
+    });
+
     it('should have correct metadata structure for optional array inputs', () => {
       const optionalArrayInputs = [
         'module-path-ignore',
         'module-change-exclude-patterns',
         'module-asset-exclude-patterns',
+        'pre-release-channel-branches',
+        'version-groups',
+        'conventional-commit-types',
+        'scope-aliases',
       ];
 
       for (const inputName of optionalArrayInputs) {
@@ -144,6 +216,31 @@ describe('utils/metadata', () => {
         'module-ref-mode': 'moduleRefMode',
         'pre-release': 'preRelease',
         'hide-no-changes-pr-comment': 'hideNoChangesPrComment',
+        'pre-release-channel': 'preReleaseChannel',
+        'pre-release-channel-branches': 'preReleaseChannelBranches',
+        'version-groups': 'versionGroups',
+        'detect-breaking-interface-changes': 'detectBreakingInterfaceChanges',
+        'zero-major-mode': 'zeroMajorMode',
+        'conventional-commit-types': 'conventionalCommitTypes',
+        'scope-routing': 'scopeRouting',
+        'scope-aliases': 'scopeAliases',
+        'semver-source': 'semverSource',
+        'commit-lint': 'commitLint',
+        'changelog-format': 'changelogFormat',
+        'changelog-template': 'changelogTemplate',
+        'changelog-template-file': 'changelogTemplateFile',
+        'changelog-pr-body-section': 'changelogPrBodySection',
+        'changelog-linked-issues': 'changelogLinkedIssues',
+        'module-changelog': 'moduleChangelog',
+        'release-rebuild-dry-run': 'releaseRebuildDryRun',
+        'tag-signing': 'tagSigning',
+        'tag-signing-key': 'tagSigningKey',
+        'release-assets': 'releaseAssets',
+        'release-provenance': 'releaseProvenance',
+        'tag-migration': 'tagMigration',
+        'tag-migration-dry-run': 'tagMigrationDryRun',
+        'tag-migration-delete-old-tags': 'tagMigrationDeleteOldTags',
+        'release-backfill': 'releaseBackfill',
       };
 
       expect(Object.keys(expectedMappings)).toHaveLength(Object.keys(ACTION_INPUTS).length);
@@ -190,4 +287,22 @@ describe('utils/metadata', () => {
       expect(() => createConfigFromInputs()).toThrow(`Failed to process input 'semver-mode': ${String(errorObject)}`);
     });
   });
+
+  describe('validateConfig', () => {
+    it('should accept a valid config and normalize the default first tag', () => {
+      const config = { ...getConfig(), useVersionPrefix: false, defaultFirstTag: 'v2.0.0' };
+
+      validateConfig(config);
+
+      expect(config.defaultFirstTag).toBe('2.0.0');
+    });
+
+    it('should reject an invalid config', () => {
+      const config = { ...getConfig(), semverMode: 'invalid' } as unknown as Config;
+
+      expect(() => validateConfig(config)).toThrow(
+        new TypeError("Invalid semver-mode 'invalid'. Must be one of: keywords, conventional-commits"),
+      );
+    });
+  });
 });
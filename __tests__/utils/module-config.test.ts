@@ -0,0 +1,121 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { config } from '@/mocks/config';
+import { loadModuleConfigOverrides } from '@/utils/module-config';
+import { info } from '@actions/core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+describe('utils/module-config', () => {
+  let moduleDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    moduleDir = mkdtempSync(join(tmpdir(), 'module-config-test-'));
+    configPath = join(moduleDir, '.terraform-module-releaser.yml');
+  });
+
+  afterEach(() => {
+    rmSync(moduleDir, { recursive: true, force: true });
+  });
+
+  describe('loadModuleConfigOverrides()', () => {
+    it('should return no overrides when the module has no config file', () => {
+      expect(loadModuleConfigOverrides(moduleDir)).toEqual({});
+    });
+
+    it('should return no overrides for an empty config file', () => {
+      writeFileSync(configPath, '# nothing to override yet\n');
+
+      expect(loadModuleConfigOverrides(moduleDir)).toEqual({});
+    });
+
+    it('should convert supported inputs to config values', () => {
+      writeFileSync(
+        configPath,
+        [
+          'semver-mode: keywords',
+          'major-keywords: [breaking, " major "]',
+          'minor-keywords: feat, feature, feat',
+          'default-semver-level: minor',
+          'pre-release: true',
+          'module-asset-exclude-patterns:',
+          '  - tests/**',
+          "  - '*.md'",
+        ].join('\n'),
+      );
+
+      expect(loadModuleConfigOverrides(moduleDir)).toEqual({
+        semverMode: 'keywords',
+        majorKeywords: ['breaking', 'major'],
+        minorKeywords: ['feat', 'feature'],
+        defaultSemverLevel: 'minor',
+        preRelease: true,
+        moduleAssetExcludePatterns: ['tests/**', '*.md'],
+      });
+      expect(info).toHaveBeenCalledWith(
+        `Loaded module config '${configPath}' (overrides: semverMode, majorKeywords, minorKeywords, defaultSemverLevel, preRelease, moduleAssetExcludePatterns)`,
+      );
+    });
+
+    it('should load the config file from the .config/ subdirectory', () => {
+      mkdirSync(join(moduleDir, '.config'));
+      writeFileSync(join(moduleDir, '.config', '.terraform-module-releaser.yml'), 'pre-release: true');
+
+      expect(loadModuleConfigOverrides(moduleDir)).toEqual({ preRelease: true });
+    });
+
+    it('should normalize the default first tag like the action input', () => {
+      config.set({ useVersionPrefix: false });
+      writeFileSync(configPath, 'default-first-tag: v1.0.0');
+
+      expect(loadModuleConfigOverrides(moduleDir)).toEqual({ defaultFirstTag: '1.0.0' });
+    });
+
+    it('should reject inputs that cannot be overridden per module', () => {
+      writeFileSync(configPath, 'disable-wiki: true');
+
+      expect(() => loadModuleConfigOverrides(moduleDir)).toThrow(
+        new TypeError(
+          `Unsupported input 'disable-wiki' in module config '${configPath}'. Supported inputs: semver-mode, major-keywords, minor-keywords, patch-keywords, default-semver-level, default-first-tag, module-asset-exclude-patterns, module-change-exclude-patterns, pre-release, zero-major-mode, conventional-commit-types, module-changelog`,
+        ),
+      );
+    });
+
+    it('should reject values of the wrong type', () => {
+      writeFileSync(configPath, 'pre-release: "yes"');
+      expect(() => loadModuleConfigOverrides(moduleDir)).toThrow(
+        new Error(
+          `Failed to process input 'pre-release' in module config '${configPath}': Expected a boolean, got 'yes'`,
+        ),
+      );
+
+      writeFileSync(configPath, 'major-keywords: [1, 2]');
+      expect(() => loadModuleConfigOverrides(moduleDir)).toThrow(
+        new Error(
+          `Failed to process input 'major-keywords' in module config '${configPath}': Expected a list of strings or a comma-separated string`,
+        ),
+      );
+    });
+
+    it('should validate overrides with the same rules as the action inputs', () => {
+      writeFileSync(configPath, 'module-change-exclude-patterns: ["*.md", "*.tf"]');
+
+      expect(() => loadModuleConfigOverrides(moduleDir)).toThrow(
+        new TypeError(
+          `Invalid module config '${configPath}': Exclude patterns cannot contain "*.tf" as it is required for module detection`,
+        ),
+      );
+    });
+
+    it('should reject files that are not a YAML mapping', () => {
+      writeFileSync(configPath, '- pre-release');
+      expect(() => loadModuleConfigOverrides(moduleDir)).toThrow(
+        new TypeError(`Module config '${configPath}' must be a mapping of input names to values`),
+      );
+
+      writeFileSync(configPath, 'pre-release: [true');
+      expect(() => loadModuleConfigOverrides(moduleDir)).toThrow(`Failed to parse module config '${configPath}'`);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { extractPullRequestBodySection, getClosingIssueReferences } from '@/utils/pr-body';
+import { describe, expect, it } from 'vitest';
+
+describe('utils/pr-body', () => {
+  describe('extractPullRequestBodySection()', () => {
+    const body = [
+      '## Summary',
+      'Adds flow logs.',
+      '',
+      '## Changelog',
+      '<!-- Describe the user-facing changes -->',
+      '- Add flow logs',
+      '',
+      '### Notes',
+      'Requires provider 5.x',
+      '',
+      '```markdown',
+      '## Not a heading',
+      '```',
+      '',
+      '## Checklist',
+      '- [x] Tests',
+    ].join('\n');
+
+    it('should return the section content up to the next heading of the same level', () => {
+      expect(extractPullRequestBodySection(body, 'Changelog')).toBe(
+        [
+          '- Add flow logs',
+          '',
+          '### Notes',
+          'Requires provider 5.x',
+          '',
+          '```markdown',
+          '## Not a heading',
+          '```',
+        ].join('\n'),
+      );
+    });
+
+    it('should match the heading case-insensitively, with or without its # characters', () => {
+      expect(extractPullRequestBodySection(body, '## checklist')).toBe('- [x] Tests');
+      expect(extractPullRequestBodySection('# Changelog #\r\nFixed a bug\r\n', 'CHANGELOG')).toBe('Fixed a bug');
+    });
+
+    it('should return null when the section is missing or empty', () => {
+      expect(extractPullRequestBodySection(body, 'Release Notes')).toBeNull();
+      expect(extractPullRequestBodySection('## Changelog\n<!-- TODO -->\n\n## Checklist', 'Changelog')).toBeNull();
+      expect(extractPullRequestBodySection('', 'Changelog')).toBeNull();
+    });
+  });
+
+  describe('getClosingIssueReferences()', () => {
+    it('should return the issues referenced with closing keywords', () => {
+      const body = 'Fixes #12, closes: #7 and Resolved techpivot/other-repo#3.\nRelated to #99. FIXES #12';
+
+      expect(getClosingIssueReferences(body)).toEqual([
+        { repository: null, number: 12 },
+        { repository: null, number: 7 },
+        { repository: 'techpivot/other-repo', number: 3 },
+      ]);
+    });
+
+    it('should return an empty array when no issue is referenced', () => {
+      expect(getClosingIssueReferences('Refactor #12 handling; prefix#3')).toEqual([]);
+      expect(getClosingIssueReferences('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { config } from '@/mocks/config';
+import { context } from '@/mocks/context';
+import { getPreReleaseChannel } from '@/utils/pre-release';
+import { warning } from '@actions/core';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+describe('utils/pre-release', () => {
+  beforeEach(() => {
+    config.set({ preReleaseChannel: '', preReleaseChannelBranches: [] });
+    context.set({ prLabels: [], baseRef: 'main' });
+  });
+
+  describe('getPreReleaseChannel()', () => {
+    it('should return null when no channel is configured', () => {
+      expect(getPreReleaseChannel()).toBeNull();
+    });
+
+    it('should return the configured pre-release channel', () => {
+      config.set({ preReleaseChannel: 'rc' });
+
+      expect(getPreReleaseChannel()).toBe('rc');
+    });
+
+    it('should select the channel of the first branch pattern matching the base ref', () => {
+      config.set({
+        preReleaseChannel: 'alpha',
+        preReleaseChannelBranches: ['main=rc', 'beta/**=beta', 'beta/*=other'],
+      });
+      context.set({ baseRef: 'beta/2.x' });
+
+      expect(getPreReleaseChannel()).toBe('beta');
+    });
+
+    it('should fall back to the configured channel when no branch pattern matches', () => {
+      config.set({ preReleaseChannel: 'alpha', preReleaseChannelBranches: ['next=rc'] });
+
+      expect(getPreReleaseChannel()).toBe('alpha');
+    });
+
+    it('should prefer a pre-release label over branch patterns and the configured channel', () => {
+      config.set({ preReleaseChannel: 'alpha', preReleaseChannelBranches: ['main=rc'] });
+      context.set({ prLabels: ['documentation', 'pre-release:beta', 'pre-release:rc'] });
+
+      expect(getPreReleaseChannel()).toBe('beta');
+    });
+
+    it('should ignore pre-release labels with an invalid channel', () => {
+      config.set({ preReleaseChannel: 'rc' });
+      context.set({ prLabels: ['pre-release:1.x'] });
+
+      expect(getPreReleaseChannel()).toBe('rc');
+      expect(warning).toHaveBeenCalledWith(
+        "Ignoring pull request label 'pre-release:1.x': '1.x' is not a valid pre-release channel",
+      );
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { execFileSync } from 'node:child_process';
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { context } from '@/mocks/context';
+import { createMockTerraformModule } from '@/tests/helpers/terraform-module';
+import { sha256 } from '@/utils/archive';
+import {
+  computeTreeDigest,
+  createProvenanceStatement,
+  readGitTreeFiles,
+  verifyTagProvenance,
+} from '@/utils/provenance';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import which from 'which';
+
+describe('utils/provenance', () => {
+  const releaseTag = 'modules/vpc/v1.2.0';
+  let gitPath: string;
+  let repoDir: string;
+  let gitOpts: { cwd: string };
+
+  /** Runs git in the test repository and returns its trimmed output. */
+  const git = (...args: string[]) => execFileSync(gitPath, args, gitOpts).toString().trim();
+
+  /** Writes files into the test repository, commits them and returns the commit SHA. */
+  const commitFiles = (files: Record<string, string>) => {
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(join(repoDir, path, '..'), { recursive: true });
+      writeFileSync(join(repoDir, path), content);
+    }
+    git('add', '.');
+    git('commit', '--no-gpg-sign', '-m', 'release');
+    return git('rev-parse', 'HEAD');
+  };
+
+  beforeEach(() => {
+    gitPath = which.sync('git');
+    repoDir = mkdtempSync(join(tmpdir(), 'provenance-test-'));
+    gitOpts = { cwd: repoDir };
+    git('init', '--quiet');
+    git('config', 'user.name', 'test');
+    git('config', 'user.email', 'test@example.com');
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe('readGitTreeFiles()', () => {
+    it('should read the files of a commit with their modes', () => {
+      writeFileSync(join(repoDir, 'run.sh'), '#!/bin/sh');
+      chmodSync(join(repoDir, 'run.sh'), 0o755);
+      const commitSHA = commitFiles({ 'main.tf': 'resource {}', 'modules/sub/variables.tf': 'variable {}' });
+
+      const files = readGitTreeFiles(gitPath, gitOpts, commitSHA);
+
+      expect(files.map(({ path, mode, data }) => ({ path, mode, content: data.toString() }))).toEqual([
+        { path: 'main.tf', mode: '100644', content: 'resource {}' },
+        { path: 'modules/sub/variables.tf', mode: '100644', content: 'variable {}' },
+        { path: 'run.sh', mode: '100755', content: '#!/bin/sh' },
+      ]);
+    });
+  });
+
+  describe('computeTreeDigest()', () => {
+    it('should digest a manifest of the files sorted by path', () => {
+      const main = Buffer.from('resource {}');
+      const run = Buffer.from('#!/bin/sh');
+
+      expect(
+        computeTreeDigest([
+          { path: 'run.sh', mode: '100755', data: run },
+          { path: 'main.tf', mode: '100644', data: main },
+        ]),
+      ).toBe(sha256(Buffer.from(`100644 ${sha256(main)}\tmain.tf\n100755 ${sha256(run)}\trun.sh\n`)));
+    });
+
+    it('should change when a file mode changes', () => {
+      const data = Buffer.from('#!/bin/sh');
+
+      expect(computeTreeDigest([{ path: 'run.sh', mode: '100644', data }])).not.toBe(
+        computeTreeDigest([{ path: 'run.sh', mode: '100755', data }]),
+      );
+    });
+  });
+
+  describe('createProvenanceStatement()', () => {
+    it('should record the repository, pull request, merge commit, tag and assets', () => {
+      context.set({ prNumber: 42, mergeCommitSha: 'abc123' });
+      const module = createMockTerraformModule({ directory: '/workspace/modules/vpc' });
+      const archive = Buffer.from('archive');
+
+      const statement = createProvenanceStatement(module, releaseTag, 'def456', 'tree-digest', [
+        { name: 'modules-vpc-v1.2.0.zip', data: archive },
+      ]);
+
+      expect(statement).toEqual({
+        _type: 'https://in-toto.io/Statement/v1',
+        subject: [
+          { name: releaseTag, digest: { sha256: 'tree-digest', gitCommit: 'def456' } },
+          { name: 'modules-vpc-v1.2.0.zip', digest: { sha256: sha256(archive) } },
+        ],
+        predicateType: 'https://slsa.dev/provenance/v1',
+        predicate: {
+          buildDefinition: {
+            buildType: 'https://github.com/techpivot/terraform-module-releaser/module-release/v1',
+            externalParameters: {
+              repository: 'https://github.com/techpivot/terraform-module-releaser',
+              pullRequest: 42,
+              module: module.name,
+              releaseTag,
+            },
+            resolvedDependencies: [
+              { uri: 'git+https://github.com/techpivot/terraform-module-releaser', digest: { gitCommit: 'abc123' } },
+            ],
+          },
+          runDetails: { builder: { id: 'https://github.com/techpivot/terraform-module-releaser' } },
+        },
+      });
+    });
+
+    it('should leave out the merge commit when it is not known', () => {
+      context.set({ mergeCommitSha: null });
+      const module = createMockTerraformModule({ directory: '/workspace/modules/vpc' });
+
+      const statement = createProvenanceStatement(module, releaseTag, 'def456', 'tree-digest', []);
+
+      expect(statement.predicate.buildDefinition.resolvedDependencies).toEqual([]);
+      expect(statement.subject).toHaveLength(1);
+    });
+  });
+
+  describe('verifyTagProvenance()', () => {
+    let tagCommitSHA: string;
+    let statement: ReturnType<typeof createProvenanceStatement>;
+
+    beforeEach(() => {
+      tagCommitSHA = commitFiles({ 'main.tf': 'resource {}', 'variables.tf': 'variable {}' });
+      git('tag', '--annotate', '-m', releaseTag, releaseTag);
+      const treeDigest = computeTreeDigest(readGitTreeFiles(gitPath, gitOpts, tagCommitSHA));
+      statement = createProvenanceStatement(
+        createMockTerraformModule({ directory: '/workspace/modules/vpc' }),
+        releaseTag,
+        tagCommitSHA,
+        treeDigest,
+        [],
+      );
+    });
+
+    it('should verify a tag that matches its statement', () => {
+      const verification = verifyTagProvenance(gitPath, gitOpts, releaseTag, statement);
+
+      expect(verification).toEqual({
+        verified: true,
+        tagCommitSHA,
+        treeDigest: statement.subject[0].digest.sha256,
+        problems: [],
+      });
+    });
+
+    it('should report a tag that was moved to other files', () => {
+      const movedCommitSHA = commitFiles({ 'main.tf': 'resource { tampered = true }' });
+      git('tag', '--force', releaseTag);
+
+      const verification = verifyTagProvenance(gitPath, gitOpts, releaseTag, statement);
+
+      expect(verification.verified).toBe(false);
+      expect(verification.problems).toEqual([
+        `Tag '${releaseTag}' points at commit ${movedCommitSHA}, but the statement records ${tagCommitSHA}`,
+        `The files of tag '${releaseTag}' have the tree digest ${verification.treeDigest}, but the statement records ${statement.subject[0].digest.sha256}`,
+      ]);
+    });
+
+    it('should report a statement that does not describe the tag', () => {
+      const verification = verifyTagProvenance(gitPath, gitOpts, releaseTag, {
+        ...statement,
+        predicateType: 'https://example.com/other',
+        subject: [],
+      });
+
+      expect(verification.problems).toEqual([
+        'The statement is not an in-toto statement with a SLSA provenance predicate',
+        `The statement has no subject for tag '${releaseTag}'`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { join } from 'node:path';
+import { context } from '@/mocks/context';
+import { createMockTerraformModule } from '@/tests/helpers/terraform-module';
+import { getReleaseLabelOverride } from '@/utils/release-label';
+import { warning } from '@actions/core';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+describe('utils/release-label', () => {
+  const createModule = (name: string) => createMockTerraformModule({ directory: join(context.workspaceDir, name) });
+  const kmsModule = createModule('modules/kms');
+
+  beforeEach(() => {
+    context.set({ prLabels: [] });
+  });
+
+  describe('getReleaseLabelOverride()', () => {
+    it('should return null when no release label is applied', () => {
+      context.set({ prLabels: ['documentation', 'pre-release:rc'] });
+
+      expect(getReleaseLabelOverride(kmsModule)).toBeNull();
+    });
+
+    it('should return the release type of an unscoped label', () => {
+      context.set({ prLabels: ['release:minor'] });
+
+      expect(getReleaseLabelOverride(kmsModule)).toBe('minor');
+    });
+
+    it('should return the highest release type when several labels apply', () => {
+      context.set({ prLabels: ['release:skip', 'release:patch', 'release:MAJOR', 'release:minor'] });
+
+      expect(getReleaseLabelOverride(kmsModule)).toBe('major');
+    });
+
+    it('should return skip when no release type is requested', () => {
+      context.set({ prLabels: ['release:skip'] });
+
+      expect(getReleaseLabelOverride(kmsModule)).toBe('skip');
+    });
+
+    it('should match scopes against the module name or directory name', () => {
+      context.set({ prLabels: ['release:major:modules/kms'] });
+      expect(getReleaseLabelOverride(kmsModule)).toBe('major');
+
+      context.set({ prLabels: ['release:patch:kms'] });
+      expect(getReleaseLabelOverride(kmsModule)).toBe('patch');
+
+      context.set({ prLabels: ['release:patch:vpc'] });
+      expect(getReleaseLabelOverride(kmsModule)).toBeNull();
+    });
+
+    it('should prefer scoped labels over unscoped labels', () => {
+      context.set({ prLabels: ['release:major', 'release:skip:kms', 'release:minor:vpc'] });
+
+      expect(getReleaseLabelOverride(kmsModule)).toBe('skip');
+      expect(getReleaseLabelOverride(createModule('modules/vpc'))).toBe('minor');
+      expect(getReleaseLabelOverride(createModule('modules/s3'))).toBe('major');
+    });
+
+    it('should ignore release labels with an invalid release type', () => {
+      context.set({ prLabels: ['release:huge', 'release:patch'] });
+
+      expect(getReleaseLabelOverride(kmsModule)).toBe('patch');
+      expect(warning).toHaveBeenCalledWith(
+        "Ignoring pull request label 'release:huge': 'huge' is not a valid release type. Must be one of: patch, minor, major, skip",
+      );
+    });
+  });
+});
@@ -1,10 +1,13 @@
 import {
+  compareOrdinal,
+  createLineDiff,
   getExecErrorMessage,
   getModuleSource,
   removeLeadingCharacters,
   removeTrailingCharacters,
   renderTemplate,
 } from '@/utils/string';
+import type { TemplateVariables } from '@/types';
 import { describe, expect, it } from 'vitest';
 
 describe('utils/string', () => {
@@ -102,7 +105,7 @@ describe('utils/string', () => {
     const renderTemplateCases: Array<{
       name: string;
       template: string;
-      variables: Record<string, string | undefined | null>;
+      variables: TemplateVariables;
       expected: string;
     }> = [
       // Basic replacement
@@ -223,11 +226,92 @@ describe('utils/string', () => {
         variables: { key1: '', key2: null, key3: undefined },
         expected: 'AB{{key2}}C{{key3}}D',
       },
+      // Loops and conditionals
+      {
+        name: 'renders each block once per item',
+        template: '{{#each items}}- {{name}}\n{{/each}}',
+        variables: { items: [{ name: 'a' }, { name: 'b' }] },
+        expected: '- a\n- b\n',
+      },
+      {
+        name: 'falls back to outer variables inside each blocks',
+        template: '{{#each items}}{{name}}@{{version}} {{/each}}',
+        variables: { version: 'v1.0.0', items: [{ name: 'a' }, { name: 'b', version: 'v2.0.0' }] },
+        expected: 'a@v1.0.0 b@v2.0.0 ',
+      },
+      {
+        name: 'renders the else content of an each block for an empty list',
+        template: '{{#each items}}{{name}}{{else}}None{{/each}}',
+        variables: { items: [] },
+        expected: 'None',
+      },
+      {
+        name: 'renders if blocks for truthy values',
+        template: '{{#if url}}[link]({{url}}){{/if}}{{#if flag}} flagged{{/if}}{{#if items}} listed{{/if}}',
+        variables: { url: 'https://example.com', flag: true, items: [{ name: 'a' }] },
+        expected: '[link](https://example.com) flagged listed',
+      },
+      {
+        name: 'renders the else content of if blocks for falsy values',
+        template: '{{#if a}}A{{else}}no a{{/if}}, {{#if b}}B{{else}}no b{{/if}}, {{#if c}}C{{else}}no c{{/if}}',
+        variables: { a: '', b: false, c: [] },
+        expected: 'no a, no b, no c',
+      },
+      {
+        name: 'renders nested blocks',
+        template: '{{#each commits}}{{#if breaking}}BREAKING {{/if}}{{subject}};{{/each}}',
+        variables: {
+          commits: [
+            { subject: 'feat!: x', breaking: true },
+            { subject: 'fix: y', breaking: false },
+          ],
+        },
+        expected: 'BREAKING feat!: x;fix: y;',
+      },
+      {
+        name: 'renders boolean values as strings',
+        template: 'Breaking: {{breaking}}',
+        variables: { breaking: false },
+        expected: 'Breaking: false',
+      },
+      {
+        name: 'leaves list placeholders untouched',
+        template: 'Items: {{items}}',
+        variables: { items: [] },
+        expected: 'Items: {{items}}',
+      },
     ];
 
     it.each(renderTemplateCases)('$name', ({ template, variables, expected }) => {
       expect(renderTemplate(template, variables)).toBe(expected);
     });
+
+    it('renders flat list placeholders with their item templates', () => {
+      const variables = { title: 'Items', items: [{ name: 'a' }, { name: 'b', flag: true }], empty: [] };
+
+      expect(
+        renderTemplate('{{title}}:\n{{items}}\n[{{empty}}]', variables, {
+          listItemTemplates: { items: '- {{name}}{{#if flag}} ({{title}}){{/if}}', empty: '- {{name}}' },
+        }),
+      ).toBe('Items:\n- a\n- b (Items)\n[]');
+    });
+
+    it('keeps block tags as written when blocks are not parsed', () => {
+      const template = '{{name}} {{#if name}}{{else}}{{/if}} {{/each}}';
+
+      expect(renderTemplate(template, { name: 'vpc' }, { blocks: false })).toBe(
+        'vpc {{#if name}}{{else}}{{/if}} {{/each}}',
+      );
+    });
+
+    it.each([
+      { template: '{{#each items}}{{name}}', error: 'Unclosed {{#each items}} in template' },
+      { template: '{{#if a}}{{/each}}', error: 'Unexpected {{/each}} in template' },
+      { template: '{{name}}{{/if}}', error: 'Unexpected {{/if}} in template' },
+      { template: '{{#if a}}A{{else}}B{{else}}C{{/if}}', error: 'Unexpected {{else}} in template' },
+    ])('throws for malformed blocks in "$template"', ({ template, error }) => {
+      expect(() => renderTemplate(template, {})).toThrow(error);
+    });
   });
 
   describe('getModuleSource()', () => {
@@ -292,4 +376,35 @@ describe('utils/string', () => {
       expect(getExecErrorMessage(err)).toBe('Command failed\n  stderr output');
     });
   });
+
+  describe('createLineDiff()', () => {
+    it('should return an empty string for equal texts', () => {
+      expect(createLineDiff('a\nb', 'a\nb')).toBe('');
+    });
+
+    it('should list removed lines before added lines and keep unchanged lines', () => {
+      expect(createLineDiff('a\nb', 'a\nc')).toBe(' a\n-b\n+c');
+      expect(createLineDiff('## v1.0.0\n\n- fix', '## v1.0.0\n\n### Fixes\n\n- fix')).toBe(
+        ' ## v1.0.0\n \n+### Fixes\n+\n - fix',
+      );
+    });
+
+    it('should handle texts that were emptied or created', () => {
+      expect(createLineDiff('a\nb', '')).toBe('-a\n-b\n+');
+      expect(createLineDiff('', 'a')).toBe('-\n+a');
+    });
+  });
+
+  describe('compareOrdinal()', () => {
+    it('should sort by code units regardless of locale', () => {
+      expect(['modules_kms', 'b', 'B', 'modules-kms', 'a'].sort(compareOrdinal)).toEqual([
+        'B',
+        'a',
+        'b',
+        'modules-kms',
+        'modules_kms',
+      ]);
+      expect(compareOrdinal('a', 'a')).toBe(0);
+    });
+  });
 });
@@ -359,6 +359,24 @@ describe('wiki', async () => {
       }
     });
 
+    it('should keep block tags of the custom usage template as written', async () => {
+      const customUsage = 'Module: {{module_name}} {{else}} {{/if}}';
+      config.set({ wikiUsageTemplate: customUsage });
+      const terraformModule = terraformModules[0];
+      const { updatedFiles: files } = await generateWikiFiles([terraformModule]);
+      for (const file of files) {
+        if (
+          file.endsWith('.md') &&
+          basename(file) !== 'Home.md' &&
+          basename(file) !== '_Sidebar.md' &&
+          basename(file) !== '_Footer.md'
+        ) {
+          const content = readFileSync(file, 'utf8');
+          expect(content).toContain(`# Usage\n\nModule: ${terraformModule.name} {{else}} {{/if}}`);
+        }
+      }
+    });
+
     it('should handle all variables in the custom usage template', async () => {
       const customUsage =
         'Name: {{module_name}}, Tag: {{latest_tag}}, Version: {{latest_tag_version_number}}, Source: {{module_source}}, TFName: {{module_name_terraform}}';
@@ -0,0 +1,40 @@
+/**
+ * Verifies a release tag against the provenance statement attached to its release.
+ *
+ * Run from a clone that has the tag:
+ *   npm run verify-provenance -- <path to provenance.intoto.json> <release tag>
+ */
+
+import { readFileSync } from 'node:fs';
+import type { ProvenanceStatement } from '@/types';
+import { verifyTagProvenance } from '@/utils/provenance';
+import which from 'which';
+
+function main() {
+  const [statementPath, tagName] = process.argv.slice(2);
+  if (!statementPath || !tagName) {
+    console.error('Usage: verify-provenance <provenance.intoto.json> <release tag>');
+    process.exit(2);
+  }
+
+  const statement = JSON.parse(readFileSync(statementPath, 'utf8')) as ProvenanceStatement;
+  const { verified, tagCommitSHA, treeDigest, problems } = verifyTagProvenance(
+    which.sync('git'),
+    { cwd: process.cwd() },
+    tagName,
+    statement,
+  );
+
+  console.log(`Tag commit:  ${tagCommitSHA}`);
+  console.log(`Tree digest: ${treeDigest}`);
+  if (!verified) {
+    for (const problem of problems) {
+      console.error(`❌ ${problem}`);
+    }
+    process.exit(1);
+  }
+
+  console.log(`✅ ${tagName} matches its provenance statement`);
+}
+
+main();
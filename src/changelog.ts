@@ -1,45 +1,307 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseConventionalCommit } from '@/commit-analyzer';
+import { config } from '@/config';
 import { context } from '@/context';
 import type { TerraformModule } from '@/terraform-module';
-import { neutralizePrMarkers } from '@/utils/markers';
+import type {
+  CommitAuthor,
+  CommitDetails,
+  ConventionalCommitResult,
+  PullRequestDetails,
+  TemplateVariables,
+} from '@/types';
+import { CHANGELOG_FORMAT } from '@/utils/constants';
+import { neutralizePrMarkers, stripPrMarkers } from '@/utils/markers';
+import { extractPullRequestBodySection, getClosingIssueReferences } from '@/utils/pr-body';
+import { renderTemplate } from '@/utils/string';
+
+/**
+ * The sections of the grouped changelog format, in the order they are rendered.
+ */
+const CHANGELOG_SECTIONS = {
+  breaking: '### 💥 Breaking Changes',
+  features: '### ✨ Features',
+  fixes: '### 🐛 Bug Fixes',
+  other: '### 🔧 Other',
+} as const;
+
+type ChangelogSection = keyof typeof CHANGELOG_SECTIONS;
+
+/**
+ * The bullet list items rendered for the lists of a changelog template used as a flat placeholder, e.g.
+ * `{{commits}}` rather than `{{#each commits}}...{{/each}}`.
+ */
+const CHANGELOG_TEMPLATE_LIST_ITEMS = {
+  commits: '- {{subject}} ([{{short_sha}}]({{url}}))',
+  linked_issues: '- [{{reference}}]({{url}})',
+};
+
+/**
+ * Determines the grouped changelog section of a commit from its conventional commit type. Commits that
+ * are not conventional commits are listed under Other.
+ */
+function getChangelogSection(parsed: ConventionalCommitResult | null): ChangelogSection {
+  if (parsed === null) {
+    return 'other';
+  }
+  if (parsed.breaking) {
+    return 'breaking';
+  }
+  if (parsed.type === 'feat') {
+    return 'features';
+  }
+  return parsed.type === 'fix' ? 'fixes' : 'other';
+}
+
+/**
+ * Formats a commit author for the grouped changelog format: a link to the author's GitHub profile, or the
+ * git author name when the commit is not linked to a GitHub account. The profile is linked rather than
+ * mentioned so that pull request comments do not notify every author on each update.
+ */
+function formatCommitAuthor({ login, name }: CommitAuthor): string {
+  if (login === null) {
+    return name;
+  }
+
+  const { origin } = new URL(context.repoUrl);
+  return `[@${login}](${origin}/${login})`;
+}
+
+/**
+ * Creates a grouped changelog format entry for a commit: its subject (the description, prefixed with
+ * the scope or, under Other, the type), a link to the commit and the author.
+ */
+function createGroupedChangelogItem(commit: CommitDetails, parsed: ConventionalCommitResult | null): string {
+  let subject = commit.message.trim().split('\n')[0].trim();
+  if (parsed !== null) {
+    const section = getChangelogSection(parsed);
+    const prefix = section === 'other' ? `${parsed.type}${parsed.scope ? `(${parsed.scope})` : ''}` : parsed.scope;
+    subject = prefix ? `**${prefix}:** ${parsed.description}` : parsed.description;
+  }
+
+  const commitLink = `[${commit.sha.slice(0, 7)}](${context.repoUrl}/commit/${commit.sha})`;
+  const author = commit.author ? ` by ${formatCommitAuthor(commit.author)}` : '';
+
+  return `- ${subject} (${commitLink})${author}`;
+}
+
+/**
+ * Returns the URL comparing two release tags of a module.
+ *
+ * The comparison is direct (two-dot) rather than from the merge base (three-dot): release tags point to
+ * commits that only contain the module's files, branched off the default branch at different points, so a
+ * comparison from the merge base would list every file outside of the module as deleted.
+ */
+function getTagCompareUrl(previousTag: string, releaseTag: string): string {
+  return `${context.repoUrl}/compare/${previousTag}..${releaseTag}`;
+}
+
+/**
+ * Creates the "Full diff" line of a release body: a link comparing the module's previous release tag with
+ * the new one, followed by the module's diff statistics when known. Since the wiki changelog is assembled
+ * from release bodies, the line appears there too.
+ *
+ * @param {string} previousTag - The module's previous release tag (e.g., `aws/vpc/v1.3.0`).
+ * @param {string} releaseTag - The new release tag (e.g., `aws/vpc/v1.4.0`).
+ * @param {string | null} diffStats - The module's diff statistics (e.g., `3 files changed, 40 insertions(+)`),
+ *  or null when unknown.
+ * @returns {string} The formatted line.
+ */
+export function createFullDiffLine(previousTag: string, releaseTag: string, diffStats: string | null = null): string {
+  const compareLink = `[\`${previousTag}..${releaseTag}\`](${getTagCompareUrl(previousTag, releaseTag)})`;
+
+  return `**Full diff**: ${compareLink}${diffStats === null ? '' : ` (${diffStats})`}`;
+}
+
+/**
+ * Returns the changelog template configured through `changelog-template` or `changelog-template-file`.
+ *
+ * @returns {string | null} The template, or null when changelog entries use the built-in layout
+ * @throws {Error} If the template file cannot be read
+ */
+function getChangelogTemplate(): string | null {
+  if (config.changelogTemplateFile !== '') {
+    try {
+      return readFileSync(join(context.workspaceDir, config.changelogTemplateFile), 'utf8');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read changelog-template-file '${config.changelogTemplateFile}': ${errorMessage}`, {
+        cause: error,
+      });
+    }
+  }
+
+  return config.changelogTemplate === '' ? null : config.changelogTemplate;
+}
+
+/**
+ * Creates the template variables of a commit, iterated with `{{#each commits}}` in a changelog template.
+ */
+function createCommitTemplateVariables(commit: CommitDetails): TemplateVariables {
+  const parsed = parseConventionalCommit(commit.message);
+  const message = commit.message.trim();
+  const subject = message.split('\n')[0].trim();
+
+  return {
+    sha: commit.sha,
+    short_sha: commit.sha.slice(0, 7),
+    url: `${context.repoUrl}/commit/${commit.sha}`,
+    message,
+    subject,
+    type: parsed?.type ?? '',
+    scope: parsed?.scope ?? '',
+    description: parsed?.description ?? subject,
+    breaking: parsed?.breaking ?? false,
+    author: commit.author ? formatCommitAuthor(commit.author) : '',
+  };
+}
+
+/**
+ * Creates the changelog lines listing the commits of a release in the format selected by `changelog-format`.
+ */
+function createCommitChangelogLines(changelogCommits: CommitDetails[]): string[] {
+  const lines: string[] = [];
+  if (config.changelogFormat === CHANGELOG_FORMAT.GROUPED) {
+    const sectionItems = new Map<ChangelogSection, string[]>();
+    for (const commit of changelogCommits) {
+      const parsed = parseConventionalCommit(commit.message);
+      const section = getChangelogSection(parsed);
+      sectionItems.set(section, [...(sectionItems.get(section) ?? []), createGroupedChangelogItem(commit, parsed)]);
+    }
+
+    for (const [section, sectionHeading] of Object.entries(CHANGELOG_SECTIONS) as [ChangelogSection, string][]) {
+      const items = sectionItems.get(section);
+      if (items !== undefined) {
+        lines.push(`\n${sectionHeading}\n`, ...items.map(neutralizePrMarkers));
+      }
+    }
+
+    return lines;
+  }
+
+  // Trim the commit message and for markdown, newlines that are part of a list format
+  // better if they use a <br> tag instead of a newline character.
+  for (const { message } of changelogCommits) {
+    lines.push(`- ${neutralizePrMarkers(message.trim().replaceAll('\n', '<br>'))}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Returns the issues a pull request body references with a closing keyword, as a display reference and a
+ * link, when `changelog-linked-issues` is enabled. References to the current repository are shortened to
+ * `#<number>`.
+ */
+function getLinkedIssues(prBody: string): Array<{ reference: string; url: string }> {
+  if (!config.changelogLinkedIssues) {
+    return [];
+  }
+
+  const { origin } = new URL(context.repoUrl);
+  return getClosingIssueReferences(prBody).map(({ repository, number }) =>
+    repository === null
+      ? { reference: `#${number}`, url: `${context.repoUrl}/issues/${number}` }
+      : { reference: `${repository}#${number}`, url: `${origin}/${repository}/issues/${number}` },
+  );
+}
 
 /**
  * Creates a changelog entry for a Terraform module.
  *
- * The changelog contains a heading and a list of commits formatted with a timestamp.
+ * The changelog contains a heading, a link to the pull request, and the commits in the format selected
+ * by `changelog-format`: the commit messages in commit order (`flat`), or Breaking Changes, Features,
+ * Bug Fixes and Other sections derived from {@link parseConventionalCommit}, with each entry linking its
+ * short SHA and crediting its author (`grouped`). Empty sections are omitted. When `changelog-pr-body-section`
+ * names a section of the pull request body, its content replaces the commits, which remain the fallback when
+ * the section is missing. With `changelog-linked-issues`, the issues the body closes are linked below. When a
+ * `changelog-template` or `changelog-template-file` is configured, the entry is rendered from that template
+ * instead. Release bodies, the wiki changelog (which is assembled from release bodies) and the pull request
+ * comment all use this function. Commits cancelled out by a revert are omitted. Entries are created for the
+ * current pull request unless another one is given, which rebuilding the body of an existing release does. A
+ * release that no pull request is known for (e.g., one backfilled for an existing tag) has no pull request
+ * line, and the pull request template variables are empty.
  *
- * Note: the pull request title and commit messages are untrusted input that ends up verbatim in a
- * release body — which is where the hidden idempotency marker also lives. Both are passed through
+ * Note: the pull request title, body and commit messages are untrusted input that ends up verbatim in a
+ * release body — which is where the hidden idempotency marker also lives. All are passed through
  * {@link neutralizePrMarkers} so a crafted title or commit message can never forge that marker and
  * suppress another pull request's release. See `src/utils/markers.ts`.
  *
- * @param {string} heading - The version or tag heading for the changelog entry.
- * @param {readonly string[]} commits - An array of commit messages to include in the changelog.
+ * @param {TerraformModule} terraformModule - The Terraform module being released.
+ * @param {string} version - The version being released (e.g., `v1.2.0`).
+ * @param {string} heading - The version or tag heading for the changelog entry. Defaults to the version.
+ * @param {PullRequestDetails | null} pullRequest - The pull request that produced the release, or null when
+ *  none is known. Defaults to the current pull request.
+ * @param {Date} releaseDate - The date of the release. Defaults to now.
  * @returns {string} A formatted changelog entry as a string.
  */
-export function createTerraformModuleChangelogEntry(heading: string, commits: readonly string[]): string {
-  const { prNumber, prTitle, repoUrl } = context;
-  const currentDate = new Date().toISOString().split('T')[0]; // Format: YYYY-MM-DD
-  const changelogContent: string[] = [`## \`${heading}\` (${currentDate})\n`];
+export function createTerraformModuleChangelogEntry(
+  terraformModule: TerraformModule,
+  version: string,
+  heading: string = version,
+  pullRequest: PullRequestDetails | null = { number: context.prNumber, title: context.prTitle, body: context.prBody },
+  releaseDate: Date = new Date(),
+): string {
+  const { body: prBody, title: prTitle } = pullRequest ?? { body: '', title: '' };
+  const { repoUrl } = context;
+  const prUrl = pullRequest === null ? '' : `${repoUrl}/pull/${pullRequest.number}`;
+  const formattedDate = releaseDate.toISOString().split('T')[0]; // Format: YYYY-MM-DD
+
+  // If the PR title equals the message exactly, we'll skip it
+  const changelogCommits = terraformModule.getUnrevertedCommits().filter((commit) => commit.message.trim() !== prTitle);
+  const prChangelog =
+    config.changelogPrBodySection === '' ? null : extractPullRequestBodySection(prBody, config.changelogPrBodySection);
+  const linkedIssues = getLinkedIssues(prBody);
+
+  const template = getChangelogTemplate();
+  if (template !== null) {
+    const releaseTag = terraformModule.getTagForVersion(version);
+    const previousTag = terraformModule.getPreviousTag(version);
+
+    return neutralizePrMarkers(
+      renderTemplate(
+        template,
+        {
+          module_name: terraformModule.name,
+          version,
+          release_tag: releaseTag,
+          date: formattedDate,
+          pr_number: pullRequest === null ? '' : String(pullRequest.number),
+          pr_title: prTitle,
+          pr_url: prUrl,
+          compare_url: previousTag === null ? '' : getTagCompareUrl(previousTag, releaseTag),
+          commits: changelogCommits.map(createCommitTemplateVariables),
+          pr_changelog: prChangelog ?? '',
+          linked_issues: linkedIssues,
+        },
+        { listItemTemplates: CHANGELOG_TEMPLATE_LIST_ITEMS },
+      ).trim(),
+    );
+  }
+
+  const changelogContent: string[] = [`## \`${heading}\` (${formattedDate})\n`];
 
   // Whether to hyperlink the PR number in the changelog entry. GitHub automatically
   // links the PR in the pull request comments but not automatically in the wiki markdown. In the releases section
   // it will automatically link just the #9 portion but not the PR part. If we link the whole section it
   // ends up being much cleaner.
+  if (pullRequest !== null) {
+    changelogContent.push(
+      `- :twisted_rightwards_arrows:**[PR #${pullRequest.number}](${prUrl})** - ${neutralizePrMarkers(prTitle)}`,
+    );
+  }
+
+  // The designated pull request body section, when present, replaces the commit messages
   changelogContent.push(
-    `- :twisted_rightwards_arrows:**[PR #${prNumber}](${repoUrl}/pull/${prNumber})** - ${neutralizePrMarkers(prTitle)}`,
+    ...(prChangelog === null
+      ? createCommitChangelogLines(changelogCommits)
+      : [`\n${neutralizePrMarkers(prChangelog)}`]),
   );
 
-  // Perform some normalization
-  const normalizedCommitMessages = commits
-    // If the PR title equals the message exactly, we'll skip it
-    .filter((msg) => msg.trim() !== prTitle)
-
-    // Trim the commit message and for markdown, newlines that are part of a list format
-    // better if they use a <br> tag instead of a newline character.
-    .map((commitMessage) => neutralizePrMarkers(commitMessage.trim().replaceAll('\n', '<br>')));
-
-  for (const normalizedCommit of normalizedCommitMessages) {
-    changelogContent.push(`- ${normalizedCommit}`);
+  if (linkedIssues.length > 0) {
+    const issueLinks = linkedIssues.map(({ reference, url }) => `[${reference}](${url})`);
+    changelogContent.push(`\n**Linked issues**: ${issueLinks.join(', ')}`);
   }
 
   return changelogContent.join('\n');
@@ -50,7 +312,7 @@ export function createTerraformModuleChangelogEntry(heading: string, commits: re
  *
  * Aggregates changelog entries from all changed Terraform modules into a single view.
  * This aggregated changelog is used explicitly as a comment in the pull request message,
- * providing a concise summary of all module changes.
+ * providing a concise summary of all module changes. Commits cancelled out by a revert are omitted.
  *
  * @param {TerraformModule[]} terraformModules - An array of changed Terraform modules.
  * @returns {string} The content of the global pull request changelog.
@@ -60,9 +322,10 @@ export function getPullRequestChangelog(terraformModules: TerraformModule[]): st
 
   for (const terraformModule of terraformModules) {
     if (terraformModule.needsRelease()) {
-      // When needsRelease() is true, getReleaseTag() is guaranteed to return a non-null value
+      // When needsRelease() is true, getReleaseTagVersion() and getReleaseTag() are guaranteed to return non-null values
+      const releaseTagVersion = terraformModule.getReleaseTagVersion() as string;
       const releaseTag = terraformModule.getReleaseTag() as string;
-      pullRequestChangelog.push(createTerraformModuleChangelogEntry(releaseTag, terraformModule.commitMessages));
+      pullRequestChangelog.push(createTerraformModuleChangelogEntry(terraformModule, releaseTagVersion, releaseTag));
     }
   }
 
@@ -70,7 +333,8 @@ export function getPullRequestChangelog(terraformModules: TerraformModule[]): st
 }
 
 /**
- * Creates formatted changelog entries for a specific Terraform module that needs release.
+ * Creates formatted changelog entries for a specific Terraform module that needs release. Commits
+ * cancelled out by a revert are omitted.
  *
  * @param {TerraformModule} terraformModule - The Terraform module whose changelog is to be retrieved.
  * @returns {string} The content of the module's changelog, or empty string if no release is needed.
@@ -79,7 +343,7 @@ export function createTerraformModuleChangelog(terraformModule: TerraformModule)
   if (terraformModule.needsRelease()) {
     const releaseTagVersion = terraformModule.getReleaseTagVersion();
     if (releaseTagVersion !== null) {
-      return createTerraformModuleChangelogEntry(releaseTagVersion, terraformModule.commitMessages);
+      return createTerraformModuleChangelogEntry(terraformModule, releaseTagVersion);
     }
   }
 
@@ -115,3 +379,22 @@ export function getTerraformModuleFullReleaseChangelog(terraformModule: Terrafor
     .filter((body): body is string => Boolean(body))
     .join('\n\n');
 }
+
+/**
+ * Creates the content of the `CHANGELOG.md` file committed into a module's release tag when
+ * `module-changelog` is enabled: the changelog entry of the new release followed by the module's full
+ * release history, i.e. the release bodies that {@link getTerraformModuleFullReleaseChangelog} assembles.
+ * The hidden pull request markers of the release bodies are removed, since they have no meaning outside
+ * of a release.
+ *
+ * @param {TerraformModule} terraformModule - The Terraform module being released.
+ * @param {string} changelogEntry - The changelog entry of the new release.
+ * @returns {string} The markdown content of the file.
+ */
+export function createTerraformModuleChangelogFile(terraformModule: TerraformModule, changelogEntry: string): string {
+  const releaseHistory = terraformModule.releases
+    .map((release) => stripPrMarkers(release.body ?? '').trim())
+    .filter(Boolean);
+
+  return `${['# Changelog', changelogEntry, ...releaseHistory].join('\n\n')}\n`;
+}
@@ -1,7 +1,27 @@
 import { CommitParser } from 'conventional-commits-parser';
 import { config } from '@/config';
-import type { ConventionalCommitResult, ReleaseType } from '@/types';
-import { RELEASE_TYPE, SEMVER_MODE } from '@/utils/constants';
+import type { TerraformModule } from '@/terraform-module';
+import type {
+  CommitDetails,
+  CommitLintResult,
+  CommitTypeLevel,
+  Config,
+  ConventionalCommitResult,
+  ReleaseDirectives,
+  ReleaseType,
+  RevertedCommit,
+} from '@/types';
+import {
+  COMMIT_LINT_MODE,
+  COMMIT_TYPE_ENTRY_REGEX,
+  COMMIT_TYPE_NONE,
+  MERGE_COMMIT_REGEX,
+  RELEASE_AS_NONE,
+  RELEASE_TYPE,
+  SEMVER_MODE,
+  SEMVER_SOURCE,
+  SKIP_RELEASE_MARKER,
+} from '@/utils/constants';
 
 /**
  * Matches GitHub-style revert commits (`Revert "<header>"` … `This reverts commit <hash>.`),
@@ -54,8 +74,9 @@ export const REVERT_PATTERN = /^(?:Revert|revert:)\s"?([\s\S]*?[^"\s])"?\s*This
  *
  * - `revertPattern` / `revertCorrespondence` — Matches GitHub-style revert
  *   commits (`Revert "<header>" / This reverts commit <hash>.`), extracting the
- *   original header and commit hash. The parsed revert fields are currently
- *   unused by this action; the option is kept for preset fidelity.
+ *   original header and commit hash. The parsed revert fields are unused by this
+ *   action (reverts are paired by {@link findRevertedCommits}, which also needs to
+ *   handle reverts of reverts); the option is kept for preset fidelity.
  *
  * - `issuePrefixes` — Deliberately overridden to `undefined` (the second divergence
  *   from the preset, which uses `['#']` — also the library default). The references
@@ -116,7 +137,8 @@ const BREAKING_NOTE_LINE = /^(?:\*\s+)?BREAKING[ -]CHANGE:/i;
  * the header plus the first breaking-change footer line yields identical results to parsing the
  * whole message — at bounded cost. The only lossy cases are absurd ones: a single header line over
  * `MAX_DIGEST_LINE_LENGTH` characters gets its subject truncated, and note *text* (which this
- * module never reads) is truncated.
+ * module never reads) is truncated. `Release-As` footers are scanned on the full message separately,
+ * line by line, so the digest does not need to keep them.
  *
  * @param message - The trimmed commit message
  * @returns The message itself when within the cap, otherwise the reduced digest
@@ -143,7 +165,8 @@ function toParseSafeMessage(message: string): string {
  * scanning the full message body for `BREAKING CHANGE:` or `BREAKING-CHANGE:`
  * footer tokens per the spec. The `!` breaking indicator in the header is detected
  * by the library's `breakingHeaderPattern` option, which adds a `BREAKING CHANGE`
- * entry to the `notes` array when the `!` is present.
+ * entry to the `notes` array when the `!` is present. `Release-As` version pins are
+ * collected from the footers with {@link parseReleaseDirectives}.
  *
  * @param message - The full commit message string
  * @returns The parsed result, or `null` if the message doesn't match the conventional format
@@ -151,13 +174,17 @@ function toParseSafeMessage(message: string): string {
  * @example
  * ```typescript
  * parseConventionalCommit('feat(api): add user endpoint')
- * // → { type: 'feat', scope: 'api', breaking: false, description: 'add user endpoint' }
+ * // → { type: 'feat', scope: 'api', breaking: false, description: 'add user endpoint', releaseAs: [] }
  *
  * parseConventionalCommit('fix!: critical security patch')
- * // → { type: 'fix', scope: null, breaking: true, description: 'critical security patch' }
+ * // → { type: 'fix', scope: null, breaking: true, description: 'critical security patch', releaseAs: [] }
  *
  * parseConventionalCommit('feat: new feature\n\nBREAKING CHANGE: old API removed')
- * // → { type: 'feat', scope: null, breaking: true, description: 'new feature' }
+ * // → { type: 'feat', scope: null, breaking: true, description: 'new feature', releaseAs: [] }
+ *
+ * parseConventionalCommit('feat: coordinated release\n\nRelease-As: kms=3.0.0')
+ * // → { type: 'feat', scope: null, breaking: false, description: 'coordinated release',
+ * //     releaseAs: [{ module: 'kms', version: '3.0.0' }] }
  * ```
  */
 export function parseConventionalCommit(message: string): ConventionalCommitResult | null {
@@ -177,9 +204,41 @@ export function parseConventionalCommit(message: string): ConventionalCommitResu
     scope: parsed.scope ?? null,
     breaking: parsed.notes.length > 0,
     description: parsed.subject ?? '',
+    releaseAs: parseReleaseDirectives(trimmed).releaseAs,
   };
 }
 
+/**
+ * Finds the level a `conventional-commit-types` entry maps a parsed commit to. An entry for the
+ * commit's type and scope takes precedence over an entry for its type alone.
+ *
+ * @param parsed - The parsed conventional commit
+ * @param commitTypes - The validated `type=level` and `type(scope)=level` entries
+ * @returns The configured level, or `null` if no entry applies
+ */
+function findCommitTypeLevel(
+  { type, scope }: ConventionalCommitResult,
+  commitTypes: ReadonlyArray<string>,
+): CommitTypeLevel | null {
+  let typeLevel: CommitTypeLevel | null = null;
+
+  for (const entry of commitTypes) {
+    const match = COMMIT_TYPE_ENTRY_REGEX.exec(entry);
+    if (match === null || match[1].toLowerCase() !== type) {
+      continue;
+    }
+
+    const level = match[3].toLowerCase() as CommitTypeLevel;
+    if (match[2] === undefined) {
+      typeLevel = level;
+    } else if (scope !== null && match[2].trim().toLowerCase() === scope.trim().toLowerCase()) {
+      return level;
+    }
+  }
+
+  return typeLevel;
+}
+
 /**
  * Determines the semantic version release type from a single commit message using
  * the Conventional Commits specification.
@@ -198,11 +257,18 @@ export function parseConventionalCommit(message: string): ConventionalCommitResu
  * a conventional commit. Types beyond `feat` and `fix` all map to PATCH since the
  * action always performs a minimum version bump.
  *
+ * The `conventional-commit-types` entries override this mapping per type (`docs=none`) or per
+ * type and scope (`feat(experimental)=patch`), where scoped entries take precedence. A type
+ * mapped to `none` returns `'none'`: the commit does not produce a release. Breaking changes
+ * are always MAJOR, whatever their type is mapped to.
+ *
  * Non-conventional commit messages (those that don't match the format at all) return `null`,
  * allowing the caller to fall back to `defaultSemverLevel`.
  *
  * @param message - The full commit message string
- * @returns The computed release type, or `null` if the message is not a recognized conventional commit
+ * @param commitTypes - The `type=level` and `type(scope)=level` entries overriding the default mapping
+ * @returns The computed release type, `'none'` if the commit's type does not produce a release, or `null`
+ *   if the message is not a recognized conventional commit
  *
  * @example
  * ```typescript
@@ -214,9 +280,15 @@ export function parseConventionalCommit(message: string): ConventionalCommitResu
  *
  * detectConventionalCommitReleaseType('update readme')
  * // → null (not a conventional commit)
+ *
+ * detectConventionalCommitReleaseType('docs: fix typo', ['docs=none'])
+ * // → 'none'
  * ```
  */
-export function detectConventionalCommitReleaseType(message: string): ReleaseType | null {
+export function detectConventionalCommitReleaseType(
+  message: string,
+  commitTypes: ReadonlyArray<string> = [],
+): CommitTypeLevel | null {
   const parsed = parseConventionalCommit(message);
 
   if (!parsed) {
@@ -229,6 +301,11 @@ export function detectConventionalCommitReleaseType(message: string): ReleaseTyp
     return RELEASE_TYPE.MAJOR;
   }
 
+  const configuredLevel = findCommitTypeLevel(parsed, commitTypes);
+  if (configuredLevel !== null) {
+    return configuredLevel;
+  }
+
   // Type-specific mappings
   if (parsed.type === 'feat') {
     return RELEASE_TYPE.MINOR;
@@ -287,6 +364,71 @@ export function detectKeywordReleaseType(
   return null;
 }
 
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Release directives
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Matches a `Release-As` footer line, capturing its value. Applied per line so matching stays linear.
+ */
+const RELEASE_AS_FOOTER = /^release-as:(.*)$/i;
+
+/**
+ * Parses the release directives in a commit message or pull request body.
+ *
+ * Two forms opt out of the release:
+ * - A `[skip release]` marker anywhere in the text (case-insensitive) applies to every module.
+ * - A `Release-As: none` footer applies to every module; `Release-As: <module>=none` applies only to the
+ *   module whose name or directory name matches (e.g., `Release-As: kms=none`). Footers may be repeated.
+ *
+ * `Release-As` footers with any other value pin the next version instead (e.g., `Release-As: kms=3.0.0`).
+ * The version is returned as written; the module it applies to validates it.
+ *
+ * @param text - The commit message or pull request body
+ * @returns The parsed directives
+ *
+ * @example
+ * ```typescript
+ * parseReleaseDirectives('docs: fix typo [skip release]')
+ * // → { skipAll: true, skipModules: [], releaseAs: [] }
+ *
+ * parseReleaseDirectives('chore: bump providers\n\nRelease-As: kms=none\nRelease-As: vpc=3.0.0')
+ * // → { skipAll: false, skipModules: ['kms'], releaseAs: [{ module: 'vpc', version: '3.0.0' }] }
+ * ```
+ */
+export function parseReleaseDirectives(text: string): ReleaseDirectives {
+  const directives: ReleaseDirectives = {
+    skipAll: text.toLowerCase().includes(SKIP_RELEASE_MARKER),
+    skipModules: [],
+    releaseAs: [],
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = RELEASE_AS_FOOTER.exec(line.trim());
+    if (!match) {
+      continue;
+    }
+
+    const value = match[1].trim();
+    const separatorIndex = value.lastIndexOf('=');
+    const moduleName = separatorIndex === -1 ? null : value.slice(0, separatorIndex).trim();
+    const version = value.slice(separatorIndex + 1).trim();
+    if (moduleName === '' || version === '') {
+      continue;
+    }
+
+    if (version.toLowerCase() !== RELEASE_AS_NONE) {
+      directives.releaseAs.push({ module: moduleName, version });
+    } else if (moduleName === null) {
+      directives.skipAll = true;
+    } else {
+      directives.skipModules.push(moduleName);
+    }
+  }
+
+  return directives;
+}
+
 //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // Multi-message orchestration
 //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -321,18 +463,23 @@ export function higherPriorityReleaseType(current: ReleaseType | null, candidate
 
 /**
  * Computes the highest-priority semantic version release type across an array of commit
- * messages, using the strategy determined by the global `config` singleton.
+ * messages, using the strategy determined by the given config (the global `config` singleton
+ * by default, or a module's effective config when it overrides the semver settings).
  *
  * When `config.semverMode` is `'keywords'`, each message is scanned for configured keyword lists.
  * When `config.semverMode` is `'conventional-commits'`, each message is parsed per the Conventional
  * Commits specification and the bump is derived from the commit type and breaking-change
  * indicators.
  *
- * In both modes, the highest-priority release type wins (MAJOR > MINOR > PATCH).
+ * In both modes, the highest-priority release type wins (MAJOR > MINOR > PATCH). Messages that
+ * opt every module out of the release (see {@link parseReleaseDirectives}) are ignored, as are commits of
+ * a type mapped to `none` (see {@link isNoReleaseCommit}). Reverts are not paired here: callers leave out
+ * reverted commits and their reverts beforehand, paired by commit hash (see {@link findRevertedCommits}).
  * Returns `null` if no commit matched any detection rule, allowing the caller to
  * apply a default fallback such as `config.defaultSemverLevel`.
  *
  * @param messages - The array of commit messages to analyze
+ * @param semverConfig - The semver mode, keyword lists and commit type mapping to apply
  * @returns The highest-priority release type found, or `null` if no rules matched
  *
  * @example
@@ -346,21 +493,238 @@ export function higherPriorityReleaseType(current: ReleaseType | null, candidate
  * // → 'major'
  * ```
  */
-export function computeReleaseType(messages: ReadonlyArray<string>): ReleaseType | null {
+export function computeReleaseType(
+  messages: ReadonlyArray<string>,
+  semverConfig: Pick<
+    Config,
+    'semverMode' | 'majorKeywords' | 'minorKeywords' | 'patchKeywords' | 'conventionalCommitTypes'
+  > = config,
+): ReleaseType | null {
+  const { semverMode, majorKeywords, minorKeywords, patchKeywords, conventionalCommitTypes } = semverConfig;
   const detectFn =
-    config.semverMode === SEMVER_MODE.CONVENTIONAL_COMMITS
-      ? (message: string) => detectConventionalCommitReleaseType(message)
-      : (message: string) =>
-          detectKeywordReleaseType(message, config.majorKeywords, config.minorKeywords, config.patchKeywords);
+    semverMode === SEMVER_MODE.CONVENTIONAL_COMMITS
+      ? (message: string) => detectConventionalCommitReleaseType(message, conventionalCommitTypes)
+      : (message: string) => detectKeywordReleaseType(message, majorKeywords, minorKeywords, patchKeywords);
 
   let result: ReleaseType | null = null;
 
   for (const message of messages) {
+    if (parseReleaseDirectives(message).skipAll) {
+      continue;
+    }
+
     const releaseType = detectFn(message);
-    if (releaseType !== null) {
+    if (releaseType !== null && releaseType !== COMMIT_TYPE_NONE) {
       result = higherPriorityReleaseType(result, releaseType);
     }
   }
 
   return result;
 }
+
+/**
+ * Checks whether a commit message is a conventional commit of a type that the `conventional-commit-types`
+ * entries map to `none` (e.g., `docs: fix typo` with `docs=none`). Such commits do not produce a release,
+ * so a module changed only by them is not released. Always `false` in keywords mode.
+ *
+ * @param message - The full commit message string
+ * @param semverConfig - The semver mode and commit type mapping to apply
+ * @returns `true` if the commit does not produce a release on its own, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * // With config.conventionalCommitTypes = ['docs=none']
+ * isNoReleaseCommit('docs: fix typo') // → true
+ * isNoReleaseCommit('docs!: remove the examples') // → false (breaking changes are always released)
+ * ```
+ */
+export function isNoReleaseCommit(
+  message: string,
+  semverConfig: Pick<Config, 'semverMode' | 'conventionalCommitTypes'> = config,
+): boolean {
+  return (
+    semverConfig.semverMode === SEMVER_MODE.CONVENTIONAL_COMMITS &&
+    detectConventionalCommitReleaseType(message, semverConfig.conventionalCommitTypes) === COMMIT_TYPE_NONE
+  );
+}
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Revert pairing
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/** Abbreviated hashes shorter than this are too ambiguous to identify the reverted commit. */
+const MIN_REVERT_HASH_LENGTH = 7;
+
+/**
+ * Matches the first line of a revert commit: `Revert "<header>"` and `Reapply "<header>"` as written by
+ * git, or the conventional `revert: <header>`. Unlike {@link REVERT_PATTERN}, this accepts headers ending
+ * in a quote, which git produces when reverting a revert (`Revert "Revert "feat: x""`).
+ */
+const REVERT_HEADER_PATTERN = /^(?:(?:Revert|Reapply) "(.*)"|revert: (.*))$/;
+
+/** Matches the `This reverts commit <hash>.` line git adds to the body of revert commits. */
+const REVERT_HASH_PATTERN = /^This reverts commit (\w+)\./m;
+
+/**
+ * Extracts the header and hash of the commit a revert commit reverts.
+ *
+ * @param message - The full commit message
+ * @returns The reverted header and hash (empty when the message names no commit), or null for other commits
+ */
+function parseRevertMessage(message: string): { header: string; hash: string } | null {
+  const trimmed = message.trim();
+  const headerMatch = REVERT_HEADER_PATTERN.exec(trimmed.split('\n')[0].trim());
+  if (headerMatch === null) {
+    return null;
+  }
+
+  return {
+    header: (headerMatch[1] ?? headerMatch[2]).trim(),
+    hash: REVERT_HASH_PATTERN.exec(trimmed)?.[1] ?? '',
+  };
+}
+
+/**
+ * Pairs revert commits with the commits they revert, returning the `[target, revert]` index pairs.
+ *
+ * Commits are expected in chronological order (oldest first). Reverts are processed newest first so that
+ * reverting a revert (or reapplying the commit) reinstates the original commit: the newest revert cancels
+ * the revert it targets, which then no longer cancels its own target. A revert matches its target by commit
+ * hash (full or abbreviated), falling back to the reverted header equalling the target's first line (e.g.,
+ * when the target was rebased). When several earlier commits match, the most recent one is paired.
+ *
+ * @param commits - The commits to pair, oldest first
+ * @returns The index pairs of each reverted commit and the commit reverting it
+ */
+function pairRevertCommits(commits: ReadonlyArray<CommitDetails>): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  const cancelled = new Set<number>();
+
+  for (let revertIndex = commits.length - 1; revertIndex > 0; revertIndex--) {
+    if (cancelled.has(revertIndex)) {
+      continue;
+    }
+
+    const revertMessage = parseRevertMessage(commits[revertIndex].message);
+    if (revertMessage === null) {
+      continue;
+    }
+
+    const { header, hash } = revertMessage;
+    const findTarget = (predicate: (commit: CommitDetails) => boolean) =>
+      commits.findLastIndex((commit, index) => index < revertIndex && !cancelled.has(index) && predicate(commit));
+
+    let targetIndex = hash.length >= MIN_REVERT_HASH_LENGTH ? findTarget(({ sha }) => sha.startsWith(hash)) : -1;
+    if (targetIndex === -1) {
+      targetIndex = findTarget(({ message }) => message.trim().split('\n')[0].trim() === header);
+    }
+
+    if (targetIndex !== -1) {
+      pairs.push([targetIndex, revertIndex]);
+      cancelled.add(targetIndex);
+      cancelled.add(revertIndex);
+    }
+  }
+
+  return pairs.reverse();
+}
+
+/**
+ * Finds the commits that are reverted within the given commits, paired with the commits reverting them.
+ *
+ * A commit and its revert cancel each other out: neither counts towards the release type nor appears in
+ * the changelog. Reverts whose target is not among the commits (e.g., a revert of a commit from an earlier
+ * pull request) are not paired and count as regular commits.
+ *
+ * @param commits - The commits to analyze, oldest first
+ * @returns The reverted commits with their reverts, ordered by the revert
+ *
+ * @example
+ * ```typescript
+ * findRevertedCommits([
+ *   { sha: 'abc1234def', message: 'feat!: drop the legacy API', files: ['main.tf'] },
+ *   { sha: '987fed6cba', message: 'Revert "feat!: drop the legacy API"\n\nThis reverts commit abc1234def.', files: ['main.tf'] },
+ * ]);
+ * // → [{ target: <abc1234def>, revert: <987fed6cba> }]
+ * ```
+ */
+export function findRevertedCommits(commits: ReadonlyArray<CommitDetails>): RevertedCommit[] {
+  return pairRevertCommits(commits).map(([targetIndex, revertIndex]) => ({
+    target: commits[targetIndex],
+    revert: commits[revertIndex],
+  }));
+}
+
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Commit lint
+//////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Finds the messages that do not parse as conventional commits (see {@link parseConventionalCommit}) when
+ * `commit-lint` is enabled, for the changed modules whose `semver-mode` is `conventional-commits`. Without the
+ * lint, such messages silently fall back to `default-semver-level`.
+ *
+ * Each module is linted with its own config, so modules that a `.terraform-module-releaser.yml` switches to
+ * `keywords` mode are left out. The pull request title is linted when any changed module is in
+ * `conventional-commits` mode. The commits of those modules are linted only when `semver-source` is
+ * `commits`, since they do not influence the release type otherwise. Merge commits and git revert commits
+ * (`Revert "<header>"`) use messages generated by git and are exempt.
+ *
+ * @param commits - The pull request's commits, oldest first
+ * @param prTitle - The pull request title
+ * @param terraformModules - The modules, with the pull request's commits assigned to them
+ * @returns The offending messages, or null when the lint is disabled or no changed module is in
+ *  `conventional-commits` mode
+ *
+ * @example
+ * ```typescript
+ * // With config.commitLint = 'error', and the commit assigned to a module in conventional-commits mode
+ * lintCommitMessages([{ sha: 'abc1234def', message: 'wip', files: ['main.tf'] }], 'feat: add subnets', modules);
+ * // → { invalidCommits: [<abc1234def>], invalidTitle: false }
+ * ```
+ */
+export function lintCommitMessages(
+  commits: ReadonlyArray<CommitDetails>,
+  prTitle: string,
+  terraformModules: ReadonlyArray<TerraformModule>,
+): CommitLintResult | null {
+  if (config.commitLint === COMMIT_LINT_MODE.OFF) {
+    return null;
+  }
+
+  const lintedModules = terraformModules.filter(
+    (module) => module.commits.length > 0 && module.config.semverMode === SEMVER_MODE.CONVENTIONAL_COMMITS,
+  );
+  if (lintedModules.length === 0) {
+    return null;
+  }
+
+  const lintedShas = new Set(lintedModules.flatMap((module) => module.commits.map(({ sha }) => sha)));
+  const isExempt = (message: string) => MERGE_COMMIT_REGEX.test(message.trim()) || parseRevertMessage(message) !== null;
+  const invalidCommits =
+    config.semverSource === SEMVER_SOURCE.COMMITS
+      ? commits.filter(
+          ({ sha, message }) => lintedShas.has(sha) && !isExempt(message) && parseConventionalCommit(message) === null,
+        )
+      : [];
+
+  return { invalidCommits, invalidTitle: parseConventionalCommit(prTitle) === null };
+}
+
+/**
+ * Describes the offending messages found by {@link lintCommitMessages}, naming the full SHA of each commit.
+ *
+ * @param result - The commit lint result
+ * @returns The description, or null when every message is a conventional commit
+ */
+export function describeCommitLintViolations({ invalidCommits, invalidTitle }: CommitLintResult): string | null {
+  const offenders = invalidCommits.map(({ sha }) => `commit ${sha}`);
+  if (invalidTitle) {
+    offenders.push('the pull request title');
+  }
+  if (offenders.length === 0) {
+    return null;
+  }
+
+  return `Commit lint found ${offenders.length} ${offenders.length === 1 ? 'message' : 'messages'} that ${offenders.length === 1 ? 'is' : 'are'} not a conventional commit (<type>[(scope)][!]: <description>): ${offenders.join(', ')}`;
+}
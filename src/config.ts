@@ -1,13 +1,6 @@
 import type { Config } from '@/types';
-import {
-  SEMVER_MODE,
-  VALID_MODULE_REF_MODES,
-  VALID_SEMVER_LEVELS,
-  VALID_SEMVER_MODES,
-  VALID_TAG_DIRECTORY_SEPARATORS,
-  VERSION_TAG_REGEX,
-} from '@/utils/constants';
-import { createConfigFromInputs } from '@/utils/metadata';
+import { SEMVER_MODE } from '@/utils/constants';
+import { createConfigFromInputs, validateConfig } from '@/utils/metadata';
 import { endGroup, info, startGroup } from '@actions/core';
 
 // Keep configInstance private to this module
@@ -49,64 +42,7 @@ function initializeConfig(): Config {
     // Initialize the config instance using action metadata
     configInstance = createConfigFromInputs();
 
-    // Validate that *.tf is not in excludePatterns
-    if (configInstance.moduleChangeExcludePatterns.includes('*.tf')) {
-      throw new TypeError('Exclude patterns cannot contain "*.tf" as it is required for module detection');
-    }
-    if (configInstance.moduleAssetExcludePatterns.includes('*.tf')) {
-      throw new TypeError('Asset exclude patterns cannot contain "*.tf" as these files are required');
-    }
-
-    // Validate WikiSidebar Changelog Max is greater than zero. (createConfigFromInputs rejects
-    // non-numeric number inputs, so NaN cannot reach this comparison.)
-    if (configInstance.wikiSidebarChangelogMax < 1) {
-      throw new TypeError('Wiki Sidebar Change Log Max must be an integer greater than or equal to one');
-    }
-
-    // Validate tag directory separator
-    if (configInstance.tagDirectorySeparator.length !== 1) {
-      throw new TypeError('Tag directory separator must be exactly one character');
-    }
-    if (!VALID_TAG_DIRECTORY_SEPARATORS.includes(configInstance.tagDirectorySeparator)) {
-      throw new TypeError(
-        `Tag directory separator must be one of: ${VALID_TAG_DIRECTORY_SEPARATORS.join(', ')}. Got: '${
-          configInstance.tagDirectorySeparator
-        }'`,
-      );
-    }
-    // Validate default first tag format
-    if (!VERSION_TAG_REGEX.test(configInstance.defaultFirstTag)) {
-      throw new TypeError(
-        `Default first tag must be in format v#.#.# or #.#.# (e.g., v1.0.0 or 1.0.0). Got: '${configInstance.defaultFirstTag}'`,
-      );
-    }
-
-    // If we aren't using "v" prefix but the default first tag was specified with a "v"
-    // prefix, then strip this to enforce.
-    if (!configInstance.useVersionPrefix && configInstance.defaultFirstTag.startsWith('v')) {
-      configInstance.defaultFirstTag = configInstance.defaultFirstTag.substring(1);
-    }
-
-    // Validate module ref mode
-    if (!VALID_MODULE_REF_MODES.includes(configInstance.moduleRefMode)) {
-      throw new TypeError(
-        `Invalid module_ref_mode '${configInstance.moduleRefMode}'. Must be one of: ${VALID_MODULE_REF_MODES.join(', ')}`,
-      );
-    }
-
-    // Validate default semver level
-    if (!VALID_SEMVER_LEVELS.includes(configInstance.defaultSemverLevel)) {
-      throw new TypeError(
-        `Invalid default-semver-level '${configInstance.defaultSemverLevel}'. Must be one of: ${VALID_SEMVER_LEVELS.join(', ')}`,
-      );
-    }
-
-    // Validate semver mode
-    if (!VALID_SEMVER_MODES.includes(configInstance.semverMode)) {
-      throw new TypeError(
-        `Invalid semver-mode '${configInstance.semverMode}'. Must be one of: ${VALID_SEMVER_MODES.join(', ')}`,
-      );
-    }
+    validateConfig(configInstance);
 
     info(`Semver Mode: ${configInstance.semverMode}`);
     if (configInstance.semverMode !== SEMVER_MODE.CONVENTIONAL_COMMITS) {
@@ -129,6 +65,29 @@ function initializeConfig(): Config {
     info(`Module Ref Mode: ${configInstance.moduleRefMode}`);
     info(`Pre-release: ${configInstance.preRelease}`);
     info(`Hide No Changes PR Comment: ${configInstance.hideNoChangesPrComment}`);
+    info(`Pre-release Channel: ${configInstance.preReleaseChannel}`);
+    info(`Pre-release Channel Branches: ${configInstance.preReleaseChannelBranches.join(', ')}`);
+    info(`Version Groups: ${configInstance.versionGroups.join(', ')}`);
+    info(`Detect Breaking Interface Changes: ${configInstance.detectBreakingInterfaceChanges}`);
+    info(`Zero Major Mode: ${configInstance.zeroMajorMode}`);
+    info(`Conventional Commit Types: ${configInstance.conventionalCommitTypes.join(', ')}`);
+    info(`Scope Routing: ${configInstance.scopeRouting}`);
+    info(`Scope Aliases: ${configInstance.scopeAliases.join(', ')}`);
+    info(`Semver Source: ${configInstance.semverSource}`);
+    info(`Commit Lint: ${configInstance.commitLint}`);
+    info(`Changelog Format: ${configInstance.changelogFormat}`);
+    info(`Changelog Template File: ${configInstance.changelogTemplateFile}`);
+    info(`Changelog PR Body Section: ${configInstance.changelogPrBodySection}`);
+    info(`Changelog Linked Issues: ${configInstance.changelogLinkedIssues}`);
+    info(`Module Changelog: ${configInstance.moduleChangelog}`);
+    info(`Release Rebuild Dry Run: ${configInstance.releaseRebuildDryRun}`);
+    info(`Tag Signing: ${configInstance.tagSigning}`);
+    info(`Release Assets: ${configInstance.releaseAssets}`);
+    info(`Release Provenance: ${configInstance.releaseProvenance}`);
+    info(`Tag Migration: ${configInstance.tagMigration}`);
+    info(`Tag Migration Dry Run: ${configInstance.tagMigrationDryRun}`);
+    info(`Tag Migration Delete Old Tags: ${configInstance.tagMigrationDeleteOldTags}`);
+    info(`Release Backfill: ${configInstance.releaseBackfill}`);
 
     return configInstance;
   } finally {
@@ -5,7 +5,7 @@ import { endGroup, info, startGroup } from '@actions/core';
 import { Octokit } from '@octokit/core';
 import { paginateRest } from '@octokit/plugin-paginate-rest';
 import { restEndpointMethods } from '@octokit/plugin-rest-endpoint-methods';
-import type { PullRequestEvent } from '@octokit/webhooks-types';
+import type { PullRequestEvent, WorkflowDispatchEvent } from '@octokit/webhooks-types';
 import { homepage, version } from '../package.json';
 
 // The context object will be initialized lazily
@@ -54,6 +54,19 @@ function isPullRequestEvent(payload: unknown): payload is PullRequestEvent {
   );
 }
 
+/**
+ * Type guard to check if an object is a valid WorkflowDispatchEvent, which only needs to carry the ref
+ * the workflow was dispatched on.
+ */
+function isWorkflowDispatchEvent(payload: unknown): payload is WorkflowDispatchEvent {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    'ref' in payload &&
+    typeof (payload as WorkflowDispatchEvent).ref === 'string'
+  );
+}
+
 /**
  * Clears the cached context instance during testing.
  *
@@ -79,11 +92,12 @@ export function clearContextForTesting(): void {
  * Lazily initializes the context object that contains details about the pull request and repository.
  * The context is only created once and reused for subsequent calls.
  *
- * If the action is not run in the context of a pull request, an error will be thrown.
+ * If the action is not run in the context of a pull request or a `workflow_dispatch` event, an error will be
+ * thrown.
  *
  * @function initializeContext
  * @returns {Context} The context object containing GitHub client and pull request information.
- * @throws {Error} If this workflow is not running in the context of a pull request.
+ * @throws {Error} If this workflow is not running in the context of a pull request or a `workflow_dispatch` event.
  */
 function initializeContext(): Context {
   if (contextInstance) {
@@ -103,9 +117,9 @@ function initializeContext(): Context {
 
     const [owner, repo] = repository.split('/');
 
-    if (eventName !== 'pull_request') {
+    if (eventName !== 'pull_request' && eventName !== 'workflow_dispatch') {
       throw new Error(
-        'This workflow is not running in the context of a pull request. Ensure this workflow is triggered by a pull request event.',
+        `This workflow was triggered by an unsupported '${eventName}' event. Ensure this workflow is triggered by a pull_request event, or by a workflow_dispatch event to rebuild the release bodies, migrate the tags or backfill the releases.`,
       );
     }
 
@@ -113,50 +127,83 @@ function initializeContext(): Context {
       throw new Error(`Specified GITHUB_EVENT_PATH ${eventPath} does not exist`);
     }
 
-    const payload: PullRequestEvent = JSON.parse(fs.readFileSync(eventPath, { encoding: 'utf8' }));
-
-    // Good, we know we have a valid pull_request payload. Let's cast this as our interface
-    if (isPullRequestEvent(payload) === false) {
-      throw new Error('Event payload did not match expected pull_request event payload');
-    }
+    const payload: unknown = JSON.parse(fs.readFileSync(eventPath, { encoding: 'utf8' }));
 
     // Extend Octokit with REST API methods and pagination support using the plugins
     const OctokitRestApi = Octokit.plugin(restEndpointMethods, paginateRest);
-
-    contextInstance = {
-      repo: { owner, repo },
-      repoUrl: `${serverUrl}/${owner}/${repo}`,
-      octokit: new OctokitRestApi({
-        baseUrl: apiUrl,
-        auth: `Bearer ${config.githubToken}`,
-        userAgent: `[octokit] terraform-module-releaser/${version} (${homepage})`,
-      }),
-      prNumber: payload.pull_request.number,
-      prTitle: payload.pull_request.title.trim(),
-      prBody: payload.pull_request.body ?? '',
-      issueNumber: payload.pull_request.number,
-      workspaceDir,
-      baseRef: payload.pull_request.base.ref,
-      mergeCommitSha: payload.pull_request.merge_commit_sha ?? null,
-      isPrMergeEvent: payload.action === 'closed' && payload.pull_request.merged === true,
-    };
-
-    const truncatedBody =
-      contextInstance.prBody?.length > 60 ? `${contextInstance.prBody.slice(0, 57)}...` : contextInstance.prBody;
+    const octokit = new OctokitRestApi({
+      baseUrl: apiUrl,
+      auth: `Bearer ${config.githubToken}`,
+      userAgent: `[octokit] terraform-module-releaser/${version} (${homepage})`,
+    });
+
+    if (eventName === 'workflow_dispatch') {
+      if (isWorkflowDispatchEvent(payload) === false) {
+        throw new Error('Event payload did not match expected workflow_dispatch event payload');
+      }
+
+      // A manual run is not tied to a pull request, so the pull request fields are left empty
+      contextInstance = {
+        repo: { owner, repo },
+        repoUrl: `${serverUrl}/${owner}/${repo}`,
+        octokit,
+        prNumber: 0,
+        prTitle: '',
+        prBody: '',
+        prLabels: [],
+        issueNumber: 0,
+        workspaceDir,
+        baseRef: payload.ref.replace(/^refs\/heads\//, ''),
+        mergeCommitSha: null,
+        isPrMergeEvent: false,
+        isWorkflowDispatchEvent: true,
+      };
+    } else {
+      // Good, we know we have a valid pull_request payload. Let's cast this as our interface
+      if (isPullRequestEvent(payload) === false) {
+        throw new Error('Event payload did not match expected pull_request event payload');
+      }
+
+      contextInstance = {
+        repo: { owner, repo },
+        repoUrl: `${serverUrl}/${owner}/${repo}`,
+        octokit,
+        prNumber: payload.pull_request.number,
+        prTitle: payload.pull_request.title.trim(),
+        prBody: payload.pull_request.body ?? '',
+        prLabels: (payload.pull_request.labels ?? []).map((label) => label.name),
+        issueNumber: payload.pull_request.number,
+        workspaceDir,
+        baseRef: payload.pull_request.base.ref,
+        mergeCommitSha: payload.pull_request.merge_commit_sha ?? null,
+        isPrMergeEvent: payload.action === 'closed' && payload.pull_request.merged === true,
+        isWorkflowDispatchEvent: false,
+      };
+    }
 
     info(`Event Name: ${eventName}`);
     info(`GitHub Server URL: ${serverUrl}`);
     info(`GitHub API URL: ${apiUrl}`);
     info(`Repository: ${contextInstance.repo.owner}/${contextInstance.repo.repo}`);
     info(`Repository URL: ${contextInstance.repoUrl}`);
-    info(`Pull Request Number: ${contextInstance.prNumber}`);
-    info(`Pull Request Title: ${contextInstance.prTitle}`);
-    info(`Pull Request Body: ${truncatedBody}`);
-    info(`Issue Number: ${contextInstance.issueNumber}`);
+    // The pull request fields are empty on a manual run
+    if (!contextInstance.isWorkflowDispatchEvent) {
+      const truncatedBody =
+        contextInstance.prBody?.length > 60 ? `${contextInstance.prBody.slice(0, 57)}...` : contextInstance.prBody;
+
+      info(`Pull Request Number: ${contextInstance.prNumber}`);
+      info(`Pull Request Title: ${contextInstance.prTitle}`);
+      info(`Pull Request Body: ${truncatedBody}`);
+      info(`Pull Request Labels: ${contextInstance.prLabels.join(', ')}`);
+      info(`Issue Number: ${contextInstance.issueNumber}`);
+    }
     info(`Workspace Directory: ${contextInstance.workspaceDir}`);
     info(`Base Ref: ${contextInstance.baseRef}`);
-    info(`Merge Commit SHA: ${contextInstance.mergeCommitSha ?? '(none)'}`);
+    if (!contextInstance.isWorkflowDispatchEvent) {
+      info(`Merge Commit SHA: ${contextInstance.mergeCommitSha ?? '(none)'}`);
+    }
     info(`Is Pull Request Merge Event: ${contextInstance.isPrMergeEvent}`);
+    info(`Is Workflow Dispatch Event: ${contextInstance.isWorkflowDispatchEvent}`);
 
     return contextInstance;
   } finally {
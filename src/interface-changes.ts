@@ -0,0 +1,225 @@
+import { relative } from 'node:path';
+import { config } from '@/config';
+import { context } from '@/context';
+import type { TerraformModule } from '@/terraform-module';
+import type { InterfaceChange, ModuleInterface } from '@/types';
+import { INTERFACE_CHANGE } from '@/utils/constants';
+import { normalizeHclExpression, parseHclAttributes, parseHclBlocks, readTerraformFiles } from '@/utils/hcl';
+import { endGroup, info, startGroup, warning } from '@actions/core';
+import { RequestError } from '@octokit/request-error';
+
+/**
+ * Extracts the public interface (variables and outputs) declared across a module's Terraform files.
+ *
+ * @param {string[]} contents - The contents of the module's `.tf` files
+ * @returns {ModuleInterface} The declared variables and outputs
+ */
+export function parseModuleInterface(contents: string[]): ModuleInterface {
+  const moduleInterface: ModuleInterface = { variables: new Map(), outputs: new Set() };
+
+  for (const content of contents) {
+    for (const block of parseHclBlocks(content)) {
+      const [name] = block.labels;
+      if (name === undefined) {
+        continue;
+      }
+
+      if (block.type === 'variable') {
+        const attributes = parseHclAttributes(block.body);
+        const type = attributes.get('type');
+        moduleInterface.variables.set(name, {
+          type: type === undefined ? null : normalizeHclExpression(type),
+          required: !attributes.has('default'),
+        });
+      } else if (block.type === 'output') {
+        moduleInterface.outputs.add(name);
+      }
+    }
+  }
+
+  return moduleInterface;
+}
+
+/**
+ * Compares two versions of a module's interface and returns the changes that break existing callers:
+ *
+ * - A variable was removed (callers setting it fail with "Unsupported argument")
+ * - A variable was added without a default, or an existing variable lost its default
+ * - A variable's type constraint changed (loosening it to `any` or removing it is not breaking)
+ * - An output was removed (callers referencing it fail with "Unsupported attribute")
+ *
+ * @param {ModuleInterface} previous - The interface at the module's latest tag
+ * @param {ModuleInterface} current - The interface in the workspace
+ * @returns {InterfaceChange[]} The breaking changes, or an empty array if the interface is compatible
+ */
+export function diffModuleInterfaces(previous: ModuleInterface, current: ModuleInterface): InterfaceChange[] {
+  const changes: InterfaceChange[] = [];
+
+  for (const [name, previousVariable] of previous.variables) {
+    const currentVariable = current.variables.get(name);
+    if (currentVariable === undefined) {
+      changes.push({
+        kind: INTERFACE_CHANGE.VARIABLE_REMOVED,
+        name,
+        description: `Variable \`${name}\` was removed`,
+      });
+      continue;
+    }
+
+    if (currentVariable.required && !previousVariable.required) {
+      changes.push({
+        kind: INTERFACE_CHANGE.VARIABLE_REQUIRED,
+        name,
+        description: `Variable \`${name}\` no longer has a default`,
+      });
+    }
+
+    const isUnconstrained = currentVariable.type === null || currentVariable.type === 'any';
+    if (!isUnconstrained && currentVariable.type !== previousVariable.type) {
+      changes.push({
+        kind: INTERFACE_CHANGE.VARIABLE_TYPE_CHANGED,
+        name,
+        description: `Variable \`${name}\` type changed from \`${previousVariable.type ?? 'any'}\` to \`${currentVariable.type}\``,
+      });
+    }
+  }
+
+  for (const [name, currentVariable] of current.variables) {
+    if (!previous.variables.has(name) && currentVariable.required) {
+      changes.push({
+        kind: INTERFACE_CHANGE.VARIABLE_REQUIRED,
+        name,
+        description: `Required variable \`${name}\` was added without a default`,
+      });
+    }
+  }
+
+  for (const name of previous.outputs) {
+    if (!current.outputs.has(name)) {
+      changes.push({
+        kind: INTERFACE_CHANGE.OUTPUT_REMOVED,
+        name,
+        description: `Output \`${name}\` was removed`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Downloads the `.tf` files of a module as they were at the given commit.
+ *
+ * Tags created by other means than this action point at a commit of the whole repository, which contains the
+ * module's directory, so that directory is read when it exists at the commit. Release tags created by this
+ * action point at a commit whose tree contains only the module's files at the repository root, which is read
+ * otherwise.
+ *
+ * @param {TerraformModule} module - The module to read
+ * @param {string} ref - The commit SHA of the module's latest tag
+ * @returns {Promise<string[]>} The contents of the module's `.tf` files at that commit (empty if none found)
+ */
+async function fetchTerraformFilesAtRef(module: TerraformModule, ref: string): Promise<string[]> {
+  const {
+    octokit,
+    repo: { owner, repo },
+    workspaceDir,
+  } = context;
+
+  let entries: Awaited<ReturnType<typeof octokit.rest.repos.getContent>>['data'];
+  try {
+    ({ data: entries } = await octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path: relative(workspaceDir, module.directory),
+      ref,
+    }));
+  } catch (error) {
+    if (!(error instanceof RequestError) || error.status !== 404) {
+      throw error;
+    }
+    ({ data: entries } = await octokit.rest.repos.getContent({ owner, repo, path: '', ref }));
+  }
+
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const files = entries
+    .filter((entry) => entry.type === 'file' && entry.name.endsWith('.tf'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const contents: string[] = [];
+  for (const file of files) {
+    const { data } = await octokit.rest.repos.getContent({ owner, repo, path: file.path, ref });
+    if (!Array.isArray(data) && 'content' in data) {
+      contents.push(Buffer.from(data.content, 'base64').toString('utf8'));
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Detects breaking changes to the variables and outputs of every changed module and records them on the
+ * module, which raises its release type to major regardless of what the commit messages indicate.
+ *
+ * Each module with direct changes is compared against the commit of its latest tag. Modules without
+ * tags (initial releases) and modules released only because of a local dependency are skipped. Detection
+ * fails open: when the tagged files cannot be read, a warning is logged and the module keeps the release
+ * type derived from its commits.
+ *
+ * @param {TerraformModule[]} terraformModules - All Terraform modules detected in the workspace
+ * @returns {Promise<void>}
+ */
+export async function detectBreakingInterfaceChanges(terraformModules: TerraformModule[]): Promise<void> {
+  if (!config.detectBreakingInterfaceChanges) {
+    info('Breaking interface change detection is disabled. Skipping.');
+    return;
+  }
+
+  console.time('Elapsed time detecting breaking interface changes');
+  startGroup('Detecting breaking interface changes');
+
+  try {
+    for (const module of terraformModules) {
+      const latestTagCommitSHA = module.getLatestTagCommitSHA();
+      if (module.commits.length === 0 || latestTagCommitSHA === null) {
+        continue;
+      }
+
+      let previousContents: string[];
+      try {
+        previousContents = await fetchTerraformFilesAtRef(module, latestTagCommitSHA);
+      } catch (error) {
+        warning(
+          `Unable to read module '${module.name}' at '${module.getLatestTag()}'; skipping breaking interface change detection: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        continue;
+      }
+
+      if (previousContents.length === 0) {
+        info(`No Terraform files found for module '${module.name}' at '${module.getLatestTag()}'. Skipping.`);
+        continue;
+      }
+
+      const changes = diffModuleInterfaces(
+        parseModuleInterface(previousContents),
+        parseModuleInterface(readTerraformFiles(module.directory)),
+      );
+      module.setBreakingInterfaceChanges(changes);
+
+      if (changes.length === 0) {
+        info(`✓ Module "${module.name}" has no breaking interface changes`);
+      } else {
+        info(`✗ Module "${module.name}" has ${changes.length} breaking interface change(s):`);
+        for (const change of changes) {
+          info(`  - ${change.description}`);
+        }
+      }
+    }
+  } finally {
+    console.timeEnd('Elapsed time detecting breaking interface changes');
+    endGroup();
+  }
+}
@@ -1,13 +1,23 @@
 import { relative } from 'node:path';
+import { describeCommitLintViolations, lintCommitMessages } from '@/commit-analyzer';
 import { getConfig } from '@/config';
 import { context as actionContext, getContext } from '@/context';
+import { detectBreakingInterfaceChanges } from '@/interface-changes';
 import { parseTerraformModules } from '@/parser';
 import { addPostReleaseComment, addReleasePlanComment, getPullRequestCommits } from '@/pull-request';
-import { createTaggedReleases, deleteReleases, getAllReleases } from '@/releases';
+import {
+  backfillReleases,
+  createTaggedReleases,
+  deleteReleases,
+  getAllReleases,
+  rebuildReleaseBodies,
+} from '@/releases';
+import { migrateTags } from '@/tag-migration';
 import { deleteTags, getAllTags } from '@/tags';
 import { installTerraformDocs } from '@/terraform-docs';
 import { TerraformModule } from '@/terraform-module';
-import type { ChangedModuleOutput, Config, Context, GitHubRelease, ReleaseOutcome } from '@/types';
+import type { ChangedModuleOutput, CommitLintResult, Config, Context, GitHubRelease, ReleaseOutcome } from '@/types';
+import { COMMIT_LINT_MODE } from '@/utils/constants';
 import { isCheckoutCurrent, pathExistsOnBaseRef } from '@/utils/freshness';
 import { matchesPrMarker } from '@/utils/markers';
 import { checkoutWiki, commitAndPushWikiChanges, generateWikiFiles, getWikiStatus } from '@/wiki';
@@ -29,25 +39,38 @@ function initialize(): { config: Config; context: Context } {
 /**
  * Handles pull request open/sync events: determines wiki status (including terraform-docs
  * pre-flight validation), posts a release plan comment, and re-throws wiki pre-flight
- * failures when present.
+ * failures when present. Commit lint violations are reported as a warning, or fail the run
+ * when `commit-lint` is `error`.
  *
+ * @param {Config} config - The configuration object.
  * @param {TerraformModule[]} terraformModules - List of Terraform modules associated with this workspace.
  * @param {GitHubRelease[]} releasesToDelete - List of Terraform releases to delete.
  * @param {string[]} tagsToDelete - List of Terraform tags to remove.
+ * @param {CommitLintResult | null} commitLint - The commit lint result, or null when the lint is disabled.
  * @returns {Promise<void>} Resolves when wiki-related operations are completed.
  */
 async function handlePullRequestEvent(
+  config: Config,
   terraformModules: TerraformModule[],
   releasesToDelete: GitHubRelease[],
   tagsToDelete: string[],
+  commitLint: CommitLintResult | null,
 ): Promise<void> {
   const wikiStatusResult = await getWikiStatus(terraformModules);
 
-  await addReleasePlanComment(terraformModules, releasesToDelete, tagsToDelete, wikiStatusResult);
+  await addReleasePlanComment(terraformModules, releasesToDelete, tagsToDelete, wikiStatusResult, commitLint);
 
   if (wikiStatusResult.errorMessage) {
     throw new Error(wikiStatusResult.errorMessage);
   }
+
+  const commitLintViolations = commitLint === null ? null : describeCommitLintViolations(commitLint);
+  if (commitLintViolations !== null) {
+    if (config.commitLint === COMMIT_LINT_MODE.ERROR) {
+      throw new Error(commitLintViolations);
+    }
+    warning(commitLintViolations);
+  }
 }
 
 /**
@@ -200,6 +223,30 @@ async function handlePullRequestMergedEvent(
   return reportedOutcomes;
 }
 
+/**
+ * Handles manual `workflow_dispatch` runs: rebuilds the body of every module release instead of releasing a
+ * pull request, or with `tag-migration`, migrates the module tags to the configured tag scheme, or with
+ * `release-backfill`, creates the missing releases of existing module tags. No outputs are set, since no
+ * module is changed.
+ *
+ * @param {Config} config - The configuration object.
+ * @returns {Promise<void>} Resolves when the release bodies are rebuilt, the tags are migrated or the missing
+ *  releases are created.
+ */
+async function handleWorkflowDispatchEvent(config: Config): Promise<void> {
+  const allTags = await getAllTags();
+  const allReleases = await getAllReleases();
+  const terraformModules = parseTerraformModules([], allTags, allReleases);
+
+  if (config.tagMigration) {
+    await migrateTags(terraformModules, allTags);
+  } else if (config.releaseBackfill) {
+    await backfillReleases(terraformModules);
+  } else {
+    await rebuildReleaseBodies(terraformModules);
+  }
+}
+
 /**
  * Sets GitHub Action outputs with comprehensive information about Terraform modules.
  *
@@ -223,6 +270,9 @@ async function handlePullRequestMergedEvent(
  * - `releaseTag`: The tag that will be created for the release (changed modules only)
  * - `releaseType`: The type of release (major, minor, patch) (changed modules only)
  *
+ * Modules whose release was intentionally skipped (skip directive or `release:skip` label) are included in
+ * `changed-modules-map` with `action: 'intentionally-skipped'`, but not in the changed module names or paths.
+ *
  * @param {TerraformModule[]} terraformModules - Array of all Terraform modules detected in the workspace
  * @returns {Record<string, ChangedModuleOutput>} The changed-modules map that was emitted, so the merge
  *  path can re-emit it with the tag that actually ended up being published.
@@ -233,8 +283,8 @@ function setActionOutputs(terraformModules: TerraformModule[]): Record<string, C
   // Prepare changed module outputs
   const changedModuleNames = modulesToRelease.map((module) => module.name);
   const changedModulePaths = modulesToRelease.map((module) => module.directory);
-  const changedModulesMap: Record<string, ChangedModuleOutput> = Object.fromEntries(
-    modulesToRelease.map((module) => [
+  const changedModulesMap: Record<string, ChangedModuleOutput> = Object.fromEntries([
+    ...modulesToRelease.map((module) => [
       module.name,
       {
         path: module.directory,
@@ -243,7 +293,17 @@ function setActionOutputs(terraformModules: TerraformModule[]): Record<string, C
         releaseType: module.getReleaseType(),
       },
     ]),
-  );
+    ...TerraformModule.getModulesSkippingRelease(terraformModules).map((module) => [
+      module.name,
+      {
+        path: module.directory,
+        latestTag: module.getLatestTag(),
+        releaseTag: null,
+        releaseType: null,
+        action: 'intentionally-skipped' as const,
+      },
+    ]),
+  ]);
 
   // Prepare all module outputs
   const allModuleNames = terraformModules.map((module) => module.name);
@@ -290,8 +350,9 @@ function setActionOutputs(terraformModules: TerraformModule[]): Record<string, C
  * `releaseTag` naming a ref that does not exist. Downstream jobs that check out `releaseTag` would fail.
  *
  * Each entry gains an `action` field so consumers can distinguish a fresh release from a skip or a
- * heal. Modules with no outcome (the legacy gate skipped the pull request, or the module was withheld
- * on a stale checkout) are reported as `action: 'none'` with a `null` `releaseTag`.
+ * heal, and an `assets` field listing the uploaded release assets when `release-assets` or
+ * `release-provenance` is enabled. Modules with no outcome (the legacy gate skipped the pull request, or
+ * the module was withheld on a stale checkout) are reported as `action: 'none'` with a `null` `releaseTag`.
  *
  * @param {Record<string, ChangedModuleOutput>} changedModulesMap - The pre-release map.
  * @param {ReleaseOutcome[]} releaseOutcomes - What actually happened per module.
@@ -306,11 +367,19 @@ function setReleaseOutcomeOutputs(
   const resolvedModulesMap: Record<string, ChangedModuleOutput> = Object.fromEntries(
     Object.entries(changedModulesMap).map(([moduleName, entry]) => {
       const outcome = outcomesByModuleName.get(moduleName);
+      if (entry.action === 'intentionally-skipped') {
+        return [moduleName, entry];
+      }
 
       return [
         moduleName,
         outcome
-          ? { ...entry, releaseTag: outcome.releaseTag, action: outcome.action }
+          ? {
+              ...entry,
+              releaseTag: outcome.releaseTag,
+              action: outcome.action,
+              ...(outcome.assets && { assets: outcome.assets }),
+            }
           : { ...entry, releaseTag: null, action: 'none' as const },
       ];
     }),
@@ -328,13 +397,15 @@ function setReleaseOutcomeOutputs(
  *
  * This function handles the Terraform module release workflow by:
  * 1. Collecting pull request commits, tags, and existing releases
- * 2. Identifying Terraform modules and which ones have changed
+ * 2. Identifying Terraform modules and which ones have changed (including breaking interface changes)
  * 3. Determining modules that need to be removed
  * 4. Handling either release planning (commenting on PR) or the actual merge event
  * 5. Setting GitHub Action outputs with information about changed and all modules
  *
  * Idempotency is handled per-module during release creation (see createTaggedReleases), so re-runs
- * converge to the correct state without over-bumping or duplicating releases.
+ * converge to the correct state without over-bumping or duplicating releases. Manual `workflow_dispatch`
+ * runs only rebuild the release bodies (see rebuildReleaseBodies), migrate the tags (see migrateTags) or
+ * backfill the missing releases (see backfillReleases).
  *
  * The function sets the following outputs:
  * - changed-module-names: Names of modules that changed
@@ -358,10 +429,16 @@ export async function run(): Promise<void> {
     // remove the post-release comment, so a blind comment-based guard would miss it). The post-release
     // comment remains as an audit trail; it simply no longer gates control flow.
 
+    if (context.isWorkflowDispatchEvent) {
+      await handleWorkflowDispatchEvent(config);
+      return;
+    }
+
     const commits = await getPullRequestCommits();
     const allTags = await getAllTags();
     const allReleases = await getAllReleases();
     const terraformModules = parseTerraformModules(commits, allTags, allReleases);
+    await detectBreakingInterfaceChanges(terraformModules);
     const releasesToDelete = TerraformModule.getReleasesToDelete(allReleases, terraformModules);
     const tagsToDelete = TerraformModule.getTagsToDelete(allTags, terraformModules);
 
@@ -375,7 +452,8 @@ export async function run(): Promise<void> {
     if (context.isPrMergeEvent) {
       await handlePullRequestMergedEvent(config, terraformModules, releasesToDelete, tagsToDelete, changedModulesMap);
     } else {
-      await handlePullRequestEvent(terraformModules, releasesToDelete, tagsToDelete);
+      const commitLint = lintCommitMessages(commits, context.prTitle, terraformModules);
+      await handlePullRequestEvent(config, terraformModules, releasesToDelete, tagsToDelete, commitLint);
     }
   } catch (error) {
     if (error instanceof Error) {
@@ -1,21 +1,27 @@
+import { resolve } from 'node:path';
 import { config } from '@/config';
 import { context } from '@/context';
 import { TerraformModule } from '@/terraform-module';
 import type { CommitDetails, GitHubRelease, GitHubTag } from '@/types';
+import { getCommitScopes, resolveScopeModules } from '@/utils/commit-scope';
 import {
   findTerraformModuleDirectories,
   getRelativeTerraformModulePathFromFilePath,
   shouldExcludeFile,
 } from '@/utils/file';
+import { findLocalModuleSources } from '@/utils/hcl';
 import { endGroup, info, startGroup } from '@actions/core';
 
 /**
  * Parses the workspace to identify and instantiate Terraform modules, tracking changes across commits.
  *
- * This function performs a three-phase parsing process:
+ * This function performs a five-phase parsing process:
  * 1. Discovers all Terraform module directories in the workspace
  * 2. Creates TerraformModule instances for each directory
- * 3. Associates commits with their respective modules by analyzing changed files
+ * 3. Associates commits with their respective modules by analyzing changed files (restricted to the
+ *    modules named by the commit's conventional commit scope when `scope-routing` is enabled)
+ * 4. Links the modules of each configured version group
+ * 5. Builds the local dependency graph and cascades releases to dependent modules
  *
  * The implementation processes commits iteratively and adds each commit to the appropriate
  * TerraformModule instance. This approach is more efficient than having each TerraformModule
@@ -60,6 +66,58 @@ export function parseTerraformModules(
   // Phase 3: Process commits to find changed modules
   //
   info('Processing commits to find changed modules...');
+  const terraformModules = Object.values(terraformModulesMap);
+  assignCommitsToModules(commits, terraformModules);
+
+  info('Adding tags and releases...');
+  for (const terraformModule of terraformModules) {
+    terraformModule.setTags(TerraformModule.getTagsForModule(terraformModule.name, allTags));
+    terraformModule.setReleases(TerraformModule.getReleasesForModule(terraformModule.name, allReleases));
+  }
+
+  //
+  // Phase 4: Link version groups so that their members are released in lockstep
+  //
+  info('Resolving version groups...');
+  resolveVersionGroups(terraformModules);
+
+  //
+  // Phase 5: Resolve local module dependencies and cascade releases to dependents
+  //
+  info('Resolving local module dependencies...');
+  resolveLocalDependencies(terraformModules);
+
+  info('Sorting by name...');
+  terraformModules.sort((a, b) => a.name.localeCompare(b.name));
+
+  info(`Successfully parsed and instantiated ${terraformModules.length} Terraform modules:`);
+  for (const terraformModule of terraformModules) {
+    info(terraformModule.toString());
+  }
+
+  console.timeEnd('Elapsed time parsing terraform modules');
+  endGroup();
+
+  return terraformModules;
+}
+
+/**
+ * Associates commits with the modules whose files they change (phase 3 of {@link parseTerraformModules}).
+ *
+ * Files outside of any module, in modules that are not discovered, or excluded by the module's
+ * `module-change-exclude-patterns` are skipped. With `scope-routing`, a commit whose scope names some of its
+ * changed modules is only attributed to those. Also used to attribute the commits of the pull request that
+ * produced an existing release when its body is rebuilt.
+ *
+ * @param {CommitDetails[]} commits - The commits to associate, including their changed files
+ * @param {TerraformModule[]} terraformModules - All discovered Terraform modules
+ * @returns {void}
+ */
+export function assignCommitsToModules(commits: CommitDetails[], terraformModules: TerraformModule[]): void {
+  const terraformModulesMap: Record<string, TerraformModule> = Object.fromEntries(
+    terraformModules.map((module) => [module.name, module]),
+  );
+
   for (const commit of commits) {
     const { message, sha, files } = commit;
     info(`🔍 Parsing commit ${sha}: ${message.trim().split('\n')[0].trim()} (Changed Files = ${files.length})`);
@@ -97,7 +155,7 @@ export function parseTerraformModules(
       //  relativeModulePath       modules/vpc
       //  relativeModuleFilePath   main.tf
       const relativeModuleFilePath = relativeFilePath.replace(`${relativeModulePath}/`, '');
-      const excludeResult = shouldExcludeFile(relativeModuleFilePath, config.moduleChangeExcludePatterns);
+      const excludeResult = shouldExcludeFile(relativeModuleFilePath, module.config.moduleChangeExcludePatterns);
       if (excludeResult.shouldExclude) {
         info(
           `✗ Skipping file "${relativeFilePath}" ➜  Excluded by via module-change-exclude-pattern "${excludeResult.matchedPattern}"`,
@@ -110,31 +168,120 @@ export function parseTerraformModules(
       info(`✓ Found changed file "${relativeFilePath}" in module "${moduleName}"`);
     }
 
+    // With scope routing, a commit whose scope names some of its changed modules is only attributed to those.
+    // Commits without a scope, or whose scope names none of their changed modules, keep file attribution.
+    if (config.scopeRouting) {
+      const scopeModuleNames = new Set(
+        getCommitScopes(message).flatMap((scope) =>
+          resolveScopeModules(scope, terraformModules).map(({ name }) => name),
+        ),
+      );
+      if ([...modulesToCommitMap.keys()].some((moduleName) => scopeModuleNames.has(moduleName))) {
+        for (const moduleName of [...modulesToCommitMap.keys()]) {
+          if (!scopeModuleNames.has(moduleName)) {
+            modulesToCommitMap.delete(moduleName);
+            info(`✗ Skipping module "${moduleName}" for commit ${sha} ➜  Commit scope routes it to other modules`);
+          }
+        }
+      }
+    }
+
     // Only add the commit to modules that have at least one non-excluded file
     for (const moduleName of modulesToCommitMap.keys()) {
       const module = terraformModulesMap[moduleName];
       module.addCommit(commit);
     }
   }
+}
+
+/**
+ * Links the modules of each version group configured by the `version-groups` input.
+ *
+ * Entries are `module=group` pairs where the module is matched by name or directory name (see
+ * {@link TerraformModule.matchesScope}). Entries that match no discovered module are skipped, since a
+ * module may be ignored via `module-path-ignore` or not exist yet.
+ *
+ * This must run before dependencies are resolved, since a release pulled in by the version group also
+ * triggers the member's dependents.
+ *
+ * @param {TerraformModule[]} terraformModules - All discovered Terraform modules
+ * @returns {void}
+ * @throws {Error} When a module is matched by entries of different version groups
+ */
+function resolveVersionGroups(terraformModules: TerraformModule[]): void {
+  const membersByGroupName = new Map<string, TerraformModule[]>();
+
+  for (const entry of config.versionGroups) {
+    // Entries are validated as 'module=group' during config initialization
+    const [scope, groupName] = entry.split('=').map((part) => part.trim());
+    const matchingModules = terraformModules.filter((module) => module.matchesScope(scope));
+    if (matchingModules.length === 0) {
+      info(`✗ Skipping version group entry "${entry}" ➜  No matching Terraform module`);
+      continue;
+    }
+
+    const members = membersByGroupName.get(groupName) ?? [];
+    members.push(...matchingModules.filter((module) => !members.includes(module)));
+    membersByGroupName.set(groupName, members);
+  }
 
-  const terraformModules = Object.values(terraformModulesMap);
+  for (const [name, members] of membersByGroupName) {
+    const versionGroup = { name, members };
+    for (const member of members) {
+      if (member.versionGroup !== null) {
+        throw new Error(
+          `Module "${member.name}" cannot belong to both version group "${member.versionGroup.name}" and "${name}"`,
+        );
+      }
+      member.setVersionGroup(versionGroup);
+    }
 
-  info('Adding tags and releases...');
-  for (const terraformModule of terraformModules) {
-    terraformModule.setTags(TerraformModule.getTagsForModule(terraformModule.name, allTags));
-    terraformModule.setReleases(TerraformModule.getReleasesForModule(terraformModule.name, allReleases));
+    info(`✓ Version group "${name}" releases in lockstep: ${members.map((member) => member.name).join(', ')}`);
   }
+}
 
-  info('Sorting by name...');
-  terraformModules.sort((a, b) => a.name.localeCompare(b.name));
+/**
+ * Builds the local dependency graph between modules and records dependency triggers.
+ *
+ * Each module's `.tf` files are scanned for `module` blocks with a relative `source`. Sources that resolve
+ * to another discovered module become graph edges. Triggers are then propagated until a fixed point is
+ * reached so that releases cascade transitively: if `a` calls `b` and `b` calls `c`, a change to `c`
+ * releases `b` and `a` as well. Dependency cycles terminate naturally since each trigger is recorded once.
+ *
+ * This must run after tags are assigned, since a dependency without tags (an initial release) also
+ * triggers its dependents.
+ *
+ * @param {TerraformModule[]} terraformModules - All discovered Terraform modules
+ * @returns {void}
+ */
+function resolveLocalDependencies(terraformModules: TerraformModule[]): void {
+  const modulesByDirectory = new Map(terraformModules.map((module) => [resolve(module.directory), module]));
 
-  info(`Successfully parsed and instantiated ${terraformModules.length} Terraform modules:`);
   for (const terraformModule of terraformModules) {
-    info(terraformModule.toString());
+    for (const sourceDirectory of findLocalModuleSources(terraformModule.directory)) {
+      const dependency = modulesByDirectory.get(sourceDirectory);
+      if (dependency === undefined) {
+        info(`✗ Skipping local source "${sourceDirectory}" in "${terraformModule.name}" ➜  Not a discovered module`);
+        continue;
+      }
+
+      terraformModule.addDependency(dependency);
+      info(`✓ Module "${terraformModule.name}" depends on local module "${dependency.name}"`);
+    }
   }
 
-  console.timeEnd('Elapsed time parsing terraform modules');
-  endGroup();
+  let hasNewTriggers = true;
+  while (hasNewTriggers) {
+    hasNewTriggers = false;
 
-  return terraformModules;
+    for (const terraformModule of terraformModules) {
+      for (const dependency of terraformModule.dependencies) {
+        if (dependency.needsRelease() && !terraformModule.dependencyTriggers.includes(dependency)) {
+          terraformModule.addDependencyTrigger(dependency);
+          hasNewTriggers = true;
+          info(`✓ Module "${terraformModule.name}" will be released due to local dependency "${dependency.name}"`);
+        }
+      }
+    }
+  }
 }
@@ -2,9 +2,10 @@ import { getPullRequestChangelog } from '@/changelog';
 import { config } from '@/config';
 import { context } from '@/context';
 import { TerraformModule } from '@/terraform-module';
-import type { CommitDetails, GitHubRelease, ReleaseOutcome, WikiStatusResult } from '@/types';
+import type { CommitDetails, CommitLintResult, GitHubRelease, ReleaseOutcome, WikiStatusResult } from '@/types';
 import {
   BRANDING_COMMENT,
+  COMMIT_LINT_MODE,
   LEGACY_PR_RELEASE_COMMENT_MARKER,
   PROJECT_URL,
   PR_RELEASE_COMMENT_MARKER,
@@ -12,7 +13,8 @@ import {
   WIKI_STATUS,
 } from '@/utils/constants';
 
-import { hasStandaloneMarkerLine } from '@/utils/markers';
+import { findUnmatchedCommitScopes } from '@/utils/commit-scope';
+import { hasStandaloneMarkerLine, neutralizePrMarkers } from '@/utils/markers';
 import { getWikiLink, isWikiCheckFailure } from '@/wiki';
 import { debug, endGroup, info, startGroup, warning } from '@actions/core';
 import { RequestError } from '@octokit/request-error';
@@ -147,18 +149,18 @@ export async function hasLegacyPostReleaseComment(): Promise<boolean> {
 /**
  * Retrieves the list of changed files in the pull request and returns them as a Set.
  *
+ * @param {number} pullNumber - The pull request number.
  * @returns {Promise<Set<string>>} A promise that resolves to a Set of filenames representing the changed files.
  * @throws {RequestError} Throws an error if the request to fetch files fails or if permissions are insufficient.
  */
-async function getChangedFilesInPullRequest(): Promise<Set<string>> {
+async function getChangedFilesInPullRequest(pullNumber: number): Promise<Set<string>> {
   try {
     const {
       octokit,
       repo: { owner, repo },
-      prNumber: pull_number,
     } = context;
 
-    const iterator = octokit.paginate.iterator(octokit.rest.pulls.listFiles, { owner, repo, pull_number });
+    const iterator = octokit.paginate.iterator(octokit.rest.pulls.listFiles, { owner, repo, pull_number: pullNumber });
 
     const changedFiles = new Set<string>();
     for await (const { data } of iterator) {
@@ -200,12 +202,14 @@ async function getChangedFilesInPullRequest(): Promise<Set<string>> {
  * First observed in this Pull Request where earlier commits triggered changes to a test Terraform module and later commits
  * reverted it: #21
  *
+ * @param {number} pullNumber - The pull request number. Defaults to the current pull request; rebuilding the
+ *                             body of an existing release reads the pull request that produced it.
  * @returns {Promise<CommitDetails[]>} A promise that resolves to an array of commit details,
  *                                       each containing the message, SHA, and associated file paths.
  * @throws {RequestError} Throws an error if the request to fetch commits fails or if permissions
  *                       are insufficient to read the pull request.
  */
-export async function getPullRequestCommits(): Promise<CommitDetails[]> {
+export async function getPullRequestCommits(pullNumber: number = context.prNumber): Promise<CommitDetails[]> {
   console.time('Elapsed time fetching commits');
   startGroup('Fetching pull request commits');
 
@@ -213,14 +217,17 @@ export async function getPullRequestCommits(): Promise<CommitDetails[]> {
     const {
       octokit,
       repo: { owner, repo },
-      prNumber: pull_number,
     } = context;
 
-    const prChangedFiles = await getChangedFilesInPullRequest();
+    const prChangedFiles = await getChangedFilesInPullRequest(pullNumber);
     info(`Found ${prChangedFiles.size} file${prChangedFiles.size !== 1 ? 's' : ''} changed in pull request.`);
     info(JSON.stringify(Array.from(prChangedFiles), null, 2));
 
-    const iterator = octokit.paginate.iterator(octokit.rest.pulls.listCommits, { owner, repo, pull_number });
+    const iterator = octokit.paginate.iterator(octokit.rest.pulls.listCommits, {
+      owner,
+      repo,
+      pull_number: pullNumber,
+    });
 
     // Iterate over the fetched commits to retrieve details and files
     const commits = [];
@@ -238,10 +245,16 @@ export async function getPullRequestCommits(): Promise<CommitDetails[]> {
             ?.map((file) => file.filename)
             .filter((filename) => prChangedFiles.has(filename)) ?? [];
 
+        // The author is only known when GitHub returns it (e.g., not for commits with a malformed author)
+        const authorName = commit.commit.author?.name;
+        const authorLogin = commit.author?.login ?? null;
+        const author = authorLogin !== null || authorName ? { login: authorLogin, name: authorName ?? '' } : undefined;
+
         commits.push({
           message: commit.commit.message,
           sha: commit.sha,
           files,
+          ...(author && { author }),
         });
       }
     }
@@ -280,6 +293,8 @@ export async function getPullRequestCommits(): Promise<CommitDetails[]> {
  * @param {string[]} tagsToDelete - List of Terraform tags to remove.
  * @param {WikiStatusResult} wikiStatus - Object containing the status of the Wiki and any relevant
  * error information if the Wiki check failed.
+ * @param {CommitLintResult | null} commitLint - The messages that are not conventional commits, or null
+ * when `commit-lint` is disabled.
  * @returns {Promise<void>} A promise that resolves when the comment has been posted and previous
  * summary comments have been deleted.
  * @throws {Error} Throws an error if there are permission issues or other failures when posting
@@ -290,6 +305,7 @@ export async function addReleasePlanComment(
   releasesToDelete: GitHubRelease[],
   tagsToDelete: string[],
   wikiStatus: WikiStatusResult,
+  commitLint: CommitLintResult | null = null,
 ): Promise<void> {
   console.time('Elapsed time commenting on pull request');
   startGroup('Adding pull request release plan comment');
@@ -302,6 +318,7 @@ export async function addReleasePlanComment(
     } = context;
 
     const terraformModulesToRelese = TerraformModule.getModulesNeedingRelease(terraformModules);
+    const skippedModules = TerraformModule.getModulesSkippingRelease(terraformModules);
 
     // Initialize the comment body as an array of strings with appropriate header based on wiki status
     const commentBody: string[] = [PR_SUMMARY_MARKER];
@@ -340,10 +357,26 @@ export async function addReleasePlanComment(
               reasonLabels.push('📝 Changed Files');
               break;
             }
-            //case 'local-dependency-update': {
-            //  reasonLabels.push('🔗 Local Dependency Updated');
-            //  break;
-            //}
+            case 'local-dependency-update': {
+              reasonLabels.push('🔗 Local Dependency Updated');
+              break;
+            }
+            case 'breaking-interface-change': {
+              reasonLabels.push('💥 Breaking Interface Change');
+              break;
+            }
+            case 'release-label': {
+              reasonLabels.push('🏷️ Release Label');
+              break;
+            }
+            case 'release-as': {
+              reasonLabels.push('📌 Release-As');
+              break;
+            }
+            case 'version-group': {
+              reasonLabels.push('👥 Version Group');
+              break;
+            }
           }
         }
 
@@ -353,6 +386,74 @@ export async function addReleasePlanComment(
       }
     }
 
+    // Skipped Modules
+    if (skippedModules.length > 0) {
+      commentBody.push(
+        '\n# ⏭️ Skipped Modules\n',
+        'The following modules have changes but will not be released due to a skip directive (e.g., `[skip release]` or `Release-As: none`) or a `release:skip` label:\n',
+        ...skippedModules.map((module) => `- \`${module.name}\``),
+      );
+    }
+
+    // Reverted Commits
+    const modulesWithRevertedCommits = terraformModules.filter((module) => module.getRevertedCommits().length > 0);
+    if (modulesWithRevertedCommits.length > 0) {
+      commentBody.push(
+        '\n# ↩️ Reverted Commits\n',
+        'The following commits are reverted within this pull request. Each commit and its revert cancel each other out and are left out of the release type and the changelog:\n',
+      );
+      for (const module of modulesWithRevertedCommits) {
+        commentBody.push(`**\`${module.name}\`**`);
+        for (const { target, revert } of module.getRevertedCommits()) {
+          const subject = neutralizePrMarkers(target.message.trim().split('\n')[0]);
+          commentBody.push(`- ${target.sha.slice(0, 7)} ${subject} (reverted by ${revert.sha.slice(0, 7)})`);
+        }
+        commentBody.push('');
+      }
+    }
+
+    // Commit Lint
+    const hasCommitLintViolations =
+      commitLint !== null && (commitLint.invalidCommits.length > 0 || commitLint.invalidTitle);
+    if (hasCommitLintViolations) {
+      commentBody.push(
+        `\n# ${config.commitLint === COMMIT_LINT_MODE.ERROR ? '❌' : '⚠️'} Commit Lint\n`,
+        'The following messages are not conventional commits (`<type>[(scope)][!]: <description>`) and fall back to `default-semver-level`:\n',
+        ...commitLint.invalidCommits.map(
+          ({ sha, message }) => `- ${sha.slice(0, 7)} ${neutralizePrMarkers(message.trim().split('\n')[0])}`,
+        ),
+        ...(commitLint.invalidTitle ? [`- Pull request title: ${neutralizePrMarkers(context.prTitle)}`] : []),
+      );
+    }
+
+    // Unmatched Commit Scopes
+    const unmatchedScopes = findUnmatchedCommitScopes(terraformModules);
+    if (unmatchedScopes.length > 0) {
+      commentBody.push(
+        '\n# ⚠️ Unmatched Commit Scopes\n',
+        'The following conventional commit scopes match no module name, directory name or `scope-aliases` entry. Commits with these scopes are attributed to every module they change files in:\n',
+        ...unmatchedScopes.map((scope) => `- \`${neutralizePrMarkers(scope)}\``),
+      );
+    }
+
+    // Breaking Interface Changes
+    const modulesWithBreakingChanges = terraformModulesToRelese.filter(
+      (module) => module.breakingInterfaceChanges.length > 0,
+    );
+    if (modulesWithBreakingChanges.length > 0) {
+      commentBody.push(
+        '\n# 💥 Breaking Interface Changes\n',
+        'The following changes to module variables and outputs break existing callers and force a major release:\n',
+      );
+      for (const module of modulesWithBreakingChanges) {
+        commentBody.push(`**\`${module.name}\`**`);
+        for (const change of module.breakingInterfaceChanges) {
+          commentBody.push(`- ${change.description}`);
+        }
+        commentBody.push('');
+      }
+    }
+
     // Changelog
     if (terraformModulesToRelese.length > 0) {
       commentBody.push('\n# 📝 Changelog\n', getPullRequestChangelog(terraformModules));
@@ -469,7 +570,13 @@ export async function addReleasePlanComment(
     // when no modules need a release, no tag/release cleanup is pending, and the wiki check did not fail.
     const wikiCheckFailed = isWikiCheckFailure(wikiStatus.status);
     const hasPendingCleanup = config.deleteLegacyTags && (releasesToDelete.length > 0 || tagsToDelete.length > 0);
-    const nothingToReport = terraformModulesToRelese.length === 0 && !hasPendingCleanup && !wikiCheckFailed;
+    const nothingToReport =
+      terraformModulesToRelese.length === 0 &&
+      skippedModules.length === 0 &&
+      modulesWithRevertedCommits.length === 0 &&
+      !hasCommitLintViolations &&
+      !hasPendingCleanup &&
+      !wikiCheckFailed;
 
     if (config.hideNoChangesPrComment && nothingToReport) {
       const allComments = await listAllPullRequestComments();
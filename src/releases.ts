@@ -1,23 +1,55 @@
 import { type ExecSyncOptions, execFileSync } from 'node:child_process';
-import { cpSync, mkdtempSync } from 'node:fs';
+import { cpSync, mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
-import { join } from 'node:path';
-import { createTerraformModuleChangelog, createTerraformModuleChangelogEntry } from '@/changelog';
+import { dirname, join, relative } from 'node:path';
+import {
+  createFullDiffLine,
+  createTerraformModuleChangelogEntry,
+  createTerraformModuleChangelogFile,
+} from '@/changelog';
 import { config } from '@/config';
 import { context } from '@/context';
-import { hasLegacyPostReleaseComment } from '@/pull-request';
+import { assignCommitsToModules } from '@/parser';
+import { getPullRequestCommits, hasLegacyPostReleaseComment } from '@/pull-request';
 import { TerraformModule } from '@/terraform-module';
-import type { GitHubRelease, GitHubTag, ReleaseOutcome } from '@/types';
-import { GITHUB_ACTIONS_BOT_NAME } from '@/utils/constants';
+import type {
+  CommitDetails,
+  GitHubRelease,
+  GitHubTag,
+  PullRequestDetails,
+  ReleaseAsset,
+  ReleaseMarker,
+  ReleaseOutcome,
+  VersionGroup,
+} from '@/types';
+import { createChecksumFile, createTarGzArchive, createZipArchive, sha256 } from '@/utils/archive';
+import {
+  GITHUB_ACTIONS_BOT_NAME,
+  MODULE_CHANGELOG_FILENAME,
+  MUTATIVE_REQUEST_INTERVAL_MS,
+  RELEASE_CHECKSUMS_FILENAME,
+  RELEASE_PROVENANCE_FILENAME,
+} from '@/utils/constants';
 import { copyModuleContents } from '@/utils/file';
-import { configureGitAuthentication, getGitHubActionsBotEmail } from '@/utils/github';
-import { buildPrMarker, hasAnyPrMarker, matchesPrMarker, neutralizePrMarkers } from '@/utils/markers';
+import { configureGitAuthentication, getGitHubActionsBotEmail, sleep, withRateLimitRetry } from '@/utils/github';
+import {
+  buildPrMarker,
+  findPrMarker,
+  hasAnyPrMarker,
+  matchesPrMarker,
+  neutralizePrMarkers,
+  stripPrMarkers,
+} from '@/utils/markers';
+import { computeTreeDigest, createProvenanceStatement, readGitTreeFiles } from '@/utils/provenance';
+import { createLineDiff, getExecErrorMessage } from '@/utils/string';
+import { createReleaseTag } from '@/utils/tag-signing';
 import { debug, endGroup, info, startGroup, warning } from '@actions/core';
 import type { RestEndpointMethodTypes } from '@octokit/plugin-rest-endpoint-methods';
 import { RequestError } from '@octokit/request-error';
 import which from 'which';
 
 type ListReleasesParams = Omit<RestEndpointMethodTypes['repos']['listReleases']['parameters'], 'owner' | 'repo'>;
+type ReleaseAssetData = RestEndpointMethodTypes['repos']['uploadReleaseAsset']['response']['data'];
 
 /**
  * How many of a module's orphan tags (tags with no release) are checked for recoverability on a merge.
@@ -33,7 +65,8 @@ const MAX_ORPHAN_TAG_LOOKUPS = 3;
  * Retrieves all releases from the specified GitHub repository.
  *
  * This function fetches the list of releases for the repository specified in the configuration.
- * It returns the releases as an array of objects containing the title, body, and tag name.
+ * It returns the releases as an array of objects containing the title, body, and tag name. Draft releases
+ * are left out: a release is only a draft while its assets are uploaded (see `createModuleRelease`).
  *
  * @param {ListReleasesParams} options - Optional pagination overrides, merged over the defaults
  *   (`per_page: 100, page: 1`)
@@ -64,6 +97,10 @@ export async function getAllReleases(options?: ListReleasesParams): Promise<GitH
       totalRequests++;
 
       for (const release of data) {
+        if (release.draft) {
+          continue;
+        }
+
         releases.push({
           id: release.id,
           title: release.name ?? '', // We'll keep release titles the same as tags for now
@@ -96,6 +133,49 @@ export async function getAllReleases(options?: ListReleasesParams): Promise<GitH
   }
 }
 
+type GitCommitData = RestEndpointMethodTypes['git']['getCommit']['response']['data'];
+
+/**
+ * Reads the release commit a tag points at with the Git Data API, peeling annotated tags.
+ *
+ * The SHA recorded for a tag is normally its commit. An annotated tag (see `tag-signing`) may instead be
+ * recorded by the SHA of its tag object, which the commits endpoint rejects; the tag object is then read
+ * and the commit it points at is returned. Any other failure is rethrown as is.
+ *
+ * @param {string} sha - The commit or annotated tag object SHA of the tag.
+ * @returns {Promise<GitCommitData>} The commit the tag points at.
+ */
+async function getTagCommit(sha: string): Promise<GitCommitData> {
+  const {
+    octokit,
+    repo: { owner, repo },
+  } = context;
+
+  try {
+    const { data } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: sha });
+    return data;
+  } catch (error) {
+    if (!(error instanceof RequestError) || (error.status !== 404 && error.status !== 422)) {
+      throw error;
+    }
+
+    let tagObject: RestEndpointMethodTypes['git']['getTag']['response']['data']['object'];
+    try {
+      const { data } = await octokit.rest.git.getTag({ owner, repo, tag_sha: sha });
+      tagObject = data.object;
+    } catch {
+      // Not an annotated tag object either: report the commit lookup failure
+      throw error;
+    }
+    if (tagObject.type !== 'commit') {
+      throw error;
+    }
+
+    const { data } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: tagObject.sha });
+    return data;
+  }
+}
+
 /**
  * How strongly an existing tag can be tied to the current pull request.
  *
@@ -130,9 +210,9 @@ type TagProvenance = 'marker' | 'heuristic' | 'unknown';
  * reuse titles byte-for-byte across pull requests, which would make a collision routine rather than
  * theoretical.
  *
- * Any failure to resolve the commit (a tag pointing at an annotated tag object, a deleted commit, a
- * transient API error) is treated as **not attributable**. Failing to adopt is always recoverable —
- * the owning pull request's own re-run will heal it — whereas wrongly adopting is not.
+ * Annotated tags are peeled to their commit (see `getTagCommit`). Any failure to resolve the commit (a
+ * deleted commit, a transient API error) is treated as **not attributable**. Failing to adopt is always
+ * recoverable — the owning pull request's own re-run will heal it — whereas wrongly adopting is not.
  *
  * @param {string} tagName - The tag being considered for adoption.
  * @param {string | null} commitSHA - The commit the tag points at.
@@ -144,12 +224,7 @@ async function getTagProvenance(tagName: string, commitSHA: string | null): Prom
     return 'unknown';
   }
 
-  const {
-    octokit,
-    repo: { owner, repo },
-    prNumber,
-    prTitle,
-  } = context;
+  const { prNumber, prTitle } = context;
 
   let commitMessage: string;
   try {
@@ -157,8 +232,7 @@ async function getTagProvenance(tagName: string, commitSHA: string | null): Prom
     // is built in a temp directory with `git add .`, so its diff nominally deletes every other file in
     // the repository. repos.getCommit would return that entire `files[]` array (with patches) to read
     // one string.
-    const { data } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: commitSHA });
-    commitMessage = data.message ?? '';
+    commitMessage = (await getTagCommit(commitSHA)).message ?? '';
   } catch (error) {
     warning(
       `Could not resolve commit ${commitSHA} for tag '${tagName}' to verify ownership; treating it as not belonging to this pull request: ${error instanceof Error ? error.message : String(error)}`,
@@ -299,8 +373,9 @@ function warnUnattributableOrphanTags(moduleName: string, orphanTags: ReadonlyAr
 /**
  * Step 2: recover an orphan tag (a tag with no release) that this pull request produced — from a
  * partial failure where the tag was pushed but the release was never created, or where the release was
- * deleted by hand. The release is created for the existing tag, at its existing version, without
- * bumping or pushing a new commit/tag.
+ * deleted by hand, or where an asset upload failed. The release is created for the existing tag, at its
+ * existing version, without bumping or pushing a new commit/tag. With `release-assets` or
+ * `release-provenance`, its assets are rebuilt from the tag.
  *
  * We search every orphan tag newest-first, not just the latest one, because a later pull request may
  * already have bumped past ours: if PR #5's tag was orphaned and PR #6 then released a higher version,
@@ -319,10 +394,6 @@ function warnUnattributableOrphanTags(moduleName: string, orphanTags: ReadonlyAr
  * @returns {Promise<ReleaseOutcome | null>} The recovery outcome, or null when no orphan tag is ours.
  */
 async function recoverOrphanTagRelease(module: TerraformModule, releaseMarker: string): Promise<ReleaseOutcome | null> {
-  const {
-    octokit,
-    repo: { owner, repo },
-  } = context;
   const moduleName = module.name;
 
   const orphanTags = module.tags.filter((tag) => !module.releases.some((release) => release.tagName === tag.name));
@@ -350,49 +421,293 @@ async function recoverOrphanTagRelease(module: TerraformModule, releaseMarker: s
   const recoveredVersion = TerraformModule.getVersionFromTag(recoverableTag) as string;
   info(`Module '${moduleName}' has tag '${recoverableTag}' without a release. Creating the missing release.`);
 
-  const changelog = createTerraformModuleChangelogEntry(recoveredVersion, module.commitMessages);
-  const body = `${changelog}\n\n${releaseMarker}`;
+  const changelog = createTerraformModuleChangelogEntry(module, recoveredVersion);
+  const previousTag = module.getPreviousTag(recoveredVersion);
+  const fullDiff = previousTag === null ? '' : `\n\n${createFullDiffLine(previousTag, recoverableTag)}`;
+  const body = `${changelog}${fullDiff}\n\n${releaseMarker}`;
+  const { release, assets } = await createModuleRelease(
+    recoverableTag,
+    body,
+    module.config.preRelease || TerraformModule.isPreReleaseVersion(recoveredVersion),
+    await createTagReleaseAssetFiles(module, recoverableTag),
+  );
+  module.setReleases([release, ...module.releases]);
+  module.clearCommits();
+
+  return { module, action: 'recovered', releaseTag: recoverableTag, release, ...(assets && { assets }) };
+}
+
+/**
+ * Computes the diff statistics of a new release tag against the module's previous one (e.g., `3 files
+ * changed, 40 insertions(+), 12 deletions(-)`).
+ *
+ * Release tag commits only contain the module's files, so comparing the two commits directly yields
+ * exactly the module's changes. The previous tag commit is fetched on its own because the workspace
+ * checkout is usually shallow. The statistics are informational: since the tag is already pushed, a
+ * failure is reported as a warning instead of failing the release.
+ *
+ * @param {string} gitPath - The path of the git executable.
+ * @param {ExecSyncOptions} gitOpts - The options running git in the release's working directory.
+ * @param {string} previousTagCommitSHA - The commit SHA of the module's previous release tag.
+ * @returns {string | null} The diff statistics, or null when they could not be computed or nothing changed.
+ */
+function getReleaseDiffStats(gitPath: string, gitOpts: ExecSyncOptions, previousTagCommitSHA: string): string | null {
+  try {
+    execFileSync(gitPath, ['fetch', '--depth=1', 'origin', previousTagCommitSHA], gitOpts);
+    const diffStats = execFileSync(gitPath, ['diff', '--shortstat', previousTagCommitSHA, 'HEAD'], gitOpts)
+      .toString()
+      .trim();
+
+    return diffStats === '' ? null : diffStats;
+  } catch (error) {
+    warning(`Unable to compute the diff statistics against ${previousTagCommitSHA}: ${getExecErrorMessage(error)}`);
+
+    return null;
+  }
+}
+
+/**
+ * Builds the release assets of a module release: a `.tar.gz` and a `.zip` archive of the release tag's files,
+ * named after the tag (e.g., `modules-vpc-v1.2.0.zip`), and a `SHA256SUMS` file listing their checksums.
+ *
+ * @param {string} directory - The directory holding the files of the release tag, without its `.git` directory.
+ * @param {string} releaseTag - The release tag.
+ * @returns {Array<{ name: string; data: Buffer }>} The asset files, in upload order.
+ */
+function createReleaseAssetFiles(directory: string, releaseTag: string): Array<{ name: string; data: Buffer }> {
+  const baseName = releaseTag.replaceAll('/', '-');
+  const archives = [
+    { name: `${baseName}.tar.gz`, data: createTarGzArchive(directory) },
+    { name: `${baseName}.zip`, data: createZipArchive(directory) },
+  ];
+
+  return [...archives, { name: RELEASE_CHECKSUMS_FILENAME, data: Buffer.from(createChecksumFile(archives)) }];
+}
+
+/**
+ * Uploads files to a release as release assets.
+ *
+ * Uploads go to a separate host (`uploads.github.com`, or `<host>/api/uploads` on GitHub Enterprise Server),
+ * so they are sent to the release's upload URL rather than an assumed one.
+ *
+ * @param {GitHubRelease} release - The release to attach the assets to.
+ * @param {string} uploadUrl - The `upload_url` of the release (e.g.,
+ *  `https://uploads.github.com/repos/owner/repo/releases/1/assets{?name,label}`).
+ * @param {Array<{ name: string; data: Buffer }>} files - The asset files.
+ * @returns {Promise<ReleaseAsset[]>} The uploaded assets with their download URLs and checksums.
+ * @throws {Error} When an upload fails due to permissions or API errors
+ */
+async function uploadReleaseAssets(
+  release: GitHubRelease,
+  uploadUrl: string,
+  files: Array<{ name: string; data: Buffer }>,
+): Promise<ReleaseAsset[]> {
+  const { octokit } = context;
+
+  const assets: ReleaseAsset[] = [];
+  for (const { name, data } of files) {
+    try {
+      // A generic request, as `repos.uploadReleaseAsset` types the raw binary body as a string
+      const response = await octokit.request<ReleaseAssetData>({
+        method: 'POST',
+        url: uploadUrl,
+        name,
+        data,
+        headers: { 'content-type': 'application/octet-stream', 'content-length': data.length },
+      });
+      info(`Uploaded release asset ${name} to release '${release.tagName}'.`);
+      assets.push({ name, url: response.data.browser_download_url, sha256: sha256(data) });
+    } catch (error) {
+      const reason =
+        error instanceof RequestError
+          ? `[Status = ${error.status}] ${error.message}`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      throw new Error(`Failed to upload release asset ${name} to release '${release.tagName}': ${reason}`, {
+        cause: error,
+      });
+    }
+  }
+
+  return assets;
+}
+
+/**
+ * Creates the release of a module tag, named after the tag, and attaches its asset files.
+ *
+ * With asset files, the release is created as a draft and only published once every asset is uploaded, so a
+ * re-run never finds a release that misses some of its assets: drafts are not listed by `getAllReleases`. When
+ * an upload fails, the draft is deleted and the error rethrown. The tag is then left without a release, which the
+ * re-run recovers along with its assets (see `recoverOrphanTagRelease`).
+ *
+ * @param {string} releaseTag - The release tag, which also names the release.
+ * @param {string} body - The release body.
+ * @param {boolean} prerelease - Whether the release is flagged as a pre-release.
+ * @param {Array<{ name: string; data: Buffer }>} assetFiles - The asset files to attach, if any.
+ * @returns {Promise<{ release: GitHubRelease; assets?: ReleaseAsset[] }>} The release, and its uploaded assets
+ *  when there were asset files.
+ * @throws {Error} When an asset cannot be uploaded or the release cannot be published
+ */
+async function createModuleRelease(
+  releaseTag: string,
+  body: string,
+  prerelease: boolean,
+  assetFiles: Array<{ name: string; data: Buffer }>,
+): Promise<{ release: GitHubRelease; assets?: ReleaseAsset[] }> {
+  const {
+    octokit,
+    repo: { owner, repo },
+  } = context;
+  const hasAssets = assetFiles.length > 0;
+
   const response = await octokit.rest.repos.createRelease({
     owner,
     repo,
-    tag_name: recoverableTag,
-    name: recoverableTag,
+    tag_name: releaseTag, // For now we keep these the same with tagName
+    name: releaseTag,
     body,
-    draft: false,
-    prerelease: config.preRelease,
+    draft: hasAssets,
+    prerelease,
   });
 
   const release = {
     id: response.data.id,
-    title: response.data.name ?? recoverableTag,
+    title: response.data.name ?? releaseTag,
     tagName: response.data.tag_name,
     body: response.data.body ?? body,
   };
-  module.setReleases([release, ...module.releases]);
-  module.clearCommits();
+  if (!hasAssets) {
+    return { release };
+  }
+
+  try {
+    const assets = await uploadReleaseAssets(release, response.data.upload_url, assetFiles);
+    await octokit.rest.repos.updateRelease({ owner, repo, release_id: release.id, draft: false });
+    info(`Published release '${releaseTag}'.`);
 
-  return { module, action: 'recovered', releaseTag: recoverableTag, release };
+    return { release, assets };
+  } catch (error) {
+    try {
+      await octokit.rest.repos.deleteRelease({ owner, repo, release_id: release.id });
+      info(`Deleted the draft release '${releaseTag}' so that a re-run recreates it with all of its assets.`);
+    } catch (deleteError) {
+      warning(
+        `Unable to delete the draft release '${releaseTag}': ${deleteError instanceof Error ? deleteError.message : String(deleteError)}`,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates the `provenance.intoto.json` asset of a release: the provenance statement of its tag and other assets.
+ */
+function createProvenanceAssetFile(
+  module: TerraformModule,
+  releaseTag: string,
+  tagCommitSHA: string,
+  treeDigest: string,
+  assetFiles: Array<{ name: string; data: Buffer }>,
+): { name: string; data: Buffer } {
+  const statement = createProvenanceStatement(module, releaseTag, tagCommitSHA, treeDigest, assetFiles);
+
+  return { name: RELEASE_PROVENANCE_FILENAME, data: Buffer.from(`${JSON.stringify(statement, null, 2)}\n`) };
 }
 
 /**
- * Step 3: normal release — bump the version, then commit, tag, push, and create the release.
+ * Rebuilds the asset files of a release recreated for an existing tag (see `recoverOrphanTagRelease`), e.g.
+ * after a run failed to upload them: with `release-assets`, the archives of the tag's files and their checksums,
+ * and with `release-provenance`, the provenance statement of the tag and those archives.
+ *
+ * The tag is fetched into a copy of the workspace's `.git` directory, and its files are written to a temporary
+ * directory, which is archived like the working directory of a new release. The provenance statement is
+ * digested from the tag commit, like the statement of a new release. Both temporary directories are removed
+ * once the files are built, even when building them fails.
+ *
+ * @param {TerraformModule} module - The module the tag belongs to.
+ * @param {string} releaseTag - The existing release tag.
+ * @returns {Promise<Array<{ name: string; data: Buffer }>>} The asset files, in upload order.
+ */
+async function createTagReleaseAssetFiles(
+  module: TerraformModule,
+  releaseTag: string,
+): Promise<Array<{ name: string; data: Buffer }>> {
+  if (!config.releaseAssets && !config.releaseProvenance) {
+    return [];
+  }
+
+  const fileSystemSafeModuleName = module.name.replaceAll('/', '-');
+  const tempDirs: string[] = [];
+  try {
+    const gitDir = mkdtempSync(join(tmpdir(), `${fileSystemSafeModuleName}-`));
+    tempDirs.push(gitDir);
+    cpSync(join(context.workspaceDir, '.git'), join(gitDir, '.git'), { recursive: true });
+
+    const gitPath = await which('git');
+    const gitOpts: ExecSyncOptions = { cwd: gitDir };
+    configureGitAuthentication(gitPath, gitOpts);
+    execFileSync(
+      gitPath,
+      ['fetch', '--depth=1', '--force', 'origin', `refs/tags/${releaseTag}:refs/tags/${releaseTag}`],
+      gitOpts,
+    );
+    const tagCommitSHA = execFileSync(gitPath, ['rev-parse', `refs/tags/${releaseTag}^{commit}`], gitOpts)
+      .toString()
+      .trim();
+    const tagFiles = readGitTreeFiles(gitPath, gitOpts, tagCommitSHA);
+
+    const assetFiles: Array<{ name: string; data: Buffer }> = [];
+    if (config.releaseAssets) {
+      const filesDir = mkdtempSync(join(tmpdir(), `${fileSystemSafeModuleName}-`));
+      tempDirs.push(filesDir);
+      for (const { path, mode, data } of tagFiles) {
+        const filePath = join(filesDir, path);
+        mkdirSync(dirname(filePath), { recursive: true });
+        if (mode === '120000') {
+          symlinkSync(data.toString(), filePath);
+        } else {
+          writeFileSync(filePath, data, { mode: mode === '100755' ? 0o755 : 0o644 });
+        }
+      }
+      assetFiles.push(...createReleaseAssetFiles(filesDir, releaseTag));
+    }
+    if (config.releaseProvenance) {
+      const treeDigest = computeTreeDigest(tagFiles);
+      assetFiles.push(createProvenanceAssetFile(module, releaseTag, tagCommitSHA, treeDigest, assetFiles));
+    }
+
+    return assetFiles;
+  } finally {
+    // The clone holds a full copy of the repository, which would pile up on self-hosted runners
+    for (const tempDir of tempDirs) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Step 3: normal release — bump the version, then commit, tag, push, and create the release. With
+ * `release-assets`, archives of the tag's files and their checksums are attached to the release; with
+ * `release-provenance`, a provenance statement of the tag and those assets is attached as well.
  *
  * @param {TerraformModule} module - The module being processed.
  * @param {string} releaseMarker - The hidden marker tying the release and its commit to this pull request.
+ * @param {string} releaseTagVersion - The version to release; defaults to the module's next version. Version
+ *  group members pass the version resolved for the whole group.
  * @returns {Promise<ReleaseOutcome>} The created outcome.
  */
-async function publishNewRelease(module: TerraformModule, releaseMarker: string): Promise<ReleaseOutcome> {
-  const {
-    octokit,
-    repo: { owner, repo },
-    prBody,
-    prTitle,
-    workspaceDir,
-  } = context;
+async function publishNewRelease(
+  module: TerraformModule,
+  releaseMarker: string,
+  releaseTagVersion = module.getReleaseTagVersion() as string,
+): Promise<ReleaseOutcome> {
+  const { prBody, prTitle, workspaceDir } = context;
   const moduleName = module.name;
 
-  const releaseTag = module.getReleaseTag() as string;
-  const releaseTagVersion = module.getReleaseTagVersion() as string;
+  const releaseTag = module.getTagForVersion(releaseTagVersion);
+  const previousTag = module.getLatestTag();
+  const previousTagCommitSHA = module.getLatestTagCommitSHA();
   info(`Release type: ${module.getReleaseType()}`);
   info(`Next tag version: ${releaseTagVersion}`);
 
@@ -403,7 +718,17 @@ async function publishNewRelease(module: TerraformModule, releaseMarker: string)
   info(`Created temp directory: ${tmpDir}`);
 
   // Copy the module's contents to the temporary directory, excluding specified patterns
-  copyModuleContents(module.directory, tmpDir, config.moduleAssetExcludePatterns);
+  copyModuleContents(module.directory, tmpDir, module.config.moduleAssetExcludePatterns);
+
+  // Generated before the commit so that the tag can carry the module's release history
+  const changelog = createTerraformModuleChangelogEntry(module, releaseTagVersion);
+  if (module.config.moduleChangelog) {
+    info(`Writing ${MODULE_CHANGELOG_FILENAME} with the release history of ${moduleName}`);
+    writeFileSync(join(tmpDir, MODULE_CHANGELOG_FILENAME), createTerraformModuleChangelogFile(module, changelog));
+  }
+
+  // Archived before the .git directory is copied in, so that they hold exactly the files of the tag
+  const releaseAssetFiles = config.releaseAssets ? createReleaseAssetFiles(tmpDir, releaseTag) : [];
 
   // Copy the module's .git directory
   cpSync(join(workspaceDir, '.git'), join(tmpDir, '.git'), { recursive: true });
@@ -434,36 +759,36 @@ async function publishNewRelease(module: TerraformModule, releaseMarker: string)
     ['config', '--local', 'user.email', githubActionsBotEmail],
     ['add', '.'],
     ['commit', '-m', commitMessage.trim()],
-    ['tag', releaseTag],
-    ['push', 'origin', releaseTag],
   ]) {
     execFileSync(gitPath, cmd, gitOpts);
   }
+  createReleaseTag(gitPath, gitOpts, releaseTag, changelog);
+  execFileSync(gitPath, ['push', 'origin', releaseTag], gitOpts);
 
   // Store the commit SHA that the tag points to (since it's not returned from the API via create release)
   const commitSHA = execFileSync(gitPath, ['rev-parse', 'HEAD'], gitOpts).toString().trim();
 
+  if (config.releaseProvenance) {
+    // Digested from the tag commit rather than the directory, so that it can be recomputed from the tag alone
+    const treeDigest = computeTreeDigest(readGitTreeFiles(gitPath, gitOpts, commitSHA));
+    releaseAssetFiles.push(createProvenanceAssetFile(module, releaseTag, commitSHA, treeDigest, releaseAssetFiles));
+  }
+
   // Create a GitHub release using the tag
   info(`Creating GitHub release for ${moduleName}@${releaseTagVersion}`);
-  const changelog = createTerraformModuleChangelog(module);
-  const body = `${changelog}\n\n${releaseMarker}`;
+  let fullDiff = '';
+  if (previousTag !== null && previousTagCommitSHA !== null) {
+    const diffStats = getReleaseDiffStats(gitPath, gitOpts, previousTagCommitSHA);
+    fullDiff = `\n\n${createFullDiffLine(previousTag, releaseTag, diffStats)}`;
+  }
+  const body = `${changelog}${fullDiff}\n\n${releaseMarker}`;
 
-  const response = await octokit.rest.repos.createRelease({
-    owner,
-    repo,
-    tag_name: releaseTag, // For now we keep these the same with tagName
-    name: releaseTag,
+  const { release, assets } = await createModuleRelease(
+    releaseTag,
     body,
-    draft: false,
-    prerelease: config.preRelease,
-  });
-
-  const release = {
-    id: response.data.id,
-    title: response.data.name ?? releaseTag,
-    tagName: response.data.tag_name,
-    body: response.data.body ?? body,
-  };
+    module.config.preRelease || TerraformModule.isPreReleaseVersion(releaseTagVersion),
+    releaseAssetFiles,
+  );
 
   // Update the module with the new release and tag (with commit SHA from API response)
   module.setReleases([release, ...module.releases]);
@@ -477,7 +802,53 @@ async function publishNewRelease(module: TerraformModule, releaseMarker: string)
   // as this is the primary driver for determining release status.
   module.clearCommits();
 
-  return { module, action: 'created', releaseTag, release };
+  return { module, action: 'created', releaseTag, release, ...(assets && { assets }) };
+}
+
+/**
+ * Releases the members of a version group as a unit, so that they all end up on the same version.
+ *
+ * The self-healing steps run for every member first. If any member was already released by this pull
+ * request (a re-run after a partial failure), the remaining members are released at that version instead
+ * of bumping again. Otherwise the group's next version is resolved once, before anything is published:
+ * releasing a member updates its tags and clears its commits, which would shift the version computed for
+ * the members released after it.
+ *
+ * @param {TerraformModule[]} members - The group's members that need a release.
+ * @param {number} prNumber - The pull request number.
+ * @param {string} releaseMarker - The hidden marker tying the releases to this pull request.
+ * @returns {Promise<ReleaseOutcome[]>} The outcome for each member, in the order given.
+ */
+async function releaseVersionGroup(
+  members: TerraformModule[],
+  prNumber: number,
+  releaseMarker: string,
+): Promise<ReleaseOutcome[]> {
+  const healedOutcomes = new Map<TerraformModule, ReleaseOutcome>();
+  for (const member of members) {
+    info(`Processing module: ${member.name}`);
+
+    const outcome =
+      findCompletedRelease(member, prNumber) ??
+      (await findUnmarkedCompletedRelease(member)) ??
+      (await recoverOrphanTagRelease(member, releaseMarker));
+    if (outcome !== null) {
+      healedOutcomes.set(member, outcome);
+    }
+  }
+
+  const [healedOutcome] = healedOutcomes.values();
+  const releaseTagVersion =
+    healedOutcome === undefined
+      ? (members[0].getReleaseTagVersion() as string)
+      : (TerraformModule.getVersionFromTag(healedOutcome.releaseTag) as string);
+
+  const outcomes: ReleaseOutcome[] = [];
+  for (const member of members) {
+    outcomes.push(healedOutcomes.get(member) ?? (await publishNewRelease(member, releaseMarker, releaseTagVersion)));
+  }
+
+  return outcomes;
 }
 
 /**
@@ -500,6 +871,9 @@ async function publishNewRelease(module: TerraformModule, releaseMarker: string)
  * A tag that cannot be attributed to this pull request is never adopted; the run bumps past it and
  * leaves it for its owning pull request's re-run to heal. See `docs/state-management.md`.
  *
+ * Members of a version group are processed together as a unit (see `releaseVersionGroup`) so that they are
+ * all released on the same version.
+ *
  * Note: Requires GitHub action permissions > contents: write
  *
  * @param {TerraformModule[]} terraformModules - An array of Terraform module objects containing
@@ -538,9 +912,21 @@ export async function createTaggedReleases(terraformModules: TerraformModule[]):
   startGroup('Creating releases & tags for modules');
 
   const outcomes: ReleaseOutcome[] = [];
+  const releasedVersionGroups = new Set<VersionGroup>();
 
   try {
     for (const module of terraformModulesToRelease) {
+      const { versionGroup } = module;
+      if (versionGroup !== null) {
+        if (!releasedVersionGroups.has(versionGroup)) {
+          releasedVersionGroups.add(versionGroup);
+          info(`Processing version group: ${versionGroup.name}`);
+          const members = terraformModulesToRelease.filter((member) => member.versionGroup === versionGroup);
+          outcomes.push(...(await releaseVersionGroup(members, prNumber, releaseMarker)));
+        }
+        continue;
+      }
+
       info(`Processing module: ${module.name}`);
 
       // Converge to the correct state by taking the first step that recognizes this module, falling
@@ -655,3 +1041,489 @@ export async function deleteReleases(releasesToDelete: GitHubRelease[]): Promise
     endGroup();
   }
 }
+
+/**
+ * Matches the "Full diff" line of a release body. A rebuilt body keeps the existing line, since the diff
+ * statistics it may carry can only be computed when the release is created.
+ */
+const FULL_DIFF_LINE_REGEX = /^\*\*Full diff\*\*: .*$/m;
+
+/**
+ * A module release whose body can be rebuilt: the pull request that produced it and the release commit
+ * its tag points at are both known.
+ */
+interface RebuildableRelease {
+  module: TerraformModule;
+  release: GitHubRelease;
+  version: string;
+  releaseMarker: ReleaseMarker;
+  prTitle: string;
+  prBody: string;
+  releaseDate: Date;
+}
+
+/**
+ * Reads the pull request title and body that a release commit recorded, since its message has the shape
+ * `<tag>\n\n<title>\n\n<body>\n\n<marker>`. Returns null when the commit was not written by this action.
+ */
+function parseReleaseCommitMessage(tagName: string, commitMessage: string): { title: string; body: string } | null {
+  const lines = stripPrMarkers(commitMessage).trim().split('\n');
+  if (lines[0]?.trim() !== tagName || !lines[2]?.trim()) {
+    return null;
+  }
+
+  return { title: lines[2].trim(), body: lines.slice(4).join('\n').trim() };
+}
+
+/**
+ * Resolves the release commit of a module release and the pull request that produced it. Releases that
+ * cannot be tied to a pull request are skipped with a note, since their bodies cannot be rebuilt.
+ */
+async function getRebuildableRelease(
+  module: TerraformModule,
+  release: GitHubRelease,
+): Promise<RebuildableRelease | null> {
+  const { tagName } = release;
+  const tag = module.tags.find(({ name }) => name === tagName);
+  const version = TerraformModule.getVersionFromTag(tagName);
+  if (tag === undefined || version === null) {
+    info(`Skipping release '${tagName}': its tag does not exist.`);
+    return null;
+  }
+
+  let commitMessage: string;
+  let releaseDate: Date;
+  try {
+    const data = await getTagCommit(tag.commitSHA);
+    commitMessage = data.message ?? '';
+    releaseDate = new Date(data.committer.date);
+  } catch (error) {
+    warning(
+      `Skipping release '${tagName}': could not resolve its tag commit ${tag.commitSHA}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+
+  const releaseMarker = findPrMarker(release.body) ?? findPrMarker(commitMessage);
+  const pullRequest = parseReleaseCommitMessage(tagName, commitMessage);
+  if (releaseMarker === null || pullRequest === null) {
+    info(`Skipping release '${tagName}': it is not tied to a pull request by a release marker and a release commit.`);
+    return null;
+  }
+
+  return {
+    module,
+    release,
+    version,
+    releaseMarker,
+    prTitle: pullRequest.title,
+    prBody: pullRequest.body,
+    releaseDate,
+  };
+}
+
+/**
+ * Rebuilds the body of a release the way a new release would be written, keeping its full diff line and
+ * its release marker exactly as they are.
+ */
+function createRebuiltReleaseBody(rebuildableRelease: RebuildableRelease): string {
+  const { module, release, version, releaseMarker, prTitle, prBody, releaseDate } = rebuildableRelease;
+  const pullRequest = { number: releaseMarker.prNumber, title: prTitle, body: prBody };
+  const changelog = createTerraformModuleChangelogEntry(module, version, version, pullRequest, releaseDate);
+
+  const previousTag = module.getPreviousTag(version);
+  const fullDiffLine =
+    FULL_DIFF_LINE_REGEX.exec(release.body)?.[0].trim() ??
+    (previousTag === null ? null : createFullDiffLine(previousTag, release.tagName));
+  const fullDiff = fullDiffLine === null ? '' : `\n\n${fullDiffLine}`;
+
+  return `${changelog}${fullDiff}\n\n${releaseMarker.marker}`;
+}
+
+/**
+ * Updates the body of a release.
+ *
+ * @throws {Error} When the update fails due to permissions or API errors
+ */
+async function updateReleaseBody(tagName: string, releaseId: number, body: string): Promise<void> {
+  const {
+    octokit,
+    repo: { owner, repo },
+  } = context;
+
+  try {
+    await octokit.rest.repos.updateRelease({ owner, repo, release_id: releaseId, body });
+    info(`Updated release '${tagName}'.`);
+  } catch (error) {
+    const requestError = error as RequestError;
+    if (requestError.status === 403) {
+      throw new Error(
+        [
+          `Failed to update release: ${tagName} - ${requestError.message}.`,
+          'Ensure that the GitHub Actions workflow has the correct permissions to update releases.',
+          'Update your workflow YAML file with the following block under "permissions":',
+          '\n\npermissions:\n  contents: write',
+        ].join(' '),
+        { cause: error },
+      );
+    }
+    throw new Error(`Failed to update release: [Status = ${requestError.status}] ${requestError.message}`, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Regenerates the body of every module release, e.g. after a change to the changelog format, so that the
+ * release notes and the wiki changelog assembled from them are consistent. Triggered by `workflow_dispatch`.
+ *
+ * Each body is rebuilt from the pull request title and body recorded in the release commit its tag points
+ * at, and from the commits of the pull request named by its release marker, which are attributed to the
+ * modules as on a merge. The release date is the date of the release commit. The full diff line and the
+ * release marker are kept as they are, so the rebuilt releases still belong to their pull requests.
+ * Releases that cannot be tied to a pull request (e.g., releases created by hand) are skipped.
+ *
+ * The diff of every changed body is reported before the release is updated. With `release-rebuild-dry-run`,
+ * the changes are only reported. The wiki changelog picks up the rebuilt bodies on its next generation.
+ *
+ * Note: the commits are attributed to the modules of the current workspace, so a module that was renamed
+ * or moved since a release was created gets that release's pull request link but no commits.
+ *
+ * @param {TerraformModule[]} terraformModules - All Terraform modules in the workspace, with their tags and
+ *  releases.
+ * @returns {Promise<void>} Resolves when every release body is up to date (or reported, in a dry run).
+ * @throws {Error} When a release update fails due to permissions or API errors
+ */
+export async function rebuildReleaseBodies(terraformModules: TerraformModule[]): Promise<void> {
+  console.time('Elapsed time rebuilding release bodies');
+  try {
+    startGroup('Resolving releases to rebuild');
+
+    const releasesByPullRequest = new Map<number, RebuildableRelease[]>();
+    try {
+      for (const module of terraformModules) {
+        for (const release of module.releases) {
+          const rebuildableRelease = await getRebuildableRelease(module, release);
+          if (rebuildableRelease !== null) {
+            const { prNumber } = rebuildableRelease.releaseMarker;
+            releasesByPullRequest.set(prNumber, [...(releasesByPullRequest.get(prNumber) ?? []), rebuildableRelease]);
+          }
+        }
+      }
+    } finally {
+      endGroup();
+    }
+
+    let changedCount = 0;
+    let unchangedCount = 0;
+    for (const [prNumber, rebuildableReleases] of releasesByPullRequest) {
+      let commits: CommitDetails[];
+      try {
+        commits = await getPullRequestCommits(prNumber);
+      } catch (error) {
+        warning(
+          `Skipping the releases of pull request #${prNumber}: could not read its commits: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        continue;
+      }
+
+      startGroup(`Rebuilding the release bodies of pull request #${prNumber}`);
+      try {
+        for (const module of terraformModules) {
+          module.clearCommits();
+        }
+        assignCommitsToModules(commits, terraformModules);
+
+        for (const rebuildableRelease of rebuildableReleases) {
+          const { id: releaseId, body: currentBody, tagName } = rebuildableRelease.release;
+          const body = createRebuiltReleaseBody(rebuildableRelease);
+          const diff = createLineDiff(currentBody.replaceAll('\r\n', '\n'), body);
+          if (diff === '') {
+            unchangedCount++;
+            info(`Release '${tagName}' is up to date.`);
+            continue;
+          }
+
+          changedCount++;
+          info(`Release '${tagName}' body changes:\n${diff}`);
+          if (!config.releaseRebuildDryRun) {
+            await updateReleaseBody(tagName, releaseId, body);
+          }
+        }
+      } finally {
+        endGroup();
+      }
+    }
+
+    const changedBodies = `${changedCount} release bod${changedCount === 1 ? 'y' : 'ies'}`;
+    if (config.releaseRebuildDryRun) {
+      info(`Dry run: ${changedBodies} would change (${unchangedCount} up to date). No release was updated.`);
+    } else {
+      info(`Updated ${changedBodies} (${unchangedCount} up to date).`);
+    }
+  } finally {
+    console.timeEnd('Elapsed time rebuilding release bodies');
+  }
+}
+
+type RepositoryCommitData = RestEndpointMethodTypes['repos']['listCommits']['response']['data'][number];
+
+/**
+ * How many commits are requested per page when reading the commits of a backfilled release.
+ */
+const BACKFILL_COMMITS_PER_PAGE = 100;
+
+/**
+ * Reads the commits of a backfilled release with their changed files, oldest first: the commits between the
+ * module's previous tag and the tag, or for the module's first tag, every commit up to the tag that changes the
+ * module. The release commit the tag points at, if any, is left out, and so are the files of other modules.
+ *
+ * The comparison is from the merge base (three-dot), since release tags point to release commits branched off
+ * the default branch: from the previous release commit, that lists the commits merged since. Both the comparison
+ * and the commit list are paginated, as an unpaginated comparison lists at most 250 commits.
+ */
+async function getTagRangeCommits(
+  module: TerraformModule,
+  tagCommitSHA: string,
+  previousTagCommitSHA: string | null,
+  releaseCommitSHA: string | null,
+): Promise<CommitDetails[]> {
+  const {
+    octokit,
+    repo: { owner, repo },
+    workspaceDir,
+  } = context;
+  const modulePath = relative(workspaceDir, module.directory);
+
+  let rangeCommits: RepositoryCommitData[] = [];
+  for (let page = 1; ; page++) {
+    const pageCommits =
+      previousTagCommitSHA === null
+        ? (
+            await withRateLimitRetry(() =>
+              octokit.rest.repos.listCommits({
+                owner,
+                repo,
+                sha: tagCommitSHA,
+                path: modulePath,
+                per_page: BACKFILL_COMMITS_PER_PAGE,
+                page,
+              }),
+            )
+          ).data.reverse() // Listed newest first
+        : (
+            await withRateLimitRetry(() =>
+              octokit.rest.repos.compareCommitsWithBasehead({
+                owner,
+                repo,
+                basehead: `${previousTagCommitSHA}...${tagCommitSHA}`,
+                per_page: BACKFILL_COMMITS_PER_PAGE,
+                page,
+              }),
+            )
+          ).data.commits;
+
+    rangeCommits =
+      previousTagCommitSHA === null ? [...pageCommits, ...rangeCommits] : [...rangeCommits, ...pageCommits];
+    if (pageCommits.length < BACKFILL_COMMITS_PER_PAGE) {
+      break;
+    }
+  }
+
+  const commits: CommitDetails[] = [];
+  for (const commit of rangeCommits) {
+    if (commit.sha === releaseCommitSHA) {
+      continue;
+    }
+
+    const { data } = await withRateLimitRetry(() => octokit.rest.repos.getCommit({ owner, repo, ref: commit.sha }));
+    const files =
+      data.files?.map(({ filename }) => filename).filter((filename) => filename.startsWith(`${modulePath}/`)) ?? [];
+    if (files.length === 0) {
+      continue;
+    }
+
+    const authorName = commit.commit.author?.name;
+    const authorLogin = commit.author?.login ?? null;
+    const author = authorLogin !== null || authorName ? { login: authorLogin, name: authorName ?? '' } : undefined;
+
+    commits.push({ message: commit.commit.message, sha: commit.sha, files, ...(author && { author }) });
+  }
+
+  return commits;
+}
+
+/**
+ * Returns whether a failed request to create a release failed because the tag already has a release, which
+ * happens when it was created since the releases were read.
+ */
+function isReleaseAlreadyExistsError(error: unknown): boolean {
+  if (!(error instanceof RequestError) || error.status !== 422) {
+    return false;
+  }
+
+  const data = error.response?.data as { errors?: Array<{ code?: string }> } | undefined;
+  return data?.errors?.some(({ code }) => code === 'already_exists') ?? false;
+}
+
+/**
+ * Creates the missing release of a module tag. Returns the release, or null when the tag is skipped.
+ *
+ * @throws {Error} When the release cannot be created due to permissions or API errors
+ */
+async function backfillRelease(module: TerraformModule, tag: GitHubTag): Promise<GitHubRelease | null> {
+  const {
+    octokit,
+    repo: { owner, repo },
+  } = context;
+  const { name: tagName } = tag;
+  // Module tags always have a version, which getTagsForModule() checked
+  const version = TerraformModule.getVersionFromTag(tagName) as string;
+  const previousTag = module.getPreviousTag(version);
+  const previousTagCommitSHA = module.tags.find(({ name }) => name === previousTag)?.commitSHA ?? null;
+
+  let commits: CommitDetails[];
+  let pullRequest: PullRequestDetails | null = null;
+  let releaseMarker: ReleaseMarker | null = null;
+  let releaseDate: Date;
+  try {
+    const tagCommit = await withRateLimitRetry(() => getTagCommit(tag.commitSHA));
+    const commitMessage = tagCommit.message ?? '';
+    releaseDate = new Date(tagCommit.committer.date);
+
+    // A release commit of this action records the pull request that produced it
+    const releaseCommit = parseReleaseCommitMessage(tagName, commitMessage);
+    releaseMarker = findPrMarker(commitMessage);
+    if (releaseCommit !== null && releaseMarker !== null) {
+      pullRequest = { number: releaseMarker.prNumber, title: releaseCommit.title, body: releaseCommit.body };
+    }
+
+    const previousTagCommit =
+      previousTagCommitSHA === null ? null : await withRateLimitRetry(() => getTagCommit(previousTagCommitSHA));
+    const isReleaseCommit = releaseCommit !== null || releaseMarker !== null;
+    commits = await getTagRangeCommits(
+      module,
+      tagCommit.sha,
+      previousTagCommit?.sha ?? null,
+      isReleaseCommit ? tagCommit.sha : null,
+    );
+  } catch (error) {
+    warning(
+      `Skipping tag ${tagName}: could not read its commits: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+
+  module.clearCommits();
+  assignCommitsToModules(commits, [module]);
+  const changelog = createTerraformModuleChangelogEntry(module, version, version, pullRequest, releaseDate);
+  module.clearCommits();
+
+  const fullDiff = previousTag === null ? '' : `\n\n${createFullDiffLine(previousTag, tagName)}`;
+  const body = `${changelog}${fullDiff}${releaseMarker === null ? '' : `\n\n${releaseMarker.marker}`}`;
+
+  try {
+    const { data } = await withRateLimitRetry(() =>
+      octokit.rest.repos.createRelease({
+        owner,
+        repo,
+        tag_name: tagName,
+        name: tagName,
+        body,
+        draft: false,
+        prerelease: module.config.preRelease || TerraformModule.isPreReleaseVersion(version),
+        // A backfilled release is older than the releases created since, so it never becomes the latest
+        make_latest: 'false',
+      }),
+    );
+    info(`Created release '${tagName}'.`);
+
+    return { id: data.id, title: data.name ?? tagName, tagName: data.tag_name, body: data.body ?? body };
+  } catch (error) {
+    if (isReleaseAlreadyExistsError(error)) {
+      info(`Skipping tag ${tagName}: it already has a release.`);
+      return null;
+    }
+
+    const requestError = error as RequestError;
+    if (requestError.status === 403) {
+      throw new Error(
+        [
+          `Failed to create release: ${tagName} - ${requestError.message}.`,
+          'Ensure that the GitHub Actions workflow has the correct permissions to create releases.',
+          'Update your workflow YAML file with the following block under "permissions":',
+          '\n\npermissions:\n  contents: write',
+        ].join(' '),
+        { cause: error },
+      );
+    }
+    throw new Error(`Failed to create release: [Status = ${requestError.status}] ${requestError.message}`, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Creates a release for every module tag that has none, e.g. after adopting the action in a repository whose
+ * modules were tagged by hand, so that the wiki changelog assembled from the releases is complete. Triggered by
+ * `workflow_dispatch` with `release-backfill` enabled.
+ *
+ * The tags of each module are backfilled oldest first. The body of each release is the changelog entry of the
+ * commits between the module's previous tag and the tag (for the first tag, of every commit up to the tag that
+ * changes the module), attributed to the module as on a merge, and dated with the tag's commit. When the tag
+ * points at a release commit of this action, the pull request it recorded is linked and its release marker is
+ * kept. Backfilled releases are never marked as the latest release.
+ *
+ * The backfill is idempotent: tags that already have a release are skipped, so a re-run after a partial failure
+ * only creates what is missing. Since a backfill can take many requests, requests that hit a GitHub API rate
+ * limit are retried once it resets, and releases are created with a pause between them.
+ *
+ * Note: the commits are read from the GitHub API rather than the checkout, page by page, so that the changelog
+ * of a release lists every commit of its tag range however many there are.
+ *
+ * @param {TerraformModule[]} terraformModules - All Terraform modules in the workspace, with their tags and
+ *  releases.
+ * @returns {Promise<void>} Resolves when every module tag has a release.
+ * @throws {Error} When a release cannot be created due to permissions or API errors
+ */
+export async function backfillReleases(terraformModules: TerraformModule[]): Promise<void> {
+  console.time('Elapsed time backfilling releases');
+
+  try {
+    let createdCount = 0;
+    let skippedCount = 0;
+    for (const module of terraformModules) {
+      const releasedTags = new Set(module.releases.map(({ tagName }) => tagName));
+      // Tags are sorted newest first
+      const missingTags = module.tags.filter(({ name }) => !releasedTags.has(name)).reverse();
+      if (missingTags.length === 0) {
+        continue;
+      }
+
+      startGroup(`Backfilling the releases of ${module.name}`);
+      try {
+        for (const tag of missingTags) {
+          if (createdCount > 0) {
+            await sleep(MUTATIVE_REQUEST_INTERVAL_MS);
+          }
+
+          const release = await backfillRelease(module, tag);
+          if (release === null) {
+            skippedCount++;
+            continue;
+          }
+
+          createdCount++;
+          module.setReleases([release, ...module.releases]);
+        }
+      } finally {
+        endGroup();
+      }
+    }
+
+    const createdReleases = `${createdCount} release${createdCount === 1 ? '' : 's'}`;
+    info(`Backfilled ${createdReleases} (${skippedCount} tag${skippedCount === 1 ? '' : 's'} skipped).`);
+  } finally {
+    console.timeEnd('Elapsed time backfilling releases');
+  }
+}
@@ -0,0 +1,199 @@
+import { config } from '@/config';
+import { context } from '@/context';
+import { deleteTags } from '@/tags';
+import { TerraformModule } from '@/terraform-module';
+import type { GitHubTag, TagMigration } from '@/types';
+import { compareOrdinal } from '@/utils/string';
+import { endGroup, info, startGroup, warning } from '@actions/core';
+import type { RequestError } from '@octokit/request-error';
+
+/**
+ * Maps the tags of every module to the tag scheme configured by `tag-directory-separator` and
+ * `use-version-prefix` (e.g., `kms-v1.2.0` to `kms/v1.2.0`).
+ *
+ * Module tags are matched to their module whatever separator they use, so a module's tags can be a mix of
+ * schemes. They are read from all tags rather than from the module, which leaves out the old tags already
+ * migrated, so that a re-run can still re-point their releases. Tags already in the configured scheme are left out. An old tag whose new tag already exists at
+ * the same commit (a re-run, or two old tags of the same version) is `exists`; at another commit, it is a
+ * `conflict` and is left alone.
+ *
+ * @param {TerraformModule[]} terraformModules - All Terraform modules in the workspace, with their tags and
+ *  releases.
+ * @param {GitHubTag[]} allTags - All tags of the repository.
+ * @returns {TagMigration[]} The migrations, sorted by old tag.
+ *
+ * @example
+ * ```typescript
+ * // With tag-directory-separator '/' and use-version-prefix true
+ * getTagMigrations([kmsModule], [{ name: 'kms-1.2.0', commitSHA: 'abc123' }]);
+ * // Returns: [{ moduleName: 'kms', oldTag: 'kms-1.2.0', newTag: 'kms/v1.2.0', status: 'create', ... }]
+ * ```
+ */
+export function getTagMigrations(terraformModules: TerraformModule[], allTags: GitHubTag[]): TagMigration[] {
+  const tagCommits = new Map(allTags.map((tag) => [tag.name, tag.commitSHA]));
+  const oldTags = terraformModules
+    .flatMap((module) => TerraformModule.getTagsForModule(module.name, allTags).map((tag) => ({ module, tag })))
+    .sort((a, b) => compareOrdinal(a.tag.name, b.tag.name));
+
+  const migrations: TagMigration[] = [];
+  for (const { module, tag } of oldTags) {
+    // Module tags always have a version, which getTagsForModule() checked
+    const version = TerraformModule.getVersionFromTag(tag.name) as string;
+    const newTag = module.getTagForVersion(`${config.useVersionPrefix ? 'v' : ''}${version.replace(/^v/, '')}`);
+    if (newTag === tag.name) {
+      continue;
+    }
+
+    const newTagCommitSHA = tagCommits.get(newTag);
+    let status: TagMigration['status'] = 'create';
+    if (newTagCommitSHA !== undefined) {
+      status = newTagCommitSHA === tag.commitSHA ? 'exists' : 'conflict';
+    }
+    tagCommits.set(newTag, newTagCommitSHA ?? tag.commitSHA);
+
+    const release = module.releases.find(({ tagName }) => tagName === tag.name);
+    migrations.push({
+      moduleName: module.name,
+      oldTag: tag.name,
+      newTag,
+      commitSHA: tag.commitSHA,
+      status,
+      releaseId: release?.id ?? null,
+      renameRelease: release?.title === tag.name,
+    });
+  }
+
+  return migrations;
+}
+
+/**
+ * Describes a migration for the report, e.g. `kms-v1.2.0 -> kms/v1.2.0 (abc1234, release re-pointed)`.
+ */
+function describeTagMigration({ oldTag, newTag, commitSHA, status, releaseId }: TagMigration): string {
+  const details = [commitSHA.slice(0, 7)];
+  if (status === 'exists') {
+    details.push('new tag already exists');
+  }
+  if (releaseId !== null) {
+    details.push('release re-pointed');
+  }
+  if (config.tagMigrationDeleteOldTags) {
+    details.push('old tag deleted');
+  }
+
+  return `${oldTag} -> ${newTag} (${details.join(', ')})`;
+}
+
+/**
+ * Wraps a failed request of the migration, pointing at the workflow permissions when access is denied.
+ */
+function createTagMigrationError(action: string, error: unknown): Error {
+  const requestError = error as RequestError;
+  if (requestError.status === 403) {
+    return new Error(
+      [
+        `Failed to ${action}: ${requestError.message}.`,
+        'Ensure that the GitHub Actions workflow has the correct permissions to create tags and update releases.',
+        'Update your workflow YAML file with the following block under "permissions":',
+        '\n\npermissions:\n  contents: write',
+      ].join(' '),
+      { cause: error },
+    );
+  }
+
+  return new Error(`Failed to ${action}: [Status = ${requestError.status}] ${requestError.message}`, {
+    cause: error,
+  });
+}
+
+/**
+ * Migrates the tags of every module to the configured tag scheme. Triggered by `workflow_dispatch` with
+ * `tag-migration` enabled, after changing `tag-directory-separator` or `use-version-prefix`.
+ *
+ * For each migration (see {@link getTagMigrations}), the new tag is created at the old tag's commit and the
+ * old tag's release is re-pointed to it (and renamed, when it was titled after the old tag). With
+ * `tag-migration-delete-old-tags`, the old tags are then deleted. Conflicts are reported and skipped.
+ *
+ * The plan is reported first. With `tag-migration-dry-run`, nothing else is done. The migration is
+ * idempotent: a re-run after a partial failure only completes what is missing.
+ *
+ * Note: the new tags are lightweight tags, since the message and signature of an annotated tag name the tag
+ * itself. Release bodies are not changed; run `workflow_dispatch` without `tag-migration` afterwards to
+ * rebuild them with the new tag names.
+ *
+ * @param {TerraformModule[]} terraformModules - All Terraform modules in the workspace, with their tags and
+ *  releases.
+ * @param {GitHubTag[]} allTags - All tags of the repository.
+ * @returns {Promise<void>} Resolves when the tags are migrated (or reported, in a dry run).
+ * @throws {Error} When a tag or release update fails due to permissions or API errors
+ */
+export async function migrateTags(terraformModules: TerraformModule[], allTags: GitHubTag[]): Promise<void> {
+  startGroup('Planning tag migration');
+  const migrations = getTagMigrations(terraformModules, allTags);
+  const applicable = migrations.filter(({ status }) => status !== 'conflict');
+  try {
+    for (const migration of migrations) {
+      if (migration.status === 'conflict') {
+        warning(
+          `Skipping tag ${migration.oldTag}: ${migration.newTag} already exists at another commit than ${migration.commitSHA}.`,
+        );
+      } else {
+        info(describeTagMigration(migration));
+      }
+    }
+  } finally {
+    endGroup();
+  }
+
+  const migratedTags = `${applicable.length} tag${applicable.length === 1 ? '' : 's'}`;
+  if (applicable.length === 0) {
+    info('No tags to migrate: every module tag uses the configured tag scheme.');
+    return;
+  }
+  if (config.tagMigrationDryRun) {
+    info(`Dry run: ${migratedTags} would be migrated. No tag or release was changed.`);
+    return;
+  }
+
+  const {
+    octokit,
+    repo: { owner, repo },
+  } = context;
+
+  startGroup('Migrating tags');
+  try {
+    for (const { oldTag, newTag, commitSHA, status, releaseId, renameRelease } of applicable) {
+      if (status === 'create') {
+        try {
+          await octokit.rest.git.createRef({ owner, repo, ref: `refs/tags/${newTag}`, sha: commitSHA });
+          info(`Created tag ${newTag} at ${commitSHA}.`);
+        } catch (error) {
+          throw createTagMigrationError(`create tag ${newTag}`, error);
+        }
+      }
+
+      if (releaseId !== null) {
+        try {
+          await octokit.rest.repos.updateRelease({
+            owner,
+            repo,
+            release_id: releaseId,
+            tag_name: newTag,
+            ...(renameRelease && { name: newTag }),
+          });
+          info(`Re-pointed release '${oldTag}' to tag ${newTag}.`);
+        } catch (error) {
+          throw createTagMigrationError(`re-point release '${oldTag}' to tag ${newTag}`, error);
+        }
+      }
+    }
+  } finally {
+    endGroup();
+  }
+
+  if (config.tagMigrationDeleteOldTags) {
+    await deleteTags(applicable.map(({ oldTag }) => oldTag));
+  }
+
+  info(`Migrated ${migratedTags}.`);
+}
@@ -1,15 +1,39 @@
-import { relative } from 'node:path';
-import { computeReleaseType } from '@/commit-analyzer';
-import { config } from '@/config';
+import { basename, relative } from 'node:path';
+import {
+  computeReleaseType,
+  findRevertedCommits,
+  higherPriorityReleaseType,
+  isNoReleaseCommit,
+  parseReleaseDirectives,
+} from '@/commit-analyzer';
+import { config, getConfig } from '@/config';
 import { context } from '@/context';
-import type { CommitDetails, GitHubRelease, GitHubTag, ReleaseReason, ReleaseType } from '@/types';
+import type {
+  CommitDetails,
+  Config,
+  GitHubRelease,
+  GitHubTag,
+  InterfaceChange,
+  ModuleConfigOverrides,
+  ReleaseAsDirective,
+  ReleaseLabelOverride,
+  ReleaseReason,
+  ReleaseType,
+  RevertedCommit,
+  VersionGroup,
+} from '@/types';
 import {
   MODULE_TAG_REGEX,
+  RELEASE_LABEL_SKIP,
   RELEASE_REASON,
   RELEASE_TYPE,
+  SEMVER_SOURCE,
   VALID_TAG_DIRECTORY_SEPARATORS,
   VERSION_TAG_REGEX,
 } from '@/utils/constants';
+import { loadModuleConfigOverrides } from '@/utils/module-config';
+import { getPreReleaseChannel } from '@/utils/pre-release';
+import { getReleaseLabelOverride } from '@/utils/release-label';
 import { removeLeadingCharacters, removeTrailingCharacters } from '@/utils/string';
 import { endGroup, info, startGroup } from '@actions/core';
 
@@ -46,6 +70,31 @@ export class TerraformModule {
    */
   private _releases: GitHubRelease[] = [];
 
+  /**
+   * Map of local modules called by this module (via a relative `source`), keyed by module name.
+   */
+  private readonly _dependencies: Map<string, TerraformModule> = new Map();
+
+  /**
+   * Map of local dependencies whose pending release triggers a release of this module, keyed by module name.
+   */
+  private readonly _dependencyTriggers: Map<string, TerraformModule> = new Map();
+
+  /**
+   * Breaking changes to the module's variables and outputs since its latest tag.
+   */
+  private _breakingInterfaceChanges: InterfaceChange[] = [];
+
+  /**
+   * Config values overridden by the module's `.terraform-module-releaser.yml`.
+   */
+  private readonly _configOverrides: ModuleConfigOverrides;
+
+  /**
+   * The version group this module is released in lockstep with, if any.
+   */
+  private _versionGroup: VersionGroup | null = null;
+
   constructor(directory: string) {
     this.directory = directory;
 
@@ -58,6 +107,42 @@ export class TerraformModule {
     const pathForModuleName = relativePath.startsWith('../') ? directory : relativePath;
 
     this.name = TerraformModule.getTerraformModuleNameFromRelativePath(pathForModuleName);
+    this._configOverrides = loadModuleConfigOverrides(directory);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // Config
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Gets the config values overridden by the module's `.terraform-module-releaser.yml`.
+   *
+   * @returns {Readonly<ModuleConfigOverrides>} The overridden values, or an empty object if the module has no config file
+   */
+  public get configOverrides(): Readonly<ModuleConfigOverrides> {
+    return this._configOverrides;
+  }
+
+  /**
+   * Gets the effective config for this module: the action's config with the module's overrides applied.
+   *
+   * Use this instead of the global config for any setting that a module config file may override.
+   *
+   * @returns {Config} The module's effective config
+   */
+  public get config(): Config {
+    return { ...getConfig(), ...this._configOverrides };
+  }
+
+  /**
+   * Checks whether a module scope used by pull request labels and commit directives (e.g., the `kms` in
+   * `release:major:kms` or `Release-As: kms=none`) refers to this module.
+   *
+   * @param {string} scope - The module name (e.g., `modules/kms`) or directory name (e.g., `kms`)
+   * @returns {boolean} True if the scope matches this module's name or directory name
+   */
+  public matchesScope(scope: string): boolean {
+    return scope === this.name || scope === basename(this.directory);
   }
 
   //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -102,6 +187,37 @@ export class TerraformModule {
     return this.commits.map((c) => c.message);
   }
 
+  /**
+   * Gets the commits of this module that are reverted by later commits of this module, paired with
+   * their reverts (see {@link findRevertedCommits}).
+   *
+   * @returns {RevertedCommit[]} The reverted commits with their reverts, or an empty array if none
+   */
+  public getRevertedCommits(): RevertedCommit[] {
+    return findRevertedCommits(this.commits);
+  }
+
+  /**
+   * Gets the commits of this module without reverted commits and the commits reverting them, since each
+   * pair cancels out. These are the commits listed in the changelog.
+   *
+   * @returns {CommitDetails[]} The commits that are not cancelled by a revert
+   */
+  public getUnrevertedCommits(): CommitDetails[] {
+    const cancelledCommits = new Set(this.getRevertedCommits().flatMap(({ target, revert }) => [target, revert]));
+    return this.commits.filter((commit) => !cancelledCommits.has(commit));
+  }
+
+  /**
+   * Gets the commit messages of this module without reverted commits and the commits reverting them,
+   * since each pair cancels out. These are the messages that drive the release type.
+   *
+   * @returns {string[]} The commit messages that are not cancelled by a revert
+   */
+  public getUnrevertedCommitMessages(): string[] {
+    return this.getUnrevertedCommits().map((commit) => commit.message);
+  }
+
   /**
    * Adds a commit to this module's commit collection with automatic deduplication.
    *
@@ -131,14 +247,122 @@ export class TerraformModule {
   /**
    * Clears all commits associated with this Terraform module.
    *
-   * This method removes all commit details from the module's internal commit tracking.
-   * It is typically called after a module has been successfully released to prevent
-   * the module from being released again for the same commits.
+   * This method removes all commit details from the module's internal commit tracking, along
+   * with any dependency triggers and breaking interface changes. It is typically called after a
+   * module has been successfully released to prevent the module from being released again for
+   * the same changes.
    *
    * @returns {void}
    */
   public clearCommits(): void {
     this._commits.clear();
+    this._dependencyTriggers.clear();
+    this._breakingInterfaceChanges = [];
+  }
+
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // Dependencies
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Gets the local modules this module calls through `module` blocks with a relative `source`.
+   *
+   * @returns {ReadonlyArray<TerraformModule>} A read-only array of the module's local dependencies
+   */
+  public get dependencies(): ReadonlyArray<TerraformModule> {
+    return Array.from(this._dependencies.values());
+  }
+
+  /**
+   * Records a local module that this module calls. Self-references are ignored.
+   *
+   * @param {TerraformModule} dependency - The local module referenced by this module
+   * @returns {void}
+   */
+  public addDependency(dependency: TerraformModule): void {
+    if (dependency !== this && !this._dependencies.has(dependency.name)) {
+      this._dependencies.set(dependency.name, dependency);
+    }
+  }
+
+  /**
+   * Gets the local dependencies whose pending release triggers a release of this module.
+   *
+   * @returns {ReadonlyArray<TerraformModule>} A read-only array of the triggering dependencies
+   */
+  public get dependencyTriggers(): ReadonlyArray<TerraformModule> {
+    return Array.from(this._dependencyTriggers.values());
+  }
+
+  /**
+   * Records that a local dependency is being released and that this module must be released with it.
+   *
+   * Dependency triggers are recorded (rather than computed on demand from {@link dependencies}) so the
+   * decision survives the dependency's own release: once a dependency is released its commits are
+   * cleared, yet its dependents still need to be released within the same run.
+   *
+   * @param {TerraformModule} dependency - The dependency whose release triggers this module
+   * @returns {void}
+   *
+   * @example
+   * ```typescript
+   * const zoo = new TerraformModule('/path/to/zoo');
+   * zoo.addDependencyTrigger(animal); // zoo calls animal, which has changes
+   * zoo.getReleaseReasons(); // ['local-dependency-update']
+   * ```
+   */
+  public addDependencyTrigger(dependency: TerraformModule): void {
+    if (dependency !== this && !this._dependencyTriggers.has(dependency.name)) {
+      this._dependencyTriggers.set(dependency.name, dependency);
+    }
+  }
+
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // Version Group
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Gets the version group this module is released in lockstep with.
+   *
+   * @returns {VersionGroup | null} The module's version group, or null if it is not in a group
+   */
+  public get versionGroup(): VersionGroup | null {
+    return this._versionGroup;
+  }
+
+  /**
+   * Adds this module to a version group. The group's members (including this module) are then released
+   * together with the same release type and version.
+   *
+   * @param {VersionGroup} group - The version group the module belongs to
+   * @returns {void}
+   */
+  public setVersionGroup(group: VersionGroup): void {
+    this._versionGroup = group;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+  // Interface Changes
+  //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Gets the breaking changes to this module's variables and outputs since its latest tag.
+   *
+   * @returns {ReadonlyArray<InterfaceChange>} A read-only array of breaking interface changes
+   */
+  public get breakingInterfaceChanges(): ReadonlyArray<InterfaceChange> {
+    return this._breakingInterfaceChanges;
+  }
+
+  /**
+   * Records the breaking changes to this module's variables and outputs since its latest tag. Any
+   * breaking change raises the release type to major.
+   *
+   * @param {ReadonlyArray<InterfaceChange>} changes - The detected breaking interface changes
+   * @returns {void}
+   */
+  public setBreakingInterfaceChanges(changes: ReadonlyArray<InterfaceChange>): void {
+    this._breakingInterfaceChanges = [...changes];
   }
 
   //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -153,6 +377,10 @@ export class TerraformModule {
    * `{moduleName}/v{x.y.z}` or `{moduleName}/x.y.z`. Throws if any tag is invalid.
    * This method replaces any previously set tags.
    *
+   * A tag in another tag scheme is left out when the tag of the same version in the configured scheme (see
+   * `tag-directory-separator` and `use-version-prefix`) points at the same commit, as an old tag kept by a tag
+   * migration does. Each version is then listed once, and the old tag is not mistaken for a tag without a release.
+   *
    * @param {ReadonlyArray<GitHubTag>} tags - Array of GitHubTag objects to associate with this module
    * @throws {Error} If any tag name does not match the required format
    * @returns {void}
@@ -171,14 +399,23 @@ export class TerraformModule {
   public setTags(tags: ReadonlyArray<GitHubTag>): void {
     // Extract versions once and validate during the process
     const tagVersionMap = new Map<GitHubTag, string>();
+    const tagRefs = new Set(tags.map(({ name, commitSHA }) => `${name}@${commitSHA}`));
+    const currentTags: GitHubTag[] = [];
 
-    // First pass: validate all tags and extract versions
+    // First pass: validate all tags and extract versions, leaving out the tags superseded by a migrated tag
+    // at the same commit
     for (const tag of tags) {
-      tagVersionMap.set(tag, this.extractVersionFromTag(tag.name));
+      const version = this.extractVersionFromTag(tag.name);
+      tagVersionMap.set(tag, version);
+
+      const schemeTag = this.getTagForVersion(`${config.useVersionPrefix ? 'v' : ''}${version}`);
+      if (schemeTag === tag.name || !tagRefs.has(`${schemeTag}@${tag.commitSHA}`)) {
+        currentTags.push(tag);
+      }
     }
 
-    // Sort using pre-extracted versions (create copy to avoid mutating input)
-    this._tags = [...tags].sort((a, b) => {
+    // Sort using pre-extracted versions
+    this._tags = currentTags.sort((a, b) => {
       const aVersion = tagVersionMap.get(a);
       const bVersion = tagVersionMap.get(b);
       if (!aVersion || !bVersion) {
@@ -256,6 +493,22 @@ export class TerraformModule {
     return TerraformModule.getVersionFromTag(latestTag);
   }
 
+  /**
+   * Returns the tag that precedes a version of this module: the highest existing tag with a lower version.
+   * Used to link a release to the changes since the previous one.
+   *
+   * @param {string} version - The version to find the predecessor of, with or without a "v" prefix (e.g., 'v1.2.3')
+   * @returns {string | null} The previous tag name (e.g., 'module-name/v1.2.2'), or null if no lower version exists.
+   */
+  public getPreviousTag(version: string): string | null {
+    const normalizedVersion = version.replace(/^v/, '');
+    const previousTag = this.tags.find(
+      (tag) => this.compareSemanticVersions(this.extractVersionFromTag(tag.name), normalizedVersion) < 0,
+    );
+
+    return previousTag?.name ?? null;
+  }
+
   /**
    * Extracts the version portion of a module tag, preserving any version prefix (such as "v").
    *
@@ -272,6 +525,21 @@ export class TerraformModule {
     return match ? match[3] : null;
   }
 
+  /**
+   * Checks whether a version carries a pre-release suffix (e.g. `v2.0.0-rc.1`).
+   *
+   * Static because both new releases and orphan-tag recovery in `createTaggedReleases` need to flag
+   * GitHub releases of pre-release versions accordingly.
+   *
+   * @param {string} version - A version with or without prefix (e.g. `v1.2.3` or `1.2.3-beta.2`).
+   * @returns {boolean} True if the version is a valid version with a pre-release suffix.
+   */
+  public static isPreReleaseVersion(version: string): boolean {
+    const match = VERSION_TAG_REGEX.exec(version);
+
+    return match?.[4] !== undefined;
+  }
+
   /**
    * Returns the version part of the latest tag for this module, without any "v" prefix.
    *
@@ -371,45 +639,300 @@ export class TerraformModule {
   }
 
   /**
-   * Checks if the module has direct file changes based on commit history.
+   * Checks if a commit or pull request body opts this module out of the release via a `[skip release]`
+   * marker or a `Release-As: none` / `Release-As: <module>=none` footer.
+   *
+   * @param {string} text - The commit message or pull request body
+   * @returns {boolean} True if the text contains a skip directive that applies to this module
+   */
+  private isSkippedByDirective(text: string): boolean {
+    const { skipAll, skipModules } = parseReleaseDirectives(text);
+    return skipAll || skipModules.some((scope) => this.matchesScope(scope));
+  }
+
+  /**
+   * Gets the messages of the commits that count towards a release of this module, i.e. all commits except
+   * those opting this module out with a skip directive, those cancelled by a revert, and those of a
+   * conventional commit type mapped to `none`.
+   *
+   * @returns {string[]} The releasable commit messages
+   */
+  private getReleasableCommitMessages(): string[] {
+    const moduleConfig = this.config;
+    return this.getUnrevertedCommitMessages().filter(
+      (message) => !this.isSkippedByDirective(message) && !isNoReleaseCommit(message, moduleConfig),
+    );
+  }
+
+  /**
+   * Gets the messages the module's release type is computed from, as selected by `semver-source`: the
+   * releasable commit messages, or the pull request title (and body) for repositories that squash merge.
+   * Only the release type is affected; whether the module changed is always determined by its commits.
+   *
+   * @returns {string[]} The messages to analyze for the release type
+   */
+  private getSemverSourceMessages(): string[] {
+    switch (this.config.semverSource) {
+      case SEMVER_SOURCE.PR_TITLE:
+        return [context.prTitle];
+      case SEMVER_SOURCE.PR_TITLE_AND_BODY:
+        return [`${context.prTitle}\n\n${context.prBody}`.trim()];
+      default:
+        return this.getReleasableCommitMessages();
+    }
+  }
+
+  /**
+   * Checks if the module has direct file changes based on commit history. Commits that opt this module
+   * out of the release with a skip directive, commits cancelled by a revert, and commits of a type mapped
+   * to `none` do not count.
    *
    * @returns {boolean} True if the module has commits with direct file changes, false otherwise.
    */
   private hasDirectChanges(): boolean {
-    return this.commitMessages.length > 0;
+    return this.getReleasableCommitMessages().length > 0;
+  }
+
+  /**
+   * Checks if any local dependency of the module is being released.
+   *
+   * @returns {boolean} True if the module has at least one dependency trigger, false otherwise.
+   */
+  private hasDependencyUpdates(): boolean {
+    return this._dependencyTriggers.size > 0;
+  }
+
+  /**
+   * Checks if the module's variables or outputs changed in a way that breaks existing callers.
+   *
+   * @returns {boolean} True if at least one breaking interface change was detected, false otherwise.
+   */
+  private hasBreakingInterfaceChanges(): boolean {
+    return this._breakingInterfaceChanges.length > 0;
+  }
+
+  /**
+   * Gets the release type override requested for this module by `release:<type>[:<scope>]` pull request labels.
+   *
+   * @returns {ReleaseLabelOverride | null} The requested release type, `'skip'`, or null when no label applies.
+   */
+  private getReleaseLabelOverride(): ReleaseLabelOverride | null {
+    return getReleaseLabelOverride(this);
   }
 
   /**
-   * Evaluates whether the module needs any type of release based on changes, dependencies, or initial state.
+   * Checks if the pull request excludes this module from the release entirely, either with a `release:skip`
+   * label or with a skip directive in its body.
+   *
+   * @returns {boolean} True if the pull request opts this module out of the release, false otherwise.
+   */
+  private isSkippedByPullRequest(): boolean {
+    return this.getReleaseLabelOverride() === RELEASE_LABEL_SKIP || this.isSkippedByDirective(context.prBody);
+  }
+
+  /**
+   * Picks the `Release-As` version pin that applies to this module from a set of directives: pins scoped to
+   * this module take precedence over unscoped ones, and the highest version wins when several apply.
+   *
+   * @param {ReleaseAsDirective[]} directives - The `Release-As` directives from a single source
+   * @returns {string | null} The pinned version without any "v" prefix, or null when no directive applies
+   * @throws {Error} When an applicable pin is not a valid semantic version
+   */
+  private selectPinnedVersion(directives: ReleaseAsDirective[]): string | null {
+    const scoped = directives.filter(({ module }) => module !== null && this.matchesScope(module));
+    const applicable = scoped.length > 0 ? scoped : directives.filter(({ module }) => module === null);
+
+    let pinnedVersion: string | null = null;
+    for (const { version } of applicable) {
+      if (!VERSION_TAG_REGEX.test(version)) {
+        throw new Error(
+          `Invalid Release-As version '${version}' for module '${this.name}'. Expected #.#.# or v#.#.# format.`,
+        );
+      }
+
+      const candidate = version.replace(/^v/, '');
+      if (pinnedVersion === null || this.compareSemanticVersions(candidate, pinnedVersion) > 0) {
+        pinnedVersion = candidate;
+      }
+    }
+
+    return pinnedVersion;
+  }
+
+  /**
+   * Resolves the next version pinned for this module by `Release-As: [<module>=]<version>` footers.
+   *
+   * Footers in the pull request body take precedence over those in the module's commits. An unscoped footer in
+   * the pull request body only pins modules with direct changes, so that modules released only for a local
+   * dependency or their version group keep their computed version. When a
+   * pre-release channel is active and the pin has no pre-release suffix of its own, the channel suffix is
+   * added the same way as for computed versions (e.g., `3.0.0` → `3.0.0-rc.1`).
+   *
+   * @returns {string | null} The pinned version without any "v" prefix, or null when no pin applies
+   * @throws {Error} When the pin is not a valid semantic version or not greater than the latest version
+   */
+  private getPinnedVersion(): string | null {
+    const commitDirectives = this.getReleasableCommitMessages().flatMap(
+      (message) => parseReleaseDirectives(message).releaseAs,
+    );
+    const prBodyDirectives = parseReleaseDirectives(context.prBody).releaseAs.filter(
+      ({ module }) => module !== null || this.hasDirectChanges(),
+    );
+    const pinnedVersion = this.selectPinnedVersion(prBodyDirectives) ?? this.selectPinnedVersion(commitDirectives);
+    if (pinnedVersion === null) {
+      return null;
+    }
+
+    const latestVersion = this.getLatestTagVersionNumber();
+    const channel = getPreReleaseChannel();
+    let version = pinnedVersion;
+    if (channel !== null && !TerraformModule.isPreReleaseVersion(pinnedVersion)) {
+      // Continue the counter when the latest version is already a pre-release of the pinned version
+      const channelPrefix = `${pinnedVersion}-${channel}.`;
+      const previousCounter = latestVersion?.startsWith(channelPrefix) ? latestVersion.slice(channelPrefix.length) : '';
+      const counter = /^\d+$/.test(previousCounter) ? Number(previousCounter) + 1 : 1;
+      version = `${pinnedVersion}-${channel}.${counter}`;
+    }
+
+    if (latestVersion !== null && this.compareSemanticVersions(version, latestVersion) <= 0) {
+      throw new Error(
+        `Invalid Release-As version '${pinnedVersion}' for module '${this.name}'. It must be greater than the latest version '${this.getLatestTagVersion()}'.`,
+      );
+    }
+
+    return version;
+  }
+
+  /**
+   * Evaluates whether the module needs a release of its own based on changes, dependencies, or initial
+   * state, disregarding its version group.
+   *
+   * @returns {boolean} True if the module requires a release of its own, false otherwise.
+   */
+  private needsOwnRelease(): boolean {
+    if (this.isSkippedByPullRequest()) {
+      return false;
+    }
+
+    return this.isInitialRelease() || this.hasDirectChanges() || this.hasDependencyUpdates();
+  }
+
+  /**
+   * Gets the other members of this module's version group that need a release of their own, and therefore
+   * pull this module into the release.
+   *
+   * @returns {TerraformModule[]} The version group members triggering a release of the group
+   */
+  private getVersionGroupTriggers(): TerraformModule[] {
+    return this._versionGroup?.members.filter((member) => member !== this && member.needsOwnRelease()) ?? [];
+  }
+
+  /**
+   * Evaluates whether the module needs any type of release based on changes, dependencies, or initial state,
+   * or because another member of its version group needs one. A `release:skip` pull request label or a skip
+   * directive in the pull request body excludes the module regardless of its changes.
    *
    * @returns {boolean} True if the module requires a release for any reason, false otherwise.
    */
   public needsRelease(): boolean {
-    return this.isInitialRelease() || this.hasDirectChanges();
+    if (this.isSkippedByPullRequest()) {
+      return false;
+    }
+
+    return this.needsOwnRelease() || this.getVersionGroupTriggers().length > 0;
+  }
+
+  /**
+   * Checks if the module would have been released but was intentionally skipped by a skip directive in its
+   * commits or the pull request body, or by a `release:skip` label. Changes that are cancelled out by a
+   * revert, and commits of a type mapped to `none`, do not count.
+   *
+   * @returns {boolean} True if the module has changes (or is unreleased) but will not be released.
+   */
+  public isReleaseSkipped(): boolean {
+    const moduleConfig = this.config;
+    const hasReleasableChanges = this.getUnrevertedCommitMessages().some(
+      (message) => !isNoReleaseCommit(message, moduleConfig),
+    );
+    return !this.needsRelease() && (this.isInitialRelease() || hasReleasableChanges || this.hasDependencyUpdates());
   }
 
   /**
    * Computes the appropriate semantic version release type based on commit analysis and module state.
    *
    * Delegates to {@link computeReleaseType} from the commit-analyzer module, which handles
-   * both keyword-based and conventional-commits-based detection strategies. The highest
-   * priority release type across all commits wins (MAJOR > MINOR > PATCH). If no commits
-   * match any rule, `config.defaultSemverLevel` is used as the fallback.
+   * both keyword-based and conventional-commits-based detection strategies. With `semver-source` set to
+   * `pr-title` or `pr-title-and-body`, the pull request title (and body) is analyzed instead of the
+   * commits. The highest priority release type across all commits wins (MAJOR > MINOR > PATCH). If no commits
+   * match any rule, the module's `defaultSemverLevel` is used as the fallback. Breaking changes to the
+   * module's variables or outputs force a MAJOR release regardless of the commit messages. Modules
+   * released only because a local dependency changed receive a PATCH release.
+   *
+   * A `release:<type>` pull request label replaces the computed release type of any module that needs a
+   * release, in either direction: reviewers have the final say over the commit messages. A `Release-As`
+   * version pin takes precedence over both, and the release type is the one the pinned version represents.
+   *
+   * Members of a version group share the highest release type across the members that need a release of
+   * their own.
    *
    * @returns {ReleaseType | null} The computed release type (major, minor, or patch), or null if no release is needed.
    */
   public getReleaseType(): ReleaseType | null {
+    if (!this.needsRelease()) {
+      return null;
+    }
+
+    // Members of a version group share the highest release type across the members with their own release
+    return [this, ...this.getVersionGroupTriggers()]
+      .map((member) => member.getOwnReleaseType())
+      .filter((releaseType) => releaseType !== null)
+      .reduce(higherPriorityReleaseType);
+  }
+
+  /**
+   * Computes the release type of the module's own release, disregarding its version group.
+   *
+   * @returns {ReleaseType | null} The computed release type, or null if the module needs no release of its own.
+   */
+  private getOwnReleaseType(): ReleaseType | null {
+    if (!this.needsOwnRelease()) {
+      return null;
+    }
+
+    // A pinned version determines the release type (e.g., 1.4.2 → 3.0.0 is a major release)
+    const pinnedVersion = this.getPinnedVersion();
+    if (pinnedVersion !== null) {
+      return this.getPinnedReleaseType(pinnedVersion);
+    }
+
+    // A release label overrides everything derived from the module's changes
+    const labelOverride = this.getReleaseLabelOverride();
+    if (labelOverride !== null && labelOverride !== RELEASE_LABEL_SKIP) {
+      return labelOverride;
+    }
+
     // If this is initial release, return the default semver level
     if (this.isInitialRelease()) {
-      return config.defaultSemverLevel;
+      return this.config.defaultSemverLevel;
     }
 
     // If we have commits, analyze them for release type
     if (this.hasDirectChanges()) {
-      const result = computeReleaseType(this.commitMessages);
+      // Breaking interface changes override whatever the commit messages indicate
+      if (this.hasBreakingInterfaceChanges()) {
+        return RELEASE_TYPE.MAJOR;
+      }
+
+      const moduleConfig = this.config;
+      const result = computeReleaseType(this.getSemverSourceMessages(), moduleConfig);
 
       // If no rules matched in any commit, use the default semver level
-      return result ?? config.defaultSemverLevel;
+      return result ?? moduleConfig.defaultSemverLevel;
+    }
+
+    // A dependency update alone does not change this module's interface
+    if (this.hasDependencyUpdates()) {
+      return RELEASE_TYPE.PATCH;
     }
 
     // Otherwise, return null
@@ -435,6 +958,20 @@ export class TerraformModule {
     if (this.hasDirectChanges()) {
       reasons.push(RELEASE_REASON.DIRECT_CHANGES);
     }
+    if (this.hasDirectChanges() && this.hasBreakingInterfaceChanges()) {
+      reasons.push(RELEASE_REASON.BREAKING_INTERFACE_CHANGE);
+    }
+    if (this.hasDependencyUpdates()) {
+      reasons.push(RELEASE_REASON.LOCAL_DEPENDENCY_UPDATE);
+    }
+    if (this.getVersionGroupTriggers().length > 0) {
+      reasons.push(RELEASE_REASON.VERSION_GROUP);
+    }
+    if (this.getPinnedVersion() !== null) {
+      reasons.push(RELEASE_REASON.RELEASE_AS);
+    } else if (this.getReleaseLabelOverride() !== null) {
+      reasons.push(RELEASE_REASON.RELEASE_LABEL);
+    }
     return reasons;
   }
 
@@ -444,6 +981,21 @@ export class TerraformModule {
    * Analyzes the latest tag and determines the next version number according to the
    * computed release type (major, minor, or patch). Returns null if no release is needed.
    *
+   * When a pre-release channel is active (see {@link getPreReleaseChannel}), the version carries a
+   * `-<channel>.N` suffix. Successive releases on the same channel increment `N` for as long as the
+   * pending version already covers the release type (e.g., `v2.0.0-rc.1` → `v2.0.0-rc.2`); a higher
+   * release type starts a new version cycle. Without a channel, a pending pre-release is promoted by
+   * stripping its suffix (e.g., `v2.0.0-rc.2` → `v2.0.0`).
+   *
+   * A `Release-As` footer in the pull request body or the module's commits replaces the computed version
+   * with the pinned one (e.g., `Release-As: kms=3.0.0`), which must be greater than the latest version.
+   *
+   * Members of a version group are released on the highest next version across the group, so that they
+   * stay in lockstep even if their latest versions have drifted apart.
+   *
+   * In zero major mode, modules at `0.y.z` bump one position lower (e.g., a major release of `v0.3.1` is
+   * `v0.4.0`) until they graduate to `1.0.0` (see {@link getVersionBumpType}).
+   *
    * @returns {string | null} The next release tag version (e.g., 'v1.2.3' or '1.2.3'), or null if no release is needed.
    *
    * @example
@@ -458,9 +1010,41 @@ export class TerraformModule {
       return null;
     }
 
+    // Members of a version group share the highest next version of all members being released. Versions
+    // are compared without their "v" prefix.
+    let releaseTagVersion = this.computeReleaseTagVersion(releaseType);
+    for (const member of this._versionGroup?.members ?? []) {
+      if (member === this || !member.needsRelease()) {
+        continue;
+      }
+
+      const memberVersion = member.computeReleaseTagVersion(releaseType);
+      if (this.compareSemanticVersions(memberVersion.replace(/^v/, ''), releaseTagVersion.replace(/^v/, '')) > 0) {
+        releaseTagVersion = memberVersion;
+      }
+    }
+
+    return releaseTagVersion;
+  }
+
+  /**
+   * Computes the next version of this module for a release of the given type, disregarding its version
+   * group: the pinned version if a `Release-As` footer applies, otherwise the bump of the latest version.
+   *
+   * @param {ReleaseType} releaseType - The type of the release
+   * @returns {string} The next release tag version (e.g., 'v1.2.3' or '1.2.3')
+   */
+  private computeReleaseTagVersion(releaseType: ReleaseType): string {
+    const pinnedVersion = this.getPinnedVersion();
+    if (pinnedVersion !== null) {
+      return `${config.useVersionPrefix ? 'v' : ''}${pinnedVersion}`;
+    }
+
+    const channel = getPreReleaseChannel();
     const latestTagVersion = this.getLatestTagVersion();
     if (latestTagVersion === null) {
-      return config.defaultFirstTag;
+      const { defaultFirstTag } = this.config;
+      return channel === null ? defaultFirstTag : `${defaultFirstTag}-${channel}.1`;
     }
 
     // Note: At this point, we'll always have a valid format either 'v1.2.3' or '1.2.3' based on how we validate
@@ -472,21 +1056,53 @@ export class TerraformModule {
       throw new Error(`Invalid version format: '${latestTagVersion}'. Expected v#.#.# or #.#.# format.`);
     }
 
-    const [, major, minor, patch] = versionMatch;
+    const [, major, minor, patch, preRelease] = versionMatch;
     const semver = [Number(major), Number(minor), Number(patch)];
+    const bumpType = this.getVersionBumpType(releaseType, semver);
+
+    // A pending pre-release (e.g. 2.0.0-rc.1) already represents a bump from the previous final version. Only
+    // bump again when this release requires a higher release type than the pending version covers.
+    const isPendingPreRelease = preRelease !== undefined;
+    const pendingReleaseType = TerraformModule.getPendingReleaseType(semver);
+    const shouldBump =
+      !isPendingPreRelease ||
+      (bumpType !== pendingReleaseType && higherPriorityReleaseType(pendingReleaseType, bumpType) === bumpType);
+
+    if (shouldBump) {
+      if (bumpType === RELEASE_TYPE.MAJOR) {
+        semver[0]++;
+        semver[1] = 0;
+        semver[2] = 0;
+      } else if (bumpType === RELEASE_TYPE.MINOR) {
+        semver[1]++;
+        semver[2] = 0;
+      } else {
+        semver[2]++;
+      }
+    }
+
+    const version = `${config.useVersionPrefix ? 'v' : ''}${semver.join('.')}`;
+    if (channel === null) {
+      return version;
+    }
+
+    // Continue the counter when staying on the same channel within the same version cycle
+    const [previousChannel, previousCounter] = preRelease?.split('.') ?? [];
+    const counter =
+      !shouldBump && previousChannel === channel && /^\d+$/.test(previousCounter ?? '')
+        ? Number(previousCounter) + 1
+        : 1;
+
+    const releaseTagVersion = `${version}-${channel}.${counter}`;
 
-    if (releaseType === RELEASE_TYPE.MAJOR) {
-      semver[0]++;
-      semver[1] = 0;
-      semver[2] = 0;
-    } else if (releaseType === RELEASE_TYPE.MINOR) {
-      semver[1]++;
-      semver[2] = 0;
-    } else {
-      semver[2]++;
+    // Switching to a channel that sorts lower (e.g. rc → beta) cannot produce a version above the pending one
+    if (this.compareSemanticVersions(releaseTagVersion.replace(/^v/, ''), latestTagVersion.replace(/^v/, '')) <= 0) {
+      throw new Error(
+        `Invalid pre-release channel '${channel}' for module '${this.name}'. Version '${releaseTagVersion}' must be greater than the latest version '${latestTagVersion}'.`,
+      );
     }
 
-    return `${config.useVersionPrefix ? 'v' : ''}${semver.join('.')}`;
+    return releaseTagVersion;
   }
 
   /**
@@ -509,7 +1125,17 @@ export class TerraformModule {
       return null;
     }
 
-    return `${this.name}${config.tagDirectorySeparator}${releaseTagVersion}`;
+    return this.getTagForVersion(releaseTagVersion);
+  }
+
+  /**
+   * Returns the tag of this module for the given version, in the format '{moduleName}/{version}'.
+   *
+   * @param {string} version - The version, including any prefix (e.g., 'v1.2.3')
+   * @returns {string} The full tag string (e.g., 'module-name/v1.2.3')
+   */
+  public getTagForVersion(version: string): string {
+    return `${this.name}${config.tagDirectorySeparator}${version}`;
   }
 
   //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -539,36 +1165,117 @@ export class TerraformModule {
     // This will never be null since TerraformModule.isModuleAssociatedWithTag already validates the regex match
     const match = MODULE_TAG_REGEX.exec(tag) as RegExpExecArray;
 
-    // Extract the numerical version components (groups 4, 5, 6 are major.minor.patch)
+    // Extract the numerical version components (groups 4, 5, 6 are major.minor.patch, 7 is the pre-release)
     const major = match[4];
     const minor = match[5];
     const patch = match[6];
+    const preRelease = match[7];
 
-    return `${major}.${minor}.${patch}`;
+    return `${major}.${minor}.${patch}${preRelease === undefined ? '' : `-${preRelease}`}`;
   }
 
   /**
-   * Compares two semantic version strings safely.
+   * Returns the part of the version that a release of the given type bumps.
    *
-   * @param {string} versionA - First version string in format "#.#.#" (e.g., "1.2.3")
-   * @param {string} versionB - Second version string in format "#.#.#" (e.g., "1.2.4")
+   * In zero major mode, a module whose latest version is `0.y.z` is in initial development (SemVer item 4):
+   * breaking changes bump the minor version and features bump the patch version. A `release:major` label
+   * opts out of this and graduates the module to `1.0.0`.
+   *
+   * @param {ReleaseType} releaseType - The type of the release
+   * @param {number[]} semver - The major, minor and patch numbers of the latest version
+   * @returns {ReleaseType} The release type that determines which part of the version is bumped
+   */
+  private getVersionBumpType(releaseType: ReleaseType, semver: number[]): ReleaseType {
+    if (!this.config.zeroMajorMode || semver[0] !== 0 || this.getReleaseLabelOverride() === RELEASE_TYPE.MAJOR) {
+      return releaseType;
+    }
+
+    return releaseType === RELEASE_TYPE.MAJOR ? RELEASE_TYPE.MINOR : RELEASE_TYPE.PATCH;
+  }
+
+  /**
+   * Returns the release type a pinned version represents relative to the latest version. Pinning a pending
+   * pre-release's own version (e.g., `2.0.0-rc.1` → `2.0.0`) counts as the release type that version covers.
+   *
+   * @param {string} pinnedVersion - The validated pinned version without any "v" prefix
+   * @returns {ReleaseType} The release type of the jump to the pinned version
+   */
+  private getPinnedReleaseType(pinnedVersion: string): ReleaseType {
+    const latestVersion = this.getLatestTagVersionNumber();
+    if (latestVersion === null) {
+      return this.config.defaultSemverLevel;
+    }
+
+    const [pinnedMajor, pinnedMinor, pinnedPatch] = pinnedVersion.split('-')[0].split('.').map(Number);
+    const [latestMajor, latestMinor, latestPatch] = latestVersion.split('-')[0].split('.').map(Number);
+    if (pinnedMajor !== latestMajor) {
+      return RELEASE_TYPE.MAJOR;
+    }
+    if (pinnedMinor !== latestMinor) {
+      return RELEASE_TYPE.MINOR;
+    }
+    if (pinnedPatch !== latestPatch) {
+      return RELEASE_TYPE.PATCH;
+    }
+
+    return TerraformModule.getPendingReleaseType([pinnedMajor, pinnedMinor, pinnedPatch]);
+  }
+
+  /**
+   * Compares two semantic version strings according to SemVer 2.0.0 precedence.
+   *
+   * Major, minor and patch are compared numerically. A version with a pre-release suffix has lower
+   * precedence than the same version without one (`1.0.0-rc.1` < `1.0.0`). Pre-release identifiers are
+   * compared left to right: numeric identifiers numerically, alphanumeric identifiers in ASCII order,
+   * numeric identifiers lower than alphanumeric ones, and a shorter set of identifiers lower when all
+   * preceding identifiers are equal (`1.0.0-alpha` < `1.0.0-alpha.1` < `1.0.0-beta` < `1.0.0-rc.1`).
+   *
+   * @param {string} versionA - First version string in format "#.#.#[-pre]" (e.g., "1.2.3" or "1.2.3-rc.1")
+   * @param {string} versionB - Second version string in format "#.#.#[-pre]" (e.g., "1.2.4")
    * @returns {number} Negative if A < B, positive if A > B, zero if equal
    *
-   * @note Both parameters are guaranteed to be in numerical format "#.#.#" without any prefix,
-   *       as they are processed through extractVersionFromTag which strips any 'v' prefix.
+   * @note Both parameters are guaranteed to be without any prefix, as they are processed through
+   *       extractVersionFromTag which strips any 'v' prefix.
    */
   private compareSemanticVersions(versionA: string, versionB: string): number {
-    const parseVersion = (version: string): number[] => {
-      const parts = version.split('.');
-      return [Number(parts[0]), Number(parts[1]), Number(parts[2])];
+    const parseVersion = (version: string): { core: number[]; preRelease: string[] } => {
+      const separatorIndex = version.indexOf('-');
+      const core = separatorIndex === -1 ? version : version.slice(0, separatorIndex);
+      const parts = core.split('.');
+      return {
+        core: [Number(parts[0]), Number(parts[1]), Number(parts[2])],
+        preRelease: separatorIndex === -1 ? [] : version.slice(separatorIndex + 1).split('.'),
+      };
     };
 
-    const [majorA, minorA, patchA] = parseVersion(versionA);
-    const [majorB, minorB, patchB] = parseVersion(versionB);
+    const a = parseVersion(versionA);
+    const b = parseVersion(versionB);
 
-    if (majorA !== majorB) return majorA - majorB;
-    if (minorA !== minorB) return minorA - minorB;
-    return patchA - patchB;
+    for (let index = 0; index < 3; index++) {
+      if (a.core[index] !== b.core[index]) return a.core[index] - b.core[index];
+    }
+
+    // A final version has higher precedence than any of its pre-releases
+    if (a.preRelease.length === 0 || b.preRelease.length === 0) {
+      return b.preRelease.length - a.preRelease.length;
+    }
+
+    for (let index = 0; index < Math.min(a.preRelease.length, b.preRelease.length); index++) {
+      const identifierA = a.preRelease[index];
+      const identifierB = b.preRelease[index];
+      const isNumericA = /^\d+$/.test(identifierA);
+      const isNumericB = /^\d+$/.test(identifierB);
+
+      if (isNumericA && isNumericB) {
+        if (Number(identifierA) !== Number(identifierB)) return Number(identifierA) - Number(identifierB);
+      } else if (isNumericA !== isNumericB) {
+        return isNumericA ? -1 : 1;
+      } else if (identifierA !== identifierB) {
+        return identifierA < identifierB ? -1 : 1;
+      }
+    }
+
+    return a.preRelease.length - b.preRelease.length;
   }
 
   /**
@@ -584,6 +1291,7 @@ export class TerraformModule {
    *   - List of tags (if present)
    *   - List of releases with ID, title and tag (if present)
    *   - List of commits with short SHA and message (if present)
+   *   - Local dependencies (if present)
    *   - Release type, next tag, and version (if release needed)
    *   - Dependency triggers (if applicable)
    *
@@ -629,6 +1337,22 @@ export class TerraformModule {
       }
     }
 
+    const configOverrideKeys = Object.keys(this.configOverrides);
+    if (configOverrideKeys.length > 0) {
+      lines.push(`   Config Overrides: ${configOverrideKeys.join(', ')}`);
+    }
+
+    if (this.breakingInterfaceChanges.length > 0) {
+      lines.push('   Breaking Interface Changes:');
+      for (const change of this.breakingInterfaceChanges) {
+        lines.push(`     - ${change.description}`);
+      }
+    }
+
+    if (this.dependencies.length > 0) {
+      lines.push(`   Local Dependencies: ${this.dependencies.map((dependency) => dependency.name).join(', ')}`);
+    }
+
     // Add release-specific info if relevant
     if (this.needsRelease()) {
       lines.push(
@@ -638,6 +1362,10 @@ export class TerraformModule {
       );
     }
 
+    if (this.dependencyTriggers.length > 0) {
+      lines.push(`   Dependency Triggers: ${this.dependencyTriggers.map((dependency) => dependency.name).join(', ')}`);
+    }
+
     return lines.join('\n');
   }
 
@@ -645,6 +1373,21 @@ export class TerraformModule {
   // Static Utilities
   //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 
+  /**
+   * Returns the release type a pending pre-release version already represents relative to the previous
+   * final version: `x.0.0` is a major bump, `x.y.0` a minor bump, and anything else a patch bump.
+   *
+   * @param {number[]} semver - The [major, minor, patch] components of the pre-release version
+   * @returns {ReleaseType} The release type covered by the pending version
+   */
+  private static getPendingReleaseType([, minor, patch]: number[]): ReleaseType {
+    if (patch > 0) {
+      return RELEASE_TYPE.PATCH;
+    }
+
+    return minor > 0 ? RELEASE_TYPE.MINOR : RELEASE_TYPE.MAJOR;
+  }
+
   /**
    * Generates a valid Terraform module name from the given relative directory path.
    *
@@ -746,6 +1489,16 @@ export class TerraformModule {
     return modules.filter((module) => module.needsRelease());
   }
 
+  /**
+   * Returns all modules whose release was intentionally skipped from the provided list.
+   *
+   * @param {TerraformModule[]} modules - Array of TerraformModule instances
+   * @returns {TerraformModule[]} Array of modules that changed but are excluded by a skip directive or label
+   */
+  public static getModulesSkippingRelease(modules: TerraformModule[]): TerraformModule[] {
+    return modules.filter((module) => module.isReleaseSkipped());
+  }
+
   /**
    * Determines an array of Terraform tags that need to be deleted.
    *
@@ -1,7 +1,19 @@
+import type { CommitDetails } from './github.types';
+
 /**
  * Types for the commit analyzer module.
  */
 
+/**
+ * A `Release-As: [<module>=]<version>` footer pinning the next version of one or all modules.
+ */
+export interface ReleaseAsDirective {
+  /** The module name or directory name the footer is scoped to, or `null` when it applies to every module */
+  module: string | null;
+  /** The requested version as written (e.g., `3.0.0` or `v3.0.0`); validated by the module it applies to */
+  version: string;
+}
+
 /**
  * Result of parsing a conventional commit message.
  */
@@ -14,4 +26,39 @@ export interface ConventionalCommitResult {
   breaking: boolean;
   /** The commit description (text after the colon) */
   description: string;
+  /** Version pins from `Release-As` footers (`Release-As: none` skip directives are not included) */
+  releaseAs: ReleaseAsDirective[];
+}
+
+/**
+ * Release directives found in a commit message or pull request body.
+ */
+export interface ReleaseDirectives {
+  /** Whether the text opts every module out of the release (`[skip release]` or `Release-As: none`) */
+  skipAll: boolean;
+  /** Module names or directory names opted out individually via `Release-As: <module>=none` footers */
+  skipModules: string[];
+  /** Version pins from `Release-As: [<module>=]<version>` footers */
+  releaseAs: ReleaseAsDirective[];
+}
+
+/**
+ * The messages that do not parse as conventional commits, as found by the commit lint.
+ */
+export interface CommitLintResult {
+  /** The commits whose message is not a conventional commit, oldest first */
+  invalidCommits: CommitDetails[];
+  /** Whether the pull request title is not a conventional commit */
+  invalidTitle: boolean;
+}
+
+/**
+ * A commit reverted within the same set of commits, paired with the commit reverting it. The two cancel
+ * each other out.
+ */
+export interface RevertedCommit {
+  /** The commit that was reverted */
+  target: CommitDetails;
+  /** The commit reverting the target */
+  revert: CommitDetails;
 }
@@ -1,4 +1,14 @@
-import type { RELEASE_REASON, RELEASE_TYPE, SEMVER_MODE } from '@/utils/constants';
+import type {
+  CHANGELOG_FORMAT,
+  COMMIT_LINT_MODE,
+  COMMIT_TYPE_NONE,
+  RELEASE_LABEL_SKIP,
+  RELEASE_REASON,
+  RELEASE_TYPE,
+  SEMVER_MODE,
+  SEMVER_SOURCE,
+  TAG_SIGNING,
+} from '@/utils/constants';
 
 /**
  * Common types used across the application
@@ -14,6 +24,22 @@ import type { RELEASE_REASON, RELEASE_TYPE, SEMVER_MODE } from '@/utils/constant
  */
 export type ReleaseType = (typeof RELEASE_TYPE)[keyof typeof RELEASE_TYPE];
 
+/**
+ * Represents the release type requested by a `release:<type>` pull request label, or
+ * `'skip'` when the label excludes the module from the release.
+ *
+ * @see {@link RELEASE_LABEL_SKIP} for the skip value
+ */
+export type ReleaseLabelOverride = ReleaseType | typeof RELEASE_LABEL_SKIP;
+
+/**
+ * Represents the level a conventional commit type is mapped to: a release type, or `'none'` when
+ * commits of the type do not produce a release.
+ *
+ * @see {@link COMMIT_TYPE_NONE} for the none value
+ */
+export type CommitTypeLevel = ReleaseType | typeof COMMIT_TYPE_NONE;
+
 /**
  * Represents a reason for triggering a release.
  *
@@ -33,3 +59,67 @@ export type ReleaseReason = (typeof RELEASE_REASON)[keyof typeof RELEASE_REASON]
  * @see {@link SEMVER_MODE} for the available mode values
  */
 export type SemverMode = (typeof SEMVER_MODE)[keyof typeof SEMVER_MODE];
+
+/**
+ * Represents the source of the messages the release type is computed from.
+ *
+ * - `'commits'`: The messages of the pull request's commits
+ * - `'pr-title'`: The pull request title only
+ * - `'pr-title-and-body'`: The pull request title and body
+ *
+ * @see {@link SEMVER_SOURCE} for the available source values
+ */
+export type SemverSource = (typeof SEMVER_SOURCE)[keyof typeof SEMVER_SOURCE];
+
+/**
+ * Represents how messages that are not conventional commits are reported.
+ *
+ * @see {@link COMMIT_LINT_MODE} for the available mode values
+ */
+export type CommitLintMode = (typeof COMMIT_LINT_MODE)[keyof typeof COMMIT_LINT_MODE];
+
+/**
+ * Represents how the commits of a release are listed in its changelog.
+ *
+ * @see {@link CHANGELOG_FORMAT} for the available format values
+ */
+export type ChangelogFormat = (typeof CHANGELOG_FORMAT)[keyof typeof CHANGELOG_FORMAT];
+
+/**
+ * Represents how release tags are created and signed.
+ *
+ * @see {@link TAG_SIGNING} for the available mode values
+ */
+export type TagSigningMode = (typeof TAG_SIGNING)[keyof typeof TAG_SIGNING];
+
+/**
+ * Represents a value of a template variable: a string substituted for a `{{key}}` placeholder, a
+ * boolean tested by an `{{#if key}}` block, or a list of items iterated by an `{{#each key}}` block.
+ * Null and undefined values leave the placeholder unchanged.
+ */
+export type TemplateValue = string | boolean | null | undefined | TemplateVariables[];
+
+/**
+ * Represents the variables a template is rendered with, keyed by placeholder name.
+ */
+export interface TemplateVariables {
+  [key: string]: TemplateValue;
+}
+
+/**
+ * Represents the options a template is rendered with.
+ */
+export interface TemplateOptions {
+  /**
+   * Whether `{{#each}}` and `{{#if}}` blocks are parsed. Without them, the template is plain text with `{{key}}`
+   * placeholders, and block tags are kept as written. Defaults to true.
+   */
+  blocks?: boolean;
+
+  /**
+   * The templates an item of a list is rendered with when the list is used as a flat `{{key}}` placeholder,
+   * keyed by variable name. The rendered items are joined with newlines. A list without an item template leaves
+   * its placeholder unchanged.
+   */
+  listItemTemplates?: Record<string, string>;
+}
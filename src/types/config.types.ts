@@ -2,7 +2,14 @@
  * Configuration related types
  */
 
-import type { ReleaseType, SemverMode } from './common.types';
+import type {
+  ChangelogFormat,
+  CommitLintMode,
+  ReleaseType,
+  SemverMode,
+  SemverSource,
+  TagSigningMode,
+} from './common.types';
 
 export type ModuleRefMode = 'tag' | 'sha';
 
@@ -222,4 +229,218 @@ export interface Config {
    * affects the open-pull-request Release Plan comment; the post-merge release comment is unaffected.
    */
   hideNoChangesPrComment: boolean;
+
+  /**
+   * The pre-release channel (e.g., "rc", "beta", "alpha") used for all releases, or an empty string to
+   * publish final versions.
+   *
+   * When a channel is active, release versions carry a numbered pre-release suffix that increments on each
+   * release within the same version cycle (e.g., `v2.0.0-rc.1` → `v2.0.0-rc.2`). The first release without
+   * a channel promotes the pending version by stripping the suffix (e.g., `v2.0.0`).
+   *
+   * A `pre-release:<channel>` pull request label or a matching {@link preReleaseChannelBranches} entry
+   * takes precedence over this value.
+   */
+  preReleaseChannel: string;
+
+  /**
+   * A list of `branch-pattern=channel` entries that select a pre-release channel from the pull request's
+   * base branch (e.g., `next=rc`, `beta/**=beta`). Patterns use minimatch glob syntax and the first matching
+   * entry wins.
+   */
+  preReleaseChannelBranches: string[];
+
+  /**
+   * A list of `module=group` entries that release modules in lockstep (e.g., `vpc-endpoint=networking`).
+   * Modules are matched by name or directory name. When any member of a group needs a release, every
+   * member is released with the highest release type and the highest next version across the group.
+   */
+  versionGroups: string[];
+
+  /**
+   * Whether to compare each changed module's variables and outputs against its latest tag and force a
+   * major release when they change in a way that breaks existing callers (a removed variable or output,
+   * a new required variable, or a changed variable type), regardless of the commit messages.
+   */
+  detectBreakingInterfaceChanges: boolean;
+
+  /**
+   * Whether to apply the SemVer initial development rules to modules whose latest version is `0.y.z`:
+   * breaking changes bump the minor version and features bump the patch version. A module only graduates
+   * to `1.0.0` through a `Release-As` footer or a `release:major` pull request label.
+   */
+  zeroMajorMode: boolean;
+
+  /**
+   * A list of `type=level` or `type(scope)=level` entries mapping conventional commit types to a release
+   * level: `major`, `minor`, `patch` or `none` (e.g., `docs=none`). Commits of a type mapped to `none` do
+   * not count towards a release. Unmapped types keep the default mapping (`feat` → minor, others → patch).
+   * Only used when `semverMode` is `conventional-commits`.
+   */
+  conventionalCommitTypes: string[];
+
+  /**
+   * Whether to use conventional commit scopes to restrict the modules a commit is attributed to. A commit
+   * whose scope matches one or more modules is only attributed to those of its changed modules; commits
+   * without a scope, or with a scope that matches no module, are attributed by their changed files alone.
+   */
+  scopeRouting: boolean;
+
+  /**
+   * A list of `scope=module` entries mapping conventional commit scopes to modules (e.g., `net=vpc`) when
+   * `scopeRouting` is enabled. Modules are matched by name or directory name.
+   */
+  scopeAliases: string[];
+
+  /**
+   * The source of the messages the release type is computed from:
+   *
+   * - `'commits'` (default): The messages of the pull request's commits.
+   * - `'pr-title'`: The pull request title only, which is the commit message that reaches the default
+   *   branch when pull requests are squash merged.
+   * - `'pr-title-and-body'`: The pull request title and body, analyzed as a single message so that
+   *   footers in the body (e.g., `BREAKING CHANGE:`) are taken into account.
+   *
+   * The modules a pull request changes are always determined from its commits.
+   */
+  semverSource: SemverSource;
+
+  /**
+   * How messages that do not parse as conventional commits are reported when `semverMode` is
+   * `conventional-commits`: `'off'` (default) lets them fall back to `defaultSemverLevel` silently,
+   * `'warn'` lists them in the release plan comment and logs a warning, and `'error'` additionally
+   * fails the pull request run. The pull request title is always linted; the commits are linted when
+   * `semverSource` is `commits`.
+   */
+  commitLint: CommitLintMode;
+
+  /**
+   * How the commits of a release are listed in its changelog (release bodies, the wiki changelog and the
+   * pull request comment): `'flat'` (default) lists each commit message, and `'grouped'` groups them into
+   * Breaking Changes, Features, Bug Fixes and Other sections by conventional commit type, linking each
+   * commit and crediting its author.
+   */
+  changelogFormat: ChangelogFormat;
+
+  /**
+   * A template that replaces the default layout of changelog entries. Empty (default) to use the
+   * {@link changelogFormat} layout. Available variables:
+   * - {{module_name}}: The name of the module
+   * - {{version}}: The release version (e.g., v1.2.0)
+   * - {{release_tag}}: The release tag (e.g., aws/vpc/v1.2.0)
+   * - {{date}}: The release date (YYYY-MM-DD)
+   * - {{pr_number}}, {{pr_title}}, {{pr_url}}: The pull request
+   * - {{compare_url}}: The comparison with the previous release, empty for a module's first release
+   * - {{pr_changelog}}: The content of the {@link changelogPrBodySection} section, empty when missing
+   * - {{linked_issues}}: The issues linked with {@link changelogLinkedIssues}, iterated with
+   *   `{{#each linked_issues}}...{{/each}}`. Each issue has {{reference}} (e.g., #123) and {{url}}.
+   * - {{commits}}: The commits, iterated with `{{#each commits}}...{{/each}}`. Each commit has {{sha}},
+   *   {{short_sha}}, {{url}}, {{message}}, {{subject}}, {{type}}, {{scope}}, {{description}},
+   *   {{breaking}} and {{author}}. The description of a commit that is not a conventional commit is its subject.
+   *
+   * `{{#if key}}...{{else}}...{{/if}}` blocks render content conditionally.
+   */
+  changelogTemplate: string;
+
+  /**
+   * The path of a file containing a changelog template, relative to the workspace directory. Empty (default)
+   * when the template is not read from a file. Mutually exclusive with {@link changelogTemplate}.
+   */
+  changelogTemplateFile: string;
+
+  /**
+   * The heading of the pull request body section (e.g., `Changelog`) whose content replaces the commit
+   * messages in changelog entries. The commit messages remain the fallback when the section is missing or
+   * empty. Empty (default) to always use the commit messages.
+   */
+  changelogPrBodySection: string;
+
+  /**
+   * Whether changelog entries link the issues that the pull request body references with a closing
+   * keyword (e.g., `Fixes #123`).
+   */
+  changelogLinkedIssues: boolean;
+
+  /**
+   * Whether a `CHANGELOG.md` file with the module's full release history is committed into each release
+   * tag, replacing any `CHANGELOG.md` of the module in the tag.
+   */
+  moduleChangelog: boolean;
+
+  /**
+   * Whether a `workflow_dispatch` run only reports the changes to the release bodies it rebuilds instead of
+   * applying them.
+   */
+  releaseRebuildDryRun: boolean;
+
+  /**
+   * How release tags are created: lightweight (`none`), annotated with the release changelog as the tag
+   * message (`annotated`), or annotated and signed with {@link tagSigningKey} (`gpg` or `ssh`).
+   */
+  tagSigning: TagSigningMode;
+
+  /**
+   * The private key that signs release tags: an ASCII-armored GPG secret key when {@link tagSigning} is
+   * `gpg`, or an OpenSSH private key when it is `ssh`. Required by those modes and ignored otherwise.
+   */
+  tagSigningKey: string;
+
+  /**
+   * Whether deterministic `.tar.gz` and `.zip` archives of each released module and a `SHA256SUMS` file are
+   * attached to its release as release assets.
+   */
+  releaseAssets: boolean;
+
+  /**
+   * Whether an in-toto statement with a SLSA provenance predicate is attached to each release, recording the
+   * source repository, pull request, merge commit, tag commit and a digest of the released files.
+   */
+  releaseProvenance: boolean;
+
+  /**
+   * Whether `workflow_dispatch` runs migrate the module tags to the configured tag scheme
+   * ({@link tagDirectorySeparator} and {@link useVersionPrefix}) instead of rebuilding the release bodies.
+   */
+  tagMigration: boolean;
+
+  /**
+   * Whether a tag migration only reports the tags it would create, the releases it would re-point and the tags
+   * it would delete, without changing anything.
+   */
+  tagMigrationDryRun: boolean;
+
+  /**
+   * Whether a tag migration deletes the old tags once their new tags exist and their releases are re-pointed.
+   */
+  tagMigrationDeleteOldTags: boolean;
+
+  /**
+   * Whether `workflow_dispatch` runs create the missing releases of existing module tags, with a body built from
+   * the commits since the module's previous tag, instead of rebuilding the release bodies. Ignored when
+   * {@link tagMigration} is enabled.
+   */
+  releaseBackfill: boolean;
 }
+
+/**
+ * Config values that a module's `.terraform-module-releaser.yml` may override for that module only.
+ *
+ * The corresponding input names are listed in `MODULE_CONFIG_INPUTS`.
+ */
+export type ModuleConfigOverrides = Partial<
+  Pick<
+    Config,
+    | 'semverMode'
+    | 'majorKeywords'
+    | 'minorKeywords'
+    | 'patchKeywords'
+    | 'defaultSemverLevel'
+    | 'defaultFirstTag'
+    | 'moduleAssetExcludePatterns'
+    | 'moduleChangeExcludePatterns'
+    | 'preRelease'
+    | 'zeroMajorMode'
+    | 'conventionalCommitTypes'
+    | 'moduleChangelog'
+  >
+>;
@@ -40,6 +40,11 @@ export interface Context {
    */
   prBody: string;
 
+  /**
+   * The names of the labels applied to the pull request (e.g. `pre-release:rc`, `release:minor`).
+   */
+  prLabels: string[];
+
   /**
    * The GitHub API issue number associated with the pull request.
    */
@@ -66,4 +71,12 @@ export interface Context {
    * Flag to indicate if the current event is a pull request merge event.
    */
   isPrMergeEvent: boolean;
+
+  /**
+   * Flag to indicate if the workflow was triggered manually through `workflow_dispatch`, which rebuilds the
+   * release bodies (or with `tag-migration`, migrates the tags, and with `release-backfill`, creates the missing
+   * releases) instead of releasing a pull request. The pull request fields are empty (`0` or `''`) for this
+   * event.
+   */
+  isWorkflowDispatchEvent: boolean;
 }
@@ -11,9 +11,14 @@ import type { Api } from '@octokit/plugin-rest-endpoint-methods';
  *
  * The `graphql` method is provided by the base `@octokit/core` client and is required for
  * operations that the REST API does not expose (e.g. minimizing/collapsing a comment via the
- * `minimizeComment` mutation).
+ * `minimizeComment` mutation). The generic `request` method of the same client sends requests
+ * whose body the endpoint methods cannot type, such as the binary data of release assets.
  */
-export type OctokitRestApi = Api & { paginate: PaginateInterface; graphql: Octokit['graphql'] };
+export type OctokitRestApi = Api & {
+  paginate: PaginateInterface;
+  graphql: Octokit['graphql'];
+  request: Octokit['request'];
+};
 
 /**
  * GitHub tag information
@@ -74,6 +79,26 @@ export interface CommitDetails {
    * An array of relative file paths associated with the commit. Important Note: Files are relative
    */
   files: string[];
+
+  /**
+   * The author of the commit, when known. Used to credit authors in the grouped changelog format.
+   */
+  author?: CommitAuthor;
+}
+
+/**
+ * The author of a commit.
+ */
+export interface CommitAuthor {
+  /**
+   * The GitHub login of the author, or `null` when the commit's email is not linked to a GitHub account.
+   */
+  login: string | null;
+
+  /**
+   * The author name recorded in the git commit.
+   */
+  name: string;
 }
 
 /**
@@ -90,3 +115,39 @@ export interface Repo {
    */
   repo: string;
 }
+
+/**
+ * An issue referenced with a closing keyword (e.g., `Fixes #123`) in a pull request body.
+ */
+export interface IssueReference {
+  /**
+   * The `owner/repo` of the issue's repository, or `null` for an issue of the current repository.
+   */
+  repository: string | null;
+
+  /**
+   * The issue number.
+   */
+  number: number;
+}
+
+/**
+ * The pull request a changelog entry is created from: the current pull request, or the pull request that
+ * produced an existing release when its body is rebuilt.
+ */
+export interface PullRequestDetails {
+  /**
+   * The pull request number.
+   */
+  number: number;
+
+  /**
+   * The title of the pull request.
+   */
+  title: string;
+
+  /**
+   * The body of the pull request.
+   */
+  body: string;
+}
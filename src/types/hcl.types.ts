@@ -0,0 +1,15 @@
+/**
+ * Types for the lightweight HCL scanner.
+ */
+
+/**
+ * A top-level block found in a Terraform (.tf) file, e.g. `module "vpc" { ... }`.
+ */
+export interface HclBlock {
+  /** The block type (e.g., 'module', 'variable', 'output') */
+  type: string;
+  /** The block labels without surrounding quotes (e.g., ['vpc']) */
+  labels: string[];
+  /** The raw block body between the opening and closing braces */
+  body: string;
+}
@@ -16,11 +16,23 @@ export * from './context.types';
 // GitHub related types
 export * from './github.types';
 
+// HCL scanner types
+export * from './hcl.types';
+
+// Module interface change types
+export * from './interface-changes.types';
+
 // Node:child_process types
 export * from './node-child-process.types';
 
+// Provenance statement types
+export * from './provenance.types';
+
 // Release and self-healing types
 export * from './release.types';
 
+// Tag migration types
+export * from './tag-migration.types';
+
 // Wiki related types
 export * from './wiki.types';
@@ -0,0 +1,44 @@
+import type { INTERFACE_CHANGE } from '@/utils/constants';
+
+/**
+ * Types for detecting breaking changes to a module's public interface (variables and outputs).
+ */
+
+/**
+ * The kind of breaking interface change detected between two versions of a module.
+ *
+ * @see {@link INTERFACE_CHANGE} for the available values
+ */
+export type InterfaceChangeKind = (typeof INTERFACE_CHANGE)[keyof typeof INTERFACE_CHANGE];
+
+/**
+ * A single `variable` declaration as seen by interface change detection.
+ */
+export interface ModuleVariable {
+  /** The normalized `type` constraint, or null when the variable is unconstrained */
+  type: string | null;
+  /** Whether the variable must be set by callers (it has no `default`) */
+  required: boolean;
+}
+
+/**
+ * The public interface of a Terraform module: its input variables and outputs.
+ */
+export interface ModuleInterface {
+  /** Declared variables keyed by name */
+  variables: Map<string, ModuleVariable>;
+  /** Names of declared outputs */
+  outputs: Set<string>;
+}
+
+/**
+ * A breaking change to a module's interface that forces a major release.
+ */
+export interface InterfaceChange {
+  /** The kind of change */
+  kind: InterfaceChangeKind;
+  /** The name of the affected variable or output */
+  name: string;
+  /** Human-readable description used in logs and the release plan comment */
+  description: string;
+}
@@ -0,0 +1,77 @@
+/**
+ * Types for the provenance statements attached to releases.
+ */
+
+/**
+ * A file of a release tag's tree.
+ */
+export interface TreeFile {
+  /** The path of the file relative to the root of the tree, with `/` separators (e.g., 'modules/main.tf') */
+  path: string;
+  /** The git file mode (e.g., '100644', or '100755' for executables) */
+  mode: string;
+  /** The file contents */
+  data: Buffer;
+}
+
+/**
+ * An artifact described by a provenance statement, identified by its name and digests.
+ */
+export interface ProvenanceSubject {
+  /** The release tag, or the file name of a release asset */
+  name: string;
+  /**
+   * The digests of the artifact. For the release tag, `sha256` is the tree digest of its files and
+   * `gitCommit` the commit it points at.
+   */
+  digest: {
+    sha256: string;
+    gitCommit?: string;
+  };
+}
+
+/**
+ * An in-toto statement with a SLSA provenance predicate, describing how a module release was produced.
+ *
+ * @see https://github.com/in-toto/attestation/blob/main/spec/v1/statement.md
+ * @see https://slsa.dev/spec/v1.0/provenance
+ */
+export interface ProvenanceStatement {
+  _type: string;
+  subject: ProvenanceSubject[];
+  predicateType: string;
+  predicate: {
+    buildDefinition: {
+      buildType: string;
+      externalParameters: {
+        /** The URL of the source repository */
+        repository: string;
+        /** The number of the pull request that produced the release */
+        pullRequest: number;
+        /** The name of the released module */
+        module: string;
+        /** The release tag */
+        releaseTag: string;
+      };
+      /** The merge commit of the pull request in the source repository, when known */
+      resolvedDependencies: Array<{ uri: string; digest: { gitCommit: string } }>;
+    };
+    runDetails: {
+      builder: { id: string };
+    };
+  };
+}
+
+/**
+ * The result of verifying a release tag against its provenance statement.
+ */
+export interface ProvenanceVerification {
+  /** Whether the tag matches the statement */
+  verified: boolean;
+  /** The commit the tag points at */
+  tagCommitSHA: string;
+  /** The tree digest recomputed from the files of the tag */
+  treeDigest: string;
+  /** Why the tag does not match the statement; empty when it is verified */
+  problems: string[];
+}
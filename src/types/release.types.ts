@@ -17,6 +17,25 @@ import type { GitHubRelease } from '@/types/github.types';
  */
 export type ReleaseAction = 'created' | 'recovered' | 'skipped';
 
+/**
+ * A set of modules released in lockstep, as configured by the `version-groups` input.
+ *
+ * When any member needs a release, every member is released with the highest release type and the highest
+ * next version across the group. `createTaggedReleases()` resolves that version once for the whole group,
+ * since releasing a member changes the tags the group's version is computed from.
+ */
+export interface VersionGroup {
+  /**
+   * The group name from the `version-groups` entries.
+   */
+  name: string;
+
+  /**
+   * Every module in the group, including the module the group is read from.
+   */
+  members: ReadonlyArray<TerraformModule>;
+}
+
 /**
  * The per-module result of `createTaggedReleases()`.
  *
@@ -46,6 +65,32 @@ export interface ReleaseOutcome {
    * The release attributed to this pull request — never simply the module's highest release.
    */
   release: GitHubRelease;
+
+  /**
+   * The release assets uploaded on this run. Only set for `created` outcomes when `release-assets` or
+   * `release-provenance` is enabled: recovered and skipped releases keep whatever assets they already have.
+   */
+  assets?: ReleaseAsset[];
+}
+
+/**
+ * A file attached to a release as a release asset (see the `release-assets` and `release-provenance` inputs).
+ */
+export interface ReleaseAsset {
+  /**
+   * The file name of the asset (e.g., `modules-vpc-v1.2.0.tar.gz`).
+   */
+  name: string;
+
+  /**
+   * The URL the asset is downloaded from.
+   */
+  url: string;
+
+  /**
+   * The hex-encoded SHA-256 digest of the asset.
+   */
+  sha256: string;
 }
 
 /**
@@ -54,8 +99,12 @@ export interface ReleaseOutcome {
  * Extends {@link ReleaseAction} with `none`, meaning no release was attempted for the module on this
  * run — because the legacy gate skipped the pull request, or because the module was withheld on a
  * stale checkout. When the action is `none`, `releaseTag` is `null`: nothing was published.
+ *
+ * `intentionally-skipped` marks a module that changed but was excluded from the release by a skip
+ * directive (`[skip release]`, `Release-As: none`) or a `release:skip` label. Unlike the other actions it is
+ * also reported on pull request runs, and `releaseTag` and `releaseType` are always `null`.
  */
-export type ChangedModuleAction = ReleaseAction | 'none';
+export type ChangedModuleAction = ReleaseAction | 'none' | 'intentionally-skipped';
 
 /**
  * The per-module shape of the `changed-modules-map` action output.
@@ -87,7 +136,29 @@ export interface ChangedModuleOutput {
   releaseType: ReleaseType | null;
 
   /**
-   * What the action actually did for this module. Only present on merge runs.
+   * What the action actually did for this module. Only present on merge runs, except for
+   * `intentionally-skipped` which is reported on every run.
    */
   action?: ChangedModuleAction;
+
+  /**
+   * The release assets uploaded for this pull request's release of the module. Only present on merge runs
+   * that created a release with `release-assets` or `release-provenance` enabled.
+   */
+  assets?: ReleaseAsset[];
+}
+
+/**
+ * The hidden release marker found on a line of a release body or a release commit message.
+ */
+export interface ReleaseMarker {
+  /**
+   * The marker exactly as written, without surrounding whitespace.
+   */
+  marker: string;
+
+  /**
+   * The number of the pull request of the current repository that the marker names.
+   */
+  prNumber: number;
 }
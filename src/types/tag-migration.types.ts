@@ -0,0 +1,52 @@
+/**
+ * Types for migrating module tags to the configured tag scheme.
+ */
+
+/**
+ * What a tag migration does for an old tag.
+ *
+ * - `create` — the new tag does not exist yet and is created at the old tag's commit.
+ * - `exists` — the new tag already exists at the old tag's commit (e.g., a re-run), so only the release
+ *   is re-pointed and the old tag deleted.
+ * - `conflict` — the new tag already exists at another commit. Nothing is changed for the old tag.
+ */
+export type TagMigrationStatus = 'create' | 'exists' | 'conflict';
+
+/**
+ * The migration of one module tag from an old tag scheme to the configured one.
+ */
+export interface TagMigration {
+  /**
+   * The name of the module the tag belongs to.
+   */
+  moduleName: string;
+
+  /**
+   * The existing tag (e.g., `kms-v1.2.0`).
+   */
+  oldTag: string;
+
+  /**
+   * The tag in the configured scheme (e.g., `kms/v1.2.0`).
+   */
+  newTag: string;
+
+  /**
+   * The commit the old tag points at, which the new tag points at as well.
+   */
+  commitSHA: string;
+
+  status: TagMigrationStatus;
+
+  /**
+   * The ID of the release of the old tag, which is re-pointed to the new tag, or `null` when the old tag has
+   * no release.
+   */
+  releaseId: number | null;
+
+  /**
+   * Whether the release is titled after the old tag, as releases created by the action are, so that its title
+   * is renamed along with its tag.
+   */
+  renameRelease: boolean;
+}
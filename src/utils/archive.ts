@@ -0,0 +1,234 @@
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { crc32, deflateRawSync, gzipSync } from 'node:zlib';
+import { compareOrdinal } from '@/utils/string';
+
+/**
+ * A regular file of an archive.
+ */
+interface ArchiveEntry {
+  /** The path of the file relative to the archived directory, with `/` separators. */
+  path: string;
+  /** The normalized file mode: 0o755 for executables, 0o644 otherwise (like git). */
+  mode: number;
+  data: Buffer;
+}
+
+/**
+ * The modification time of every archive entry. Archives must only depend on the archived files, and 1980 is
+ * the earliest time a zip archive can store.
+ */
+const ARCHIVE_MTIME = Date.UTC(1980, 0, 1) / 1000;
+
+/**
+ * The DOS date of {@link ARCHIVE_MTIME} as stored in zip headers: years since 1980, month and day in the
+ * high, middle and low bits. The DOS time is 00:00:00.
+ */
+const ZIP_DOS_DATE = (1 << 5) | 1;
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Reads the regular files of a directory, sorted by path so that archives do not depend on the order the
+ * file system lists them in. Empty directories are left out, as they are from git trees.
+ */
+function readArchiveEntries(directory: string, prefix = ''): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  for (const name of readdirSync(directory)) {
+    const filePath = join(directory, name);
+    const path = `${prefix}${name}`;
+    const stats = statSync(filePath);
+
+    if (stats.isDirectory()) {
+      entries.push(...readArchiveEntries(filePath, `${path}/`));
+    } else {
+      entries.push({ path, mode: stats.mode & 0o111 ? 0o755 : 0o644, data: readFileSync(filePath) });
+    }
+  }
+
+  return entries.sort((a, b) => compareOrdinal(a.path, b.path));
+}
+
+/**
+ * Writes a zero-padded octal number into a tar header field, leaving room for the terminating NUL.
+ */
+function writeTarOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0'), offset, length - 1, 'ascii');
+}
+
+/**
+ * Creates a ustar header block. The owner, group and modification time are fixed.
+ */
+function createTarHeader(name: string, prefix: string, mode: number, size: number, typeflag: string): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  header.write(name, 0, 100, 'utf8');
+  writeTarOctal(header, mode, 100, 8);
+  writeTarOctal(header, 0, 108, 8); // uid
+  writeTarOctal(header, 0, 116, 8); // gid
+  writeTarOctal(header, size, 124, 12);
+  writeTarOctal(header, ARCHIVE_MTIME, 136, 12);
+  header.write(typeflag, 156, 1, 'ascii');
+  header.write('ustar\x0000', 257, 8, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+
+  // The checksum is computed with the checksum field itself filled with spaces
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\x00 `, 148, 8, 'ascii');
+
+  return header;
+}
+
+/**
+ * Pads data to a whole number of tar blocks.
+ */
+function padTarBlock(data: Buffer): Buffer {
+  const remainder = data.length % TAR_BLOCK_SIZE;
+  return remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(TAR_BLOCK_SIZE - remainder)]);
+}
+
+/**
+ * Creates the header blocks of a tar entry. Paths that fit the ustar `name` field (or its `prefix` and
+ * `name` fields, split at a `/`) use a single header; longer paths are preceded by a pax header.
+ */
+function createTarEntryHeaders(path: string, mode: number, size: number): Buffer[] {
+  if (Buffer.byteLength(path) <= 100) {
+    return [createTarHeader(path, '', mode, size, '0')];
+  }
+
+  for (let index = path.indexOf('/'); index !== -1; index = path.indexOf('/', index + 1)) {
+    const prefix = path.slice(0, index);
+    const name = path.slice(index + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return [createTarHeader(name, prefix, mode, size, '0')];
+    }
+  }
+
+  // A pax record is "<length> path=<path>\n", where the length counts the record itself
+  const record = ` path=${path}\n`;
+  let length = Buffer.byteLength(record);
+  length += String(length + String(length).length).length;
+  const paxData = Buffer.from(`${length}${record}`, 'utf8');
+
+  return [
+    createTarHeader('PaxHeader', '', 0o644, paxData.length, 'x'),
+    padTarBlock(paxData),
+    createTarHeader(path, '', mode, size, '0'),
+  ];
+}
+
+/**
+ * Creates a deterministic gzip-compressed tar archive of the files of a directory.
+ *
+ * The archive only depends on the paths, contents and executable bits of the files: entries are sorted
+ * by path and have a fixed owner, group and modification time, and the gzip header carries no timestamp.
+ * Paths are stored relative to the directory, without a leading top-level directory.
+ *
+ * @param {string} directory - The directory to archive.
+ * @returns {Buffer} The `.tar.gz` archive.
+ */
+export function createTarGzArchive(directory: string): Buffer {
+  const blocks: Buffer[] = [];
+  for (const { path, mode, data } of readArchiveEntries(directory)) {
+    blocks.push(...createTarEntryHeaders(path, mode, data.length), padTarBlock(data));
+  }
+
+  // A tar archive ends with two empty blocks
+  blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+
+  const archive = gzipSync(Buffer.concat(blocks), { level: 9 });
+  // Fix the operating system byte of the gzip header, which depends on the platform zlib was built for
+  archive[9] = 0xff;
+
+  return archive;
+}
+
+/**
+ * Creates a deterministic zip archive of the files of a directory.
+ *
+ * Like {@link createTarGzArchive}, the archive only depends on the paths, contents and executable bits of the
+ * files. Files are deflated, and their Unix modes are stored in the external attributes.
+ *
+ * @param {string} directory - The directory to archive.
+ * @returns {Buffer} The `.zip` archive.
+ * @throws {Error} If the directory is too large for a zip archive without zip64 extensions.
+ */
+export function createZipArchive(directory: string): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  const entries = readArchiveEntries(directory);
+  for (const { path, mode, data } of entries) {
+    const name = Buffer.from(path, 'utf8');
+    const compressed = deflateRawSync(data, { level: 9 });
+    const checksum = crc32(data);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(20, 4); // Version needed to extract: 2.0 (deflate)
+    localHeader.writeUInt16LE(0x0800, 6); // Flags: UTF-8 file names
+    localHeader.writeUInt16LE(8, 8); // Compression method: deflate
+    localHeader.writeUInt16LE(0, 10); // DOS time
+    localHeader.writeUInt16LE(ZIP_DOS_DATE, 12);
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(compressed.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE((3 << 8) | 20, 4); // Version made by: Unix, 2.0
+    localHeader.copy(centralHeader, 6, 4, 28); // Version needed through file name length
+    centralHeader.writeUInt32LE(((0o100000 | mode) << 16) >>> 0, 38); // External attributes: regular file mode
+    centralHeader.writeUInt32LE(offset, 42);
+
+    localParts.push(localHeader, name, compressed);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + compressed.length;
+    if (offset > 0xffffffff || entries.length > 0xffff) {
+      throw new Error(`Directory ${directory} is too large for a zip archive`);
+    }
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const endOfCentralDirectory = Buffer.alloc(22);
+  endOfCentralDirectory.writeUInt32LE(0x06054b50, 0);
+  endOfCentralDirectory.writeUInt16LE(entries.length, 8);
+  endOfCentralDirectory.writeUInt16LE(entries.length, 10);
+  endOfCentralDirectory.writeUInt32LE(centralDirectory.length, 12);
+  endOfCentralDirectory.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, endOfCentralDirectory]);
+}
+
+/**
+ * Computes the hex-encoded SHA-256 digest of data.
+ *
+ * @param {Buffer} data - The data to hash.
+ * @returns {string} The lowercase hex digest.
+ */
+export function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Creates the contents of a `SHA256SUMS` file in the format of `sha256sum`, which `sha256sum --check`
+ * verifies: one `<digest>  <file name>` line per file, sorted by file name.
+ *
+ * @param {Array<{ name: string; data: Buffer }>} files - The files to list.
+ * @returns {string} The checksum file contents.
+ *
+ * @example
+ * ```typescript
+ * createChecksumFile([{ name: 'vpc-v1.0.0.zip', data }]);
+ * // Returns: '<sha256 of data>  vpc-v1.0.0.zip\n'
+ * ```
+ */
+export function createChecksumFile(files: Array<{ name: string; data: Buffer }>): string {
+  return [...files]
+    .sort((a, b) => compareOrdinal(a.name, b.name))
+    .map(({ name, data }) => `${sha256(data)}  ${name}\n`)
+    .join('');
+}
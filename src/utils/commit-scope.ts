@@ -0,0 +1,78 @@
+import { parseConventionalCommit } from '@/commit-analyzer';
+import { config } from '@/config';
+import type { TerraformModule } from '@/terraform-module';
+
+/**
+ * Extracts the scopes of a conventional commit message. A scope listing several comma-separated scopes
+ * (e.g., `feat(kms,vpc): ...`) yields each of them.
+ *
+ * @param {string} message - The full commit message
+ * @returns {string[]} The commit's scopes, or an empty array for unscoped or non-conventional commits
+ */
+export function getCommitScopes(message: string): string[] {
+  const scope = parseConventionalCommit(message)?.scope ?? null;
+  if (scope === null) {
+    return [];
+  }
+
+  return scope
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolves the modules a conventional commit scope refers to.
+ *
+ * Scopes with `scope-aliases` entries (e.g., `networking=vpc,networking=vpc-endpoint`) resolve to the
+ * modules named by those entries. Other scopes resolve to the module whose name or directory name equals
+ * the scope (see {@link TerraformModule.matchesScope}).
+ *
+ * @param {string} scope - A single commit scope
+ * @param {TerraformModule[]} terraformModules - All discovered Terraform modules
+ * @returns {TerraformModule[]} The modules the scope refers to, or an empty array when it matches no module
+ *
+ * @example
+ * ```typescript
+ * // With config.scopeAliases = ['net=vpc']
+ * resolveScopeModules('net', modules); // [vpcModule]
+ * resolveScopeModules('kms', modules); // [kmsModule]
+ * ```
+ */
+export function resolveScopeModules(scope: string, terraformModules: TerraformModule[]): TerraformModule[] {
+  // Entries are validated as 'scope=module' during config initialization
+  const aliasTargets = config.scopeAliases
+    .map((entry) => entry.split('=').map((part) => part.trim()))
+    .filter(([aliasScope]) => aliasScope === scope)
+    .map(([, moduleScope]) => moduleScope);
+
+  const moduleScopes = aliasTargets.length > 0 ? aliasTargets : [scope];
+  return terraformModules.filter((module) => moduleScopes.some((moduleScope) => module.matchesScope(moduleScope)));
+}
+
+/**
+ * Finds the scopes of the modules' commits that match no module when `scope-routing` is enabled. Commits
+ * with such scopes (typically a typo or a renamed module) fall back to being attributed to modules by
+ * their changed files.
+ *
+ * @param {TerraformModule[]} terraformModules - All discovered Terraform modules
+ * @returns {string[]} The unmatched scopes, sorted and without duplicates
+ */
+export function findUnmatchedCommitScopes(terraformModules: TerraformModule[]): string[] {
+  if (!config.scopeRouting) {
+    return [];
+  }
+
+  const unmatchedScopes = new Set<string>();
+  for (const module of terraformModules) {
+    for (const { message } of module.commits) {
+      for (const scope of getCommitScopes(message)) {
+        if (resolveScopeModules(scope, terraformModules).length === 0) {
+          unmatchedScopes.add(scope);
+        }
+      }
+    }
+  }
+
+  return [...unmatchedScopes].sort((a, b) => a.localeCompare(b));
+}
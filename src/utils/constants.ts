@@ -16,15 +16,18 @@ export const VALID_TAG_DIRECTORY_SEPARATORS = ['-', '_', '/', '.'];
 
 /**
  * Regular expression that matches version tags in the format of semantic versioning.
- * This regex validates version strings like "1.2.3" or "v1.2.3" and includes capture groups.
+ * This regex validates version strings like "1.2.3", "v1.2.3" or "v1.2.3-rc.1" and includes capture groups.
  * Group 1: Major version number
  * Group 2: Minor version number
  * Group 3: Patch version number
+ * Group 4: Pre-release identifiers without the leading hyphen (e.g., "rc.1"), if present
  *
  * It allows either a numerical portion (e.g., "1.2.3") or one prefixed with 'v' (e.g., "v1.2.3"),
- * which is the proper semver default format.
+ * which is the proper semver default format. Pre-release identifiers follow the SemVer 2.0.0 grammar
+ * (dot-separated alphanumerics and hyphens, numeric identifiers without leading zeros).
  */
-export const VERSION_TAG_REGEX = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/;
+export const VERSION_TAG_REGEX =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?$/;
 
 /**
  * Matches a Terraform module tag in the format: module-name/v1.2.3 or module-name/1.2.3
@@ -39,17 +42,53 @@ export const VERSION_TAG_REGEX = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/;
  * - Group 4: Major version number
  * - Group 5: Minor version number
  * - Group 6: Patch version number
+ * - Group 7: Pre-release identifiers without the leading hyphen (e.g., "rc.1"), if present
  *
  * Example matches:
- * - "module-v1.0.0" → ["module-v1.0.0", "module", "-", "v1.0.0", "1", "0", "0"]
- * - "feature_2.3.4" → ["feature_2.3.4", "feature", "_", "2.3.4", "2", "3", "4"]
- * - "service/v0.1.0" → ["service/v0.1.0", "service", "/", "v0.1.0", "0", "1", "0"]
+ * - "module-v1.0.0" → ["module-v1.0.0", "module", "-", "v1.0.0", "1", "0", "0", undefined]
+ * - "feature_2.3.4" → ["feature_2.3.4", "feature", "_", "2.3.4", "2", "3", "4", undefined]
+ * - "service/v0.1.0" → ["service/v0.1.0", "service", "/", "v0.1.0", "0", "1", "0", undefined]
+ * - "kms/v2.0.0-rc.1" → ["kms/v2.0.0-rc.1", "kms", "/", "v2.0.0-rc.1", "2", "0", "0", "rc.1"]
  *
  * Note: In the character class [-_/.], only the dot (.) requires escaping to match literal periods.
  * The hyphen (-) doesn't need escaping when at the start/end of the character class.
  * The forward slash (/) doesn't need escaping in JavaScript regex character classes.
  */
-export const MODULE_TAG_REGEX = /^(.+)([-_/.])(v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*))$/;
+export const MODULE_TAG_REGEX =
+  /^(.+)([-_/.])(v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?)$/;
+
+/**
+ * Matches a valid pre-release channel name (e.g., "rc", "beta", "alpha"). Channels must start with a
+ * letter so that the numeric counter appended by the releaser (e.g., "rc.2") is always a separate
+ * identifier, and may only contain SemVer identifier characters.
+ */
+export const PRE_RELEASE_CHANNEL_REGEX = /^[a-zA-Z][0-9a-zA-Z-]*$/;
+
+/**
+ * Prefix of pull request labels that select a pre-release channel (e.g., `pre-release:rc`).
+ */
+export const PRE_RELEASE_LABEL_PREFIX = 'pre-release:';
+
+/**
+ * Prefix of pull request labels that override the release type (e.g., `release:minor`, `release:major:kms`).
+ */
+export const RELEASE_LABEL_PREFIX = 'release:';
+
+/**
+ * Release label value that excludes modules from the release (e.g., `release:skip`).
+ */
+export const RELEASE_LABEL_SKIP = 'skip';
+
+/**
+ * Marker that opts a commit or pull request out of the release when it appears anywhere in its message or body.
+ */
+export const SKIP_RELEASE_MARKER = '[skip release]';
+
+/**
+ * `Release-As` footer value that opts a commit or pull request out of the release (e.g., `Release-As: none` or
+ * `Release-As: kms=none`).
+ */
+export const RELEASE_AS_NONE = 'none';
 
 /**
  * Release type constants for semantic versioning
@@ -65,6 +104,23 @@ export const RELEASE_TYPE = {
  */
 export const VALID_SEMVER_LEVELS = [RELEASE_TYPE.PATCH, RELEASE_TYPE.MINOR, RELEASE_TYPE.MAJOR] as const;
 
+/**
+ * Level of a `conventional-commit-types` entry for commit types that should not produce a release
+ * (e.g., `docs=none`).
+ */
+export const COMMIT_TYPE_NONE = 'none';
+
+/**
+ * Valid levels of `conventional-commit-types` entries
+ */
+export const VALID_COMMIT_TYPE_LEVELS = [...VALID_SEMVER_LEVELS, COMMIT_TYPE_NONE] as const;
+
+/**
+ * Matches a `conventional-commit-types` entry (`type=level` or `type(scope)=level`), capturing the type,
+ * the optional scope and the level.
+ */
+export const COMMIT_TYPE_ENTRY_REGEX = /^([\w-]+)(?:\(([^()]+)\))?\s*=\s*(\w+)$/;
+
 /**
  * Release reason constants - why a module needs a release
  */
@@ -72,6 +128,20 @@ export const RELEASE_REASON = {
   INITIAL: 'initial',
   DIRECT_CHANGES: 'direct-changes',
   LOCAL_DEPENDENCY_UPDATE: 'local-dependency-update',
+  BREAKING_INTERFACE_CHANGE: 'breaking-interface-change',
+  RELEASE_LABEL: 'release-label',
+  RELEASE_AS: 'release-as',
+  VERSION_GROUP: 'version-group',
+} as const;
+
+/**
+ * Breaking interface change constants - how a module's variables or outputs changed incompatibly
+ */
+export const INTERFACE_CHANGE = {
+  VARIABLE_REMOVED: 'variable-removed',
+  VARIABLE_REQUIRED: 'variable-required',
+  VARIABLE_TYPE_CHANGED: 'variable-type-changed',
+  OUTPUT_REMOVED: 'output-removed',
 } as const;
 
 /**
@@ -182,6 +252,100 @@ export const SEMVER_MODE = {
  */
 export const VALID_SEMVER_MODES = [SEMVER_MODE.KEYWORDS, SEMVER_MODE.CONVENTIONAL_COMMITS] as const;
 
+/**
+ * Semver source constants — controls which messages the release type is computed from.
+ *
+ * - `COMMITS`: The messages of the pull request's commits
+ * - `PR_TITLE`: The pull request title only, for repositories that squash merge
+ * - `PR_TITLE_AND_BODY`: The pull request title and body, analyzed as a single message
+ */
+export const SEMVER_SOURCE = {
+  COMMITS: 'commits',
+  PR_TITLE: 'pr-title',
+  PR_TITLE_AND_BODY: 'pr-title-and-body',
+} as const;
+
+/**
+ * Valid semver source values for the `semver-source` input.
+ */
+export const VALID_SEMVER_SOURCES = [
+  SEMVER_SOURCE.COMMITS,
+  SEMVER_SOURCE.PR_TITLE,
+  SEMVER_SOURCE.PR_TITLE_AND_BODY,
+] as const;
+
+/**
+ * Commit lint constants — controls how messages that are not conventional commits are reported when
+ * `semver-mode` is `conventional-commits`.
+ *
+ * - `OFF`: Messages are not linted; non-conventional messages fall back to `default-semver-level`
+ * - `WARN`: Offending messages are listed in the release plan comment and logged as a warning
+ * - `ERROR`: Offending messages are listed in the release plan comment and fail the pull request run
+ */
+export const COMMIT_LINT_MODE = {
+  OFF: 'off',
+  WARN: 'warn',
+  ERROR: 'error',
+} as const;
+
+/**
+ * Valid commit lint values for the `commit-lint` input.
+ */
+export const VALID_COMMIT_LINT_MODES = [COMMIT_LINT_MODE.OFF, COMMIT_LINT_MODE.WARN, COMMIT_LINT_MODE.ERROR] as const;
+
+/**
+ * Changelog format constants — controls how the commits of a release are listed in its changelog.
+ *
+ * - `FLAT`: One entry per commit message, in commit order
+ * - `GROUPED`: Entries grouped into Breaking Changes, Features, Bug Fixes and Other sections by their
+ *   conventional commit type, each linking its commit and crediting its author
+ */
+export const CHANGELOG_FORMAT = {
+  FLAT: 'flat',
+  GROUPED: 'grouped',
+} as const;
+
+/**
+ * Valid changelog format values for the `changelog-format` input.
+ */
+export const VALID_CHANGELOG_FORMATS = [CHANGELOG_FORMAT.FLAT, CHANGELOG_FORMAT.GROUPED] as const;
+
+/**
+ * Tag signing constants — controls how release tags are created.
+ *
+ * - `NONE`: Lightweight tags
+ * - `ANNOTATED`: Annotated tags carrying the release changelog as the tag message
+ * - `GPG`: Annotated tags signed with the GPG key of the `tag-signing-key` input
+ * - `SSH`: Annotated tags signed with the SSH key of the `tag-signing-key` input
+ */
+export const TAG_SIGNING = {
+  NONE: 'none',
+  ANNOTATED: 'annotated',
+  GPG: 'gpg',
+  SSH: 'ssh',
+} as const;
+
+/**
+ * Valid tag signing values for the `tag-signing` input.
+ */
+export const VALID_TAG_SIGNING_MODES = [
+  TAG_SIGNING.NONE,
+  TAG_SIGNING.ANNOTATED,
+  TAG_SIGNING.GPG,
+  TAG_SIGNING.SSH,
+] as const;
+
+/**
+ * The trailer of a signed release tag message that records the fingerprint of the key that signed the tag.
+ */
+export const SIGNING_KEY_TRAILER = 'Signing-Key';
+
+/**
+ * Matches the default messages of merge commits created by git and GitHub (e.g., when updating a pull
+ * request branch), which are exempt from commit linting.
+ */
+export const MERGE_COMMIT_REGEX = /^Merge (?:branch|pull request|remote-tracking branch|tag|commit) /;
+
 /**
  * The terraform-docs configuration filename supported by this action.
  *
@@ -189,3 +353,93 @@ export const VALID_SEMVER_MODES = [SEMVER_MODE.KEYWORDS, SEMVER_MODE.CONVENTIONA
  * filename and use it for module-level discovery.
  */
 export const TERRAFORM_DOCS_CONFIG_FILENAME = '.terraform-docs.yml';
+
+/**
+ * The per-module configuration filename, discovered in a module's directory or its `.config/` subdirectory.
+ */
+export const MODULE_CONFIG_FILENAME = '.terraform-module-releaser.yml';
+
+/**
+ * The changelog filename committed into a module's release tag when `module-changelog` is enabled.
+ */
+export const MODULE_CHANGELOG_FILENAME = 'CHANGELOG.md';
+
+/**
+ * The name of the release asset listing the SHA-256 checksums of a release's archives when `release-assets`
+ * is enabled.
+ */
+export const RELEASE_CHECKSUMS_FILENAME = 'SHA256SUMS';
+
+/**
+ * The name of the release asset holding the provenance statement of a release when `release-provenance` is
+ * enabled.
+ */
+export const RELEASE_PROVENANCE_FILENAME = 'provenance.intoto.json';
+
+/**
+ * The type of in-toto statements.
+ *
+ * @see https://github.com/in-toto/attestation/blob/main/spec/v1/statement.md
+ */
+export const IN_TOTO_STATEMENT_TYPE = 'https://in-toto.io/Statement/v1';
+
+/**
+ * The predicate type of SLSA provenance.
+ *
+ * @see https://slsa.dev/spec/v1.0/provenance
+ */
+export const SLSA_PROVENANCE_PREDICATE_TYPE = 'https://slsa.dev/provenance/v1';
+
+/**
+ * The build type of the provenance statements of module releases, identifying how the tag tree was built:
+ * the module files committed on their own and tagged.
+ */
+export const PROVENANCE_BUILD_TYPE = `${PROJECT_URL}/module-release/v1`;
+
+/**
+ * How many times a GitHub API request that hit a rate limit is retried once the limit resets.
+ */
+export const RATE_LIMIT_MAX_RETRIES = 3;
+
+/**
+ * The longest wait for a GitHub API rate limit to reset, in milliseconds. The primary rate limit resets
+ * hourly, so a longer wait means the reset time is not trustworthy and the request fails instead.
+ */
+export const RATE_LIMIT_MAX_WAIT_MS = 60 * 60 * 1000;
+
+/**
+ * The pause between requests that create content, in milliseconds, which GitHub asks for to stay clear of
+ * its secondary rate limits when many are made in a row (e.g., when backfilling releases).
+ *
+ * @see https://docs.github.com/en/rest/using-the-rest-api/best-practices-for-using-the-rest-api#pause-between-mutative-requests
+ */
+export const MUTATIVE_REQUEST_INTERVAL_MS = 1000;
+
+/**
+ * The action inputs a per-module configuration file may override. All other inputs apply to the
+ * whole repository and can only be set on the action itself.
+ */
+export const MODULE_CONFIG_INPUTS = [
+  'semver-mode',
+  'major-keywords',
+  'minor-keywords',
+  'patch-keywords',
+  'default-semver-level',
+  'default-first-tag',
+  'module-asset-exclude-patterns',
+  'module-change-exclude-patterns',
+  'pre-release',
+  'zero-major-mode',
+  'conventional-commit-types',
+  'module-changelog',
+] as const;
+
+/**
+ * Matches a pull request closing-keyword issue reference (e.g., "Fixes #123", "closes: owner/repo#45"),
+ * capturing the optional `owner/repo` and the issue number. The keywords are the ones GitHub recognizes
+ * to close issues when a pull request is merged.
+ *
+ * @see https://docs.github.com/en/issues/tracking-your-work-with-issues/linking-a-pull-request-to-an-issue
+ */
+export const CLOSING_ISSUE_REFERENCE_REGEX =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+(?:([\w.-]+\/[\w.-]+))?#(\d+)\b/gi;
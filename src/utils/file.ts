@@ -1,6 +1,6 @@
 import { copyFileSync, existsSync, mkdirSync, readdirSync, rmSync, statSync } from 'node:fs';
 import { dirname, extname, isAbsolute, join, relative, resolve } from 'node:path';
-import { TERRAFORM_DOCS_CONFIG_FILENAME } from '@/utils/constants';
+import { MODULE_CONFIG_FILENAME, TERRAFORM_DOCS_CONFIG_FILENAME } from '@/utils/constants';
 import { info } from '@actions/core';
 import { minimatch } from 'minimatch';
 
@@ -52,6 +52,30 @@ export function findModuleTerraformDocsConfig(moduleDirectory: string, workspace
   return null;
 }
 
+/**
+ * Locates a `.terraform-module-releaser.yml` configuration file for a module.
+ *
+ * Checks the module directory and its `.config/` subdirectory, in that order. Unlike
+ * {@link findModuleTerraformDocsConfig}, parent directories are not searched: the file configures
+ * the releases of a single module, so a file in a parent directory would otherwise silently apply
+ * to every module beneath it.
+ *
+ * @param moduleDirectory - The absolute path to the Terraform module directory.
+ * @returns The absolute path to the found config file, or `null` if none exists.
+ */
+export function findModuleReleaserConfig(moduleDirectory: string): string | null {
+  const resolvedModuleDir = resolve(moduleDirectory);
+
+  for (const dir of [resolvedModuleDir, join(resolvedModuleDir, '.config')]) {
+    const configPath = join(dir, MODULE_CONFIG_FILENAME);
+    if (existsSync(configPath)) {
+      return configPath;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Checks if a directory contains any Terraform (.tf) files.
  *
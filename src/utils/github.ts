@@ -3,7 +3,9 @@ import type { ExecFileSyncOptions } from 'node:child_process';
 import { config } from '@/config';
 import { context } from '@/context';
 import type { ExecSyncError } from '@/types';
-import { GITHUB_ACTIONS_BOT_USERNAME } from '@/utils/constants';
+import { GITHUB_ACTIONS_BOT_USERNAME, RATE_LIMIT_MAX_RETRIES, RATE_LIMIT_MAX_WAIT_MS } from '@/utils/constants';
+import { warning } from '@actions/core';
+import { RequestError } from '@octokit/request-error';
 
 /**
  * Retrieves the GitHub Actions bot email address dynamically by querying the GitHub API.
@@ -66,3 +68,75 @@ export function configureGitAuthentication(gitPath: string, execOptions: ExecFil
   // Set authentication header
   execFileSync(gitPath, ['config', '--local', extraHeaderKey, `Authorization: Basic ${basicCredential}`], execOptions);
 }
+
+/**
+ * Resolves after the given number of milliseconds.
+ *
+ * @param {number} ms - How long to wait, in milliseconds.
+ * @returns {Promise<void>} Resolves once the time has passed.
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Returns how long to wait, in milliseconds, before retrying a request that failed on a GitHub API rate limit,
+ * or null when the failure is not a rate limit.
+ *
+ * Secondary rate limits give the wait in a `retry-after` header (or, without it, ask for at least a minute).
+ * The primary rate limit is exhausted when `x-ratelimit-remaining` is 0, until `x-ratelimit-reset`.
+ *
+ * @see https://docs.github.com/en/rest/using-the-rest-api/rate-limits-for-the-rest-api#exceeding-the-rate-limit
+ */
+function getRateLimitDelay(error: unknown): number | null {
+  if (!(error instanceof RequestError) || (error.status !== 403 && error.status !== 429)) {
+    return null;
+  }
+
+  const headers = error.response?.headers ?? {};
+  const retryAfter = Number(headers['retry-after']);
+  if (headers['retry-after'] !== undefined && Number.isFinite(retryAfter)) {
+    return retryAfter * 1000;
+  }
+  if (String(headers['x-ratelimit-remaining']) === '0') {
+    const resetAt = Number(headers['x-ratelimit-reset']) * 1000;
+    // One more second, since the reset time is rounded down to the second
+    return Number.isFinite(resetAt) ? Math.max(resetAt - Date.now(), 0) + 1000 : null;
+  }
+
+  return /secondary rate limit/i.test(error.message) ? 60 * 1000 : null;
+}
+
+/**
+ * Runs a GitHub API request, waiting for a rate limit to reset and retrying when the request hits one.
+ *
+ * Up to {@link RATE_LIMIT_MAX_RETRIES} retries are made, each after the wait the response asks for. Any other
+ * failure, and a rate limit that resets too late (see {@link RATE_LIMIT_MAX_WAIT_MS}), is rethrown as is.
+ * Meant for bulk operations that make many requests in a row, such as backfilling releases.
+ *
+ * @param {() => Promise<T>} request - Makes the request. Called again for each retry.
+ * @returns {Promise<T>} The result of the request.
+ * @throws {RequestError} When the request fails for another reason than a rate limit, or keeps hitting one
+ *
+ * @example
+ * ```typescript
+ * const { data } = await withRateLimitRetry(() => octokit.rest.repos.getCommit({ owner, repo, ref: sha }));
+ * ```
+ */
+export async function withRateLimitRetry<T>(request: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const delay = getRateLimitDelay(error);
+      if (delay === null || delay > RATE_LIMIT_MAX_WAIT_MS || attempt > RATE_LIMIT_MAX_RETRIES) {
+        throw error;
+      }
+
+      warning(
+        `GitHub API rate limit reached. Retrying in ${Math.ceil(delay / 1000)} seconds (retry ${attempt} of ${RATE_LIMIT_MAX_RETRIES}).`,
+      );
+      await sleep(delay);
+    }
+  }
+}
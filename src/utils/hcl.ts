@@ -0,0 +1,382 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { extname, join, resolve } from 'node:path';
+import type { HclBlock } from '@/types';
+
+/**
+ * Matches a block header (type followed by optional quoted or bare labels and an opening brace) at the
+ * current position. Used with the sticky flag so it only ever matches at a known top-level line offset.
+ */
+const HCL_BLOCK_HEADER_REGEX = /[ \t]*([A-Za-z_][\w-]*)((?:[ \t]+(?:"[^"\n]*"|[A-Za-z_][\w-]*))*)[ \t]*\{/y;
+
+/**
+ * Matches a single quoted (`"name"`) or bare (`name`) block label.
+ */
+const HCL_BLOCK_LABEL_REGEX = /"([^"\n]*)"|([A-Za-z_][\w-]*)/g;
+
+/**
+ * Matches an attribute assignment (`name = expression`) at the current position. The negative lookahead
+ * prevents equality comparisons (`==`) from being read as assignments.
+ */
+const HCL_ATTRIBUTE_REGEX = /[ \t]*([A-Za-z_][\w-]*)[ \t]*=(?!=)/y;
+
+/**
+ * Matches the opening line of a heredoc (`<<EOF` or `<<-EOF`) and captures the terminator identifier.
+ */
+const HCL_HEREDOC_REGEX = /<<-?([A-Za-z_][\w-]*)[ \t]*\r?\n/y;
+
+/**
+ * Returns a copy of the HCL source where comments, heredoc bodies and the contents of string literals
+ * (including template interpolations) are replaced with spaces.
+ *
+ * The masked copy has exactly the same length and line layout as the input, so offsets found while
+ * scanning the masked structure can be used to slice values out of the original source. This lets the
+ * scanner count braces without being confused by braces that appear inside strings or comments.
+ *
+ * @param {string} content - The raw HCL source
+ * @returns {string} The masked HCL source
+ */
+export function maskHcl(content: string): string {
+  const output = content.split('');
+  // Stack of lexical contexts: a string literal, or an interpolation (`${ ... }`) inside a string literal
+  // together with its own brace depth so nested object literals are handled correctly.
+  const stack: Array<{ kind: 'string' } | { kind: 'template'; depth: number }> = [];
+
+  const blank = (from: number, to: number): void => {
+    for (let index = from; index < to && index < output.length; index++) {
+      if (output[index] !== '\n' && output[index] !== '\r') {
+        output[index] = ' ';
+      }
+    }
+  };
+
+  let index = 0;
+  while (index < content.length) {
+    const char = content[index];
+    const next = content[index + 1];
+    const top = stack[stack.length - 1];
+
+    if (top?.kind === 'string') {
+      if (char === '\\') {
+        blank(index, index + 2);
+        index += 2;
+      } else if (char === '"') {
+        stack.pop();
+        // Keep the delimiters of the outermost string so labels remain recognizable
+        if (stack.length > 0) {
+          blank(index, index + 1);
+        }
+        index++;
+      } else if ((char === '$' || char === '%') && next === '{') {
+        blank(index, index + 2);
+        stack.push({ kind: 'template', depth: 0 });
+        index += 2;
+      } else {
+        blank(index, index + 1);
+        index++;
+      }
+      continue;
+    }
+
+    // Comments (only reachable outside string literals)
+    if (char === '#' || (char === '/' && next === '/')) {
+      const end = content.indexOf('\n', index);
+      const commentEnd = end === -1 ? content.length : end;
+      blank(index, commentEnd);
+      index = commentEnd;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', index + 2);
+      const commentEnd = end === -1 ? content.length : end + 2;
+      blank(index, commentEnd);
+      index = commentEnd;
+      continue;
+    }
+
+    if (char === '"') {
+      if (stack.length > 0) {
+        blank(index, index + 1);
+      }
+      stack.push({ kind: 'string' });
+      index++;
+      continue;
+    }
+
+    if (top === undefined && char === '<' && next === '<') {
+      HCL_HEREDOC_REGEX.lastIndex = index;
+      const heredoc = HCL_HEREDOC_REGEX.exec(content);
+      if (heredoc) {
+        const bodyStart = index + heredoc[0].length;
+        const terminator = new RegExp(`^[ \\t]*${heredoc[1]}[ \\t]*$`, 'm');
+        const terminatorMatch = terminator.exec(content.slice(bodyStart));
+        const bodyEnd = terminatorMatch ? bodyStart + terminatorMatch.index : content.length;
+        const heredocEnd = terminatorMatch ? bodyEnd + terminatorMatch[0].length : content.length;
+        blank(index, heredocEnd);
+        index = heredocEnd;
+        continue;
+      }
+    }
+
+    if (top?.kind === 'template') {
+      if (char === '{') {
+        top.depth++;
+      } else if (char === '}') {
+        if (top.depth === 0) {
+          stack.pop();
+        } else {
+          top.depth--;
+        }
+      }
+      blank(index, index + 1);
+    }
+
+    index++;
+  }
+
+  return output.join('');
+}
+
+/**
+ * Returns the offsets of every line that starts at nesting depth zero within the masked source.
+ *
+ * @param {string} masked - HCL source previously processed by {@link maskHcl}
+ * @returns {number[]} The character offsets of all top-level line starts
+ */
+function getTopLevelLineOffsets(masked: string): number[] {
+  const offsets: number[] = [];
+  let depth = 0;
+  let atLineStart = true;
+
+  for (let index = 0; index < masked.length; index++) {
+    if (atLineStart && depth === 0) {
+      offsets.push(index);
+    }
+    atLineStart = false;
+
+    const char = masked[index];
+    if (char === '{' || char === '[' || char === '(') {
+      depth++;
+    } else if (char === '}' || char === ']' || char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === '\n') {
+      atLineStart = true;
+    }
+  }
+
+  return offsets;
+}
+
+/**
+ * Finds the index of the brace that closes the brace at `openIndex` in the masked source.
+ *
+ * @param {string} masked - HCL source previously processed by {@link maskHcl}
+ * @param {number} openIndex - The index of an opening brace
+ * @returns {number} The index of the matching closing brace, or the source length if it is unbalanced
+ */
+function findClosingBrace(masked: string, openIndex: number): number {
+  let depth = 0;
+  for (let index = openIndex; index < masked.length; index++) {
+    const char = masked[index];
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+
+  return masked.length;
+}
+
+/**
+ * Parses the top-level blocks of an HCL document.
+ *
+ * This is intentionally a lightweight scanner rather than a full HCL parser: it understands comments,
+ * string literals, template interpolations and heredocs well enough to locate block boundaries, which
+ * is all the release logic needs (e.g. reading `module` sources or `variable` declarations).
+ *
+ * @param {string} content - The raw HCL source
+ * @returns {HclBlock[]} The top-level blocks in document order
+ *
+ * @example
+ * ```typescript
+ * parseHclBlocks('module "vpc" {\n  source = "../vpc"\n}\n');
+ * // [{ type: 'module', labels: ['vpc'], body: '\n  source = "../vpc"\n' }]
+ * ```
+ */
+export function parseHclBlocks(content: string): HclBlock[] {
+  const masked = maskHcl(content);
+  const blocks: HclBlock[] = [];
+
+  for (const offset of getTopLevelLineOffsets(masked)) {
+    HCL_BLOCK_HEADER_REGEX.lastIndex = offset;
+    const header = HCL_BLOCK_HEADER_REGEX.exec(masked);
+    if (!header) {
+      continue;
+    }
+
+    const openIndex = offset + header[0].length - 1;
+    const closeIndex = findClosingBrace(masked, openIndex);
+
+    // Labels are read from the original source since the contents of quoted labels are masked
+    const labelsStart = offset + header[0].indexOf(header[1]) + header[1].length;
+    const labelsSource = content.slice(labelsStart, labelsStart + header[2].length);
+    const labels = Array.from(labelsSource.matchAll(HCL_BLOCK_LABEL_REGEX), (label) => label[1] ?? label[2]);
+
+    blocks.push({
+      type: header[1],
+      labels,
+      body: content.slice(openIndex + 1, closeIndex),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parses the top-level attributes of an HCL block body.
+ *
+ * Nested blocks (e.g. `validation { ... }`) are ignored. Attribute values are returned as the raw,
+ * trimmed expression text so callers can decide how to interpret them.
+ *
+ * @param {string} body - The block body as returned in {@link HclBlock.body}
+ * @returns {Map<string, string>} A map of attribute names to raw expressions
+ */
+export function parseHclAttributes(body: string): Map<string, string> {
+  const masked = maskHcl(body);
+  const offsets = getTopLevelLineOffsets(masked);
+  const attributes = new Map<string, string>();
+
+  for (const [position, offset] of offsets.entries()) {
+    HCL_ATTRIBUTE_REGEX.lastIndex = offset;
+    const match = HCL_ATTRIBUTE_REGEX.exec(masked);
+    if (!match) {
+      continue;
+    }
+
+    // The expression runs until the next line that starts back at the top level
+    const valueStart = offset + match[0].length;
+    const valueEnd = offsets[position + 1] ?? body.length;
+    const maskedValue = masked.slice(valueStart, valueEnd);
+
+    // Drop trailing comments by trimming to the masked (comment-free) length
+    const trimmedLength = maskedValue.trimEnd().length;
+    attributes.set(match[1], body.slice(valueStart, valueStart + trimmedLength).trim());
+  }
+
+  return attributes;
+}
+
+/**
+ * Returns the value of a plain HCL string literal (e.g. `"../vpc"`), or null when the expression is
+ * anything else (a reference, a function call, or a string containing interpolations).
+ *
+ * @param {string} expression - A raw attribute expression
+ * @returns {string | null} The unquoted string value or null
+ */
+export function parseHclStringLiteral(expression: string): string | null {
+  const match = /^"((?:[^"\\$%]|\\.|\$(?!\{)|%(?!\{))*)"$/.exec(expression.trim());
+  if (!match) {
+    return null;
+  }
+
+  return match[1].replaceAll(/\\(.)/g, '$1');
+}
+
+/**
+ * Normalizes an HCL expression for comparison by removing comments and any whitespace outside of
+ * string literals, so that purely cosmetic edits (re-indentation, added comments) compare equal.
+ *
+ * @param {string} expression - A raw attribute expression
+ * @returns {string} The normalized expression
+ *
+ * @example
+ * ```typescript
+ * normalizeHclExpression('object({\n  name = string # the name\n})'); // 'object({name=string})'
+ * ```
+ */
+export function normalizeHclExpression(expression: string): string {
+  let normalized = '';
+  let inString = false;
+
+  for (let index = 0; index < expression.length; index++) {
+    const char = expression[index];
+    const next = expression[index + 1];
+
+    if (inString) {
+      if (char === '\\') {
+        normalized += char + (next ?? '');
+        index++;
+        continue;
+      }
+      inString = char !== '"';
+      normalized += char;
+    } else if (char === '"') {
+      inString = true;
+      normalized += char;
+    } else if (char === '#' || (char === '/' && next === '/')) {
+      const end = expression.indexOf('\n', index);
+      index = end === -1 ? expression.length : end;
+    } else if (char === '/' && next === '*') {
+      const end = expression.indexOf('*/', index + 2);
+      index = end === -1 ? expression.length : end + 1;
+    } else if (!/\s/.test(char)) {
+      normalized += char;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Reads the contents of every `.tf` file directly inside a module directory, in file name order.
+ *
+ * @param {string} moduleDirectory - The absolute path to the Terraform module directory
+ * @returns {string[]} The contents of the module's Terraform files
+ */
+export function readTerraformFiles(moduleDirectory: string): string[] {
+  return readdirSync(moduleDirectory, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && extname(entry.name) === '.tf')
+    .map((entry) => entry.name)
+    .sort((a, b) => a.localeCompare(b))
+    .map((file) => readFileSync(join(moduleDirectory, file), 'utf8'));
+}
+
+/**
+ * Finds the local modules called by a Terraform module.
+ *
+ * Scans every `.tf` file directly inside the module directory for `module` blocks whose `source` is a
+ * local path (starting with `./` or `../`), and resolves each one to an absolute directory. Remote
+ * sources (registry, git, HTTP, etc.) are ignored since they are versioned independently.
+ *
+ * @param {string} moduleDirectory - The absolute path to the Terraform module directory
+ * @returns {string[]} Unique, absolute paths to the local module directories referenced by the module
+ *
+ * @example
+ * ```typescript
+ * // tf-modules/zoo/main.tf contains: module "animal" { source = "../animal" }
+ * findLocalModuleSources('/workspace/tf-modules/zoo'); // ['/workspace/tf-modules/animal']
+ * ```
+ */
+export function findLocalModuleSources(moduleDirectory: string): string[] {
+  const sources = new Set<string>();
+
+  for (const content of readTerraformFiles(moduleDirectory)) {
+    for (const block of parseHclBlocks(content)) {
+      if (block.type !== 'module') {
+        continue;
+      }
+
+      const sourceExpression = parseHclAttributes(block.body).get('source');
+      const source = sourceExpression ? parseHclStringLiteral(sourceExpression) : null;
+      if (source?.startsWith('./') || source?.startsWith('../')) {
+        sources.add(resolve(moduleDirectory, source));
+      }
+    }
+  }
+
+  return Array.from(sources);
+}
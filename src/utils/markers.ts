@@ -1,4 +1,5 @@
 import { context } from '@/context';
+import type { ReleaseMarker } from '@/types';
 import { RELEASE_BODY_PR_MARKER_PREFIX, RELEASE_BODY_PR_MARKER_SCHEMA } from '@/utils/constants';
 
 /**
@@ -127,6 +128,35 @@ export function hasAnyPrMarker(text: string | undefined | null): boolean {
   return collectMarkerIdentities(text).size > 0;
 }
 
+/**
+ * Finds the marker of a release body or release commit message, e.g. to rebuild the body of a release
+ * produced by another pull request while keeping its marker exactly as written.
+ *
+ * Follows the matching rules of {@link matchesPrMarker}: only standalone marker lines count, and text
+ * whose markers name more than one pull request, or a pull request of another repository, has none.
+ *
+ * @param {string | undefined | null} text - The release body or commit message to scan.
+ * @returns {ReleaseMarker | null} The marker and the pull request it names, or null when there is none.
+ */
+export function findPrMarker(text: string | undefined | null): ReleaseMarker | null {
+  if (!text) {
+    return null;
+  }
+
+  const matches = [...text.matchAll(MARKER_LINE_REGEX)];
+  const identities = new Set(matches.map((match) => match[1]));
+  if (identities.size !== 1) {
+    return null;
+  }
+
+  const prNumber = Number(matches[0][1].split('#').at(-1));
+  if (matches[0][1] !== buildPrIdentity(prNumber)) {
+    return null;
+  }
+
+  return { marker: matches[0][0].trim(), prNumber };
+}
+
 /**
  * Returns true if `text` contains `marker` on a line of its own.
  *
@@ -154,6 +184,18 @@ export function hasStandaloneMarkerLine(text: string | undefined | null, marker:
   return new RegExp(String.raw`(^|\r?\n)[ \t]*${escapeRegExp(marker)}[ \t]*(\r?\n|$)`).test(text);
 }
 
+/**
+ * Removes the standalone marker lines from a text, e.g. release bodies copied into a file where the
+ * hidden comments would only be noise. The text is meant for display only: it must never be used where
+ * markers are matched.
+ *
+ * @param {string} text - The release body or other text to clean up.
+ * @returns {string} The text without its marker lines.
+ */
+export function stripPrMarkers(text: string): string {
+  return text.replaceAll(MARKER_LINE_REGEX, '');
+}
+
 /**
  * Neutralizes any text that looks like one of our markers so untrusted input can never forge the
  * idempotency tie or the provenance proof.
@@ -1,4 +1,19 @@
 import type { ActionInputMetadata, Config } from '@/types';
+import {
+  COMMIT_TYPE_ENTRY_REGEX,
+  VALID_CHANGELOG_FORMATS,
+  VALID_COMMIT_LINT_MODES,
+  PRE_RELEASE_CHANNEL_REGEX,
+  TAG_SIGNING,
+  VALID_COMMIT_TYPE_LEVELS,
+  VALID_MODULE_REF_MODES,
+  VALID_SEMVER_LEVELS,
+  VALID_SEMVER_MODES,
+  VALID_SEMVER_SOURCES,
+  VALID_TAG_DIRECTORY_SEPARATORS,
+  VALID_TAG_SIGNING_MODES,
+  VERSION_TAG_REGEX,
+} from '@/utils/constants';
 import { getBooleanInput, getInput } from '@actions/core';
 
 /**
@@ -29,6 +44,18 @@ const requiredNumber = (configKey: keyof Config): ActionInputMetadata => ({
   type: 'number',
 });
 
+const optionalString = (configKey: keyof Config): ActionInputMetadata => ({
+  configKey,
+  required: false,
+  type: 'string',
+});
+
+const optionalBoolean = (configKey: keyof Config): ActionInputMetadata => ({
+  configKey,
+  required: false,
+  type: 'boolean',
+});
+
 const optionalArray = (configKey: keyof Config): ActionInputMetadata => ({
   configKey,
   required: false,
@@ -63,6 +90,31 @@ export const ACTION_INPUTS: Record<string, ActionInputMetadata> = {
   'module-ref-mode': requiredString('moduleRefMode'),
   'pre-release': requiredBoolean('preRelease'),
   'hide-no-changes-pr-comment': requiredBoolean('hideNoChangesPrComment'),
+  'pre-release-channel': optionalString('preReleaseChannel'),
+  'pre-release-channel-branches': optionalArray('preReleaseChannelBranches'),
+  'version-groups': optionalArray('versionGroups'),
+  'detect-breaking-interface-changes': optionalBoolean('detectBreakingInterfaceChanges'),
+  'zero-major-mode': requiredBoolean('zeroMajorMode'),
+  'conventional-commit-types': optionalArray('conventionalCommitTypes'),
+  'scope-routing': requiredBoolean('scopeRouting'),
+  'scope-aliases': optionalArray('scopeAliases'),
+  'semver-source': requiredString('semverSource'),
+  'commit-lint': requiredString('commitLint'),
+  'changelog-format': requiredString('changelogFormat'),
+  'changelog-template': optionalString('changelogTemplate'),
+  'changelog-template-file': optionalString('changelogTemplateFile'),
+  'changelog-pr-body-section': optionalString('changelogPrBodySection'),
+  'changelog-linked-issues': requiredBoolean('changelogLinkedIssues'),
+  'module-changelog': requiredBoolean('moduleChangelog'),
+  'release-rebuild-dry-run': requiredBoolean('releaseRebuildDryRun'),
+  'tag-signing': requiredString('tagSigning'),
+  'tag-signing-key': optionalString('tagSigningKey'),
+  'release-assets': requiredBoolean('releaseAssets'),
+  'release-provenance': requiredBoolean('releaseProvenance'),
+  'tag-migration': requiredBoolean('tagMigration'),
+  'tag-migration-dry-run': requiredBoolean('tagMigrationDryRun'),
+  'tag-migration-delete-old-tags': requiredBoolean('tagMigrationDeleteOldTags'),
+  'release-backfill': requiredBoolean('releaseBackfill'),
 } as const;
 
 /**
@@ -73,6 +125,11 @@ export const ACTION_INPUTS: Record<string, ActionInputMetadata> = {
  */
 function getInputValue(inputName: string, { required, type }: ActionInputMetadata): unknown {
   if (type === 'boolean') {
+    // getBooleanInput rejects empty values, so an optional boolean input that is not supplied is false
+    if (!required && getInput(inputName) === '') {
+      return false;
+    }
+
     // Use getBooleanInput for boolean types for proper parsing
     return getBooleanInput(inputName, { required });
   }
@@ -131,3 +188,171 @@ export function createConfigFromInputs(): Config {
 
   return config;
 }
+
+/**
+ * Validates a config object against the rules shared by the action inputs and per-module
+ * configuration files, normalizing values where the rules allow it (e.g., stripping the "v"
+ * prefix from the default first tag when version prefixes are disabled).
+ *
+ * @param config - The config to validate; normalized in place
+ * @throws {TypeError} When any value violates a validation rule
+ */
+export function validateConfig(config: Config): void {
+  // Validate that *.tf is not in excludePatterns
+  if (config.moduleChangeExcludePatterns.includes('*.tf')) {
+    throw new TypeError('Exclude patterns cannot contain "*.tf" as it is required for module detection');
+  }
+  if (config.moduleAssetExcludePatterns.includes('*.tf')) {
+    throw new TypeError('Asset exclude patterns cannot contain "*.tf" as these files are required');
+  }
+
+  // Validate WikiSidebar Changelog Max is greater than zero. (createConfigFromInputs rejects
+  // non-numeric number inputs, so NaN cannot reach this comparison.)
+  if (config.wikiSidebarChangelogMax < 1) {
+    throw new TypeError('Wiki Sidebar Change Log Max must be an integer greater than or equal to one');
+  }
+
+  // Validate tag directory separator
+  if (config.tagDirectorySeparator.length !== 1) {
+    throw new TypeError('Tag directory separator must be exactly one character');
+  }
+  if (!VALID_TAG_DIRECTORY_SEPARATORS.includes(config.tagDirectorySeparator)) {
+    throw new TypeError(
+      `Tag directory separator must be one of: ${VALID_TAG_DIRECTORY_SEPARATORS.join(', ')}. Got: '${
+        config.tagDirectorySeparator
+      }'`,
+    );
+  }
+  // Validate default first tag format (pre-release suffixes are added by the channel mode, not configured here)
+  const defaultFirstTagMatch = VERSION_TAG_REGEX.exec(config.defaultFirstTag);
+  if (!defaultFirstTagMatch || defaultFirstTagMatch[4] !== undefined) {
+    throw new TypeError(
+      `Default first tag must be in format v#.#.# or #.#.# (e.g., v1.0.0 or 1.0.0). Got: '${config.defaultFirstTag}'`,
+    );
+  }
+
+  // If we aren't using "v" prefix but the default first tag was specified with a "v"
+  // prefix, then strip this to enforce.
+  if (!config.useVersionPrefix && config.defaultFirstTag.startsWith('v')) {
+    config.defaultFirstTag = config.defaultFirstTag.substring(1);
+  }
+
+  // Validate module ref mode
+  if (!VALID_MODULE_REF_MODES.includes(config.moduleRefMode)) {
+    throw new TypeError(
+      `Invalid module_ref_mode '${config.moduleRefMode}'. Must be one of: ${VALID_MODULE_REF_MODES.join(', ')}`,
+    );
+  }
+
+  // Validate default semver level
+  if (!VALID_SEMVER_LEVELS.includes(config.defaultSemverLevel)) {
+    throw new TypeError(
+      `Invalid default-semver-level '${config.defaultSemverLevel}'. Must be one of: ${VALID_SEMVER_LEVELS.join(', ')}`,
+    );
+  }
+
+  // Validate semver mode
+  if (!VALID_SEMVER_MODES.includes(config.semverMode)) {
+    throw new TypeError(`Invalid semver-mode '${config.semverMode}'. Must be one of: ${VALID_SEMVER_MODES.join(', ')}`);
+  }
+
+  // Validate semver source
+  if (!VALID_SEMVER_SOURCES.includes(config.semverSource)) {
+    throw new TypeError(
+      `Invalid semver-source '${config.semverSource}'. Must be one of: ${VALID_SEMVER_SOURCES.join(', ')}`,
+    );
+  }
+
+  // Validate commit lint mode
+  if (!VALID_COMMIT_LINT_MODES.includes(config.commitLint)) {
+    throw new TypeError(
+      `Invalid commit-lint '${config.commitLint}'. Must be one of: ${VALID_COMMIT_LINT_MODES.join(', ')}`,
+    );
+  }
+
+  // Validate changelog format
+  if (!VALID_CHANGELOG_FORMATS.includes(config.changelogFormat)) {
+    throw new TypeError(
+      `Invalid changelog-format '${config.changelogFormat}'. Must be one of: ${VALID_CHANGELOG_FORMATS.join(', ')}`,
+    );
+  }
+
+  // Validate that the changelog template is provided once
+  if (config.changelogTemplate !== '' && config.changelogTemplateFile !== '') {
+    throw new TypeError('Only one of changelog-template and changelog-template-file can be set');
+  }
+
+  // Validate tag signing mode and that the signing modes have a key
+  if (!VALID_TAG_SIGNING_MODES.includes(config.tagSigning)) {
+    throw new TypeError(
+      `Invalid tag-signing '${config.tagSigning}'. Must be one of: ${VALID_TAG_SIGNING_MODES.join(', ')}`,
+    );
+  }
+  if ((config.tagSigning === TAG_SIGNING.GPG || config.tagSigning === TAG_SIGNING.SSH) && config.tagSigningKey === '') {
+    throw new TypeError(`tag-signing-key is required when tag-signing is '${config.tagSigning}'`);
+  }
+
+  // Validate pre-release channel and branch mappings
+  if (config.preReleaseChannel !== '' && !PRE_RELEASE_CHANNEL_REGEX.test(config.preReleaseChannel)) {
+    throw new TypeError(
+      `Invalid pre-release-channel '${config.preReleaseChannel}'. Must start with a letter and contain only letters, digits and hyphens`,
+    );
+  }
+  for (const entry of config.preReleaseChannelBranches) {
+    const [pattern, channel, ...rest] = entry.split('=').map((part) => part.trim());
+    if (!pattern || channel === undefined || rest.length > 0 || !PRE_RELEASE_CHANNEL_REGEX.test(channel)) {
+      throw new TypeError(
+        `Invalid pre-release-channel-branches entry '${entry}'. Expected format 'branch-pattern=channel' (e.g., 'next=rc')`,
+      );
+    }
+  }
+
+  // Validate version group entries; a module can only belong to one group
+  const versionGroupsByModule = new Map<string, string>();
+  for (const entry of config.versionGroups) {
+    const [moduleName, groupName, ...rest] = entry.split('=').map((part) => part.trim());
+    if (!moduleName || !groupName || rest.length > 0) {
+      throw new TypeError(
+        `Invalid version-groups entry '${entry}'. Expected format 'module=group' (e.g., 'vpc-endpoint=networking')`,
+      );
+    }
+
+    const existingGroupName = versionGroupsByModule.get(moduleName);
+    if (existingGroupName !== undefined && existingGroupName !== groupName) {
+      throw new TypeError(
+        `Invalid version-groups entry '${entry}'. Module '${moduleName}' already belongs to version group '${existingGroupName}'`,
+      );
+    }
+    versionGroupsByModule.set(moduleName, groupName);
+  }
+
+  // Validate conventional commit type mappings; each type (and scope) can only be mapped once
+  const commitTypeLevels = new Map<string, string>();
+  for (const entry of config.conventionalCommitTypes) {
+    const match = COMMIT_TYPE_ENTRY_REGEX.exec(entry);
+    const level = match?.[3].toLowerCase() ?? '';
+    if (match === null || !(VALID_COMMIT_TYPE_LEVELS as ReadonlyArray<string>).includes(level)) {
+      throw new TypeError(
+        `Invalid conventional-commit-types entry '${entry}'. Expected format 'type=level' or 'type(scope)=level' where level is one of: ${VALID_COMMIT_TYPE_LEVELS.join(', ')}`,
+      );
+    }
+
+    const [, type, scope] = match;
+    const key = (scope === undefined ? type : `${type}(${scope})`).toLowerCase();
+    const existingLevel = commitTypeLevels.get(key);
+    if (existingLevel !== undefined && existingLevel !== level) {
+      throw new TypeError(
+        `Invalid conventional-commit-types entry '${entry}'. Type '${key}' is already mapped to '${existingLevel}'`,
+      );
+    }
+    commitTypeLevels.set(key, level);
+  }
+
+  // Validate scope alias entries; a scope may map to several modules
+  for (const entry of config.scopeAliases) {
+    const [scope, moduleName, ...rest] = entry.split('=').map((part) => part.trim());
+    if (!scope || !moduleName || rest.length > 0) {
+      throw new TypeError(`Invalid scope-aliases entry '${entry}'. Expected format 'scope=module' (e.g., 'net=vpc')`);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { readFileSync } from 'node:fs';
+import { getConfig } from '@/config';
+import type { ActionInputMetadata, Config, ModuleConfigOverrides } from '@/types';
+import { MODULE_CONFIG_INPUTS } from '@/utils/constants';
+import { findModuleReleaserConfig } from '@/utils/file';
+import { ACTION_INPUTS, validateConfig } from '@/utils/metadata';
+import { info } from '@actions/core';
+import * as yaml from 'js-yaml';
+
+/**
+ * Converts a value read from a module config file according to the input's metadata type.
+ *
+ * Array inputs accept either a YAML sequence or the comma-separated string format used by the action
+ * inputs; both are trimmed and deduplicated the same way.
+ *
+ * @throws {TypeError} When the value does not have the type the input expects
+ */
+function getModuleConfigValue(value: unknown, { type }: ActionInputMetadata): unknown {
+  if (type === 'boolean') {
+    if (typeof value !== 'boolean') {
+      throw new TypeError(`Expected a boolean, got '${String(value)}'`);
+    }
+    return value;
+  }
+
+  if (type === 'array') {
+    const items = typeof value === 'string' ? value.split(',') : value;
+    if (!Array.isArray(items) || !items.every((item) => typeof item === 'string')) {
+      throw new TypeError('Expected a list of strings or a comma-separated string');
+    }
+    return Array.from(new Set(items.map((item: string) => item.trim()).filter(Boolean)));
+  }
+
+  if (typeof value !== 'string') {
+    throw new TypeError(`Expected a string, got '${String(value)}'`);
+  }
+  return value.trim();
+}
+
+/**
+ * Loads the per-module config overrides from a module's `.terraform-module-releaser.yml`, if present.
+ *
+ * The file is a YAML mapping keyed by action input name (e.g., `semver-mode`, `pre-release`), limited to
+ * the inputs in {@link MODULE_CONFIG_INPUTS}. The overrides are applied on top of the action's config and
+ * the result is validated with the same rules as the action inputs, so a module config can never produce
+ * a configuration the action itself would reject.
+ *
+ * @param moduleDirectory - The absolute path to the Terraform module directory
+ * @returns The validated (and normalized) overrides, or an empty object when the module has no config file
+ * @throws {Error} When the file cannot be parsed, contains unsupported inputs, or fails validation
+ *
+ * @example
+ * ```yaml
+ * # modules/experimental/.terraform-module-releaser.yml
+ * default-first-tag: v0.1.0
+ * pre-release: true
+ * module-asset-exclude-patterns:
+ *   - tests/**
+ *   - '*.md'
+ * ```
+ */
+export function loadModuleConfigOverrides(moduleDirectory: string): ModuleConfigOverrides {
+  const configPath = findModuleReleaserConfig(moduleDirectory);
+  if (configPath === null) {
+    return {};
+  }
+
+  let document: unknown;
+  try {
+    // loadAll() rather than load() so that an empty file (or one containing only comments) yields no
+    // document instead of throwing
+    const documents = yaml.loadAll(readFileSync(configPath, 'utf8'), { schema: yaml.JSON_SCHEMA });
+    if (documents.length > 1) {
+      throw new Error('expected a single document in the stream, but found more');
+    }
+    document = documents[0];
+  } catch (error) {
+    throw new Error(
+      `Failed to parse module config '${configPath}': ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (document === undefined || document === null) {
+    return {};
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    throw new TypeError(`Module config '${configPath}' must be a mapping of input names to values`);
+  }
+
+  const overrides: Record<string, unknown> = {};
+  for (const [inputName, value] of Object.entries(document)) {
+    if (!(MODULE_CONFIG_INPUTS as ReadonlyArray<string>).includes(inputName)) {
+      throw new TypeError(
+        `Unsupported input '${inputName}' in module config '${configPath}'. Supported inputs: ${MODULE_CONFIG_INPUTS.join(', ')}`,
+      );
+    }
+
+    const metadata = ACTION_INPUTS[inputName];
+    try {
+      overrides[metadata.configKey] = getModuleConfigValue(value, metadata);
+    } catch (error) {
+      throw new Error(
+        `Failed to process input '${inputName}' in module config '${configPath}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  const moduleConfig = { ...getConfig(), ...overrides } as Config;
+  try {
+    validateConfig(moduleConfig);
+  } catch (error) {
+    throw new TypeError(
+      `Invalid module config '${configPath}': ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  // Return the normalized values rather than the raw ones (e.g., a stripped "v" prefix)
+  const normalizedOverrides = Object.fromEntries(
+    Object.keys(overrides).map((key) => [key, moduleConfig[key as keyof Config]]),
+  ) as ModuleConfigOverrides;
+
+  info(`Loaded module config '${configPath}' (overrides: ${Object.keys(normalizedOverrides).join(', ')})`);
+
+  return normalizedOverrides;
+}
@@ -0,0 +1,72 @@
+import type { IssueReference } from '@/types';
+import { CLOSING_ISSUE_REFERENCE_REGEX } from '@/utils/constants';
+
+/**
+ * Matches an ATX markdown heading line, capturing its level (the `#` characters) and its text.
+ */
+const MARKDOWN_HEADING_REGEX = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Extracts the content of a section of a pull request body: the lines following the heading whose text
+ * equals `heading` (case-insensitively, at any level), up to the next heading of the same or a higher
+ * level. HTML comments, which pull request templates typically use for guidance, are removed.
+ *
+ * @param {string} body - The pull request body
+ * @param {string} heading - The text of the section heading, with or without its `#` characters (e.g., `Changelog`)
+ * @returns {string | null} The trimmed section content, or null when the section is missing or empty
+ *
+ * @example
+ * ```typescript
+ * extractPullRequestBodySection('## Summary\nRefactor\n\n## Changelog\n- Add flow logs\n', 'Changelog');
+ * // '- Add flow logs'
+ * ```
+ */
+export function extractPullRequestBodySection(body: string, heading: string): string | null {
+  const headingText = heading.replace(/^#+/, '').trim().toLowerCase();
+  const lines = body.replaceAll(/<!--[\s\S]*?-->/g, '').split(/\r?\n/);
+
+  let sectionLevel: number | null = null;
+  const sectionLines: string[] = [];
+  let inCodeFence = false;
+  for (const line of lines) {
+    if (/^ {0,3}(```|~~~)/.test(line)) {
+      inCodeFence = !inCodeFence;
+    }
+
+    const match = inCodeFence ? null : MARKDOWN_HEADING_REGEX.exec(line);
+    if (sectionLevel === null) {
+      if (match !== null && match[2].trim().toLowerCase() === headingText) {
+        sectionLevel = match[1].length;
+      }
+      continue;
+    }
+
+    if (match !== null && match[1].length <= sectionLevel) {
+      break;
+    }
+    sectionLines.push(line);
+  }
+
+  const section = sectionLines.join('\n').trim();
+
+  return section === '' ? null : section;
+}
+
+/**
+ * Finds the issues a pull request body references with a closing keyword (`close`, `fix` or `resolve`
+ * and their variants, e.g. `Fixes #123` or `Closes owner/repo#45`).
+ *
+ * @param {string} body - The pull request body
+ * @returns {IssueReference[]} The referenced issues in order of appearance, without duplicates
+ */
+export function getClosingIssueReferences(body: string): IssueReference[] {
+  const references = new Map<string, IssueReference>();
+  for (const [, repository, number] of body.matchAll(CLOSING_ISSUE_REFERENCE_REGEX)) {
+    const key = `${repository ?? ''}#${number}`.toLowerCase();
+    if (!references.has(key)) {
+      references.set(key, { repository: repository ?? null, number: Number(number) });
+    }
+  }
+
+  return [...references.values()];
+}
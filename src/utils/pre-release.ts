@@ -0,0 +1,49 @@
+import { config } from '@/config';
+import { context } from '@/context';
+import { PRE_RELEASE_CHANNEL_REGEX, PRE_RELEASE_LABEL_PREFIX } from '@/utils/constants';
+import { warning } from '@actions/core';
+import { minimatch } from 'minimatch';
+
+/**
+ * Resolves the pre-release channel (e.g., "rc", "beta", "alpha") that applies to the current pull request.
+ *
+ * The channel is selected from the following sources, in order of precedence:
+ * 1. A `pre-release:<channel>` pull request label (the first valid one wins)
+ * 2. The first `pre-release-channel-branches` entry whose branch pattern matches the pull request's base branch
+ * 3. The `pre-release-channel` input
+ *
+ * Labels with an invalid channel name are ignored with a warning rather than failing the run, since labels
+ * are not validated by the config like the inputs are.
+ *
+ * @returns {string | null} The active pre-release channel, or null when releases should be final versions
+ *
+ * @example
+ * ```typescript
+ * // PR labeled "pre-release:beta"
+ * getPreReleaseChannel(); // 'beta'
+ * ```
+ */
+export function getPreReleaseChannel(): string | null {
+  for (const label of context.prLabels) {
+    if (!label.startsWith(PRE_RELEASE_LABEL_PREFIX)) {
+      continue;
+    }
+
+    const channel = label.slice(PRE_RELEASE_LABEL_PREFIX.length).trim();
+    if (PRE_RELEASE_CHANNEL_REGEX.test(channel)) {
+      return channel;
+    }
+
+    warning(`Ignoring pull request label '${label}': '${channel}' is not a valid pre-release channel`);
+  }
+
+  for (const entry of config.preReleaseChannelBranches) {
+    // Entries are validated as 'branch-pattern=channel' during config initialization
+    const [pattern, channel] = entry.split('=').map((part) => part.trim());
+    if (minimatch(context.baseRef, pattern)) {
+      return channel;
+    }
+  }
+
+  return config.preReleaseChannel === '' ? null : config.preReleaseChannel;
+}
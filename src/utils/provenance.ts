@@ -0,0 +1,164 @@
+import { type ExecFileSyncOptions, execFileSync } from 'node:child_process';
+import { context } from '@/context';
+import type { TerraformModule } from '@/terraform-module';
+import type { ProvenanceStatement, ProvenanceSubject, ProvenanceVerification, TreeFile } from '@/types';
+import { sha256 } from '@/utils/archive';
+import {
+  IN_TOTO_STATEMENT_TYPE,
+  PROJECT_URL,
+  PROVENANCE_BUILD_TYPE,
+  SLSA_PROVENANCE_PREDICATE_TYPE,
+} from '@/utils/constants';
+import { compareOrdinal } from '@/utils/string';
+
+/**
+ * The largest git output read at once: a whole tree listing or a single file of a module.
+ */
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+
+/**
+ * Reads the files of a git tree, e.g. of a release tag.
+ *
+ * @param {string} gitPath - The path of the git executable.
+ * @param {ExecFileSyncOptions} execOptions - The options running git in the repository.
+ * @param {string} ref - The commit, tag or tree to read.
+ * @returns {TreeFile[]} The files of the tree. Submodules are left out.
+ */
+export function readGitTreeFiles(gitPath: string, execOptions: ExecFileSyncOptions, ref: string): TreeFile[] {
+  const gitOpts = { ...execOptions, encoding: 'buffer' as const, maxBuffer: GIT_MAX_BUFFER };
+  const listing = execFileSync(gitPath, ['ls-tree', '-r', '-z', ref], gitOpts).toString();
+
+  const files: TreeFile[] = [];
+  for (const entry of listing.split('\0').filter(Boolean)) {
+    // Each entry is "<mode> <type> <object>\t<path>"
+    const tabIndex = entry.indexOf('\t');
+    const [mode, type, object] = entry.slice(0, tabIndex).split(' ');
+    if (type === 'blob') {
+      files.push({
+        path: entry.slice(tabIndex + 1),
+        mode,
+        data: execFileSync(gitPath, ['cat-file', 'blob', object], gitOpts),
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Computes the tree digest of a set of files: the SHA-256 digest of a manifest listing one
+ * `<mode> <sha256>\t<path>` line per file, sorted by path. Unlike a git tree ID, it does not depend on
+ * git's SHA-1 object format, so it can be recomputed from any copy of the files.
+ *
+ * @param {TreeFile[]} files - The files of the tree.
+ * @returns {string} The hex-encoded tree digest.
+ *
+ * @example
+ * ```typescript
+ * computeTreeDigest([{ path: 'main.tf', mode: '100644', data }]);
+ * // Returns: sha256 of "100644 <sha256 of data>\tmain.tf\n"
+ * ```
+ */
+export function computeTreeDigest(files: TreeFile[]): string {
+  const manifest = files
+    .map(({ path, mode, data }) => ({ path, line: `${mode} ${sha256(data)}\t${path}\n` }))
+    .sort((a, b) => compareOrdinal(a.path, b.path))
+    .map(({ line }) => line)
+    .join('');
+
+  return sha256(Buffer.from(manifest, 'utf8'));
+}
+
+/**
+ * Creates the provenance statement of a module release: an in-toto statement with a SLSA provenance
+ * predicate recording the source repository, the pull request and its merge commit.
+ *
+ * The first subject is the release tag, with the tree digest of its files and the commit it points at;
+ * the release assets follow with their SHA-256 digests.
+ *
+ * @param {TerraformModule} module - The released module.
+ * @param {string} releaseTag - The release tag.
+ * @param {string} tagCommitSHA - The commit the release tag points at.
+ * @param {string} treeDigest - The tree digest of the tag's files (see {@link computeTreeDigest}).
+ * @param {Array<{ name: string; data: Buffer }>} assetFiles - The other release assets.
+ * @returns {ProvenanceStatement} The provenance statement.
+ */
+export function createProvenanceStatement(
+  module: TerraformModule,
+  releaseTag: string,
+  tagCommitSHA: string,
+  treeDigest: string,
+  assetFiles: Array<{ name: string; data: Buffer }>,
+): ProvenanceStatement {
+  const { repoUrl, prNumber, mergeCommitSha } = context;
+
+  return {
+    _type: IN_TOTO_STATEMENT_TYPE,
+    subject: [
+      { name: releaseTag, digest: { sha256: treeDigest, gitCommit: tagCommitSHA } },
+      ...assetFiles.map(({ name, data }) => ({ name, digest: { sha256: sha256(data) } })),
+    ],
+    predicateType: SLSA_PROVENANCE_PREDICATE_TYPE,
+    predicate: {
+      buildDefinition: {
+        buildType: PROVENANCE_BUILD_TYPE,
+        externalParameters: { repository: repoUrl, pullRequest: prNumber, module: module.name, releaseTag },
+        resolvedDependencies:
+          mergeCommitSha === null ? [] : [{ uri: `git+${repoUrl}`, digest: { gitCommit: mergeCommitSha } }],
+      },
+      runDetails: {
+        builder: { id: PROJECT_URL },
+      },
+    },
+  };
+}
+
+/**
+ * Verifies a release tag against its provenance statement: the tag must point at the commit the statement
+ * records, and the tree digest recomputed from the tag's files must match the statement's.
+ *
+ * @param {string} gitPath - The path of the git executable.
+ * @param {ExecFileSyncOptions} execOptions - The options running git in a clone that has the tag.
+ * @param {string} tagName - The release tag to verify.
+ * @param {ProvenanceStatement} statement - The statement from the release's provenance asset.
+ * @returns {ProvenanceVerification} The verification result, listing every mismatch.
+ *
+ * @example
+ * ```typescript
+ * const statement = JSON.parse(readFileSync('provenance.intoto.json', 'utf8'));
+ * const { verified, problems } = verifyTagProvenance(gitPath, { cwd: repoDir }, 'modules/vpc/v1.2.0', statement);
+ * ```
+ */
+export function verifyTagProvenance(
+  gitPath: string,
+  execOptions: ExecFileSyncOptions,
+  tagName: string,
+  statement: ProvenanceStatement,
+): ProvenanceVerification {
+  const tagCommitSHA = execFileSync(gitPath, ['rev-parse', `refs/tags/${tagName}^{commit}`], execOptions)
+    .toString()
+    .trim();
+  const treeDigest = computeTreeDigest(readGitTreeFiles(gitPath, execOptions, tagCommitSHA));
+
+  const problems: string[] = [];
+  const subject: ProvenanceSubject | undefined = statement.subject?.find(({ name }) => name === tagName);
+  if (statement._type !== IN_TOTO_STATEMENT_TYPE || statement.predicateType !== SLSA_PROVENANCE_PREDICATE_TYPE) {
+    problems.push('The statement is not an in-toto statement with a SLSA provenance predicate');
+  }
+  if (subject === undefined) {
+    problems.push(`The statement has no subject for tag '${tagName}'`);
+  } else {
+    if (subject.digest.gitCommit !== tagCommitSHA) {
+      problems.push(
+        `Tag '${tagName}' points at commit ${tagCommitSHA}, but the statement records ${subject.digest.gitCommit}`,
+      );
+    }
+    if (subject.digest.sha256 !== treeDigest) {
+      problems.push(
+        `The files of tag '${tagName}' have the tree digest ${treeDigest}, but the statement records ${subject.digest.sha256}`,
+      );
+    }
+  }
+
+  return { verified: problems.length === 0, tagCommitSHA, treeDigest, problems };
+}
@@ -0,0 +1,80 @@
+import { higherPriorityReleaseType } from '@/commit-analyzer';
+import { context } from '@/context';
+import type { TerraformModule } from '@/terraform-module';
+import type { ReleaseLabelOverride } from '@/types';
+import { RELEASE_LABEL_PREFIX, RELEASE_LABEL_SKIP, VALID_SEMVER_LEVELS } from '@/utils/constants';
+import { warning } from '@actions/core';
+
+const VALID_RELEASE_LABEL_VALUES: ReadonlyArray<string> = [...VALID_SEMVER_LEVELS, RELEASE_LABEL_SKIP];
+
+/**
+ * Returns the higher-priority of two label overrides: any release type beats `skip`, and among release
+ * types MAJOR > MINOR > PATCH.
+ */
+function higherPriorityOverride(
+  current: ReleaseLabelOverride | null,
+  candidate: ReleaseLabelOverride,
+): ReleaseLabelOverride {
+  if (current === null || current === RELEASE_LABEL_SKIP) {
+    return candidate;
+  }
+  if (candidate === RELEASE_LABEL_SKIP) {
+    return current;
+  }
+  return higherPriorityReleaseType(current, candidate);
+}
+
+/**
+ * Resolves the release type override that `release:<type>[:<scope>]` pull request labels request for a module.
+ *
+ * Supported label values are `major`, `minor`, `patch` and `skip`. An optional scope restricts the label to
+ * the module whose name or directory name equals the scope (see {@link TerraformModule.matchesScope}), e.g.
+ * `release:major:kms` applies to `modules/kms`. Scoped labels take precedence over unscoped ones. When several
+ * labels apply at the same level, the highest release type wins and `skip` only applies if no release type was
+ * requested.
+ *
+ * Labels with an invalid value are ignored with a warning rather than failing the run, since labels are
+ * not validated by the config like the inputs are.
+ *
+ * @param {TerraformModule} module - The module to resolve the override for
+ * @returns {ReleaseLabelOverride | null} The requested release type, `'skip'`, or null when no label applies
+ *
+ * @example
+ * ```typescript
+ * // PR labeled "release:minor" and "release:skip:vpc"
+ * getReleaseLabelOverride(kmsModule); // 'minor'
+ * getReleaseLabelOverride(vpcModule); // 'skip'
+ * ```
+ */
+export function getReleaseLabelOverride(module: TerraformModule): ReleaseLabelOverride | null {
+  let scopedOverride: ReleaseLabelOverride | null = null;
+  let unscopedOverride: ReleaseLabelOverride | null = null;
+
+  for (const label of context.prLabels) {
+    if (!label.startsWith(RELEASE_LABEL_PREFIX)) {
+      continue;
+    }
+
+    const [value, ...scopeParts] = label.slice(RELEASE_LABEL_PREFIX.length).split(':');
+    const releaseType = value.trim().toLowerCase();
+    if (!VALID_RELEASE_LABEL_VALUES.includes(releaseType)) {
+      warning(
+        `Ignoring pull request label '${label}': '${releaseType}' is not a valid release type. Must be one of: ${VALID_RELEASE_LABEL_VALUES.join(', ')}`,
+      );
+      continue;
+    }
+
+    const override = releaseType as ReleaseLabelOverride;
+    if (scopeParts.length === 0) {
+      unscopedOverride = higherPriorityOverride(unscopedOverride, override);
+      continue;
+    }
+
+    const scope = scopeParts.join(':').trim();
+    if (module.matchesScope(scope)) {
+      scopedOverride = higherPriorityOverride(scopedOverride, override);
+    }
+  }
+
+  return scopedOverride ?? unscopedOverride;
+}
@@ -1,3 +1,5 @@
+import type { TemplateOptions, TemplateVariables } from '@/types';
+
 /**
  * Removes trailing characters from a string without using regex.
  *
@@ -56,13 +58,140 @@ export function removeLeadingCharacters(input: string, charactersToRemove: strin
   return input.slice(startIndex);
 }
 
+/**
+ * Matches the block tags of a template: `{{#each key}}`, `{{#if key}}`, `{{else}}`, `{{/each}}` and `{{/if}}`.
+ */
+const TEMPLATE_BLOCK_TAG_REGEX = /\{\{(?:#(each|if) (\w+)|(else|\/each|\/if))\}\}/g;
+
+/**
+ * A parsed `{{#each}}` or `{{#if}}` block: the nodes rendered when the block applies and the nodes
+ * following its `{{else}}` tag, if any.
+ */
+interface TemplateBlock {
+  kind: 'each' | 'if';
+  key: string;
+  body: TemplateNode[];
+  alternate: TemplateNode[];
+}
+
+/**
+ * A parsed template node: literal text with `{{key}}` placeholders, or a block.
+ */
+type TemplateNode = string | TemplateBlock;
+
+/**
+ * Parses a template into a tree of text and block nodes.
+ *
+ * @throws {Error} If a block is not closed, closed by the wrong tag, or has more than one `{{else}}`
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const openBlocks: Array<{ block: TemplateBlock; inAlternate: boolean }> = [];
+  const currentNodes = (): TemplateNode[] => {
+    const open = openBlocks.at(-1);
+    if (open === undefined) {
+      return root;
+    }
+    return open.inAlternate ? open.block.alternate : open.block.body;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TEMPLATE_BLOCK_TAG_REGEX)) {
+    const [tag, kind, key, closingTag] = match;
+    currentNodes().push(template.slice(lastIndex, match.index));
+    lastIndex = match.index + tag.length;
+
+    if (kind !== undefined) {
+      const block: TemplateBlock = { kind: kind as TemplateBlock['kind'], key, body: [], alternate: [] };
+      currentNodes().push(block);
+      openBlocks.push({ block, inAlternate: false });
+      continue;
+    }
+
+    const open = openBlocks.at(-1);
+    if (closingTag === 'else') {
+      if (open === undefined || open.inAlternate) {
+        throw new Error(`Unexpected ${tag} in template`);
+      }
+      open.inAlternate = true;
+      continue;
+    }
+
+    if (open === undefined || closingTag !== `/${open.block.kind}`) {
+      throw new Error(`Unexpected ${tag} in template`);
+    }
+    openBlocks.pop();
+  }
+
+  const unclosed = openBlocks.at(-1);
+  if (unclosed !== undefined) {
+    throw new Error(`Unclosed {{#${unclosed.block.kind} ${unclosed.block.key}}} in template`);
+  }
+  root.push(template.slice(lastIndex));
+
+  return root;
+}
+
+/**
+ * Renders parsed template nodes. Items of an `{{#each}}` block, and of a list used as a flat `{{key}}`
+ * placeholder with an item template, are rendered with their own fields layered over the outer variables.
+ */
+function renderTemplateNodes(
+  nodes: TemplateNode[],
+  variables: TemplateVariables,
+  listItemTemplates: Record<string, string>,
+): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') {
+        return node.replaceAll(/\{\{(\w+)\}\}/g, (placeholder, key) => {
+          const value = variables[key];
+          const itemTemplate = listItemTemplates[key];
+          if (Array.isArray(value) && itemTemplate !== undefined) {
+            const itemNodes = parseTemplate(itemTemplate);
+            return value
+              .map((item) => renderTemplateNodes(itemNodes, { ...variables, ...item }, listItemTemplates))
+              .join('\n');
+          }
+          return typeof value === 'string' || typeof value === 'boolean' ? String(value) : placeholder;
+        });
+      }
+
+      const value = variables[node.key];
+      if (node.kind === 'each') {
+        const items = Array.isArray(value) ? value : [];
+        if (items.length === 0) {
+          return renderTemplateNodes(node.alternate, variables, listItemTemplates);
+        }
+        return items
+          .map((item) => renderTemplateNodes(node.body, { ...variables, ...item }, listItemTemplates))
+          .join('');
+      }
+
+      const isTruthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+      return renderTemplateNodes(isTruthy ? node.body : node.alternate, variables, listItemTemplates);
+    })
+    .join('');
+}
+
 /**
  * Renders a template string by replacing placeholders with provided values.
  *
+ * Besides `{{key}}` placeholders, templates support two kinds of blocks, which may be nested:
+ * - `{{#each key}}...{{/each}}` renders its content once per item of a list, where placeholders refer to
+ *   the fields of the item before the outer variables. An optional `{{else}}` renders when the list is empty.
+ * - `{{#if key}}...{{else}}...{{/if}}` renders its content when the value is a non-empty string, `true` or
+ *   a non-empty list, and the optional `{{else}}` content otherwise.
+ *
+ * Blocks are not parsed with `blocks: false`, for templates written before blocks were supported. A list
+ * used as a flat `{{key}}` placeholder is rendered with its item template from `listItemTemplates`, if any.
+ *
  * @param template The template string containing placeholders in the format `{{key}}`.
  * @param variables An object where keys correspond to placeholder names and values are their replacements.
  *                   If a value is undefined or null, the placeholder will be left unchanged.
+ * @param options How the template is rendered, see {@link TemplateOptions}.
  * @returns The rendered string with placeholders replaced.
+ * @throws {Error} If blocks are parsed and a block is not closed or is closed by the wrong tag.
  *
  * @example
  * // Returns "Hello, World!"
@@ -79,9 +208,25 @@ export function removeLeadingCharacters(input: string, charactersToRemove: strin
  * @example
  * // Returns "Hello, {{name}}!" (null value leaves placeholder unchanged)
  * renderTemplate("Hello, {{name}}!", { name: null })
+ *
+ * @example
+ * // Returns "- a- b"
+ * renderTemplate("{{#each items}}- {{name}}{{/each}}", { items: [{ name: "a" }, { name: "b" }] })
+ *
+ * @example
+ * // Returns "No items"
+ * renderTemplate("{{#if items}}Items{{else}}No items{{/if}}", { items: [] })
+ *
+ * @example
+ * // Returns "- a\n- b"
+ * renderTemplate("{{items}}", { items: [{ name: "a" }, { name: "b" }] }, { listItemTemplates: { items: "- {{name}}" } })
  */
-export function renderTemplate(template: string, variables: Record<string, string | undefined | null>): string {
-  return template.replaceAll(/\{\{(\w+)\}\}/g, (placeholder, key) => variables[key] ?? placeholder);
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  { blocks = true, listItemTemplates = {} }: TemplateOptions = {},
+): string {
+  return renderTemplateNodes(blocks ? parseTemplate(template) : [template], variables, listItemTemplates);
 }
 
 /**
@@ -142,3 +287,72 @@ export function getExecErrorMessage(err: unknown): string {
   const stderrText = typeof stderr === 'string' ? stderr : stderr?.toString('utf8');
   return [err instanceof Error ? err.message : String(err), stderrText].filter(Boolean).join('\n').trim();
 }
+
+/**
+ * Creates a line diff between two texts: every line prefixed with `-` (removed), `+` (added) or a space
+ * (unchanged), in the order of a unified diff. Lines are matched with a longest common subsequence, which is
+ * fine for texts the size of a release body.
+ *
+ * @param {string} before - The original text.
+ * @param {string} after - The changed text.
+ * @returns {string} The diff lines joined with newlines, or an empty string when the texts are equal.
+ *
+ * @example
+ * createLineDiff('a\nb', 'a\nc');
+ * // Returns: ' a\n-b\n+c'
+ */
+export function createLineDiff(before: string, after: string): string {
+  if (before === after) {
+    return '';
+  }
+
+  const beforeLines = before.split(/\r?\n/);
+  const afterLines = after.split(/\r?\n/);
+
+  // commonLengths[i][j] is the length of the longest common subsequence of beforeLines[i:] and afterLines[j:]
+  const commonLengths = Array.from({ length: beforeLines.length + 1 }, () =>
+    new Array<number>(afterLines.length + 1).fill(0),
+  );
+  for (let i = beforeLines.length - 1; i >= 0; i--) {
+    for (let j = afterLines.length - 1; j >= 0; j--) {
+      commonLengths[i][j] =
+        beforeLines[i] === afterLines[j]
+          ? commonLengths[i + 1][j + 1] + 1
+          : Math.max(commonLengths[i + 1][j], commonLengths[i][j + 1]);
+    }
+  }
+
+  const diffLines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < beforeLines.length || j < afterLines.length) {
+    if (i < beforeLines.length && j < afterLines.length && beforeLines[i] === afterLines[j]) {
+      diffLines.push(` ${beforeLines[i++]}`);
+      j++;
+    } else if (
+      i < beforeLines.length &&
+      (j === afterLines.length || commonLengths[i + 1][j] >= commonLengths[i][j + 1])
+    ) {
+      diffLines.push(`-${beforeLines[i++]}`);
+    } else {
+      diffLines.push(`+${afterLines[j++]}`);
+    }
+  }
+
+  return diffLines.join('\n');
+}
+
+/**
+ * Compares strings by UTF-16 code units, which unlike `localeCompare` does not depend on the runner's locale.
+ *
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @returns {number} A negative number, zero or a positive number, for sorting.
+ *
+ * @example
+ * ['b', 'B', 'a'].sort(compareOrdinal);
+ * // Returns: ['B', 'a', 'b']
+ */
+export function compareOrdinal(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,143 @@
+import { type ExecFileSyncOptions, execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { config } from '@/config';
+import { SIGNING_KEY_TRAILER, TAG_SIGNING } from '@/utils/constants';
+import { getExecErrorMessage } from '@/utils/string';
+import { info } from '@actions/core';
+import which from 'which';
+
+/**
+ * The git configuration and environment that sign a tag with an imported key.
+ */
+interface TagSigner {
+  /** The `-c key=value` arguments configuring git to sign with the key. */
+  gitArgs: string[];
+  /** Environment variables git needs to reach the key. */
+  env: NodeJS.ProcessEnv;
+  /** The fingerprint of the key, recorded in the tag message. */
+  fingerprint: string;
+}
+
+/**
+ * Imports an ASCII-armored GPG secret key into a keyring of its own, so that the runner's keyring is
+ * neither used nor modified.
+ */
+function createGpgSigner(keyDir: string, keyFile: string): TagSigner {
+  const gpgPath = which.sync('gpg');
+  const env = { ...process.env, GNUPGHOME: keyDir };
+
+  execFileSync(gpgPath, ['--batch', '--import', keyFile], { env });
+  const keyListing = execFileSync(gpgPath, ['--batch', '--with-colons', '--list-secret-keys'], { env }).toString();
+
+  // The first fingerprint record belongs to the primary key
+  const fingerprint = keyListing
+    .split('\n')
+    .find((line) => line.startsWith('fpr:'))
+    ?.split(':')[9];
+  if (!fingerprint) {
+    throw new Error('tag-signing-key does not contain a GPG secret key');
+  }
+
+  return {
+    gitArgs: ['-c', 'gpg.format=openpgp', '-c', `gpg.program=${gpgPath}`, '-c', `user.signingkey=${fingerprint}`],
+    env,
+    fingerprint,
+  };
+}
+
+/**
+ * Configures git to sign with an OpenSSH private key file.
+ */
+function createSshSigner(keyFile: string): TagSigner {
+  const sshKeygenPath = which.sync('ssh-keygen');
+
+  // Prints e.g. "256 SHA256:2FkQ... comment (ED25519)"
+  const fingerprint = execFileSync(sshKeygenPath, ['-l', '-f', keyFile]).toString().trim().split(/\s+/)[1];
+  if (!fingerprint) {
+    throw new Error('tag-signing-key does not contain an SSH private key');
+  }
+
+  return {
+    gitArgs: ['-c', 'gpg.format=ssh', '-c', `gpg.ssh.program=${sshKeygenPath}`, '-c', `user.signingkey=${keyFile}`],
+    env: process.env,
+    fingerprint,
+  };
+}
+
+/**
+ * Creates a release tag as configured by the `tag-signing` input.
+ *
+ * - `none`: a lightweight tag.
+ * - `annotated`: an annotated tag whose message is the tag name followed by the release changelog.
+ * - `gpg` / `ssh`: the same annotated tag, signed with the `tag-signing-key` and ending with a
+ *   `Signing-Key: <fingerprint>` trailer that records which key signed it.
+ *
+ * The tag message is kept verbatim: git's default cleanup would strip the changelog's `#` headings as
+ * comments. The key is written to a private temporary directory (GPG keys are imported into a keyring
+ * there) that is removed once the tag is created, whether or not signing succeeded.
+ *
+ * The tag still points at the release commit, whose message carries the release marker, so tag provenance
+ * checks work the same for every mode.
+ *
+ * @param {string} gitPath - The path of the git executable.
+ * @param {ExecFileSyncOptions} gitOpts - The options running git in the release's working directory.
+ * @param {string} releaseTag - The name of the tag to create.
+ * @param {string} changelog - The release changelog, used as the message of annotated tags.
+ * @throws {Error} If the key cannot be read or the tag cannot be signed.
+ *
+ * @example
+ * ```typescript
+ * // With config.tagSigning = 'ssh'
+ * createReleaseTag(gitPath, { cwd: tmpDir }, 'modules/vpc/v1.2.0', changelog);
+ * // Message: "modules/vpc/v1.2.0\n\n<changelog>\n\nSigning-Key: SHA256:2FkQ..."
+ * ```
+ */
+export function createReleaseTag(
+  gitPath: string,
+  gitOpts: ExecFileSyncOptions,
+  releaseTag: string,
+  changelog: string,
+): void {
+  const { tagSigning, tagSigningKey } = config;
+  const message = `${releaseTag}\n\n${changelog}`.trim();
+
+  if (tagSigning === TAG_SIGNING.NONE) {
+    execFileSync(gitPath, ['tag', releaseTag], gitOpts);
+    return;
+  }
+
+  if (tagSigning === TAG_SIGNING.ANNOTATED) {
+    execFileSync(gitPath, ['tag', '--annotate', '--cleanup=verbatim', '-m', message, releaseTag], gitOpts);
+    return;
+  }
+
+  const keyDir = mkdtempSync(join(tmpdir(), 'tag-signing-'));
+  try {
+    const keyFile = join(keyDir, 'signing-key');
+    writeFileSync(keyFile, `${tagSigningKey.trim()}\n`, { mode: 0o600 });
+
+    const signer = tagSigning === TAG_SIGNING.GPG ? createGpgSigner(keyDir, keyFile) : createSshSigner(keyFile);
+    execFileSync(
+      gitPath,
+      [
+        ...signer.gitArgs,
+        'tag',
+        '--sign',
+        '--cleanup=verbatim',
+        '-m',
+        `${message}\n\n${SIGNING_KEY_TRAILER}: ${signer.fingerprint}`,
+        releaseTag,
+      ],
+      { ...gitOpts, env: signer.env },
+    );
+    info(`Signed tag ${releaseTag} with ${tagSigning} key ${signer.fingerprint}`);
+  } catch (error) {
+    throw new Error(`Failed to sign tag ${releaseTag} with the ${tagSigning} key: ${getExecErrorMessage(error)}`, {
+      cause: error,
+    });
+  } finally {
+    rmSync(keyDir, { recursive: true, force: true });
+  }
+}
@@ -319,15 +319,19 @@ async function generateWikiTerraformModule(terraformModule: TerraformModule): Pr
     bufferedInfo(`Warning: No ref available for module '${terraformModule.name}' (tag: '${latestTag}')`);
   }
 
-  const usage = renderTemplate(config.wikiUsageTemplate, {
-    module_name: terraformModule.name,
-    latest_tag: latestTag,
-    latest_tag_version_number: terraformModule.getLatestTagVersionNumber(),
-    ref: ref,
-    ref_comment: refComment,
-    module_source: moduleSource,
-    module_name_terraform: terraformModule.name.replaceAll(/[^a-zA-Z0-9]/g, '_').toLowerCase(),
-  });
+  const usage = renderTemplate(
+    config.wikiUsageTemplate,
+    {
+      module_name: terraformModule.name,
+      latest_tag: latestTag,
+      latest_tag_version_number: terraformModule.getLatestTagVersionNumber(),
+      ref: ref,
+      ref_comment: refComment,
+      module_source: moduleSource,
+      module_name_terraform: terraformModule.name.replaceAll(/[^a-zA-Z0-9]/g, '_').toLowerCase(),
+    },
+    { blocks: false },
+  );
 
   const content = [
     '# Usage\n',